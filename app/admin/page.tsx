@@ -8,11 +8,6 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
-import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem } from "@/components/ui/command"
-import { Textarea } from "@/components/ui/textarea"
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import {
   Coffee,
   DollarSign,
@@ -27,56 +22,42 @@ import {
   Home,
   TrendingUp,
   Download,
-  Plus,
   MessageSquare,
-  ChevronsUpDown,
   Package2,
   ShoppingCart,
   ClipboardList,
   BarChart3,
+  UtensilsCrossed,
+  MapPin,
+  QrCode,
 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import Link from "next/link"
-import { fetchMenuItems } from "@/lib/api"
+import { fetchActiveSpecials } from "@/lib/specials-api"
 import { InventoryItems } from "@/components/inventory-items"
 import { OrderInventory } from "@/components/order-inventory"
 import { RequiredInventory } from "@/components/required-inventory"
 import { InventoryInsights } from "@/components/inventory-insights"
 import { FeedbackManagement } from "@/components/feedback-management"
 import { OrderManagement } from "@/components/order-management"
-import { fetchOrderStats, fetchRevenueStats, fetchDashboardStats, downloadDashboardExport } from "@/lib/order-api"
-import { login } from "@/lib/auth-api"
-
-interface Order {
-  id: string
-  items: Array<{
-    name: string
-    price: number
-    quantity: number
-    specialInstructions?: string
-    subtotal: string
-  }>
-  total: string
-  customerName: string
-  phoneNumber?: string
-  generalInstructions?: string
-  status: string
-  paymentStatus: string
-  date: string
-  timestamp: string
-  // Legacy fields for older saved orders (to keep code compatible)
-  item?: string
-  quantity?: number
-}
-
-interface Special {
-  id: number
-  name: string
-  price: number
-  category: string
-  description: string
-  image?: string
-}
+import { MenuManagement } from "@/components/menu-management"
+import { LegacyDataMigration } from "@/components/legacy-data-migration"
+import { SpecialsManagement } from "@/components/specials-management"
+import { LocationSettingsManagement } from "@/components/location-settings"
+import { TableQrCodes } from "@/components/table-qr-codes"
+import {
+  fetchOrderStats,
+  fetchRevenueStats,
+  fetchDashboardStats,
+  downloadDashboardExport,
+  invalidateOrderQueries,
+} from "@/lib/order-api"
+import { login, logout } from "@/lib/auth-api"
+import { useOrderEvents } from "@/hooks/use-order-events"
+import { useQuery } from "@/hooks/use-query"
+import { queryKeys } from "@/lib/query-cache"
+import { playNewOrderChime } from "@/lib/order-alert"
+import { getErrorToast } from "@/lib/api-errors"
 
 // Helper function to convert menu item name to file name
 function getImageFileName(itemName: string): string {
@@ -94,744 +75,31 @@ export default function AdminPage() {
   const [currentUser, setCurrentUser] = useState("") // Add this line
   const [username, setUsername] = useState("")
   const [password, setPassword] = useState("")
-  const [orders, setOrders] = useState<Order[]>([])
-  const [todaysSpecials, setTodaysSpecials] = useState<Special[]>([])
-  const [newSpecial, setNewSpecial] = useState({
-    name: "",
-    price: "",
-    category: "",
-    description: "",
-  })
-  // Orders Today from API (superadmin dashboard)
-  const [ordersTodayApi, setOrdersTodayApi] = useState<number | null>(null)
-  const [dailyRevenueApi, setDailyRevenueApi] = useState<number | null>(null)
-  const [monthlyRevenueApi, setMonthlyRevenueApi] = useState<number | null>(null)
-  const [pendingOrdersApi, setPendingOrdersApi] = useState<number | null>(null)
-  const [unpaidOrdersApi, setUnpaidOrdersApi] = useState<number | null>(null)
-  const [unpaidAmountApi, setUnpaidAmountApi] = useState<number | null>(null)
-  const [completedOrdersApi, setCompletedOrdersApi] = useState<number | null>(null)
-  const [fastMovingTopQtyApi, setFastMovingTopQtyApi] = useState<number | null>(null)
-  const [showAddSpecial, setShowAddSpecial] = useState(false)
+  // Dashboard stats from API (superadmin), served from the shared query cache.
+  // Order mutations and live events invalidate them, so switching tabs is instant.
+  const statsEnabled = isLoggedIn && userType === "superadmin"
+  const orderStatsQuery = useQuery(queryKeys.orderStats, fetchOrderStats, { enabled: statsEnabled })
+  const revenueStatsQuery = useQuery(queryKeys.revenueStats, fetchRevenueStats, { enabled: statsEnabled })
+  const dashboardStatsQuery = useQuery(queryKeys.dashboardStats, fetchDashboardStats, { enabled: statsEnabled })
+  const dashboardStats = dashboardStatsQuery.data
+  const ordersTodayApi = orderStatsQuery.data?.orders_today ?? null
+  // Paid-only revenue
+  const dailyRevenueApi = revenueStatsQuery.data?.daily_revenue ?? null
+  const monthlyRevenueApi = revenueStatsQuery.data?.monthly_revenue ?? null
+  const pendingOrdersApi = dashboardStats?.pending_orders ?? null
+  const unpaidOrdersApi = dashboardStats?.unpaid_orders ?? null
+  const unpaidAmountApi = dashboardStats?.unpaid_amount ?? null
+  const completedOrdersApi = dashboardStats?.completed_orders ?? null
+  const fastMovingTopQtyApi = dashboardStats
+    ? dashboardStats.fast_moving_items[0]?.total_quantity ?? 0
+    : null
+  const [unseenNewOrders, setUnseenNewOrders] = useState(0)
+  const [showLegacyMigration, setShowLegacyMigration] = useState(false)
   const { toast } = useToast()
   const [isLoading, setIsLoading] = useState(false)
 
-  const [existingMenuItems] = useState([
-    {
-      id: 1,
-      name: "Normal Tea",
-      price: 15,
-      category: "Tea",
-      description: "Classic Indian tea",
-      image: "/images/menu/normal-tea.jpg",
-    },
-    {
-      id: 2,
-      name: "Black Tea",
-      price: 15,
-      category: "Tea", 
-      description: "Pure black tea",
-      image: "/images/menu/black-tea.jpg",
-    },
-    {
-      id: 3,
-      name: "Masala Tea",
-      price: 22,
-      category: "Tea",
-      description: "Traditional spiced tea", 
-      image: "/images/menu/masala-tea.jpg",
-    },
-    {
-      id: 4,
-      name: "Special Masala Tea",
-      price: 25,
-      category: "Tea",
-      description: "Spicy masala tea with a twist",
-      image: "/images/menu/special-masala-tea.jpg",
-    },
-    {
-      id: 5,
-      name: "Elachi Tea",
-      price: 20,
-      category: "Tea",
-      description: "Cardamom-infused tea",
-      image: "/images/menu/elachi-tea.jpg",
-    },
-    {
-      id: 6,
-      name: "Ginger Tea",
-      price: 20,
-      category: "Tea",
-      description: "Warming ginger tea",
-      image: "/images/menu/ginger-tea.jpg",
-    },
-    {
-      id: 7,
-      name: "Green Tea",
-      price: 20,
-      category: "Tea",
-      description: "Refreshing green tea",
-      image: "/images/menu/green-tea.jpg",
-    },
-    {
-      id: 8,
-      name: "Green Tea with Honey",
-      price: 25,
-      category: "Tea",
-      description: "Green tea sweetened with honey",
-      image: "/images/menu/green-tea-with-honey.jpg",
-    },
-    {
-      id: 9,
-      name: "Honey Lemon Tea",
-      price: 25,
-      category: "Tea",
-      description: "Lemon tea with a hint of honey",
-      image: "/images/menu/honey-lemon-tea.jpg",
-    },
-    {
-      id: 10,
-      name: "Chocolate Tea",
-      price: 30,
-      category: "Tea",
-      description: "Rich chocolate tea",
-      image: "/images/menu/chocolate-tea.jpg",
-    },
-    {
-      id: 11,
-      name: "Kashmiri Kahwa",
-      price: 30,
-      category: "Tea",
-      description: "Saffron-infused Kashmiri tea",
-      image: "/images/menu/kashmiri-kahwa.jpg",
-    },
-    {
-      id: 12,
-      name: "Black Coffee",
-      price: 25,
-      category: "Coffee",
-      description: "Strong black coffee",
-      image: "/images/menu/black-coffee.jpg",
-    },
-    {
-      id: 13,
-      name: "Milk Coffee",
-      price: 30,
-      category: "Coffee",
-      description: "Creamy milk coffee",
-      image: "/images/menu/milk-coffee.jpg",
-    },
-    {
-      id: 14,
-      name: "Special Filter Coffee",
-      price: 35,
-      category: "Coffee",
-      description: "Premium filter coffee",
-      image: "/images/menu/special-filter-coffee.jpg",
-    },
-    {
-      id: 15,
-      name: "Jaggery Coffee",
-      price: 35,
-      category: "Coffee",
-      description: "Sweet jaggery coffee",
-      image: "/images/menu/jaggery-coffee.jpg",
-    },
-    {
-      id: 16,
-      name: "Chocolate Coffee",
-      price: 40,
-      category: "Coffee",
-      description: "Decadent chocolate coffee",
-      image: "/images/menu/chocolate-coffee.jpg",
-    },
-    {
-      id: 17,
-      name: "Belgian Coffee",
-      price: 45,
-      category: "Coffee",
-      description: "Belgian-style coffee",
-      image: "/images/menu/belgian-coffee.jpg",
-    },
-    {
-      id: 18,
-      name: "Coffee On The Rocks",
-      price: 45,
-      category: "Coffee",
-      description: "Iced coffee with a twist",
-      image: "/images/menu/coffee-on-the-rocks.jpg",
-    },
-    {
-      id: 19,
-      name: "Ferrero Coffee",
-      price: 50,
-      category: "Coffee",
-      description: "Ferrero Rocher coffee",
-      image: "/images/menu/ferrero-coffee.jpg",
-    },
-    {
-      id: 20,
-      name: "Hard Rock Coffee",
-      price: 50,
-      category: "Coffee",
-      description: "Hard Rock Cafe-style coffee",
-      image: "/images/menu/hard-rock-coffee.jpg",
-    },
-    {
-      id: 21,
-      name: "Mud Coffee",
-      price: 50,
-      category: "Coffee",
-      description: "Mudslide coffee",
-      image: "/images/menu/mud-coffee.jpg",
-    },
-    {
-      id: 22,
-      name: "Turkish Coffee",
-      price: 50,
-      category: "Coffee",
-      description: "Traditional Turkish coffee",
-      image: "/images/menu/turkish-coffee.jpg",
-    },
-    {
-      id: 23,
-      name: "Fresh Lime",
-      price: 25,
-      category: "Juice",
-      description: "Refreshing lime juice",
-      image: "/images/menu/fresh-lime.jpg",
-    },
-    {
-      id: 24,
-      name: "Ginger Lime",
-      price: 30,
-      category: "Juice",
-      description: "Spicy ginger lime juice",
-      image: "/images/menu/ginger-lime.jpg",
-    },
-    {
-      id: 25,
-      name: "Jaljeera",
-      price: 30,
-      category: "Juice",
-      description: "Spiced jaljeera drink",
-      image: "/images/menu/jaljeera.jpg",
-    },
-    {
-      id: 26,
-      name: "Watermelon",
-      price: 35,
-      category: "Juice",
-      description: "Fresh watermelon juice",
-      image: "/images/menu/watermelon.jpg",
-    },
-    {
-      id: 27,
-      name: "Pineapple",
-      price: 35,
-      category: "Juice",
-      description: "Tangy pineapple juice",
-      image: "/images/menu/pineapple.jpg",
-    },
-    {
-      id: 28,
-      name: "Mango",
-      price: 35,
-      category: "Juice",
-      description: "Sweet mango juice",
-      image: "/images/menu/mango.jpg",
-    },
-    {
-      id: 29,
-      name: "Mango Alphonso",
-      price: 40,
-      category: "Juice",
-      description: "Premium Alphonso mango juice",
-      image: "/images/menu/mango-alphonso.jpg",
-    },
-    {
-      id: 30,
-      name: "Banana",
-      price: 35,
-      category: "Juice",
-      description: "Creamy banana juice",
-      image: "/images/menu/banana.jpg",
-    },
-    {
-      id: 31,
-      name: "Chickoo",
-      price: 35,
-      category: "Juice",
-      description: "Sweet chickoo juice",
-      image: "/images/menu/chickoo.jpg",
-    },
-    {
-      id: 32,
-      name: "Musk Melon",
-      price: 35,
-      category: "Juice",
-      description: "Exotic musk melon juice",
-      image: "/images/menu/musk-melon.jpg",
-    },
-    {
-      id: 33,
-      name: "Avocado",
-      price: 40,
-      category: "Juice",
-      description: "Creamy avocado juice",
-      image: "/images/menu/avocado.jpg",
-    },
-    {
-      id: 34,
-      name: "Badam Milk",
-      price: 40,
-      category: "Milk",
-      description: "Almond milk",
-      image: "/images/menu/badam-milk.jpg",
-    },
-    {
-      id: 35,
-      name: "Boost Milk",
-      price: 40,
-      category: "Milk",
-      description: "Boost energy drink",
-      image: "/images/menu/boost-milk.jpg",
-    },
-    {
-      id: 36,
-      name: "Cold Boost",
-      price: 45,
-      category: "Milk",
-      description: "Iced Boost energy drink",
-      image: "/images/menu/cold-boost.jpg",
-    },
-    {
-      id: 37,
-      name: "Cold Bournvita",
-      price: 45,
-      category: "Milk",
-      description: "Iced Bournvita drink",
-      image: "/images/menu/cold-bournvita.jpg",
-    },
-    {
-      id: 38,
-      name: "Horlicks Milk",
-      price: 45,
-      category: "Milk",
-      description: "Horlicks malted drink",
-      image: "/images/menu/horlicks-milk.jpg",
-    },
-    {
-      id: 39,
-      name: "Hot Chocolate Milk",
-      price: 45,
-      category: "Milk",
-      description: "Hot chocolate milk",
-      image: "/images/menu/hot-chocolate-milk.jpg",
-    },
-    {
-      id: 40,
-      name: "Pilani Milk",
-      price: 45,
-      category: "Milk",
-      description: "Pilani milk drink",
-      image: "/images/menu/pilani-milk.jpg",
-    },
-    {
-      id: 41,
-      name: "Butter Milk",
-      price: 25,
-      category: "Milk",
-      description: "Creamy butter milk",
-      image: "/images/menu/butter-milk.jpg",
-    },
-    {
-      id: 42,
-      name: "Nutella Shake",
-      price: 50,
-      category: "Shakes",
-      description: "Chocolate Nutella shake",
-      image: "/images/menu/nutella-shake.jpg",
-    },
-    {
-      id: 43,
-      name: "Dry Fruit Shake",
-      price: 50,
-      category: "Shakes",
-      description: "Mixed dry fruit shake",
-      image: "/images/menu/dry-fruit-shake.jpg",
-    },
-    {
-      id: 44,
-      name: "Berry Blue Berry Shake",
-      price: 50,
-      category: "Shakes",
-      description: "Berry-flavored shake",
-      image: "/images/menu/berry-blue-berry-shake.jpg",
-    },
-    {
-      id: 45,
-      name: "Natural Protein",
-      price: 50,
-      category: "Shakes",
-      description: "Natural protein shake",
-      image: "/images/menu/natural-protein.jpg",
-    },
-    {
-      id: 46,
-      name: "Whey Protein",
-      price: 50,
-      category: "Shakes",
-      description: "Whey protein shake",
-      image: "/images/menu/whey-protein.jpg",
-    },
-    {
-      id: 47,
-      name: "Ice Cream Scoop",
-      price: 30,
-      category: "Ice Cream",
-      description: "Single scoop of ice cream",
-      image: "/images/menu/ice-cream-scoop.jpg",
-    },
-    {
-      id: 48,
-      name: "Vanilla Shoo Shoo",
-      price: 40,
-      category: "Ice Cream",
-      description: "Vanilla ice cream",
-      image: "/images/menu/vanilla-shoo-shoo.jpg",
-    },
-    {
-      id: 49,
-      name: "Strawberry Shoo Shoo",
-      price: 40,
-      category: "Ice Cream",
-      description: "Strawberry ice cream",
-      image: "/images/menu/strawberry-shoo-shoo.jpg",
-    },
-    {
-      id: 50,
-      name: "Chocolate Ice Cream",
-      price: 40,
-      category: "Ice Cream",
-      description: "Chocolate ice cream",
-      image: "/images/menu/chocolate-ice-cream.jpg",
-    },
-    {
-      id: 51,
-      name: "Madagascar Ice Cream",
-      price: 45,
-      category: "Ice Cream",
-      description: "Premium Madagascar vanilla ice cream",
-      image: "/images/menu/madagascar-ice-cream.jpg",
-    },
-    {
-      id: 52,
-      name: "Red Velvet Ice Cream",
-      price: 45,
-      category: "Ice Cream",
-      description: "Red velvet ice cream",
-      image: "/images/menu/red-velvet-ice-cream.jpg",
-    },
-    {
-      id: 53,
-      name: "Butterscotch",
-      price: 45,
-      category: "Ice Cream",
-      description: "Butterscotch ice cream",
-      image: "/images/menu/butterscotch.jpg",
-    },
-    {
-      id: 54,
-      name: "Chocolate",
-      price: 45,
-      category: "Ice Cream",
-      description: "Chocolate ice cream",
-      image: "/images/menu/chocolate.jpg",
-    },
-    {
-      id: 55,
-      name: "Malai Kulfi",
-      price: 45,
-      category: "Ice Cream",
-      description: "Malai kulfi",
-      image: "/images/menu/malai-kulfi.jpg",
-    },
-    {
-      id: 56,
-      name: "Punjab Kulfi",
-      price: 45,
-      category: "Ice Cream",
-      description: "Punjab kulfi",
-      image: "/images/menu/punjab-kulfi.jpg",
-    },
-    {
-      id: 57,
-      name: "Veg Sandwich",
-      price: 50,
-      category: "Sandwich",
-      description: "Vegetable sandwich",
-      image: "/images/menu/veg-sandwich.jpg",
-    },
-    {
-      id: 58,
-      name: "Veg Grilled Sandwich",
-      price: 55,
-      category: "Sandwich",
-      description: "Grilled vegetable sandwich",
-      image: "/images/menu/veg-grilled-sandwich.jpg",
-    },
-    {
-      id: 59,
-      name: "Cheese Grilled Sandwich",
-      price: 60,
-      category: "Sandwich",
-      description: "Grilled cheese sandwich",
-      image: "/images/menu/cheese-grilled-sandwich.jpg",
-    },
-    {
-      id: 60,
-      name: "Corn Cheese Sandwich",
-      price: 60,
-      category: "Sandwich",
-      description: "Corn and cheese sandwich",
-      image: "/images/menu/corn-cheese-sandwich.jpg",
-    },
-    {
-      id: 61,
-      name: "Corn Peri Peri Sandwich",
-      price: 65,
-      category: "Sandwich",
-      description: "Spicy corn peri peri sandwich",
-      image: "/images/menu/corn-peri-peri-sandwich.jpg",
-    },
-    {
-      id: 62,
-      name: "Paneer Sandwich",
-      price: 65,
-      category: "Sandwich",
-      description: "Paneer sandwich",
-      image: "/images/menu/paneer-sandwich.jpg",
-    },
-    {
-      id: 63,
-      name: "Paneer Nutella Sandwich",
-      price: 70,
-      category: "Sandwich",
-      description: "Paneer and Nutella sandwich",
-      image: "/images/menu/paneer-nutella-sandwich.jpg",
-    },
-    {
-      id: 64,
-      name: "Choco Peanut Nutella Sandwich",
-      price: 75,
-      category: "Sandwich",
-      description: "Chocolate, peanut, and Nutella sandwich",
-      image: "/images/menu/choco-peanut-nutella-sandwich.jpg",
-    },
-    {
-      id: 65,
-      name: "Mexican Peri Peri Sandwich",
-      price: 75,
-      category: "Sandwich",
-      description: "Spicy Mexican peri peri sandwich",
-      image: "/images/menu/mexican-peri-peri-sandwich.jpg",
-    },
-    {
-      id: 66,
-      name: "Egg Sandwich",
-      price: 50,
-      category: "Sandwich",
-      description: "Egg sandwich",
-      image: "/images/menu/egg-sandwich.jpg",
-    },
-    {
-      id: 67,
-      name: "Bread Butter Jam",
-      price: 30,
-      category: "Snacks",
-      description: "Bread with butter and jam",
-      image: "/images/menu/bread-butter-jam.jpg",
-    },
-    {
-      id: 68,
-      name: "Bread Omelette",
-      price: 35,
-      category: "Snacks",
-      description: "Bread omelette",
-      image: "/images/menu/bread-omelette.jpg",
-    },
-    {
-      id: 69,
-      name: "Bread Mayo Omelette",
-      price: 40,
-      category: "Snacks",
-      description: "Bread omelette with mayonnaise",
-      image: "/images/menu/bread-mayo-omelette.jpg",
-    },
-    {
-      id: 70,
-      name: "Bun Butter Jam",
-      price: 30,
-      category: "Snacks",
-      description: "Bun with butter and jam",
-      image: "/images/menu/bun-butter-jam.jpg",
-    },
-    {
-      id: 71,
-      name: "Bun Muska",
-      price: 35,
-      category: "Snacks",
-      description: "Bun muska",
-      image: "/images/menu/bun-muska.jpg",
-    },
-    {
-      id: 72,
-      name: "Double Cheese Margherita",
-      price: 80,
-      category: "Pizza",
-      description: "Double cheese margherita pizza",
-      image: "/images/menu/double-cheese-margherita.jpg",
-    },
-    {
-      id: 73,
-      name: "Corn Cheese Pizza",
-      price: 80,
-      category: "Pizza",
-      description: "Corn and cheese pizza",
-      image: "/images/menu/corn-cheese-pizza.jpg",
-    },
-    {
-      id: 74,
-      name: "Paneer Cheese Pizza",
-      price: 85,
-      category: "Pizza",
-      description: "Paneer and cheese pizza",
-      image: "/images/menu/paneer-cheese-pizza.jpg",
-    },
-    {
-      id: 75,
-      name: "Chilli Paneer Pizza",
-      price: 90,
-      category: "Pizza",
-      description: "Spicy chilli paneer pizza",
-      image: "/images/menu/chilli-paneer-pizza.jpg",
-    },
-    {
-      id: 76,
-      name: "Mexican Pizza",
-      price: 90,
-      category: "Pizza",
-      description: "Mexican pizza",
-      image: "/images/menu/mexican-pizza.jpg",
-    },
-    {
-      id: 77,
-      name: "Italian Pizza",
-      price: 90,
-      category: "Pizza",
-      description: "Italian pizza",
-      image: "/images/menu/italian-pizza.jpg",
-    },
-    {
-      id: 78,
-      name: "Greek Pizza",
-      price: 90,
-      category: "Pizza",
-      description: "Greek pizza",
-      image: "/images/menu/greek-pizza.jpg",
-    },
-    {
-      id: 79,
-      name: "Classic Fries",
-      price: 40,
-      category: "Fries",
-      description: "Classic fries",
-      image: "/images/menu/classic-fries.jpg",
-    },
-    {
-      id: 80,
-      name: "Masala Fries",
-      price: 45,
-      category: "Fries",
-      description: "Spicy masala fries",
-      image: "/images/menu/masala-fries.jpg",
-    },
-    {
-      id: 81,
-      name: "Peri Peri Fries",
-      price: 50,
-      category: "Fries",
-      description: "Spicy peri peri fries",
-      image: "/images/menu/peri-peri-fries.jpg",
-    },
-    {
-      id: 82,
-      name: "Lemon Fries",
-      price: 50,
-      category: "Fries",
-      description: "Lemon fries",
-      image: "/images/menu/lemon-fries.jpg",
-    },
-    {
-      id: 83,
-      name: "Loaded Cheese Fries",
-      price: 55,
-      category: "Fries",
-      description: "Loaded cheese fries",
-      image: "/images/menu/loaded-cheese-fries.jpg",
-    },
-    {
-      id: 84,
-      name: "Loaded Peri Peri Fries",
-      price: 60,
-      category: "Fries",
-      description: "Loaded spicy peri peri fries",
-      image: "/images/menu/loaded-peri-peri-fries.jpg",
-    },
-    {
-      id: 85,
-      name: "Loaded Tikka Fries",
-      price: 60,
-      category: "Fries",
-      description: "Loaded tikka fries",
-      image: "/images/menu/loaded-tikka-fries.jpg",
-    },
-    {
-      id: 86,
-      name: "Paneer Fries",
-      price: 60,
-      category: "Fries",
-      description: "Paneer fries",
-      image: "/images/menu/paneer-fries.jpg",
-    },
-    {
-      id: 87,
-      name: "Potato Wedges",
-      price: 50,
-      category: "Fries",
-      description: "Potato wedges",
-      image: "/images/menu/potato-wedges.jpg",
-    },
-    {
-      id: 88,
-      name: "Potato Bites",
-      price: 50,
-      category: "Fries",
-      description: "Potato bites",
-      image: "/images/menu/potato-bites.jpg",
-    },
-    {
-      id: 89,
-      name: "Crispy Corn",
-      price: 40,
-      category: "Snacks",
-      description: "Crispy corn",
-      image: "/images/menu/crispy-corn.jpg",
-    },
-  ])
-  const [selectedExistingItem, setSelectedExistingItem] = useState("")
-  const [allMenuItems, setAllMenuItems] = useState<any[]>([])
-  const [existingItemOpen, setExistingItemOpen] = useState(false)
+  // Active specials count for the System Stats tool
+  const specialsCount = useQuery(queryKeys.activeSpecials, fetchActiveSpecials, { enabled: isLoggedIn }).data?.length ?? 0
 
   // Add hydration safety
   const [isClient, setIsClient] = useState(false)
@@ -850,97 +118,12 @@ export default function AdminPage() {
       setUserType(savedUserType as "admin" | "superadmin")
       setCurrentUser(savedCurrentUser)
     }
-
-    // Load orders and specials
-    const savedOrders = JSON.parse(localStorage.getItem("cafeOrders") || "[]")
-    setOrders(savedOrders)
-    const savedSpecials = JSON.parse(localStorage.getItem("todaysSpecials") || "[]")
-    setTodaysSpecials(savedSpecials)
   }, [])
 
   useEffect(() => {
     setIsClient(true)
   }, [])
 
-  // Load orders and specials
-  useEffect(() => {
-    if (isLoggedIn) {
-      loadOrders()
-      loadTodaysSpecials()
-    }
-  }, [isLoggedIn])
-
-  // Fetch Orders Today from backend when logged in (one-time; no polling)
-  useEffect(() => {
-    if (!isLoggedIn || userType !== "superadmin") return;
-    const fetchStats = async () => {
-      try {
-        const stats = await fetchOrderStats();
-        setOrdersTodayApi(stats.orders_today ?? 0);
-        // Paid-only revenue
-        const revenue = await fetchRevenueStats();
-        setDailyRevenueApi(revenue.daily_revenue ?? 0);
-        setMonthlyRevenueApi(revenue.monthly_revenue ?? 0);
-        // Dashboard metrics
-        const dashboard = await fetchDashboardStats();
-        setPendingOrdersApi(dashboard.pending_orders ?? null);
-        setUnpaidOrdersApi(dashboard.unpaid_orders ?? null);
-        setUnpaidAmountApi(dashboard.unpaid_amount ?? null);
-        setCompletedOrdersApi(dashboard.completed_orders ?? null);
-        const topQty = Array.isArray(dashboard.fast_moving_items) && dashboard.fast_moving_items.length > 0
-          ? dashboard.fast_moving_items[0].total_quantity
-          : 0;
-        setFastMovingTopQtyApi(topQty);
-      } catch (e) {
-        console.error("Failed to refresh order stats:", e);
-      }
-    };
-    // Call once (no interval)
-    fetchStats();
-  }, [isLoggedIn, userType]);
-
-  const loadOrders = () => {
-    try {
-      const savedOrders = JSON.parse(localStorage.getItem("cafeOrders") || "[]")
-      setOrders(savedOrders || [])
-    } catch (error) {
-      console.error("Error loading orders:", error)
-      setOrders([])
-    }
-  }
-
-  const loadTodaysSpecials = () => {
-    try {
-      const savedSpecials = JSON.parse(localStorage.getItem("todaysSpecials") || "[]")
-      setTodaysSpecials(savedSpecials || [])
-    } catch (error) {
-      console.error("Error loading specials:", error)
-      setTodaysSpecials([])
-    }
-  }
-
-  // Load all menu items for combobox (once on mount)
-  useEffect(() => {
-    const load = async () => {
-      try {
-        const items = await fetchMenuItems()
-        // Normalize shape to match existing menu option renderer
-        const normalized = items.map((i: any) => ({
-          id: i.id,
-          name: i.name,
-          price: i.price,
-          category: i.category,
-        }))
-        setAllMenuItems(normalized)
-      } catch (e) {
-        // Fallback to static list if API fails
-        setAllMenuItems(existingMenuItems as any)
-      }
-    }
-    load()
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [])
-
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
@@ -978,6 +161,7 @@ export default function AdminPage() {
     setIsLoggedIn(false)
     setUserType(null)
     setCurrentUser("")
+    logout()
     localStorage.removeItem("adminLoggedIn")
     localStorage.removeItem("userType")
     localStorage.removeItem("currentUser")
@@ -987,128 +171,6 @@ export default function AdminPage() {
     })
   }
 
-  const updateOrderStatus = (orderId: string, newStatus: string) => {
-    try {
-      const updatedOrders = orders.map((order) => (order.id === orderId ? { ...order, status: newStatus } : order))
-      setOrders(updatedOrders)
-      localStorage.setItem("cafeOrders", JSON.stringify(updatedOrders))
-      toast({
-        title: "Status Updated",
-        description: `Order #${orderId.slice(-6)} status changed to ${newStatus}`,
-      })
-    } catch (error) {
-      console.error("Error updating order status:", error)
-      toast({
-        title: "Error",
-        description: "Failed to update order status.",
-        variant: "destructive",
-      })
-    }
-  }
-
-  const updatePaymentStatus = (orderId: string, newPaymentStatus: string) => {
-    try {
-      const updatedOrders = orders.map((order) =>
-        order.id === orderId ? { ...order, paymentStatus: newPaymentStatus } : order,
-      )
-      setOrders(updatedOrders)
-      localStorage.setItem("cafeOrders", JSON.stringify(updatedOrders))
-      toast({
-        title: "Payment Status Updated",
-        description: `Order #${orderId.slice(-6)} payment status changed to ${newPaymentStatus}`,
-      })
-    } catch (error) {
-      console.error("Error updating payment status:", error)
-      toast({
-        title: "Error",
-        description: "Failed to update payment status.",
-        variant: "destructive",
-      })
-    }
-  }
-
-  const handleExistingItemSelect = (itemId: string) => {
-    if (itemId === "create-new") {
-      setNewSpecial({ name: "", price: "", category: "", description: "" })
-      setSelectedExistingItem("")
-      return
-    }
-
-    // Look up from API-loaded items first, then fallback list
-    const unionItems: any[] = [...allMenuItems, ...(existingMenuItems as any)]
-    const item = unionItems.find((it) => it?.id?.toString() === itemId)
-    if (item) {
-      setNewSpecial({
-        name: item.name,
-        price: item.price.toString(),
-        category: item.category,
-        description: item.description,
-      })
-      setSelectedExistingItem(itemId)
-    }
-  }
-
-  const addTodaysSpecial = () => {
-    if (!newSpecial.name) {
-      toast({
-        title: "Missing Information",
-        description: "Please provide at least a name for the special.",
-        variant: "destructive",
-      })
-      return
-    }
-
-    try {
-      const special: Special = {
-        id: Date.now(),
-        name: newSpecial.name,
-        price: newSpecial.price ? Number.parseFloat(newSpecial.price) : 0,
-        category: newSpecial.category || "Other",
-        description: newSpecial.description,
-        image: `/images/menu/${newSpecial.name.toLowerCase().replace(/[^a-z0-9\s]/g, '').trim().replace(/\s+/g, '-')}.jpg`,
-      }
-
-      const updatedSpecials = [...todaysSpecials, special]
-      setTodaysSpecials(updatedSpecials)
-      localStorage.setItem("todaysSpecials", JSON.stringify(updatedSpecials))
-
-      setNewSpecial({ name: "", price: "", category: "", description: "" })
-      setSelectedExistingItem("")
-      setShowAddSpecial(false)
-
-      toast({
-        title: "Special Added",
-        description: `${special.name} has been added to today's specials!`,
-      })
-    } catch (error) {
-      console.error("Error adding special:", error)
-      toast({
-        title: "Error",
-        description: "Failed to add special.",
-        variant: "destructive",
-      })
-    }
-  }
-
-  const removeSpecial = (specialId: number) => {
-    try {
-      const updatedSpecials = todaysSpecials.filter((special) => special.id !== specialId)
-      setTodaysSpecials(updatedSpecials)
-      localStorage.setItem("todaysSpecials", JSON.stringify(updatedSpecials))
-      toast({
-        title: "Special Removed",
-        description: "Special has been removed from today's menu.",
-      })
-    } catch (error) {
-      console.error("Error removing special:", error)
-      toast({
-        title: "Error",
-        description: "Failed to remove special.",
-        variant: "destructive",
-      })
-    }
-  }
-
   const getStatusIcon = (status: string) => {
     switch (status?.toLowerCase()) {
       case "pending":
@@ -1156,200 +218,43 @@ export default function AdminPage() {
     }
   }
 
-  // Calculate stats
-  const today = new Date().toDateString()
-  const currentMonth = new Date().getMonth()
-  const currentYear = new Date().getFullYear()
-  
-  // Daily stats - only count PAID orders for revenue
-  const todayOrders = orders?.filter((order) => new Date(order.timestamp).toDateString() === today) || []
-  const totalOrdersToday = (ordersTodayApi ?? todayOrders.length)
-  
-  // Filter only PAID orders for daily revenue
-  const todayPaidOrders = todayOrders.filter((order) => 
-    (order?.paymentStatus || "unpaid").toLowerCase() !== "unpaid"
-  )
-  const computedDailyRevenue = todayPaidOrders.reduce((sum, order) => sum + Number.parseFloat(order?.total || "0"), 0) || 0
-  const totalRevenueToday = (dailyRevenueApi ?? computedDailyRevenue)
-  
-  // Monthly stats - only count PAID orders for revenue
-  const monthlyOrders = orders?.filter((order) => {
-    const orderDate = new Date(order.timestamp)
-    return orderDate.getMonth() === currentMonth && orderDate.getFullYear() === currentYear
-  }) || []
-  
-  // Filter only PAID orders for monthly revenue
-  const monthlyPaidOrders = monthlyOrders.filter((order) => 
-    (order?.paymentStatus || "unpaid").toLowerCase() !== "unpaid"
-  )
-  const computedMonthlyRevenue = monthlyPaidOrders.reduce((sum, order) => sum + Number.parseFloat(order?.total || "0"), 0) || 0
-  const totalMonthlyRevenue = (monthlyRevenueApi ?? computedMonthlyRevenue)
-  
-  // Status-based stats (local fallback)
-  const pendingOrdersLocal = orders?.filter((order) => order?.status?.toLowerCase() === "pending")?.length || 0
-  const completedOrdersLocal = orders?.filter((order) => order?.status?.toLowerCase() === "completed")?.length || 0
-  const unpaidOrdersLocal = orders?.filter((order) => (order?.paymentStatus || "unpaid").toLowerCase() === "unpaid")?.length || 0
-  
-  // Unpaid amount calculation (remains the same)
-  const unpaidAmountLocal = orders?.filter((order) => (order?.paymentStatus || "unpaid").toLowerCase() === "unpaid")
-    .reduce((sum, order) => sum + Number.parseFloat(order?.total || "0"), 0) || 0
-
-  // Fast moving products calculation (remains the same)
-  const productCounts: { [key: string]: number } = {}
-  orders?.forEach((order) => {
-    if (order?.items && Array.isArray(order.items)) {
-      order.items.forEach((item) => {
-        const productName = item?.name || "Unknown Item"
-        const quantity = item?.quantity || 0
-        productCounts[productName] = (productCounts[productName] || 0) + quantity
-      })
-    } else if (order?.item) {
-      // Handle legacy single item format
-      const productName = order.item
-      const quantity = order?.quantity || 1
-      productCounts[productName] = (productCounts[productName] || 0) + quantity
-    }
-  })
-
-  // Find the most popular product
-  const fastMovingProduct = Object.entries(productCounts).length > 0 
-    ? Object.entries(productCounts).reduce((a, b) => a[1] > b[1] ? a : b)
-    : ["No orders yet", 0]
-
-  // Prefer API values when available; otherwise use local calculations
-  const pendingOrders = pendingOrdersApi ?? pendingOrdersLocal
-  const completedOrders = completedOrdersApi ?? completedOrdersLocal
-  const unpaidOrders = unpaidOrdersApi ?? unpaidOrdersLocal
-  const unpaidAmount = (unpaidAmountApi ?? unpaidAmountLocal)
-  const fastMovingTopQty = fastMovingTopQtyApi ?? (fastMovingProduct?.[1] as number)
+  // Dashboard figures come from the API only; zero until the stats load
+  const totalOrdersToday = ordersTodayApi ?? 0
+  const totalRevenueToday = dailyRevenueApi ?? 0
+  const totalMonthlyRevenue = monthlyRevenueApi ?? 0
+  const pendingOrders = pendingOrdersApi ?? 0
+  const completedOrders = completedOrdersApi ?? 0
+  const unpaidOrders = unpaidOrdersApi ?? 0
+  const unpaidAmount = unpaidAmountApi ?? 0
+  const fastMovingTopQty = fastMovingTopQtyApi ?? 0
 
   const exportToExcel = async () => {
     try {
-      // First try server-side CSV export API; fallback to client CSV on error
-      try {
-        await downloadDashboardExport();
-        return;
-      } catch (e) {
-        console.warn("API export failed, falling back to client CSV:", e);
-      }
-
-      // Create comprehensive data for export (client fallback)
-      const exportData = []
-      
-      // Add summary statistics
-      exportData.push(['=== CAFE STATISTICS REPORT ==='])
-      exportData.push(['Generated on:', new Date().toLocaleString()])
-      exportData.push([''])
-      exportData.push(['DAILY STATS'])
-      exportData.push(['Total Orders Today:', totalOrdersToday])
-      exportData.push(['Paid Orders Today:', todayPaidOrders.length])
-      exportData.push(['Daily Revenue (Paid Only):', `₹${totalRevenueToday.toFixed(2)}`])
-      exportData.push([''])
-      exportData.push(['MONTHLY STATS'])
-      exportData.push(['Total Monthly Orders:', monthlyOrders.length])
-      exportData.push(['Paid Monthly Orders:', monthlyPaidOrders.length])
-      exportData.push(['Monthly Revenue (Paid Only):', `₹${totalMonthlyRevenue.toFixed(2)}`])
-      exportData.push([''])
-      exportData.push(['ORDER STATUS'])
-       exportData.push(['Pending Orders:', pendingOrders])
-       exportData.push(['Completed Orders:', completedOrders])
-       exportData.push(['Unpaid Orders:', unpaidOrders])
-       exportData.push(['Unpaid Amount:', `₹${unpaidAmount.toFixed(2)}`])
-      exportData.push([''])
-      
-      // Add revenue breakdown
-      exportData.push(['=== REVENUE BREAKDOWN ==='])
-      exportData.push(['Payment Status', 'Order Count', 'Total Amount'])
-      
-      const paidOrders = orders?.filter((order) => (order?.paymentStatus || "unpaid").toLowerCase() !== "unpaid") || []
-      const unpaidOrdersList = orders?.filter((order) => (order?.paymentStatus || "unpaid").toLowerCase() === "unpaid") || []
-      
-      const paidAmount = paidOrders.reduce((sum, order) => sum + Number.parseFloat(order?.total || "0"), 0)
-      const unpaidAmountCalc = unpaidOrdersList.reduce((sum, order) => sum + Number.parseFloat(order?.total || "0"), 0)
-      
-      exportData.push(['Paid Orders', paidOrders.length, `₹${paidAmount.toFixed(2)}`])
-      exportData.push(['Unpaid Orders', unpaidOrdersList.length, `₹${unpaidAmountCalc.toFixed(2)}`])
-      exportData.push(['Total Orders', orders?.length || 0, `₹${(paidAmount + unpaidAmountCalc).toFixed(2)}`])
-      exportData.push([''])
-      
-      // Add product sales data
-      exportData.push(['=== PRODUCT SALES REPORT ==='])
-      exportData.push(['Product Name', 'Total Quantity Sold', 'Revenue Impact'])
-      
-      // Sort products by quantity sold (descending)
-      const sortedProducts = Object.entries(productCounts).sort((a, b) => b[1] - a[1])
-      
-      sortedProducts.forEach(([productName, quantity]) => {
-        // Calculate revenue impact for each product
-        let productRevenue = 0
-        orders?.forEach((order) => {
-          if (order?.items && Array.isArray(order.items)) {
-            order.items.forEach((item) => {
-              if (item?.name === productName) {
-                productRevenue += (item?.price || 0) * (item?.quantity || 0)
-              }
-            })
-          }
-        })
-        
-        exportData.push([productName, quantity, `₹${productRevenue.toFixed(2)}`])
-      })
-      
-      exportData.push([''])
-      
-      // Add detailed orders data
-      exportData.push(['=== DETAILED ORDERS DATA ==='])
-      exportData.push(['Order ID', 'Customer Name', 'Phone', 'Date', 'Status', 'Payment Status', 'Items', 'Total Amount'])
-      
-      orders?.forEach((order) => {
-        const itemsText = order?.items && Array.isArray(order.items) 
-          ? order.items.map(item => `${item.quantity}x ${item.name}`).join('; ')
-          : `${order?.quantity || 1}x ${order?.item || 'Unknown'}`
-        
-        exportData.push([
-          order?.id?.slice(-6) || 'Unknown',
-          order?.customerName || 'N/A',
-          order?.phoneNumber || 'N/A',
-          new Date(order?.timestamp).toLocaleString(),
-          order?.status || 'Unknown',
-          order?.paymentStatus || 'unpaid',
-          itemsText,
-          `₹${order?.total || '0'}`
-        ])
-      })
-      
-      // Convert to CSV format
-      const csvContent = exportData.map(row => 
-        row.map(field => `"${field}"`).join(',')
-      ).join('\n')
-      
-      // Create and download file
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
-      const link = document.createElement('a')
-      const url = URL.createObjectURL(blob)
-      link.setAttribute('href', url)
-      link.setAttribute('download', `cafe-report-${new Date().toISOString().split('T')[0]}.csv`)
-      link.style.visibility = 'hidden'
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
-      
+      await downloadDashboardExport()
       toast({
         title: "Export Successful",
         description: "Cafe data has been downloaded as CSV file.",
       })
     } catch (error) {
       console.error("Export error:", error)
-      toast({
-        title: "Export Failed",
-        description: "There was an error exporting the data.",
-        variant: "destructive",
-      })
+      toast({ ...getErrorToast(error, "Export Failed"), variant: "destructive" })
     }
   }
 
   const [activeTab, setActiveTab] = useState("dashboard") // Add this
 
+  // Live order feed: refresh stats and alert counter staff on new orders
+  useOrderEvents(isLoggedIn, (event) => {
+    invalidateOrderQueries()
+    if (event.type !== "order-created") return
+    playNewOrderChime()
+    if (activeTab !== "dashboard") setUnseenNewOrders((n) => n + 1)
+    toast({
+      title: `New Order #${event.order.id}`,
+      description: `${event.order.customerName} · ${event.order.items.length} item${event.order.items.length === 1 ? "" : "s"} · ₹${event.order.totalAmount.toFixed(2)}`,
+    })
+  })
+
   if (!isClient) {
     return <div>Loading...</div>
   }
@@ -1459,11 +364,28 @@ export default function AdminPage() {
             <div className="flex flex-wrap gap-2 p-1 bg-white rounded-lg shadow-sm border">
               <Button
                 variant={activeTab === "dashboard" ? "default" : "ghost"}
-                onClick={() => setActiveTab("dashboard")}
+                onClick={() => {
+                  setActiveTab("dashboard")
+                  setUnseenNewOrders(0)
+                }}
                 className="flex-1 sm:flex-none"
               >
                 <Home className="h-4 w-4 mr-2" />
                 Dashboard
+                {unseenNewOrders > 0 && (
+                  <Badge className="ml-2 bg-red-600 hover:bg-red-600 text-white animate-pulse">
+                    {unseenNewOrders} new
+                  </Badge>
+                )}
+              </Button>
+
+              <Button
+                variant={activeTab === "menu" ? "default" : "ghost"}
+                onClick={() => setActiveTab("menu")}
+                className="flex-1 sm:flex-none"
+              >
+                <UtensilsCrossed className="h-4 w-4 mr-2" />
+                Menu
               </Button>
               
               {userType === "superadmin" && (
@@ -1518,12 +440,34 @@ export default function AdminPage() {
                   Feedback
                 </Button>
               )}
+
+              <Button
+                variant={activeTab === "table-qr" ? "default" : "ghost"}
+                onClick={() => setActiveTab("table-qr")}
+                className="flex-1 sm:flex-none"
+              >
+                <QrCode className="h-4 w-4 mr-2" />
+                Table QR Codes
+              </Button>
+
+              {userType === "superadmin" && (
+                <Button
+                  variant={activeTab === "locations" ? "default" : "ghost"}
+                  onClick={() => setActiveTab("locations")}
+                  className="flex-1 sm:flex-none"
+                >
+                  <MapPin className="h-4 w-4 mr-2" />
+                  Locations
+                </Button>
+              )}
             </div>
           </div>
         )}
 
         {/* Content based on active tab */}
-        {activeTab === "inventory-items" && userType === "superadmin" ? (
+        {activeTab === "menu" ? (
+          <MenuManagement userType={userType} />
+        ) : activeTab === "inventory-items" && userType === "superadmin" ? (
           <InventoryItems userType={userType} />
         ) : activeTab === "order-inventory" ? (
           <OrderInventory userType={userType} currentUser={currentUser} />
@@ -1533,6 +477,10 @@ export default function AdminPage() {
           <InventoryInsights userType={userType} />
         ) : activeTab === "feedback" && userType === "superadmin" ? (
           <FeedbackManagement userType={userType} />
+        ) : activeTab === "table-qr" ? (
+          <TableQrCodes />
+        ) : activeTab === "locations" && userType === "superadmin" ? (
+          <LocationSettingsManagement />
         ) : (
           <>
             {/* Existing dashboard content - Stats Cards, Orders, etc. */}
@@ -1616,7 +564,7 @@ export default function AdminPage() {
                     <div className="flex items-center justify-between">
                       <div className="flex-1">
                         <p className="text-xs font-medium text-gray-600 mb-1">Fast Moving Items</p>
-                        <p className="text-2xl font-bold text-purple-600">{fastMovingProduct[1]}</p>
+                        <p className="text-2xl font-bold text-purple-600">{fastMovingTopQty}</p>
                         <p className="text-xs text-gray-500 mt-1">Total Sold</p>
                       </div>
                       <TrendingUp className="h-6 w-6 text-purple-600 flex-shrink-0" />
@@ -1648,7 +596,7 @@ export default function AdminPage() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                     <Button 
                       className="bg-purple-600 hover:bg-purple-700 text-white"
                       onClick={() => {
@@ -1668,7 +616,6 @@ export default function AdminPage() {
                       onClick={() => {
                         const backupData = {
                           orders: JSON.parse(localStorage.getItem("cafeOrders") || "[]"),
-                          specials: JSON.parse(localStorage.getItem("todaysSpecials") || "[]"),
                           feedback: JSON.parse(localStorage.getItem("cafeFeedback") || "[]"),
                           timestamp: new Date().toISOString()
                         }
@@ -1691,9 +638,9 @@ export default function AdminPage() {
                       className="border-purple-300 text-purple-700 hover:bg-purple-100"
                       onClick={() => {
                         const stats = {
-                          totalOrders: orders.length,
-                          totalRevenue: orders.reduce((sum, order) => sum + parseFloat(order.total), 0),
-                          activeSpecials: todaysSpecials.length,
+                          ordersToday: totalOrdersToday,
+                          monthlyRevenue: totalMonthlyRevenue,
+                          activeSpecials: specialsCount,
                           systemHealth: "Operational"
                         }
                         alert(`System Stats:\n${JSON.stringify(stats, null, 2)}`)
@@ -1701,7 +648,15 @@ export default function AdminPage() {
                     >
                       📊 System Stats
                     </Button>
+                    <Button 
+                      variant="outline"
+                      className="border-purple-300 text-purple-700 hover:bg-purple-100"
+                      onClick={() => setShowLegacyMigration(true)}
+                    >
+                      📥 Import Legacy Data
+                    </Button>
                   </div>
+                  <LegacyDataMigration open={showLegacyMigration} onOpenChange={setShowLegacyMigration} />
                 </CardContent>
               </Card>
             )}
@@ -1711,163 +666,8 @@ export default function AdminPage() {
               <OrderManagement userType={userType} />
             </div>
 
-            {/* Today's Specials Section */}
-            <Card>
-              <CardHeader>
-                <div className="flex justify-between items-center">
-                  <CardTitle className="flex items-center space-x-2">
-                    <Coffee className="h-5 w-5" />
-                    <span>Today's Specials</span>
-                  </CardTitle>
-                  <Button onClick={() => setShowAddSpecial(true)} className="bg-amber-600 hover:bg-amber-700">
-                    Add Special
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent>
-                {todaysSpecials?.length === 0 ? (
-                  <div className="text-center py-8">
-                    <Coffee className="h-16 w-16 mx-auto text-gray-300 mb-4" />
-                    <p className="text-gray-500">No specials added for today</p>
-                  </div>
-                ) : (
-                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                    {todaysSpecials?.map((special) => (
-                      <div key={special?.id} className="relative border rounded-lg p-4 bg-white shadow-sm">
-                        {(userType === "admin" || userType === "superadmin") && (
-                          <button
-                            type="button"
-                            aria-label="Remove special"
-                            onClick={() => removeSpecial(special.id)}
-                            className="absolute top-2 right-2 text-gray-400 hover:text-red-600"
-                          >
-                            <XCircle className="h-4 w-4" />
-                          </button>
-                        )}
-                        <img
-                          src={special?.image || "/placeholder.svg"}
-                          alt={special?.name || "Special"}
-                          className="w-full h-32 object-cover rounded-lg mb-3"
-                        />
-                        <h3 className="font-semibold text-lg mb-1">{special?.name || "Unknown Special"}</h3>
-                        <p className="text-gray-600 text-sm mb-2">{special?.description || "No description"}</p>
-                        <div className="flex justify-between items-center">
-                          <span className="text-lg font-bold text-amber-600">₹{special?.price || "0.00"}</span>
-                          <Badge>{special?.category || "Unknown"}</Badge>
-                        </div>
-                      </div>
-                    )) || <p className="text-gray-500">No specials to display</p>}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-
-            {/* Add Special Modal */}
-            <Dialog open={showAddSpecial} onOpenChange={setShowAddSpecial}>
-              <DialogContent aria-describedby="add-special-description">
-                <DialogHeader>
-                  <DialogTitle>Add Today's Special</DialogTitle>
-                </DialogHeader>
-                <div id="add-special-description" className="sr-only">
-                  Add a new special item to today's menu by selecting an existing item or creating a new one.
-                </div>
-                <div className="space-y-4">
-                  <div>
-                    <Label htmlFor="existingItem">Select Existing Item (Optional)</Label>
-                    <Popover open={existingItemOpen} onOpenChange={setExistingItemOpen}>
-                      <PopoverTrigger asChild>
-                        <Button
-                          variant="outline"
-                          role="combobox"
-                          aria-expanded={existingItemOpen}
-                          className="w-full justify-between"
-                        >
-                          {(() => {
-                            if (!selectedExistingItem || selectedExistingItem === "create-new") return "Create New Item"
-                            const chosen = [...allMenuItems, ...existingMenuItems as any].find((i: any) => i.id?.toString() === selectedExistingItem)
-                            return chosen ? `${chosen.name} - ₹${chosen.price} (${chosen.category})` : "Create New Item"
-                          })()}
-                          <ChevronsUpDown className="ml-2 h-4 w-4 opacity-50" />
-                        </Button>
-                      </PopoverTrigger>
-                      <PopoverContent className="p-0 w-[--radix-popover-trigger-width]">
-                        <Command>
-                          <CommandInput placeholder="Search menu items..." />
-                          <CommandEmpty>No item found.</CommandEmpty>
-                          <CommandGroup>
-                            <CommandItem value="create-new" onSelect={() => { handleExistingItemSelect("create-new") ; setExistingItemOpen(false) }}>
-                              Create New Item
-                            </CommandItem>
-                            { (allMenuItems.length ? allMenuItems : (existingMenuItems as any)).map((item: any) => (
-                              <CommandItem key={item.id} value={`${item.name} - ₹${item.price} (${item.category})`} onSelect={() => { handleExistingItemSelect(item.id.toString()); setExistingItemOpen(false) }}>
-                                {item.name} - ₹{item.price} ({item.category})
-                              </CommandItem>
-                            ))}
-                          </CommandGroup>
-                        </Command>
-                      </PopoverContent>
-                    </Popover>
-                  </div>
-                  <div>
-                    <Label htmlFor="specialName">Name</Label>
-                    <Input
-                      id="specialName"
-                      value={newSpecial.name}
-                      onChange={(e) => setNewSpecial({ ...newSpecial, name: e.target.value })}
-                      placeholder="Special item name"
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="specialPrice">Price</Label>
-                    <Input
-                      id="specialPrice"
-                      type="number"
-                      value={newSpecial.price}
-                      onChange={(e) => setNewSpecial({ ...newSpecial, price: e.target.value })}
-                      placeholder="0.00"
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="specialCategory">Category</Label>
-                    <Select
-                      value={newSpecial.category}
-                      onValueChange={(value) => setNewSpecial({ ...newSpecial, category: value })}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select category" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="Tea">Tea</SelectItem>
-                        <SelectItem value="Coffee">Coffee</SelectItem>
-                        <SelectItem value="Juice">Juice</SelectItem>
-                        <SelectItem value="Shakes">Shakes</SelectItem>
-                        <SelectItem value="Ice Cream">Ice Cream</SelectItem>
-                        <SelectItem value="Food">Food</SelectItem>
-                        <SelectItem value="Snacks">Snacks</SelectItem>
-                        <SelectItem value="Other">Other</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div>
-                    <Label htmlFor="specialDescription">Description</Label>
-                    <Textarea
-                      id="specialDescription"
-                      value={newSpecial.description}
-                      onChange={(e) => setNewSpecial({ ...newSpecial, description: e.target.value })}
-                      placeholder="Describe the special item"
-                    />
-                  </div>
-                  <div className="flex justify-end space-x-2">
-                    <Button variant="outline" onClick={() => setShowAddSpecial(false)}>
-                      Cancel
-                    </Button>
-                    <Button onClick={addTodaysSpecial} className="bg-amber-600 hover:bg-amber-700">
-                      Add Special
-                    </Button>
-                  </div>
-                </div>
-              </DialogContent>
-            </Dialog>
+            {/* Specials */}
+            <SpecialsManagement />
           </>
         )}
       </div>
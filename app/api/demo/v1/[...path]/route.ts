@@ -0,0 +1,91 @@
+import { handleDemoRequest, type DemoResponse } from '@/lib/demo-backend/handlers'
+import { DEMO_MODE } from '@/lib/api-client'
+
+// Demo backend: serves the /api/v1 contract from in-memory data when
+// NEXT_PUBLIC_DEMO_MODE=true (see lib/demo-backend). Returns 404 otherwise.
+
+export const dynamic = 'force-dynamic'
+
+const HEARTBEAT_MS = 25000
+
+async function handle(request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  if (!DEMO_MODE) {
+    return Response.json({ success: false, message: 'Demo mode is disabled' }, { status: 404 })
+  }
+
+  const { path } = await params
+  const url = new URL(request.url)
+  const authorization = request.headers.get('Authorization')
+  const text = request.method === 'GET' || request.method === 'HEAD' ? '' : await request.text()
+  let body: unknown
+  try {
+    body = text ? JSON.parse(text) : undefined
+  } catch {
+    return Response.json({ success: false, message: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const result = handleDemoRequest({
+    method: request.method,
+    path: `/${path.join('/')}`,
+    query: url.searchParams,
+    body,
+    token: authorization?.replace(/^Bearer\s+/i, '') || url.searchParams.get('token'),
+  })
+  return toResponse(result, request.signal)
+}
+
+function toResponse(result: DemoResponse, signal: AbortSignal): Response {
+  if (result.kind === 'json') {
+    return Response.json(result.body, { status: result.status })
+  }
+  if (result.kind === 'csv') {
+    return new Response(result.body, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${result.fileName}"`,
+      },
+    })
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+      const unsubscribe = result.subscribe((event, data) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+      })
+      const heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_MS)
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+      }
+      signal.addEventListener('abort', () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {}
+      })
+      write(': connected\n\n')
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
+
+export { handle as GET, handle as POST, handle as PUT, handle as PATCH, handle as DELETE }
@@ -4,6 +4,7 @@ import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel"
 import {
   Coffee,
   Star,
@@ -24,6 +25,7 @@ import {
   Loader2,
   AlertCircle,
   Navigation,
+  QrCode,
 } from "lucide-react"
 import Link from "next/link"
 import { OrderModal } from "@/components/order-modal"
@@ -34,9 +36,50 @@ import { LocationPopup } from "@/components/location-popup"
 import { MobileOrdersView } from "@/components/mobile-orders-view"
 import { MobileMenuSearch } from "@/components/mobile-menu-search"
 import { MenuSearchBar } from "@/components/menu-search-bar"
+import { MenuItemOptionsDialog } from "@/components/menu-item-options-dialog"
+import { ComboPickerDialog } from "@/components/combo-picker-dialog"
+import { DietaryFilterChips } from "@/components/dietary-filter-chips"
+import { DietaryBadges } from "@/components/dietary-badges"
+import { HighlightedText } from "@/components/highlighted-text"
 import { useToast } from "@/hooks/use-toast"
-import { fetchMenuItems } from "@/lib/api"
-import { MenuItem } from "@/lib/types"
+import { useQuery } from "@/hooks/use-query"
+import { useCart } from "@/hooks/use-cart"
+import { fetchCategories, fetchCombos, fetchMenuItems } from "@/lib/api"
+import { fetchActiveSpecials } from "@/lib/specials-api"
+import { fetchPopularItems } from "@/lib/order-api"
+import { fetchLocationSettings } from "@/lib/settings-api"
+import { findNearestBranch, formatDistance, type NearestBranch } from "@/lib/locations"
+import { verifyTableCode } from "@/lib/tables-api"
+import { TABLE_QUERY_PARAM, formatTableLabel } from "@/lib/tables"
+import { clearTableSession, loadTableSession, saveTableSession } from "@/lib/table-session"
+import { getPopularityByName, getSearchSuggestion, searchMenu } from "@/lib/menu-search"
+import { describeNextOpening, getCafeClock, getCafeDate, getItemSchedules, isScheduledNow } from "@/lib/menu-schedule"
+import { getRunningSpecialItems, type SpecialMenuItem } from "@/lib/specials"
+import { matchesDietaryFilters, type DietaryFilterId } from "@/lib/menu-dietary"
+import { hasOptions } from "@/lib/menu-options"
+import {
+  COMBOS_CATEGORY,
+  getComboSchedules,
+  getFixedComboSelections,
+  hasChoices,
+  isComboMenuItem,
+  toComboMenuItem,
+  type ComboMenuItem,
+} from "@/lib/combos"
+import { queryKeys } from "@/lib/query-cache"
+import { dispatchCart, getCartLines } from "@/lib/cart-store"
+import {
+  MAX_LINE_QUANTITY,
+  getCartItemCount,
+  getCartLineId,
+  getCartTotal,
+  revalidateCart,
+  toCartLineInput,
+  toComboCartLineInput,
+  type CartLineInput,
+} from "@/lib/cart"
+import { loadMenuSnapshot, type MenuSnapshot } from "@/lib/menu-snapshot"
+import { MenuItem, MenuItemSelection, TableCode } from "@/lib/types"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 
 interface OrderStats {
@@ -53,517 +96,68 @@ function getImageFileName(itemName: string): string {
     + '.jpg'                         // Add file extension
 }
 
-// Fallback menu items (in case API fails)
-const fallbackMenuItems: MenuItem[] = [
-  // Tea Items (using real database IDs)
-  {
-    id: 21,
-    name: "Normal Tea",
-    price: 15,
-    category: "Tea",
-    description: "Classic Indian tea",
-    image: "/images/menu/normal-tea.jpg",
-  },
-  {
-    id: 28,
-    name: "Black Tea",
-    price: 15,
-    category: "Tea",
-    description: "Pure black tea",
-    image: "/images/menu/black-tea.jpg",
-  },
-  {
-    id: 23,
-    name: "Masala Tea",
-    price: 22,
-    category: "Tea",
-    description: "Traditional spiced tea",
-    image: "/images/menu/masala-tea.jpg",
-  },
-  {
-    id: 4,
-    name: "Special Masala Tea",
-    price: 25,
-    category: "Tea",
-    description: "Premium spiced tea",
-    image: "/images/menu/special-masala-tea.jpg",
-  },
-  {
-    id: 5,
-    name: "Elachi Tea",
-    price: 22,
-    category: "Tea",
-    description: "Cardamom flavored tea",
-    image: "/images/menu/elachi-tea.jpg",
-  },
-  {
-    id: 6,
-    name: "Ginger Tea",
-    price: 22,
-    category: "Tea",
-    description: "Fresh ginger tea",
-    image: "/images/menu/ginger-tea.jpg",
-  },
-  {
-    id: 7,
-    name: "Green Tea",
-    price: 25,
-    category: "Tea",
-    description: "Healthy green tea",
-    image: "/images/menu/green-tea.jpg",
-  },
-  {
-    id: 8,
-    name: "Green Tea with Honey",
-    price: 29,
-    category: "Tea",
-    description: "Green tea with natural honey",
-    image: "/images/menu/green-tea-with-honey.jpg",
-  },
-  {
-    id: 9,
-    name: "Honey Lemon Tea",
-    price: 25,
-    category: "Tea",
-    description: "Refreshing honey lemon tea",
-    image: "/images/menu/honey-lemon-tea.jpg",
-  },
-  {
-    id: 10,
-    name: "Chocolate Tea",
-    price: 29,
-    category: "Tea",
-    description: "Chocolate flavored tea",
-    image: "/images/menu/chocolate-tea.jpg",
-  },
-  {
-    id: 11,
-    name: "Kashmiri Kahwa",
-    price: 49,
-    category: "Tea",
-    description: "Traditional Kashmiri tea",
-    image: "/images/menu/kashmiri-kahwa.jpg",
-  },
-
-  // Coffee Items
-  {
-    id: 12,
-    name: "Black Coffee",
-    price: 20,
-    category: "Coffee",
-    description: "Pure black coffee",
-    image: "/images/menu/black-coffee.jpg",
-  },
-  {
-    id: 13,
-    name: "Milk Coffee",
-    price: 22,
-    category: "Coffee",
-    description: "Coffee with milk",
-    image: "/images/menu/milk-coffee.jpg",
-  },
-  {
-    id: 14,
-    name: "Special Filter Coffee",
-    price: 22,
-    category: "Coffee",
-    description: "South Indian filter coffee",
-    image: "/images/menu/special-filter-coffee.jpg",
-  },
-  {
-    id: 15,
-    name: "Jaggery Coffee",
-    price: 22,
-    category: "Coffee",
-    description: "Coffee sweetened with jaggery",
-    image: "/images/menu/jaggery-coffee.jpg",
-  },
-  {
-    id: 16,
-    name: "Chocolate Coffee",
-    price: 29,
-    category: "Coffee",
-    description: "Coffee with chocolate",
-    image: "/images/menu/chocolate-coffee.jpg",
-  },
-  {
-    id: 17,
-    name: "Belgian Coffee",
-    price: 90,
-    category: "Coffee",
-    description: "Premium Belgian coffee",
-    image: "/images/menu/belgian-coffee.jpg",
-  },
-  {
-    id: 18,
-    name: "Coffee On The Rocks",
-    price: 90,
-    category: "Coffee",
-    description: "Iced coffee",
-    image: "/images/menu/coffee-on-the-rocks.jpg",
-  },
-  {
-    id: 19,
-    name: "Ferrero Coffee",
-    price: 90,
-    category: "Coffee",
-    description: "Ferrero flavored coffee",
-    image: "/images/menu/ferrero-coffee.jpg",
-  },
-  {
-    id: 20,
-    name: "Hard Rock Coffee",
-    price: 80,
-    category: "Coffee",
-    description: "Strong coffee blend",
-    image: "/images/menu/hard-rock-coffee.jpg",
-  },
-  {
-    id: 21,
-    name: "Mud Coffee",
-    price: 100,
-    category: "Coffee",
-    description: "Rich mud coffee",
-    image: "/images/menu/mud-coffee.jpg",
-  },
-  {
-    id: 22,
-    name: "Turkish Coffee",
-    price: 90,
-    category: "Coffee",
-    description: "Traditional Turkish coffee",
-    image: "/images/menu/turkish-coffee.jpg",
-  },
-
-  // Juices & Beverages
-  {
-    id: 23,
-    name: "Fresh Lime",
-    price: 35,
-    category: "Juice",
-    description: "Fresh lime juice",
-    image: "/images/menu/fresh-lime.jpg",
-  },
-  {
-    id: 24,
-    name: "Ginger Lime",
-    price: 40,
-    category: "Juice",
-    description: "Ginger lime juice",
-    image: "/images/menu/ginger-lime.jpg",
-  },
-  {
-    id: 25,
-    name: "Jaljeera",
-    price: 35,
-    category: "Juice",
-    description: "Cumin flavored drink",
-    image: "/images/menu/jaljeera.jpg",
-  },
-  {
-    id: 26,
-    name: "Watermelon",
-    price: 29,
-    category: "Juice",
-    description: "Fresh watermelon juice",
-    image: "/images/menu/watermelon.jpg",
-  },
-  {
-    id: 27,
-    name: "Water Melon",
-    price: 50,
-    category: "Juice",
-    description: "Premium watermelon juice",
-    image: "/images/menu/water-melon.jpg",
-  },
-  {
-    id: 28,
-    name: "Pineapple",
-    price: 50,
-    category: "Juice",
-    description: "Fresh pineapple juice",
-    image: "/images/menu/pineapple.jpg",
-  },
-  {
-    id: 29,
-    name: "Mango",
-    price: 49,
-    category: "Juice",
-    description: "Fresh mango juice",
-    image: "/images/menu/mango.jpg",
-  },
-  {
-    id: 30,
-    name: "Mango Alphonso",
-    price: 70,
-    category: "Juice",
-    description: "Premium Alphonso mango",
-    image: "/images/menu/mango-alphonso.jpg",
-  },
-  {
-    id: 31,
-    name: "Banana",
-    price: 60,
-    category: "Juice",
-    description: "Fresh banana shake",
-    image: "/images/menu/banana.jpg",
-  },
-  {
-    id: 32,
-    name: "Chickoo",
-    price: 60,
-    category: "Juice",
-    description: "Fresh chickoo shake",
-    image: "/images/menu/chickoo.jpg",
-  },
-  {
-    id: 33,
-    name: "Musk Melon",
-    price: 60,
-    category: "Juice",
-    description: "Fresh musk melon juice",
-    image: "/images/menu/musk-melon.jpg",
-  },
-  {
-    id: 34,
-    name: "Avocado",
-    price: 80,
-    category: "Juice",
-    description: "Fresh avocado shake",
-    image: "/images/menu/avocado.jpg",
-  },
-
-  // Milkshakes & Shakes
-  {
-    id: 35,
-    name: "Badam Milk",
-    price: 49,
-    category: "Shakes",
-    description: "Almond milk shake",
-    image: "/images/menu/badam-milk.jpg",
-  },
-  {
-    id: 36,
-    name: "Boost Milk",
-    price: 39,
-    category: "Shakes",
-    description: "Boost flavored milk",
-    image: "/images/menu/boost-milk.jpg",
-  },
-  {
-    id: 37,
-    name: "Cold Boost",
-    price: 29,
-    category: "Shakes",
-    description: "Cold boost drink",
-    image: "/images/menu/cold-boost.jpg",
-  },
-  {
-    id: 38,
-    name: "Cold Bournvita",
-    price: 29,
-    category: "Shakes",
-    description: "Cold Bournvita drink",
-    image: "/images/menu/cold-bournvita.jpg",
-  },
-  {
-    id: 39,
-    name: "Horlicks Milk",
-    price: 39,
-    category: "Shakes",
-    description: "Horlicks milk shake",
-    image: "/images/menu/horlicks-milk.jpg",
-  },
-  {
-    id: 40,
-    name: "Hot Chocolate Milk",
-    price: 49,
-    category: "Shakes",
-    description: "Hot chocolate milk",
-    image: "/images/menu/hot-chocolate-milk.jpg",
-  },
-  {
-    id: 41,
-    name: "Pilani Milk",
-    price: 35,
-    category: "Shakes",
-    description: "Pilani special milk",
-    image: "/images/menu/pilani-milk.jpg",
-  },
-  {
-    id: 42,
-    name: "Butter Milk",
-    price: 20,
-    category: "Shakes",
-    description: "Traditional buttermilk",
-    image: "/images/menu/butter-milk.jpg",
-  },
-  {
-    id: 43,
-    name: "Nutella Shake",
-    price: 100,
-    category: "Shakes",
-    description: "Nutella flavored shake",
-    image: "/images/menu/nutella-shake.jpg",
-  },
-  {
-    id: 44,
-    name: "Dry Fruit Shake",
-    price: 100,
-    category: "Shakes",
-    description: "Mixed dry fruit shake",
-    image: "/images/menu/dry-fruit-shake.jpg",
-  },
-  {
-    id: 45,
-    name: "Berry Blue Berry Shake",
-    price: 90,
-    category: "Shakes",
-    description: "Blueberry shake",
-    image: "/images/menu/berry-blue-berry-shake.jpg",
-  },
-  {
-    id: 46,
-    name: "Natural Protein",
-    price: 90,
-    category: "Shakes",
-    description: "Natural protein shake",
-    image: "/images/menu/natural-protein.jpg",
-  },
-  {
-    id: 47,
-    name: "Whey Protein",
-    price: 100,
-    category: "Shakes",
-    description: "Whey protein shake",
-    image: "/images/menu/whey-protein.jpg",
-  },
-
-  // Ice Cream & Desserts
-  {
-    id: 48,
-    name: "Ice Cream Scoop",
-    price: 20,
-    category: "Ice Cream",
-    description: "Single ice cream scoop",
-    image: "/images/menu/ice-cream-scoop.jpg",
-  },
-  {
-    id: 49,
-    name: "Vanilla Shoo Shoo",
-    price: 45,
-    category: "Ice Cream",
-    description: "Vanilla ice cream special",
-    image: "/images/menu/vanilla-shoo-shoo.jpg",
-  },
-  {
-    id: 50,
-    name: "Strawberry Shoo Shoo",
-    price: 45,
-    category: "Ice Cream",
-    description: "Strawberry ice cream special",
-    image: "/images/menu/strawberry-shoo-shoo.jpg",
-  },
-  {
-    id: 51,
-    name: "Chocolate Ice Cream",
-    price: 49,
-    category: "Ice Cream",
-    description: "Rich chocolate ice cream",
-    image: "/images/menu/chocolate-ice-cream.jpg",
-  },
-  {
-    id: 52,
-    name: "Madagascar Ice Cream",
-    price: 49,
-    category: "Ice Cream",
-    description: "Madagascar vanilla ice cream",
-    image: "/images/menu/madagascar-ice-cream.jpg",
-  },
-  {
-    id: 53,
-    name: "Red Velvet Ice Cream",
-    price: 49,
-    category: "Ice Cream",
-    description: "Red velvet flavored ice cream",
-    image: "/images/menu/red-velvet-ice-cream.jpg",
-  },
-  {
-    id: 54,
-    name: "Butterscotch",
-    price: 49,
-    category: "Ice Cream",
-    description: "Butterscotch ice cream",
-    image: "/images/menu/butterscotch.jpg",
-  },
-  {
-    id: 55,
-    name: "Chocolate",
-    price: 49,
-    category: "Ice Cream",
-    description: "Chocolate ice cream",
-    image: "/images/menu/chocolate.jpg",
-  },
-  {
-    id: 56,
-    name: "Malai Kulfi",
-    price: 45,
-    category: "Ice Cream",
-    description: "Traditional malai kulfi",
-    image: "/images/menu/malai-kulfi.jpg",
-  },
-  {
-    id: 57,
-    name: "Punjab Kulfi",
-    price: 45,
-    category: "Ice Cream",
-    description: "Punjab style kulfi",
-    image: "/images/menu/punjab-kulfi.jpg",
-  },
-
-  // Food Items (truncated for brevity - continuing with key items)
-  {
-    id: 81,
-    name: "Veg Sandwich",
-    price: 59,
-    category: "Food",
-    description: "Fresh vegetable sandwich",
-    image: "/images/menu/veg-sandwich.jpg",
-  },
-  {
-    id: 95,
-    name: "Margherita Pizza",
-    price: 120,
-    category: "Food",
-    description: "Classic margherita pizza",
-    image: "/images/menu/margherita-pizza.jpg",
-  },
-  {
-    id: 118,
-    name: "Classic Fries",
-    price: 79,
-    category: "Snacks",
-    description: "Classic french fries",
-    image: "/images/menu/classic-fries.jpg",
-  },
-]
-
 export default function HomePage() {
   const [selectedCategory, setSelectedCategory] = useState("All")
   const [orderModalOpen, setOrderModalOpen] = useState(false)
   const [showOrderPlacedPopup, setShowOrderPlacedPopup] = useState(false)
   const [orderPlacedInfo, setOrderPlacedInfo] = useState<{id: string; totalAmount: number} | null>(null)
   const [feedbackModalOpen, setFeedbackModalOpen] = useState(false)
-  const [cart, setCart] = useState<any[]>([])
+  // Saved in localStorage and shared with the cart drawer and checkout
+  const cart = useCart()
+  // Item waiting on a size/add-on choice before it can go in the cart
+  const [optionsItem, setOptionsItem] = useState<MenuItem | null>(null)
+  // Combo waiting on the customer's pick for its choice slots
+  const [comboItem, setComboItem] = useState<ComboMenuItem | null>(null)
   const [mobileOrdersOpen, setMobileOrdersOpen] = useState(false)
   const [menuSearchTerm, setMenuSearchTerm] = useState("")
+  const [dietaryFilters, setDietaryFilters] = useState<DietaryFilterId[]>([])
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
-  const [todaysSpecials, setTodaysSpecials] = useState<MenuItem[]>([])
   
-  // API-related state
-  const [menuItems, setMenuItems] = useState<MenuItem[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  // API-related state (cached and shared with the admin screens)
+  const menuQuery = useQuery(queryKeys.menu, fetchMenuItems, { ttlMs: 5 * 60_000 })
+  // Sorted by the admin-defined order; unavailable offline, when chips fall back to item order
+  const menuCategories = useQuery(queryKeys.categories, fetchCategories, { ttlMs: 5 * 60_000 }).data ?? []
+  // Last menu saved on this device; undefined until we have looked for one
+  const [offlineMenu, setOfflineMenu] = useState<MenuSnapshot | null | undefined>(undefined)
+  const menuFailed = !!menuQuery.error && !menuQuery.data
+  // Showing a saved menu: prices and availability are unconfirmed, so ordering is disabled
+  const menuIsOffline = menuFailed && !!offlineMenu
+  // Hidden categories are not offered to customers
+  const hiddenCategoryIds = new Set(menuCategories.filter((category) => !category.isVisible).map((category) => category.id))
+  // Items switched off in the admin Menu tab are hidden from customers
+  const orderableItems: MenuItem[] = (menuQuery.data ?? (menuFailed ? offlineMenu?.items ?? [] : []))
+    .filter((item) => item.isAvailable !== false && !(item.categoryId !== undefined && hiddenCategoryIds.has(item.categoryId)))
+  // Combos join the grid under their own category once every slot has something to offer
+  const combosQuery = useQuery(queryKeys.combos, fetchCombos, { ttlMs: 5 * 60_000 })
+  const combos = combosQuery.data ?? []
+  const menuItems: MenuItem[] = [
+    ...orderableItems,
+    ...combos.map((combo) => toComboMenuItem(combo, orderableItems)).filter((item) => item.isAvailable),
+  ]
+  // Cafe-local time, ticking each minute so scheduled items open and close on their own
+  const [cafeClock, setCafeClock] = useState(getCafeClock)
+  // Items outside their (or their category's) schedule stay visible but greyed, keyed by id
+  const closedItemNotices: Record<number, string> = {}
+  for (const item of menuItems) {
+    const schedules = isComboMenuItem(item)
+      ? getComboSchedules(item.combo, orderableItems, menuCategories)
+      : getItemSchedules(item, menuCategories.find((category) => category.id === item.categoryId))
+    if (!isScheduledNow(schedules, cafeClock)) closedItemNotices[item.id] = describeNextOpening(schedules, cafeClock)
+  }
+  // Specials are priced from their menu item, so one whose item is hidden or off is not shown
+  const activeSpecialsQuery = useQuery(queryKeys.activeSpecials, fetchActiveSpecials, { ttlMs: 5 * 60_000 })
+  const activeSpecials = activeSpecialsQuery.data ?? []
+  // Best sellers rank higher among equally good search matches
+  const searchPopularity = getPopularityByName(
+    useQuery(queryKeys.popularItems, fetchPopularItems, { ttlMs: 5 * 60_000 }).data ?? [],
+  )
+  const todaysSpecials = getRunningSpecialItems(activeSpecials, orderableItems, getCafeDate())
+  const loading = menuQuery.isLoading || (menuFailed && offlineMenu === undefined)
+  const error = !menuFailed
+    ? null
+    : offlineMenu
+      ? `You're offline. Showing the menu as of ${new Date(offlineMenu.savedAt).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}. Ordering is paused until we reconnect.`
+      : 'Unable to load the menu. Please check your connection.'
   
   // Location-based ordering state
   const [locationAllowed, setLocationAllowed] = useState(false)
@@ -576,15 +170,16 @@ export default function HomePage() {
   const [popupDisabled, setPopupDisabled] = useState(false)
   const [popupTimerRef, setPopupTimerRef] = useState<NodeJS.Timeout | null>(null)
   
-  // Zish Cafe coordinates (Replace with actual coordinates)
-  const CAFE_COORDINATES = {
-    //latitude: 39.7392,   // Replace with your actual cafe latitude
-    //longitude: -104.9903, // Replace with your actual cafe longitude
-
-   latitude: 13.025399,   // Replace with your actual cafe latitude Hammad location do not remove this
-    longitude: 77.625298,
-  }
-  const ALLOWED_DISTANCE = 150000 // meters
+  // Branches and ordering radius, set by a superadmin
+  const locationSettingsQuery = useQuery(queryKeys.locationSettings, fetchLocationSettings, { ttlMs: 5 * 60_000 })
+  const locationSettings = locationSettingsQuery.data
+  const orderingRange = locationSettings ? formatDistance(locationSettings.orderingRadiusMeters) : null
+  const activeBranches = locationSettings?.branches.filter((branch) => branch.isActive) ?? []
+  // Nearest branch from the last location check
+  const [nearestBranch, setNearestBranch] = useState<NearestBranch | null>(null)
+  // Table from a scanned QR code; ordering from a table needs no location check
+  const [table, setTable] = useState<TableCode | null>(null)
+  const canOrder = locationAllowed || table !== null
   
   const { toast } = useToast()
 
@@ -599,23 +194,8 @@ export default function HomePage() {
     }
   }
 
-  // Calculate distance between two coordinates using Haversine formula
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371e3 // Earth's radius in meters
-    const φ1 = (lat1 * Math.PI) / 180
-    const φ2 = (lat2 * Math.PI) / 180
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180
-
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-              Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-
-    return R * c // Distance in meters
-  }
-
   // Request and check user location
-  const requestLocation = () => {
+  const requestLocation = async () => {
     if (!navigator.geolocation) {
       setLocationError("Geolocation is not supported by this browser")
       return
@@ -625,33 +205,48 @@ export default function HomePage() {
     setLocationError(null)
     setLocationPermissionAsked(true)
 
+    // The branches may still be loading when the customer taps the popup
+    let settings = locationSettings
+    if (!settings) {
+      try {
+        settings = await locationSettingsQuery.refetch()
+      } catch (error) {
+        console.error("Error loading branch locations:", error)
+        setCheckingLocation(false)
+        setLocationError("We couldn't load our branch locations. Please try again.")
+        startPopupTimer()
+        return
+      }
+    }
+    const { branches, orderingRadiusMeters } = settings
+
     navigator.geolocation.getCurrentPosition(
       (position) => {
-        const { latitude, longitude } = position.coords
-        const distance = calculateDistance(
-          latitude,
-          longitude,
-          CAFE_COORDINATES.latitude,
-          CAFE_COORDINATES.longitude
-        )
+        const nearest = findNearestBranch(position.coords, branches)
+        const range = formatDistance(orderingRadiusMeters)
 
         setCheckingLocation(false)
+        setNearestBranch(nearest)
 
-        if (distance <= ALLOWED_DISTANCE) {
+        if (nearest && nearest.distance <= orderingRadiusMeters) {
           setLocationAllowed(true)
           stopPopupTimer() // Stop recurring popup when location is verified
           toast({
             title: "Location Verified ✅",
-            description: "You're within the ordering area. Happy ordering!",
+            description: `You're within ${range} of ${nearest.branch.name}. Happy ordering!`,
             className: "bg-green-50 border-green-200",
           })
         } else {
           setLocationAllowed(false)
-          setLocationError(`You're ${Math.round(distance)}m away from the cafe`)
+          setLocationError(
+            nearest
+              ? `You're ${formatDistance(nearest.distance)} away from ${nearest.branch.name}, our nearest branch`
+              : "None of our branches are taking orders right now",
+          )
           startPopupTimer() // Start recurring popup when outside range
           toast({
             title: "Outside Ordering Area ❌",
-            description: "You're outside the 50-meter range. Please visit the cafe to place an order.",
+            description: `You need to be within ${range} of one of our branches. Please visit us to place an order.`,
             variant: "destructive",
           })
         }
@@ -732,173 +327,234 @@ export default function HomePage() {
     }
   }, [popupTimerRef])
 
-  // Load menu items from API
+  // Menu items come from the query cache; fall back to the last saved menu when the API fails
   useEffect(() => {
-    const loadMenuItems = async () => {
-      try {
-        setLoading(true)
-        setError(null)
-        console.log('Loading menu items from API...')
-        const items = await fetchMenuItems()
-        console.log('Successfully loaded menu items:', items.length, 'items')
-        console.log('First few items:', items.slice(0, 3).map(item => ({ id: item.id, name: item.name })))
-        setMenuItems(items)
-      } catch (err) {
-        console.error('Failed to load menu items:', err)
-        setError('Failed to load menu items. Using offline menu.')
-        console.log('Using fallback menu items')
-        // Use fallback menu items
-        setMenuItems(fallbackMenuItems)
-        toast({
-          title: "Connection Issue",
-          description: "Unable to load latest menu. Showing offline menu.",
-          variant: "destructive",
-        })
-      } finally {
-        setLoading(false)
-      }
+    if (!menuFailed) return
+    console.error('Failed to load menu items:', menuQuery.error)
+    let active = true
+    loadMenuSnapshot().then((snapshot) => {
+      if (!active) return
+      setOfflineMenu(snapshot)
+      toast({
+        title: "Connection Issue",
+        description: snapshot
+          ? "Unable to load latest menu. Showing the last saved menu."
+          : "Unable to load the menu. Please try again.",
+        variant: "destructive",
+      })
+    })
+    return () => {
+      active = false
     }
+  }, [menuFailed, toast])
 
-    loadMenuItems()
-  }, [toast])
+  // A cart saved on an earlier visit is checked against the live menu once it has
+  // loaded: lines that can't be ordered any more go, changed prices are updated.
+  const [cartRevalidated, setCartRevalidated] = useState(false)
+  useEffect(() => {
+    if (cartRevalidated || !menuQuery.data || combosQuery.isLoading || activeSpecialsQuery.isLoading) return
+    setCartRevalidated(true)
+    const { lines, changes } = revalidateCart(getCartLines(), {
+      menuItems: orderableItems,
+      combos: combosQuery.data,
+      specials: activeSpecialsQuery.data,
+      today: getCafeDate(),
+    })
+    if (changes.length === 0) return
+    dispatchCart({ type: "replace", lines })
+    toast({ title: "Your Cart Was Updated", description: changes.join(" ") })
+  }, [cartRevalidated, menuQuery.data, combosQuery.isLoading, activeSpecialsQuery.isLoading]) // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Load today's specials from localStorage
+  // Retry as soon as the browser reports the connection is back
   useEffect(() => {
-    const savedSpecials = JSON.parse(localStorage.getItem("todaysSpecials") || "[]")
-    setTodaysSpecials(savedSpecials)
+    if (!menuFailed) return
+    const handleOnline = () => {
+      menuQuery.refetch().catch(() => {})
+    }
+    window.addEventListener("online", handleOnline)
+    return () => window.removeEventListener("online", handleOnline)
+  }, [menuFailed, menuQuery.refetch])
+
+  useEffect(() => {
+    const timer = setInterval(() => setCafeClock(getCafeClock()), 60_000)
+    return () => clearInterval(timer)
   }, [])
 
-  // Show location popup immediately on page load
+  // A scanned table QR code (?table=...) unlocks ordering without location;
+  // otherwise show the location popup immediately on page load
   useEffect(() => {
-    // Show popup immediately when page loads if location hasn't been asked yet
-    if (!locationPermissionAsked && !locationAllowed) {
-      setShowLocationPopup(true)
+    const url = new URL(window.location.href)
+    const token = url.searchParams.get(TABLE_QUERY_PARAM)
+    if (!token) {
+      const savedTable = loadTableSession()
+      if (savedTable) setTable(savedTable)
+      else if (!locationPermissionAsked && !locationAllowed) setShowLocationPopup(true)
+      return
     }
+
+    // Keep the token out of the address bar so a shared link doesn't carry the table
+    url.searchParams.delete(TABLE_QUERY_PARAM)
+    window.history.replaceState(null, "", url.toString())
+    verifyTableCode(token)
+      .then((code) => {
+        setTable(code)
+        saveTableSession(code)
+        toast({
+          title: `Welcome to ${formatTableLabel(code.tableNumber)} ✅`,
+          description: `You're ordering at ${code.branchName}. We'll bring your order to your table.`,
+          className: "bg-green-50 border-green-200",
+        })
+      })
+      .catch((error) => {
+        console.error("Error verifying table code:", error)
+        setShowLocationPopup(true)
+        toast({
+          title: "Table Code Not Recognised",
+          description: "Please scan the QR code on your table again, or enable location to order.",
+          variant: "destructive",
+        })
+      })
   }, [])
 
-  // Get unique categories from menu items
-  const categories = ["All", ...Array.from(new Set(menuItems.map(item => item.category)))]
+  // The server stopped accepting the table's code, e.g. its branch was paused
+  const handleTableRejected = () => {
+    clearTableSession()
+    setTable(null)
+    setShowLocationPopup(true)
+  }
 
-  const filteredItems = menuItems.filter((item) => {
-    //console.log(item)
-    // Category filter
-    const categoryMatch = selectedCategory === "All" || item.category === selectedCategory
+  // Category chips in the server's sort order, only for categories that have items
+  const itemCategoryNames = new Set(menuItems.map(item => item.category))
+  const sortedCategoryNames = menuCategories.map(category => category.name).filter(name => itemCategoryNames.has(name))
+  const categories = [
+    "All",
+    ...(itemCategoryNames.has(COMBOS_CATEGORY) ? [COMBOS_CATEGORY] : []),
+    ...sortedCategoryNames,
+    ...Array.from(itemCategoryNames).filter(name => name !== COMBOS_CATEGORY && !sortedCategoryNames.includes(name)),
+  ]
+  const categoryIcons = Object.fromEntries(
+    menuCategories.filter(category => category.icon).map(category => [category.name, category.icon as string]),
+  )
 
-    // Search filter
-    const searchMatch =
-      !menuSearchTerm.trim() ||
-      item.name.toLowerCase().includes(menuSearchTerm.toLowerCase()) ||
-      item.description.toLowerCase().includes(menuSearchTerm.toLowerCase()) ||
-      item.category.toLowerCase().includes(menuSearchTerm.toLowerCase())
+  const browsableItems = menuItems.filter((item) =>
+    (selectedCategory === "All" || item.category === selectedCategory) && matchesDietaryFilters(item, dietaryFilters),
+  )
+  const searchResults = searchMenu(browsableItems, menuSearchTerm, searchPopularity)
+  const filteredItems = searchResults.map((result) => result.item)
+  const nameHighlights = Object.fromEntries(searchResults.map((result) => [result.item.id, result.nameHighlights]))
+  const searchSuggestion = filteredItems.length === 0 ? getSearchSuggestion(browsableItems, menuSearchTerm) : null
 
-    return categoryMatch && searchMatch
-  })
+  const addToCart = (item: MenuItem | SpecialMenuItem, quantity = 1, specialInstructions = "", selection?: MenuItemSelection) => {
+    if (menuIsOffline) {
+      toast({
+        title: "Ordering Paused",
+        description: "We can't confirm item availability while offline. Please try again once you're connected.",
+        variant: "destructive",
+      })
+      return
+    }
 
-  const addToCart = (item: any, quantity = 1, specialInstructions = "") => {
-    if (!locationAllowed) {
+    if (!canOrder) {
       toast({
         title: "Location Required",
-        description: "Please enable location access and ensure you're within 50m of the cafe to add items to cart.",
+        description: `Please scan the QR code on your table, or enable location access and make sure you're within ${orderingRange ?? "range"} of one of our branches.`,
         variant: "destructive",
       })
       return
     }
 
-    const existingItemIndex = cart.findIndex(
-      (cartItem) => cartItem.id === item.id && cartItem.specialInstructions === specialInstructions,
-    )
-
-    if (existingItemIndex > -1) {
-      const updatedCart = [...cart]
-      updatedCart[existingItemIndex].quantity += quantity
-      setCart(updatedCart)
-    } else {
-      setCart([...cart, { ...item, quantity, specialInstructions, cartId: Date.now() + Math.random() }])
+    if (closedItemNotices[item.id]) {
+      toast({
+        title: "Not Available Right Now",
+        description: `${item.name}: ${closedItemNotices[item.id]}.`,
+        variant: "destructive",
+      })
+      return
     }
 
-    toast({
-      title: "Added to Cart",
-      description: `${item.name} has been added to your cart.`,
-    })
-  }
-
-  const removeFromCart = (cartId: any) => {
-    setCart(cart.filter((item) => item.cartId !== cartId))
-  }
+    if (isComboMenuItem(item)) {
+      const selections = getFixedComboSelections(item.combo, orderableItems)
+      if (selections) addComboToCart(item, selections)
+      else setComboItem(item)
+      return
+    }
 
-  const updateCartItemQuantity = (cartId: any, newQuantity: any) => {
-    if (newQuantity <= 0) {
-      removeFromCart(cartId)
+    if (!selection && hasOptions(item)) {
+      setOptionsItem(item)
       return
     }
 
-    const updatedCart = cart.map((item) =>
-      item.cartId === cartId ? { ...item, quantity: newQuantity } : item,
-    )
-    setCart(updatedCart)
+    addLineToCart({ ...toCartLineInput(item, selection), specialInstructions }, quantity)
   }
 
-  const clearCart = () => {
-    setCart([])
+  const addComboToCart = (item: ComboMenuItem, selections: number[]) => {
+    addLineToCart(toComboCartLineInput(item, selections, orderableItems))
   }
 
-  const getTotalItems = () => {
-    return cart.reduce((total, item) => total + item.quantity, 0)
+  // One line holds at most MAX_LINE_QUANTITY units; warns and returns false past that
+  const checkLineLimit = (line: CartLineInput, adding: number) => {
+    const existing = cart.find((cartLine) => cartLine.cartId === getCartLineId(line))
+    if ((existing?.quantity ?? 0) + adding <= MAX_LINE_QUANTITY) return true
+    toast({
+      title: "Quantity Limit",
+      description: `You can order up to ${MAX_LINE_QUANTITY} of ${line.name} at a time.`,
+      variant: "destructive",
+    })
+    return false
   }
 
-  const getTotalPrice = () => {
-    return cart.reduce((total, item) => total + item.price * item.quantity, 0)
+  // Identical lines (same item, options and note) merge into one
+  const addLineToCart = (line: CartLineInput, quantity = 1) => {
+    if (!checkLineLimit(line, quantity)) return
+    dispatchCart({ type: "add", line, quantity })
+
+    toast({
+      title: "Added to Cart",
+      description: line.optionsLabel
+        ? `${line.name} (${line.optionsLabel}) has been added to your cart.`
+        : `${line.name} has been added to your cart.`,
+    })
   }
 
-  // Add the missing getCartItemQuantity function
-  const getCartItemQuantity = (itemId: any) => {
+  const getTotalItems = () => getCartItemCount(cart)
+
+  const getTotalPrice = () => getCartTotal(cart)
+
+  // Special lines are counted apart from the same item at its regular price
+  const getCartItemQuantity = (itemId: number, specialId?: number) => {
     return cart
-      .filter((cartItem) => cartItem.id === itemId)
-      .reduce((total, cartItem) => total + cartItem.quantity, 0)
+      .filter((cartLine) => cartLine.id === itemId && cartLine.specialId === specialId)
+      .reduce((total, cartLine) => total + cartLine.quantity, 0)
   }
 
   const refreshMenu = async () => {
     try {
-      setLoading(true)
-      setError(null)
-      const items = await fetchMenuItems()
-      setMenuItems(items)
+      await menuQuery.refetch()
       toast({
         title: "Menu Updated",
         description: "Menu has been refreshed successfully.",
       })
     } catch (err) {
-      setError('Failed to refresh menu')
       toast({
         title: "Refresh Failed",
         description: "Unable to refresh menu. Please try again.",
         variant: "destructive",
       })
-    } finally {
-      setLoading(false)
     }
   }
 
-  // Update the updateMenuItemQuantity function
-  const updateMenuItemQuantity = (item: any, newQuantity: number) => {
-    if (newQuantity === 0) {
-      // Remove item from cart
-      setCart(cart.filter(cartItem => cartItem.id !== item.id));
-      return;
-    }
-
-    const existingItem = cart.find(cartItem => cartItem.id === item.id);
-    if (existingItem) {
-      // Update existing item quantity
-      setCart(cart.map(cartItem =>
-        cartItem.id === item.id
-          ? { ...cartItem, quantity: newQuantity }
-          : cartItem
-      ));
-    } else {
-      // Add new item to cart
-      setCart([...cart, { ...item, quantity: newQuantity, cartId: Date.now() }]);
+  // +/- on a menu card: units go on the plain line and come off the newest line for the item
+  const updateMenuItemQuantity = (item: MenuItem | SpecialMenuItem, newQuantity: number) => {
+    const specialId = "specialId" in item ? item.specialId : undefined
+    const change = newQuantity - getCartItemQuantity(item.id, specialId)
+    if (change > 0) {
+      const line = toCartLineInput(item)
+      if (checkLineLimit(line, change)) dispatchCart({ type: "add", line, quantity: change })
+      return
     }
+    const lines = cart.filter((cartLine) => cartLine.id === item.id && cartLine.specialId === specialId)
+    const newest = lines[lines.length - 1]
+    if (change < 0 && newest) dispatchCart({ type: "setQuantity", cartId: newest.cartId, quantity: newest.quantity + change })
   }
 
   // Loading state
@@ -1123,109 +779,113 @@ export default function HomePage() {
               </p>
             </div>
 
-            {/* Mobile-First Responsive Grid Layout */}
-            <div
-              className={`grid gap-6 md:gap-8 lg:gap-10 ${
-                todaysSpecials.length === 1
-                  ? "grid-cols-1 max-w-sm md:max-w-md mx-auto"
-                  : todaysSpecials.length === 2
-                    ? "grid-cols-1 sm:grid-cols-2 max-w-2xl md:max-w-4xl mx-auto"
-                    : todaysSpecials.length === 3
-                      ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 max-w-6xl mx-auto"
-                      : "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4"
-              }`}
-            >
-              {todaysSpecials.map((special, index) => {
-                const cartQuantity = getCartItemQuantity(special.id)
-                return (
-                  <Card
-                    key={special.id}
-                    className="group hover:shadow-2xl transition-all duration-500 transform hover:-translate-y-2 animate-fade-in-up bg-white/80 backdrop-blur-sm border-2 border-gradient-special overflow-hidden mx-auto w-full max-w-sm"
-                    style={{ animationDelay: `${index * 150}ms` }}
-                  >
-                    <CardHeader className="p-0 relative">
-                      <div className="relative overflow-hidden">
-                        <img
-                          src={special.image || "/placeholder.svg"}
-                          alt={special.name}
-                          className="w-full h-48 md:h-52 object-cover group-hover:scale-110 transition-transform duration-500"
-                        />
-                        <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent"></div>
-
-                        {/* Special Badge */}
-                        <div className="absolute top-3 left-3">
-                          <Badge className="bg-gradient-to-r from-red-500 to-pink-500 text-white animate-pulse text-xs md:text-sm shadow-lg border-0">
-                            <Sparkles className="h-3 w-3 mr-1" />
-                            Special
-                          </Badge>
-                        </div>
-
-                        {/* Category Badge */}
-                        <Badge className="absolute top-3 right-3 bg-gradient-to-r from-amber-500 to-orange-500 text-white text-xs md:text-sm shadow-lg border-0">
-                          {special.category}
-                        </Badge>
-
-                        {/* Floating Elements */}
-                        <div className="absolute bottom-3 right-3 w-8 h-8 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center">
-                          <Heart className="h-4 w-4 text-white" />
-                        </div>
-                      </div>
-                    </CardHeader>
-
-                    <CardContent className="p-4 md:p-6 relative">
-                      <div className="flex justify-between items-start mb-3">
-                        <CardTitle className="text-lg md:text-xl leading-tight font-bold text-gray-800">
-                          {special.name}
-                        </CardTitle>
-                        <div className="text-right ml-2">
-                          <span className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-amber-600 to-orange-600 bg-clip-text text-transparent">
-                            ₹{special.price}
-                          </span>
-                        </div>
-                      </div>
-
-                      <CardDescription className="mb-4 text-sm md:text-base line-clamp-2 text-gray-600 leading-relaxed">
-                        {special.description}
-                      </CardDescription>
-
-                      {cartQuantity > 0 ? (
-                        <div className="flex items-center justify-center">
-                          <div className="flex items-center bg-gray-800 rounded-lg p-1">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              className="h-8 w-8 p-0 text-white hover:bg-gray-700 rounded-md"
-                              onClick={() => updateMenuItemQuantity(special, cartQuantity - 1)}
-                            >
-                              <Minus className="h-4 w-4" />
-                            </Button>
-                            <span className="mx-3 text-white font-semibold min-w-[2rem] text-center">
-                              {cartQuantity}
-                            </span>
+            {/* Swipeable on mobile, arrows from md up */}
+            <Carousel opts={{ align: "start" }} className="mx-auto max-w-6xl md:px-12">
+              <CarouselContent className="-ml-6">
+                {todaysSpecials.map((special, index) => {
+                  const cartQuantity = getCartItemQuantity(special.id, special.specialId)
+                  return (
+                    <CarouselItem key={special.specialId} className="pl-6 sm:basis-1/2 lg:basis-1/3">
+                      <Card
+                        className="group hover:shadow-2xl transition-all duration-500 transform hover:-translate-y-2 animate-fade-in-up bg-white/80 backdrop-blur-sm border-2 border-gradient-special overflow-hidden mx-auto w-full max-w-sm"
+                        style={{ animationDelay: `${index * 150}ms` }}
+                      >
+                        <CardHeader className="p-0 relative">
+                          <div className="relative overflow-hidden">
+                            <img
+                              src={special.image || "/placeholder.svg"}
+                              alt={special.name}
+                              className="w-full h-48 md:h-52 object-cover group-hover:scale-110 transition-transform duration-500"
+                            />
+                            <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent"></div>
+    
+                            {/* Special Badge */}
+                            <div className="absolute top-3 left-3">
+                              <Badge className="bg-gradient-to-r from-red-500 to-pink-500 text-white animate-pulse text-xs md:text-sm shadow-lg border-0">
+                                <Sparkles className="h-3 w-3 mr-1" />
+                                Special
+                              </Badge>
+                            </div>
+    
+                            {/* Category Badge */}
+                            <Badge className="absolute top-3 right-3 bg-gradient-to-r from-amber-500 to-orange-500 text-white text-xs md:text-sm shadow-lg border-0">
+                              {special.category}
+                            </Badge>
+    
+                            {/* Floating Elements */}
+                            <div className="absolute bottom-3 right-3 w-8 h-8 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center">
+                              <Heart className="h-4 w-4 text-white" />
+                            </div>
+                          </div>
+                        </CardHeader>
+    
+                        <CardContent className="p-4 md:p-6 relative">
+                          <div className="flex justify-between items-start mb-3">
+                            <CardTitle className="text-lg md:text-xl leading-tight font-bold text-gray-800">
+                              {special.specialTitle && (
+                                <span className="block text-xs font-semibold uppercase tracking-wide text-orange-600 mb-1">
+                                  {special.specialTitle}
+                                </span>
+                              )}
+                              {special.name}
+                            </CardTitle>
+                            <div className="text-right ml-2">
+                              {special.originalPrice > special.price && (
+                                <span className="block text-sm text-gray-400 line-through">₹{special.originalPrice}</span>
+                              )}
+                              <span className="text-2xl md:text-3xl font-bold bg-gradient-to-r from-amber-600 to-orange-600 bg-clip-text text-transparent">
+                                ₹{special.price}
+                              </span>
+                            </div>
+                          </div>
+    
+                          <CardDescription className="mb-4 text-sm md:text-base line-clamp-2 text-gray-600 leading-relaxed">
+                            {special.description}
+                          </CardDescription>
+                          <DietaryBadges item={special} className="mb-4 -mt-2" />
+    
+                          {cartQuantity > 0 && !hasChoices(special) ? (
+                            <div className="flex items-center justify-center">
+                              <div className="flex items-center bg-gray-800 rounded-lg p-1">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-8 w-8 p-0 text-white hover:bg-gray-700 rounded-md"
+                                  onClick={() => updateMenuItemQuantity(special, cartQuantity - 1)}
+                                >
+                                  <Minus className="h-4 w-4" />
+                                </Button>
+                                <span className="mx-3 text-white font-semibold min-w-[2rem] text-center">
+                                  {cartQuantity}
+                                </span>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-8 w-8 p-0 text-white hover:bg-gray-700 rounded-md"
+                                  onClick={() => updateMenuItemQuantity(special, cartQuantity + 1)}
+                                >
+                                  <Plus className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </div>
+                          ) : (
                             <Button
-                              variant="ghost"
-                              size="sm"
-                              className="h-8 w-8 p-0 text-white hover:bg-gray-700 rounded-md"
-                              onClick={() => updateMenuItemQuantity(special, cartQuantity + 1)}
+                              className="w-full bg-gradient-to-r from-amber-600 via-orange-600 to-red-600 hover:from-amber-700 hover:via-orange-700 hover:to-red-700 text-white font-semibold py-3 rounded-xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-300 border-0"
+                              onClick={() => addToCart(special)}
                             >
-                              <Plus className="h-4 w-4" />
+                              <ShoppingCart className="mr-2 h-4 w-4" />
+                              {hasChoices(special) ? "Choose Options" : "Add to Cart"}
                             </Button>
-                          </div>
-                        </div>
-                      ) : (
-                        <Button
-                          className="w-full bg-gradient-to-r from-amber-600 via-orange-600 to-red-600 hover:from-amber-700 hover:via-orange-700 hover:to-red-700 text-white font-semibold py-3 rounded-xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-300 border-0"
-                          onClick={() => addToCart(special)}
-                        >
-                          <ShoppingCart className="mr-2 h-4 w-4" />
-                          Add to Cart
-                        </Button>
-                      )}
-                    </CardContent>
-                  </Card>
-                )
-              })}
-            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    </CarouselItem>
+                  )
+                })}
+              </CarouselContent>
+              <CarouselPrevious className="hidden md:flex left-0" />
+              <CarouselNext className="hidden md:flex right-0" />
+            </Carousel>
 
             {/* Mobile-specific call-to-action */}
             <div className="text-center mt-10 md:hidden">
@@ -1261,15 +921,29 @@ export default function HomePage() {
             </p>
           </div>
 
+          {/* Ordering from a scanned table QR code */}
+          {table && (
+            <div className="max-w-lg mx-auto mb-8 animate-fade-in">
+              <Alert className="border-green-200 bg-green-50/50 backdrop-blur-sm">
+                <QrCode className="h-4 w-4 text-green-600" />
+                <AlertDescription className="text-green-800">
+                  <span className="text-sm font-medium">
+                    ✅ Ordering for {formatTableLabel(table.tableNumber, table.branchName)} - we'll bring your order to your table!
+                  </span>
+                </AlertDescription>
+              </Alert>
+            </div>
+          )}
+
           {/* Location Access Section */}
-          {!locationPermissionAsked && (
+          {!table && !locationPermissionAsked && (
             <div className="max-w-lg mx-auto mb-8 animate-fade-in">
               <Alert className="border-amber-200 bg-amber-50/50 backdrop-blur-sm">
                 <MapPin className="h-4 w-4 text-amber-600" />
                 <AlertDescription className="text-amber-800">
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium">
-                      Enable location to start ordering (must be within 50m of cafe)
+                      Enable location to start ordering{orderingRange && ` (must be within ${orderingRange} of one of our branches)`}
                     </span>
                     <Button
                       onClick={requestLocation}
@@ -1296,7 +970,7 @@ export default function HomePage() {
           )}
 
           {/* Location Status Display */}
-          {locationPermissionAsked && !checkingLocation && (
+          {!table && locationPermissionAsked && !checkingLocation && (
             <div className="max-w-lg mx-auto mb-8 animate-fade-in">
               {locationAllowed ? (
                 <Alert className="border-green-200 bg-green-50/50 backdrop-blur-sm">
@@ -1304,7 +978,7 @@ export default function HomePage() {
                   <AlertDescription className="text-green-800">
                     <div className="flex items-center justify-between">
                       <span className="text-sm font-medium">
-                        ✅ Location verified - You can now place orders!
+                        ✅ Location verified - You can now place orders{nearestBranch && ` at ${nearestBranch.branch.name}`}!
                       </span>
                       <Button
                         onClick={requestLocation}
@@ -1366,23 +1040,35 @@ export default function HomePage() {
                 }`}
                 onClick={() => setSelectedCategory(category)}
               >
+                {categoryIcons[category] && <span className="mr-1">{categoryIcons[category]}</span>}
                 {category}
               </Button>
             ))}
           </div>
 
+          <DietaryFilterChips
+            selected={dietaryFilters}
+            onChange={setDietaryFilters}
+            className="hidden md:flex justify-center -mt-8 mb-12"
+          />
+
           {/* Mobile Menu Search View - Hidden on desktop */}
           <div className="block md:hidden">
             <MobileMenuSearch
               menuItems={menuItems}
               categories={categories}
-              cart={cart}
+              categoryIcons={categoryIcons}
               onAddToCart={(item) => addToCart(item, 1)}
               onUpdateQuantity={updateMenuItemQuantity}  // Use the new function
               selectedCategory={selectedCategory}
               onCategoryChange={setSelectedCategory}
-              locationAllowed={locationAllowed}
+              closedItemNotices={closedItemNotices}
+              dietaryFilters={dietaryFilters}
+              onDietaryFiltersChange={setDietaryFilters}
+              searchPopularity={searchPopularity}
+              locationAllowed={canOrder}
               checkingLocation={checkingLocation}
+              availabilityUnconfirmed={menuIsOffline}
             />
           </div>
 
@@ -1390,9 +1076,10 @@ export default function HomePage() {
           <div className="hidden md:block">
             {/* Menu Items Grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-              {filteredItems.map((item: any, index: number) => {
+              {filteredItems.map((item, index) => {
                 const cartQuantity = getCartItemQuantity(item.id)
-                const isAddToCartDisabled = !locationAllowed || checkingLocation
+                const closedNotice = closedItemNotices[item.id]
+                const isAddToCartDisabled = !canOrder || checkingLocation || menuIsOffline || !!closedNotice
                 
                 return (
                   <Card
@@ -1401,7 +1088,7 @@ export default function HomePage() {
                     style={{ animationDelay: `${index * 100}ms` }}
                   >
                     <CardHeader className="p-0 relative">
-                      <div className="relative overflow-hidden">
+                      <div className={`relative overflow-hidden ${closedNotice ? "grayscale opacity-60" : ""}`}>
                         <img
                           src={item.image || "/placeholder.svg"}
                           alt={item.name}
@@ -1415,7 +1102,9 @@ export default function HomePage() {
                     </CardHeader>
                     <CardContent className="p-6">
                       <div className="flex justify-between items-start mb-2">
-                        <CardTitle className="text-xl font-bold text-gray-800">{item.name}</CardTitle>
+                        <CardTitle className="text-xl font-bold text-gray-800">
+                          <HighlightedText text={item.name} ranges={nameHighlights[item.id]} />
+                        </CardTitle>
                         <span className="text-2xl font-bold bg-gradient-to-r from-amber-600 to-orange-600 bg-clip-text text-transparent">
                           ₹{item.price}
                         </span>
@@ -1423,8 +1112,15 @@ export default function HomePage() {
                       <CardDescription className="mb-4 text-gray-600 leading-relaxed">
                         {item.description}
                       </CardDescription>
+                      <DietaryBadges item={item} className="mb-4 -mt-2" />
+                      {closedNotice && (
+                        <p className="mb-3 flex items-center text-sm font-medium text-gray-500">
+                          <Clock className="mr-1 h-4 w-4" />
+                          {closedNotice}
+                        </p>
+                      )}
 
-                      {cartQuantity > 0 ? (
+                      {cartQuantity > 0 && !hasChoices(item) ? (
                         <div className="flex items-center justify-center">
                           <div className="flex items-center bg-gray-800 rounded-lg p-1">
                             <Button
@@ -1467,7 +1163,15 @@ export default function HomePage() {
                           disabled={isAddToCartDisabled}
                         >
                           <ShoppingCart className="mr-2 h-4 w-4" />
-                          {checkingLocation ? "Checking Location..." : "Add to Cart"}
+                          {menuIsOffline
+                            ? "Unavailable Offline"
+                            : closedNotice
+                              ? "Not Available Yet"
+                              : checkingLocation
+                              ? "Checking Location..."
+                              : hasChoices(item)
+                                ? cartQuantity > 0 ? `Add Another (${cartQuantity} in cart)` : "Choose Options"
+                                : "Add to Cart"}
                         </Button>
                       )}
                     </CardContent>
@@ -1482,15 +1186,33 @@ export default function HomePage() {
                     <p className="text-gray-500 mb-4">
                       {menuSearchTerm
                         ? `No items match "${menuSearchTerm}" in ${selectedCategory === "All" ? "any category" : selectedCategory}`
-                        : `No items available in ${selectedCategory}`}
+                        : dietaryFilters.length > 0
+                          ? `No items in ${selectedCategory === "All" ? "the menu" : selectedCategory} match your dietary filters`
+                          : `No items available in ${selectedCategory}`}
                     </p>
-                    {menuSearchTerm && (
+                    {searchSuggestion && (
+                      <p className="text-gray-600 mb-4">
+                        Did you mean{" "}
+                        <button
+                          type="button"
+                          onClick={() => setMenuSearchTerm(searchSuggestion)}
+                          className="font-semibold text-amber-700 underline underline-offset-2 hover:text-amber-800"
+                        >
+                          {searchSuggestion}
+                        </button>
+                        ?
+                      </p>
+                    )}
+                    {(menuSearchTerm || dietaryFilters.length > 0) && (
                       <Button
                         variant="outline"
-                        onClick={() => setMenuSearchTerm("")}
+                        onClick={() => {
+                          setMenuSearchTerm("")
+                          setDietaryFilters([])
+                        }}
                         className="border-2 border-amber-600 text-amber-600 hover:bg-amber-600 hover:text-white font-semibold px-6 py-2 rounded-full transition-all duration-300"
                       >
-                        Clear Search
+                        Clear Filters
                       </Button>
                     )}
                   </div>
@@ -1579,11 +1301,27 @@ export default function HomePage() {
                   <MapPin className="h-8 w-8 text-amber-600" />
                 </div>
                 <h3 className="text-xl font-bold text-gray-800 mb-4">Location</h3>
-                <p className="text-gray-600 leading-relaxed">
-                  123 Cafe Street
-                  <br />
-                  Downtown, City 12345
-                </p>
+                {activeBranches.length > 0 ? (
+                  <div className="space-y-2 text-gray-600 leading-relaxed">
+                    {activeBranches.map((branch) => (
+                      <p key={branch.id}>
+                        <span className="font-semibold text-gray-700">{branch.name}</span>
+                        {branch.address && (
+                          <>
+                            <br />
+                            {branch.address}
+                          </>
+                        )}
+                      </p>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-600 leading-relaxed">
+                    123 Cafe Street
+                    <br />
+                    Downtown, City 12345
+                  </p>
+                )}
               </div>
             </div>
 
@@ -1706,8 +1444,8 @@ export default function HomePage() {
       <OrderModal
         isOpen={orderModalOpen}
         onClose={() => setOrderModalOpen(false)}
-        cart={cart}
-        clearCart={clearCart}
+        table={table}
+        onTableRejected={handleTableRejected}
         onSuccess={(data) => {
           console.log('Main page received onSuccess with data:', data)
           console.log('Current showOrderPlacedPopup state:', showOrderPlacedPopup)
@@ -1722,12 +1460,26 @@ export default function HomePage() {
         }}
       />
       <FeedbackModal isOpen={feedbackModalOpen} onClose={() => setFeedbackModalOpen(false)} />
-      <CartDrawer
-        cart={cart}
-        updateQuantity={updateCartItemQuantity}
-        removeFromCart={removeFromCart}
-        clearCart={clearCart}
+      <MenuItemOptionsDialog
+        item={optionsItem}
+        onClose={() => setOptionsItem(null)}
+        onConfirm={(item, selection) => {
+          setOptionsItem(null)
+          addToCart(item, 1, "", selection)
+        }}
+      />
+      <ComboPickerDialog
+        item={comboItem}
+        menuItems={orderableItems}
+        closedItemNotices={closedItemNotices}
+        onClose={() => setComboItem(null)}
+        onConfirm={(item, selections) => {
+          setComboItem(null)
+          addComboToCart(item, selections)
+        }}
       />
+
+      <CartDrawer />
       <MobileOrdersView isOpen={mobileOrdersOpen} onClose={() => setMobileOrdersOpen(false)} />
 
       {/* Global order placed popup */}
@@ -1743,7 +1495,7 @@ export default function HomePage() {
 
       {/* Location popup */}
       <LocationPopup
-        isOpen={showLocationPopup}
+        isOpen={showLocationPopup && !table}
         onClose={handlePopupClose}
         onEnableLocation={handleEnableLocationFromPopup}
       />
@@ -0,0 +1,94 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Plus, Trash2 } from "lucide-react"
+import { CAFE_TIME_ZONE, WEEKDAYS } from "@/lib/menu-schedule"
+import type { AvailabilityWindow } from "@/lib/types"
+
+interface AvailabilityWindowsEditorProps {
+  value: AvailabilityWindow[]
+  onChange: (value: AvailabilityWindow[]) => void
+  label?: string
+}
+
+// Weekly ordering windows. No windows means always orderable; no days ticked means every day.
+export function AvailabilityWindowsEditor({ value, onChange, label = "Availability Schedule" }: AvailabilityWindowsEditorProps) {
+  const setWindow = (index: number, patch: Partial<AvailabilityWindow>) => {
+    onChange(value.map((window, i) => (i === index ? { ...window, ...patch } : window)))
+  }
+
+  const toggleDay = (index: number, day: number) => {
+    const days = value[index].days
+    setWindow(index, { days: days.includes(day) ? days.filter((entry) => entry !== day) : [...days, day].sort((a, b) => a - b) })
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>{label}</Label>
+          <p className="text-xs text-gray-500">
+            {value.length === 0 ? "Always available" : `Times are in ${CAFE_TIME_ZONE}`}
+          </p>
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => onChange([...value, { days: [], from: "07:00", until: "11:00" }])}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Window
+        </Button>
+      </div>
+      {value.map((window, index) => (
+        <div key={index} className="space-y-2 rounded-md bg-gray-50 p-2">
+          <div className="flex flex-wrap gap-1">
+            {WEEKDAYS.map((dayName, day) => {
+              const active = window.days.includes(day)
+              return (
+                <Button
+                  key={dayName}
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  aria-pressed={active}
+                  className={`h-7 px-2 text-xs ${active ? "bg-amber-600 text-white hover:bg-amber-700 hover:text-white" : ""}`}
+                  onClick={() => toggleDay(index, day)}
+                >
+                  {dayName}
+                </Button>
+              )
+            })}
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              value={window.from}
+              onChange={(e) => setWindow(index, { from: e.target.value })}
+              aria-label="Available from"
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <Input
+              type="time"
+              value={window.until}
+              onChange={(e) => setWindow(index, { until: e.target.value })}
+              aria-label="Available until"
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+          {window.days.length === 0 && <p className="text-xs text-gray-500">Every day</p>}
+        </div>
+      ))}
+    </div>
+  )
+}
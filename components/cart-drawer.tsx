@@ -3,44 +3,41 @@
 import { useState } from "react"
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
-import { ShoppingCart, Plus, Minus, Trash2, X } from "lucide-react"
+import { ShoppingCart, Plus, Minus, Trash2, X, StickyNote } from "lucide-react"
 import { OrderModal } from "./order-modal"
 import { useToast } from "@/hooks/use-toast"
+import { useCart } from "@/hooks/use-cart"
+import { dispatchCart } from "@/lib/cart-store"
+import { MAX_INSTRUCTIONS_LENGTH, MAX_LINE_QUANTITY, getCartItemCount, getCartTotal } from "@/lib/cart"
 
-interface CartItem {
-  cartId: string
-  id: string
-  name: string
-  price: number
-  quantity: number
-  image?: string
-  specialInstructions?: string
-}
-
-interface CartDrawerProps {
-  cart: CartItem[]
-  updateQuantity: (cartId: string, quantity: number) => void
-  removeFromCart: (cartId: string) => void
-  clearCart: () => void
-}
-
-export function CartDrawer({ cart, updateQuantity, removeFromCart, clearCart }: CartDrawerProps) {
+export function CartDrawer() {
+  const cart = useCart()
   const [isOpen, setIsOpen] = useState(false)
   const [isOrderModalOpen, setIsOrderModalOpen] = useState(false)
+  // Line whose note is being edited
+  const [noteDraft, setNoteDraft] = useState<{ cartId: string; text: string } | null>(null)
   const { toast } = useToast()
 
-  const getTotalPrice = () => {
-    return cart.reduce((total, item) => total + item.price * item.quantity, 0)
-  }
+  const getTotalPrice = () => getCartTotal(cart)
+
+  const getTotalItems = () => getCartItemCount(cart)
 
-  const getTotalItems = () => {
-    return cart.reduce((total, item) => total + item.quantity, 0)
+  // A note for every unit of the line, or for just one of them (split onto its own line)
+  const saveNote = (splitOne: boolean) => {
+    if (!noteDraft) return
+    dispatchCart(
+      splitOne
+        ? { type: "split", cartId: noteDraft.cartId, quantity: 1, specialInstructions: noteDraft.text }
+        : { type: "setInstructions", cartId: noteDraft.cartId, specialInstructions: noteDraft.text },
+    )
+    setNoteDraft(null)
   }
 
   const handleClearCart = () => {
-    clearCart()
+    dispatchCart({ type: "clear" })
     setIsOpen(false)
     toast({
       title: "Cart Cleared",
@@ -141,15 +138,48 @@ export function CartDrawer({ cart, updateQuantity, removeFromCart, clearCart }:
                       />
                       <div className="flex-1">
                         <h4 className="font-medium text-gray-800">{item.name}</h4>
+                        {item.specialId && <p className="text-xs font-medium text-orange-600">Today's special</p>}
+                        {item.optionsLabel && <p className="text-xs text-gray-600">{item.optionsLabel}</p>}
                         <p className="text-sm text-amber-600 font-semibold">₹{item.price}</p>
-                        {item.specialInstructions && (
-                          <p className="text-xs text-gray-500 mt-1">Note: {item.specialInstructions}</p>
+                        {noteDraft?.cartId === item.cartId ? (
+                          <div className="mt-2 space-y-2">
+                            <Input
+                              value={noteDraft.text}
+                              onChange={(e) => setNoteDraft({ ...noteDraft, text: e.target.value })}
+                              maxLength={MAX_INSTRUCTIONS_LENGTH}
+                              placeholder="e.g., less sugar"
+                              className="h-8 text-sm"
+                              autoFocus
+                            />
+                            <div className="flex flex-wrap gap-2">
+                              <Button size="sm" className="h-7 bg-amber-600 hover:bg-amber-700" onClick={() => saveNote(false)}>
+                                {item.quantity > 1 ? `Save for all ${item.quantity}` : "Save"}
+                              </Button>
+                              {item.quantity > 1 && (
+                                <Button size="sm" variant="outline" className="h-7" onClick={() => saveNote(true)}>
+                                  Just for 1
+                                </Button>
+                              )}
+                              <Button size="sm" variant="ghost" className="h-7" onClick={() => setNoteDraft(null)}>
+                                Cancel
+                              </Button>
+                            </div>
+                          </div>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => setNoteDraft({ cartId: item.cartId, text: item.specialInstructions ?? "" })}
+                            className="mt-1 flex items-center text-xs text-gray-500 hover:text-amber-700"
+                          >
+                            <StickyNote className="mr-1 h-3 w-3" />
+                            {item.specialInstructions ? `Note: ${item.specialInstructions}` : "Add a note"}
+                          </button>
                         )}
                         <div className="flex items-center space-x-2 mt-2">
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => updateQuantity(item.cartId, Math.max(0, item.quantity - 1))}
+                            onClick={() => dispatchCart({ type: "setQuantity", cartId: item.cartId, quantity: item.quantity - 1 })}
                             className="h-8 w-8 p-0"
                           >
                             <Minus className="h-3 w-3" />
@@ -160,7 +190,8 @@ export function CartDrawer({ cart, updateQuantity, removeFromCart, clearCart }:
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => updateQuantity(item.cartId, item.quantity + 1)}
+                            onClick={() => dispatchCart({ type: "setQuantity", cartId: item.cartId, quantity: item.quantity + 1 })}
+                            disabled={item.quantity >= MAX_LINE_QUANTITY}
                             className="h-8 w-8 p-0"
                           >
                             <Plus className="h-3 w-3" />
@@ -168,7 +199,7 @@ export function CartDrawer({ cart, updateQuantity, removeFromCart, clearCart }:
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => removeFromCart(item.cartId)}
+                            onClick={() => dispatchCart({ type: "remove", cartId: item.cartId })}
                             className="h-8 w-8 p-0 text-red-500 hover:text-red-700 hover:bg-red-50 ml-2"
                           >
                             <X className="h-3 w-3" />
@@ -206,7 +237,7 @@ export function CartDrawer({ cart, updateQuantity, removeFromCart, clearCart }:
       </Sheet>
 
       {/* Order Modal */}
-      <OrderModal isOpen={isOrderModalOpen} onClose={handleOrderModalClose} cart={cart} clearCart={clearCart} />
+      <OrderModal isOpen={isOrderModalOpen} onClose={handleOrderModalClose} />
     </>
   )
 } 
\ No newline at end of file
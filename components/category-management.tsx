@@ -0,0 +1,292 @@
+"use client"
+
+import React, { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Edit, Loader2, Plus, Save, Tags, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { createCategory, deleteCategory, updateCategory } from "@/lib/api"
+import { getErrorToast } from "@/lib/api-errors"
+import { isWithinActiveHours } from "@/lib/menu-categories"
+import { describeWindow, validateAvailabilityWindows } from "@/lib/menu-schedule"
+import { AvailabilityWindowsEditor } from "@/components/availability-windows-editor"
+import type { AvailabilityWindow, MenuCategory, MenuCategoryInput } from "@/lib/types"
+
+interface CategoryManagementProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  categories: MenuCategory[]
+  // Menu items per category id, to warn before deleting
+  itemCounts: Record<number, number>
+}
+
+const emptyForm = {
+  name: "",
+  icon: "",
+  sortOrder: "",
+  isVisible: true,
+  activeFrom: "",
+  activeUntil: "",
+  availabilityWindows: [] as AvailabilityWindow[],
+}
+
+export function CategoryManagement({ open, onOpenChange, categories, itemCounts }: CategoryManagementProps) {
+  const [editingId, setEditingId] = useState<number | "new" | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const startAdd = () => {
+    const nextSortOrder = Math.max(0, ...categories.map((category) => category.sortOrder)) + 10
+    setFormData({ ...emptyForm, sortOrder: String(nextSortOrder) })
+    setEditingId("new")
+  }
+
+  const startEdit = (category: MenuCategory) => {
+    setFormData({
+      name: category.name,
+      icon: category.icon ?? "",
+      sortOrder: String(category.sortOrder),
+      isVisible: category.isVisible,
+      activeFrom: category.activeFrom ?? "",
+      activeUntil: category.activeUntil ?? "",
+      availabilityWindows: category.availabilityWindows ?? [],
+    })
+    setEditingId(category.id)
+  }
+
+  const handleSave = async () => {
+    const sortOrder = Number.parseInt(formData.sortOrder, 10)
+    if (!formData.name.trim() || !Number.isFinite(sortOrder)) {
+      toast({
+        title: "Validation Error",
+        description: "Name and sort order are required.",
+        variant: "destructive",
+      })
+      return
+    }
+    if (!formData.activeFrom !== !formData.activeUntil) {
+      toast({
+        title: "Validation Error",
+        description: "Set both start and end of the active hours, or neither.",
+        variant: "destructive",
+      })
+      return
+    }
+    const scheduleErrors = validateAvailabilityWindows(formData.availabilityWindows)
+    if (scheduleErrors.length > 0) {
+      toast({ title: "Validation Error", description: scheduleErrors[0], variant: "destructive" })
+      return
+    }
+
+    const input: MenuCategoryInput = {
+      name: formData.name.trim(),
+      icon: formData.icon.trim(),
+      sortOrder,
+      isVisible: formData.isVisible,
+      activeFrom: formData.activeFrom,
+      activeUntil: formData.activeUntil,
+      availabilityWindows: formData.availabilityWindows,
+    }
+
+    setSaving(true)
+    try {
+      if (editingId === "new") {
+        await createCategory(input)
+        toast({ title: "Category Added", description: `${input.name} has been added.` })
+      } else if (editingId !== null) {
+        await updateCategory(editingId, input)
+        toast({ title: "Category Updated", description: `${input.name} has been updated.` })
+      }
+      setEditingId(null)
+    } catch (error) {
+      console.error("Error saving category:", error)
+      toast({ ...getErrorToast(error, "Failed to save category"), variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (category: MenuCategory) => {
+    if (itemCounts[category.id]) {
+      toast({
+        title: "Category In Use",
+        description: `Move or delete the ${itemCounts[category.id]} item(s) in ${category.name} first.`,
+        variant: "destructive",
+      })
+      return
+    }
+    try {
+      await deleteCategory(category.id)
+      toast({ title: "Category Removed", description: `${category.name} has been deleted.` })
+    } catch (error) {
+      console.error("Error deleting category:", error)
+      toast({ ...getErrorToast(error, "Failed to delete category"), variant: "destructive" })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl mx-4 sm:mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5 text-amber-600" />
+            Menu Categories
+          </DialogTitle>
+          <DialogDescription>
+            Customers see visible categories in sort order. Active hours limit a category to part of the day,
+            e.g. breakfast.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editingId !== null ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <Label htmlFor="category-name">Name *</Label>
+                <Input
+                  id="category-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., Breakfast"
+                />
+              </div>
+              <div>
+                <Label htmlFor="category-icon">Icon</Label>
+                <Input
+                  id="category-icon"
+                  value={formData.icon}
+                  onChange={(e) => setFormData({ ...formData, icon: e.target.value })}
+                  placeholder="e.g., 🍳"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="category-sort">Sort Order *</Label>
+                <Input
+                  id="category-sort"
+                  type="number"
+                  value={formData.sortOrder}
+                  onChange={(e) => setFormData({ ...formData, sortOrder: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="category-from">Active From</Label>
+                <Input
+                  id="category-from"
+                  type="time"
+                  value={formData.activeFrom}
+                  onChange={(e) => setFormData({ ...formData, activeFrom: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="category-until">Active Until</Label>
+                <Input
+                  id="category-until"
+                  type="time"
+                  value={formData.activeUntil}
+                  onChange={(e) => setFormData({ ...formData, activeUntil: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="category-visible">Visible to customers</Label>
+              <Switch
+                id="category-visible"
+                checked={formData.isVisible}
+                onCheckedChange={(checked) => setFormData({ ...formData, isVisible: checked })}
+              />
+            </div>
+
+            <AvailabilityWindowsEditor
+              label="Weekly Schedule"
+              value={formData.availabilityWindows}
+              onChange={(availabilityWindows) => setFormData({ ...formData, availabilityWindows })}
+            />
+
+            <div className="flex space-x-2 pt-2">
+              <Button variant="outline" onClick={() => setEditingId(null)} className="flex-1">
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving} className="flex-1 bg-amber-600 hover:bg-amber-700">
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Category
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Hours</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {categories.map((category) => (
+                  <TableRow key={category.id}>
+                    <TableCell className="text-gray-500">{category.sortOrder}</TableCell>
+                    <TableCell>
+                      <span className="font-medium">
+                        {category.icon && <span className="mr-1">{category.icon}</span>}
+                        {category.name}
+                      </span>
+                      {!category.isVisible && (
+                        <Badge variant="secondary" className="ml-2">Hidden</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {category.activeFrom && category.activeUntil ? (
+                        <span className={isWithinActiveHours(category) ? "text-green-700" : "text-gray-500"}>
+                          {category.activeFrom}–{category.activeUntil}
+                        </span>
+                      ) : (
+                        <span className="text-gray-500">All day</span>
+                      )}
+                      {category.availabilityWindows?.map((window, index) => (
+                        <div key={index} className="text-xs text-amber-700">{describeWindow(window)}</div>
+                      ))}
+                    </TableCell>
+                    <TableCell>{itemCounts[category.id] ?? 0}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2">
+                        <Button size="sm" variant="outline" onClick={() => startEdit(category)}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDelete(category)}
+                          className="text-red-600 hover:text-red-700 border-red-200 hover:border-red-300"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Button onClick={startAdd} className="w-full bg-amber-600 hover:bg-amber-700">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Category
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,353 @@
+"use client"
+
+import React, { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Edit, Layers, Loader2, Plus, Save, Trash2, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useQuery } from "@/hooks/use-query"
+import { queryKeys } from "@/lib/query-cache"
+import { createCombo, deleteCombo, fetchCombos, updateCombo } from "@/lib/api"
+import { getErrorToast } from "@/lib/api-errors"
+import { getComboRegularPrice, isComboOrderable, validateComboInput } from "@/lib/combos"
+import type { Combo, ComboInput, MenuCategory, MenuItem } from "@/lib/types"
+
+interface ComboManagementProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  menuItems: MenuItem[]
+  categories: MenuCategory[]
+}
+
+type SlotForm = ComboInput["slots"][number]
+
+const emptyForm = {
+  name: "",
+  description: "",
+  price: "",
+  imageUrl: "",
+  isAvailable: true,
+  slots: [
+    { name: "", menuItemIds: [] },
+    { name: "", menuItemIds: [] },
+  ] as SlotForm[],
+}
+
+export function ComboManagement({ open, onOpenChange, menuItems, categories }: ComboManagementProps) {
+  const combosQuery = useQuery(queryKeys.combos, fetchCombos, { enabled: open })
+  const combos = combosQuery.data ?? []
+  const [editingId, setEditingId] = useState<number | "new" | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const startEdit = (combo: Combo) => {
+    setFormData({
+      name: combo.name,
+      description: combo.description,
+      price: String(combo.price),
+      imageUrl: combo.imageUrl ?? "",
+      isAvailable: combo.isAvailable,
+      slots: combo.slots.map((slot) => ({ ...slot })),
+    })
+    setEditingId(combo.id)
+  }
+
+  const updateSlot = (index: number, changes: Partial<SlotForm>) => {
+    setFormData({
+      ...formData,
+      slots: formData.slots.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)),
+    })
+  }
+
+  const toggleSlotItem = (index: number, itemId: number) => {
+    const { menuItemIds } = formData.slots[index]
+    updateSlot(index, {
+      menuItemIds: menuItemIds.includes(itemId) ? menuItemIds.filter((id) => id !== itemId) : [...menuItemIds, itemId],
+    })
+  }
+
+  const handleSave = async () => {
+    const input: ComboInput = {
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+      price: Number.parseFloat(formData.price),
+      imageUrl: formData.imageUrl.trim() || undefined,
+      isAvailable: formData.isAvailable,
+      slots: formData.slots.map((slot) => ({ ...slot, name: slot.name.trim() })),
+    }
+    const errors = validateComboInput(input)
+    if (errors.length > 0) {
+      toast({ title: "Validation Error", description: errors[0], variant: "destructive" })
+      return
+    }
+
+    setSaving(true)
+    try {
+      if (editingId === "new") {
+        await createCombo(input)
+        toast({ title: "Combo Added", description: `${input.name} has been added.` })
+      } else if (editingId !== null) {
+        await updateCombo(editingId, input)
+        toast({ title: "Combo Updated", description: `${input.name} has been updated.` })
+      }
+      setEditingId(null)
+    } catch (error) {
+      console.error("Error saving combo:", error)
+      toast({ ...getErrorToast(error, "Failed to save combo"), variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (combo: Combo) => {
+    try {
+      await deleteCombo(combo.id)
+      toast({ title: "Combo Removed", description: `${combo.name} has been deleted.` })
+    } catch (error) {
+      console.error("Error deleting combo:", error)
+      toast({ ...getErrorToast(error, "Failed to delete combo"), variant: "destructive" })
+    }
+  }
+
+  const describeSlot = (slot: Combo["slots"][number]) => {
+    if (slot.categoryId !== undefined) {
+      return `Any ${categories.find((category) => category.id === slot.categoryId)?.name ?? "item"}`
+    }
+    return slot.menuItemIds
+      .map((id) => menuItems.find((item) => item.id === id)?.name)
+      .filter(Boolean)
+      .join(" / ")
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl mx-4 sm:mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-amber-600" />
+            Combo Meals
+          </DialogTitle>
+          <DialogDescription>
+            Combos bundle menu items at one price. A slot can be a fixed item, a short list to pick from, or any
+            item in a category.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editingId !== null ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <Label htmlFor="combo-name">Name *</Label>
+                <Input
+                  id="combo-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., Coffee + Sandwich"
+                />
+              </div>
+              <div>
+                <Label htmlFor="combo-price">Combo Price (₹) *</Label>
+                <Input
+                  id="combo-price"
+                  type="number"
+                  min="0"
+                  value={formData.price}
+                  onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="combo-description">Description</Label>
+              <Textarea
+                id="combo-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="combo-image">Image URL</Label>
+              <Input
+                id="combo-image"
+                value={formData.imageUrl}
+                onChange={(e) => setFormData({ ...formData, imageUrl: e.target.value })}
+                placeholder="Defaults to the first item's image"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="combo-available">Available to customers</Label>
+              <Switch
+                id="combo-available"
+                checked={formData.isAvailable}
+                onCheckedChange={(checked) => setFormData({ ...formData, isAvailable: checked })}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label>Items in this combo</Label>
+              {formData.slots.map((slot, index) => (
+                <div key={slot.id ?? `new-${index}`} className="rounded-md border p-3 space-y-3">
+                  <div className="flex gap-2">
+                    <Input
+                      value={slot.name}
+                      onChange={(e) => updateSlot(index, { name: e.target.value })}
+                      placeholder="e.g., Coffee"
+                      aria-label="Slot name"
+                    />
+                    <Select
+                      value={slot.categoryId !== undefined ? String(slot.categoryId) : "items"}
+                      onValueChange={(value) =>
+                        updateSlot(index, { categoryId: value === "items" ? undefined : Number(value) })
+                      }
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="items">Chosen items</SelectItem>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={String(category.id)}>
+                            Any {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setFormData({ ...formData, slots: formData.slots.filter((_, i) => i !== index) })}
+                      aria-label="Remove slot"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  {slot.categoryId === undefined && (
+                    <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+                      {menuItems.map((item) => (
+                        <label key={item.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={slot.menuItemIds.includes(item.id)}
+                            onCheckedChange={() => toggleSlotItem(index, item.id)}
+                          />
+                          {item.name}
+                          <span className="text-xs text-gray-500">₹{item.price}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                onClick={() => setFormData({ ...formData, slots: [...formData.slots, { name: "", menuItemIds: [] }] })}
+                className="w-full"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Slot
+              </Button>
+            </div>
+
+            <div className="flex space-x-2 pt-2">
+              <Button variant="outline" onClick={() => setEditingId(null)} className="flex-1">
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving} className="flex-1 bg-amber-600 hover:bg-amber-700">
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Combo
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Combo</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {combos.map((combo) => {
+                  const regularPrice = getComboRegularPrice(combo, menuItems)
+                  return (
+                    <TableRow key={combo.id}>
+                      <TableCell>
+                        <span className="font-medium">{combo.name}</span>
+                        {!combo.isAvailable ? (
+                          <Badge variant="secondary" className="ml-2">Hidden</Badge>
+                        ) : (
+                          !isComboOrderable(combo, menuItems) && (
+                            <Badge variant="secondary" className="ml-2">Items sold out</Badge>
+                          )
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {combo.slots.map((slot) => (
+                          <div key={slot.id}>
+                            <span className="text-gray-500">{slot.name}:</span> {describeSlot(slot)}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">₹{combo.price}</div>
+                        {regularPrice > combo.price && (
+                          <div className="text-xs text-gray-500">from ₹{regularPrice} separately</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-2">
+                          <Button size="sm" variant="outline" onClick={() => startEdit(combo)}>
+                            <Edit className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDelete(combo)}
+                            className="text-red-600 hover:text-red-700 border-red-200 hover:border-red-300"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+
+            {combosQuery.isLoading && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-amber-600" />
+              </div>
+            )}
+
+            <Button
+              onClick={() => {
+                setFormData(emptyForm)
+                setEditingId("new")
+              }}
+              className="w-full bg-amber-600 hover:bg-amber-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Combo
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,104 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ShoppingCart } from "lucide-react"
+import { getComboRegularPrice, getSlotChoices, validateComboSelections, type ComboMenuItem } from "@/lib/combos"
+import type { MenuItem } from "@/lib/types"
+
+interface ComboPickerDialogProps {
+  // The combo being filled in; null closes the dialog
+  item: ComboMenuItem | null
+  menuItems: MenuItem[]
+  // Items outside their schedule can't be picked, keyed by item id
+  closedItemNotices?: Record<number, string>
+  onClose: () => void
+  onConfirm: (item: ComboMenuItem, selections: number[]) => void
+}
+
+export function ComboPickerDialog({ item, menuItems, closedItemNotices = {}, onClose, onConfirm }: ComboPickerDialogProps) {
+  const [selections, setSelections] = useState<number[]>([])
+
+  // Preselect the first open choice in every slot
+  useEffect(() => {
+    if (!item) return
+    setSelections(item.combo.slots.map((slot) => {
+      const choices = getSlotChoices(slot, menuItems)
+      return (choices.find((choice) => !closedItemNotices[choice.id]) ?? choices[0])?.id ?? 0
+    }))
+  }, [item])
+
+  if (!item) return null
+
+  const errors = validateComboSelections(item.combo, selections, menuItems)
+  const closedPick = selections.find((id) => closedItemNotices[id])
+  const regularPrice = getComboRegularPrice(item.combo, menuItems, selections)
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md mx-4 sm:mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item.name}</DialogTitle>
+          <DialogDescription>{item.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {item.combo.slots.map((slot, index) => {
+            const choices = getSlotChoices(slot, menuItems)
+            return (
+              <div key={slot.id} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-semibold text-gray-800">{slot.name}</h4>
+                  <span className="text-xs text-gray-500">{choices.length > 1 ? "Choose 1" : "Included"}</span>
+                </div>
+                <RadioGroup
+                  value={selections[index] ? String(selections[index]) : ""}
+                  onValueChange={(value) => setSelections(selections.map((id, i) => (i === index ? Number(value) : id)))}
+                >
+                  {choices.map((choice) => {
+                    const closedNotice = closedItemNotices[choice.id]
+                    return (
+                      <div key={choice.id} className="flex items-center justify-between rounded-md border p-2">
+                        <div className="flex items-center gap-2">
+                          <RadioGroupItem
+                            value={String(choice.id)}
+                            id={`combo-${slot.id}-${choice.id}`}
+                            disabled={!!closedNotice}
+                          />
+                          <Label htmlFor={`combo-${slot.id}-${choice.id}`} className={closedNotice ? "text-gray-400" : ""}>
+                            {choice.name}
+                          </Label>
+                        </div>
+                        <span className="text-xs text-gray-500">{closedNotice ?? `₹${choice.price}`}</span>
+                      </div>
+                    )
+                  })}
+                </RadioGroup>
+              </div>
+            )
+          })}
+
+          {regularPrice > item.price && (
+            <p className="text-sm text-green-700">
+              ₹{regularPrice} separately · you save ₹{regularPrice - item.price}
+            </p>
+          )}
+          {errors.length > 0 && <p className="text-xs text-red-600">{errors[0]}</p>}
+          {closedPick !== undefined && <p className="text-xs text-red-600">{closedItemNotices[closedPick]}</p>}
+
+          <Button
+            className="w-full bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 text-white"
+            disabled={errors.length > 0 || closedPick !== undefined}
+            onClick={() => onConfirm(item, selections)}
+          >
+            <ShoppingCart className="mr-2 h-4 w-4" />
+            Add to Cart · ₹{item.price}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge"
 import { Phone, Search, Clock, CheckCircle } from "lucide-react"
 import { fetchOrdersByPhone } from "@/lib/order-api"
 import type { Order } from "@/lib/types"
+import { ORDER_STATUS_LABELS } from "@/lib/types"
 
 export function CustomerOrderTracking() {
   const [phone, setPhone] = useState("")
@@ -56,7 +57,7 @@ export function CustomerOrderTracking() {
                 <div className="flex justify-between items-start mb-2">
                   <h3 className="font-semibold">Order #{order.id}</h3>
                   <Badge variant="outline">
-                    {order.orderStatus.charAt(0).toUpperCase() + order.orderStatus.slice(1)}
+                    {ORDER_STATUS_LABELS[order.orderStatus]}
                   </Badge>
                 </div>
                 <p className="text-sm text-gray-600 mb-2">
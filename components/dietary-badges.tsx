@@ -0,0 +1,36 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { ALLERGEN_LABELS, DIETARY_TAG_LABELS } from "@/lib/types"
+import type { MenuItem } from "@/lib/types"
+
+interface DietaryBadgesProps {
+  item: Pick<MenuItem, "dietaryTags" | "allergens">
+  className?: string
+}
+
+// Dietary tags as badges plus a "Contains" line for allergens
+export function DietaryBadges({ item, className = "" }: DietaryBadgesProps) {
+  const tags = item.dietaryTags ?? []
+  const allergens = item.allergens ?? []
+  if (tags.length === 0 && allergens.length === 0) return null
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map((tag) => (
+            <Badge key={tag} variant="outline" className="border-green-300 bg-green-50 text-green-700 text-[10px] px-1.5 py-0">
+              {DIETARY_TAG_LABELS[tag]}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {allergens.length > 0 && (
+        <p className="text-[11px] text-red-700">
+          Contains: {allergens.map((allergen) => ALLERGEN_LABELS[allergen]).join(", ")}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Leaf, X } from "lucide-react"
+import { DIETARY_FILTERS, type DietaryFilterId } from "@/lib/menu-dietary"
+
+interface DietaryFilterChipsProps {
+  selected: DietaryFilterId[]
+  onChange: (selected: DietaryFilterId[]) => void
+  className?: string
+}
+
+export function DietaryFilterChips({ selected, onChange, className = "" }: DietaryFilterChipsProps) {
+  const toggle = (id: DietaryFilterId) => {
+    onChange(selected.includes(id) ? selected.filter((entry) => entry !== id) : [...selected, id])
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      <Leaf className="h-4 w-4 text-green-600" />
+      {DIETARY_FILTERS.map((filter) => {
+        const active = selected.includes(filter.id)
+        return (
+          <Button
+            key={filter.id}
+            variant="outline"
+            size="sm"
+            aria-pressed={active}
+            className={`h-7 rounded-full px-3 text-xs ${
+              active
+                ? "bg-green-600 text-white border-green-600 hover:bg-green-700 hover:text-white"
+                : "border-green-300 text-green-700 bg-white/80 hover:bg-green-50"
+            }`}
+            onClick={() => toggle(filter.id)}
+          >
+            {filter.label}
+          </Button>
+        )
+      })}
+      {selected.length > 0 && (
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-gray-500" onClick={() => onChange([])}>
+          <X className="h-3 w-3 mr-1" />
+          Clear
+        </Button>
+      )}
+    </div>
+  )
+}
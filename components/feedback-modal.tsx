@@ -10,6 +10,7 @@ import { Textarea } from "@/components/ui/textarea"
 import { Star, MessageSquare, Loader2 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { submitFeedback } from "@/lib/feedback-api"
+import { getErrorToast } from "@/lib/api-errors"
 import type { FeedbackSubmission } from "@/lib/types"
 
 interface FeedbackModalProps {
@@ -79,8 +80,7 @@ export function FeedbackModal({ isOpen, onClose }: FeedbackModalProps) {
     } catch (error) {
       console.error('Failed to submit feedback:', error)
       toast({
-        title: "Submission Failed",
-        description: error instanceof Error ? error.message : "Failed to submit feedback. Please try again.",
+        ...getErrorToast(error, "Submission Failed"),
         variant: "destructive",
       })
     } finally {
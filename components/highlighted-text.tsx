@@ -0,0 +1,27 @@
+import type { ReactNode } from "react"
+import type { HighlightRange } from "@/lib/menu-search"
+
+interface HighlightedTextProps {
+  text: string
+  ranges?: HighlightRange[]
+}
+
+// Marks the parts of a menu item name that matched the search
+export function HighlightedText({ text, ranges = [] }: HighlightedTextProps) {
+  if (ranges.length === 0) return <>{text}</>
+
+  const parts: ReactNode[] = []
+  let cursor = 0
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start))
+    parts.push(
+      <mark key={start} className="rounded bg-amber-200/70 px-0.5 text-inherit">
+        {text.slice(start, end)}
+      </mark>,
+    )
+    cursor = end
+  })
+  if (cursor < text.length) parts.push(text.slice(cursor))
+
+  return <>{parts}</>
+}
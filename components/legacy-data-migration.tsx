@@ -0,0 +1,172 @@
+"use client"
+
+import { useState } from "react"
+import { AlertCircle, CheckCircle, Loader2, Upload, XCircle } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { useToast } from "@/hooks/use-toast"
+import { fetchMenuItems } from "@/lib/api"
+import { getErrorToast } from "@/lib/api-errors"
+import {
+  planLegacyMigration,
+  readImportLog,
+  readLegacyData,
+  runLegacyMigration,
+} from "@/lib/legacy-migration"
+import type { MigrationPlan, MigrationRecordStatus, MigrationReport } from "@/lib/legacy-migration"
+
+interface LegacyDataMigrationProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const STATUS_STYLES: Record<MigrationRecordStatus, string> = {
+  ready: "bg-green-100 text-green-800",
+  duplicate: "bg-gray-100 text-gray-700",
+  invalid: "bg-red-100 text-red-800",
+  unsupported: "bg-yellow-100 text-yellow-800",
+}
+
+export function LegacyDataMigration({ open, onOpenChange }: LegacyDataMigrationProps) {
+  const [plan, setPlan] = useState<MigrationPlan | null>(null)
+  const [report, setReport] = useState<MigrationReport | null>(null)
+  const [scanning, setScanning] = useState(false)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const { toast } = useToast()
+
+  const scan = async () => {
+    setScanning(true)
+    setReport(null)
+    try {
+      const menuItems = await fetchMenuItems()
+      setPlan(planLegacyMigration(readLegacyData(), menuItems, readImportLog()))
+    } catch (error) {
+      console.error("Legacy data scan failed:", error)
+      toast({ ...getErrorToast(error, "Could not load the menu"), variant: "destructive" })
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const runImport = async () => {
+    if (!plan) return
+    setProgress({ done: 0, total: plan.counts.ready })
+    try {
+      const result = await runLegacyMigration(plan, (done, total) => setProgress({ done, total }))
+      setReport(result)
+      toast({
+        title: "Import Finished",
+        description: `${result.imported} record(s) imported, ${result.failed} failed.`,
+        variant: result.failed > 0 ? "destructive" : undefined,
+      })
+      // Refresh the plan so imported records show up as duplicates
+      setPlan(planLegacyMigration(readLegacyData(), await fetchMenuItems(), readImportLog()))
+    } catch (error) {
+      console.error("Legacy import failed:", error)
+      toast({ ...getErrorToast(error, "Import failed"), variant: "destructive" })
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (progress) return
+    if (!nextOpen) {
+      setPlan(null)
+      setReport(null)
+    }
+    onOpenChange(nextOpen)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Legacy Browser Data</DialogTitle>
+          <DialogDescription>
+            Converts orders, specials and feedback saved in this browser by the old version of the site into API
+            records. Scan first to see a dry-run report; nothing is submitted until you import.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!plan ? (
+          <Button onClick={scan} disabled={scanning} className="bg-purple-600 hover:bg-purple-700 text-white">
+            {scanning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Scan Legacy Data
+          </Button>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(plan.counts) as MigrationRecordStatus[]).map((status) => (
+                <Badge key={status} className={STATUS_STYLES[status]}>
+                  {plan.counts[status]} {status}
+                </Badge>
+              ))}
+            </div>
+
+            {plan.records.length === 0 ? (
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>No legacy data found in this browser.</AlertDescription>
+              </Alert>
+            ) : (
+              <ul className="divide-y rounded-md border text-sm">
+                {plan.records.map((record, index) => {
+                  const outcome = report?.outcomes.find((item) => item.record.key === record.key)
+                  return (
+                    <li key={`${record.key}-${index}`} className="p-3 space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">{record.label}</span>
+                        <Badge className={STATUS_STYLES[record.status]}>{record.status}</Badge>
+                      </div>
+                      {outcome && (
+                        <p className={`flex items-center gap-1 text-xs ${outcome.ok ? "text-green-700" : "text-red-700"}`}>
+                          {outcome.ok ? <CheckCircle className="h-3 w-3" /> : <XCircle className="h-3 w-3" />}
+                          {outcome.ok ? `Imported as #${outcome.createdId}` : outcome.error}
+                        </p>
+                      )}
+                      {record.errors.map((message) => (
+                        <p key={message} className="flex items-center gap-1 text-xs text-red-700">
+                          <AlertCircle className="h-3 w-3" />
+                          {message}
+                        </p>
+                      ))}
+                      {record.status === "ready" &&
+                        record.warnings.map((message) => (
+                          <p key={message} className="text-xs text-gray-500">
+                            {message}
+                          </p>
+                        ))}
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={scan} disabled={scanning || !!progress}>
+                Rescan
+              </Button>
+              <Button
+                onClick={runImport}
+                disabled={plan.counts.ready === 0 || !!progress}
+                className="bg-purple-600 hover:bg-purple-700 text-white"
+              >
+                {progress ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Importing {progress.done}/{progress.total}...
+                  </>
+                ) : (
+                  `Import ${plan.counts.ready} Record(s)`
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,130 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CalendarClock, CheckCircle, Clock, Loader2, XCircle } from "lucide-react"
+import { fetchOrderTracking, subscribeToOrderTracking } from "@/lib/order-api"
+import { ORDER_STATUS_LABELS } from "@/lib/types"
+import type { OrderTracking } from "@/lib/types"
+import { TRACKING_STEPS, estimateReadyTime, getTrackingStepIndex } from "@/lib/order-tracking"
+import { formatPickupTime } from "@/lib/order-types"
+
+interface LiveOrderTrackerProps {
+  orderId: string
+  // From the order returned by placeOrder
+  trackingToken: string
+  // Order as returned by placeOrder, shown until the first fetch completes
+  initialOrder?: OrderTracking
+  // From estimatePreparationMinutes(cart) at checkout
+  preparationMinutes?: number
+}
+
+export function LiveOrderTracker({ orderId, trackingToken, initialOrder, preparationMinutes }: LiveOrderTrackerProps) {
+  const [order, setOrder] = useState<OrderTracking | null>(initialOrder ?? null)
+  const [connected, setConnected] = useState(false)
+
+  useEffect(() => {
+    let active = true
+
+    const refresh = async () => {
+      try {
+        const latest = await fetchOrderTracking(orderId, trackingToken)
+        if (active) setOrder(latest)
+      } catch (error) {
+        console.error('Failed to refresh order status:', error)
+      }
+    }
+
+    refresh()
+    const unsubscribe = subscribeToOrderTracking(
+      orderId,
+      trackingToken,
+      (updated) => setOrder(updated),
+      (status) => {
+        setConnected(status === "open")
+        // Catch up on anything missed while the stream was down
+        if (status === "open") refresh()
+      },
+    )
+
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [orderId, trackingToken])
+
+  if (!order) {
+    return (
+      <div className="flex items-center justify-center gap-2 text-sm text-gray-500 py-2">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading order status...
+      </div>
+    )
+  }
+
+  if (order.orderStatus === "cancelled") {
+    return (
+      <div className="flex items-center gap-2 rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700 w-full">
+        <XCircle className="h-4 w-4 flex-shrink-0" />
+        <span>
+          {ORDER_STATUS_LABELS.cancelled}
+          {order.cancelledReason ? `: ${order.cancelledReason}` : ""}
+        </span>
+      </div>
+    )
+  }
+
+  const currentStep = getTrackingStepIndex(order.orderStatus)
+  const isReady = currentStep >= TRACKING_STEPS.indexOf("ready")
+  const readyAt = preparationMinutes ? estimateReadyTime(order.orderDate, preparationMinutes) : null
+
+  return (
+    <div className="w-full space-y-3">
+      {order.pickupTime && !isReady && (
+        <div className="flex items-center gap-2 rounded-lg bg-blue-50 border border-blue-200 p-3 text-sm text-blue-800">
+          <CalendarClock className="h-4 w-4 flex-shrink-0" />
+          <span>
+            Scheduled for pickup at <strong>{formatPickupTime(order.pickupTime)}</strong>. We'll start preparing it shortly before then.
+          </span>
+        </div>
+      )}
+
+      <ol className="flex items-start justify-between">
+        {TRACKING_STEPS.map((step, index) => {
+          const done = index < currentStep
+          const active = index === currentStep
+          return (
+            <li key={step} className="flex flex-1 flex-col items-center text-center">
+              <div
+                className={`w-7 h-7 rounded-full flex items-center justify-center border-2 ${
+                  done || active ? "border-green-600 bg-green-600 text-white" : "border-gray-300 text-gray-400"
+                } ${active && !isReady ? "animate-pulse" : ""}`}
+              >
+                {done || (active && isReady) ? <CheckCircle className="h-4 w-4" /> : <span className="text-xs">{index + 1}</span>}
+              </div>
+              <span className={`mt-1 text-xs ${active ? "font-semibold text-gray-900" : "text-gray-500"}`}>
+                {ORDER_STATUS_LABELS[step]}
+              </span>
+            </li>
+          )
+        })}
+      </ol>
+
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span className="flex items-center gap-1">
+          <Clock className="h-3 w-3" />
+          {isReady
+            ? order.orderStatus === "delivered" ? ORDER_STATUS_LABELS.delivered : "Your order is ready at the counter!"
+            : order.pickupTime
+              ? `Ready for pickup at ${formatPickupTime(order.pickupTime)}`
+              : readyAt
+                ? `Estimated ready by ${readyAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+                : ORDER_STATUS_LABELS[order.orderStatus]}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className={`h-2 w-2 rounded-full ${connected ? "bg-green-500" : "bg-gray-300"}`} />
+          {connected ? "Live" : "Connecting..."}
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -39,7 +39,7 @@ export function LocationPopup({ isOpen, onClose, onEnableLocation }: LocationPop
           {/* Description */}
           <div className="space-y-3 text-gray-700">
             <p className="text-base leading-relaxed">
-              Please enable the location to use the order functionality.
+              Please enable the location to use the order functionality, or scan the QR code on your table.
             </p>
           </div>
           
@@ -0,0 +1,273 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Crosshair, Loader2, MapPin, Plus, Save, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useQuery } from "@/hooks/use-query"
+import { queryKeys } from "@/lib/query-cache"
+import { fetchLocationSettings, updateLocationSettings } from "@/lib/settings-api"
+import { formatDistance, validateLocationSettingsInput } from "@/lib/locations"
+import { getErrorToast } from "@/lib/api-errors"
+import type { LocationSettings, LocationSettingsInput } from "@/lib/types"
+
+interface BranchForm {
+  // React key; new branches have no id until saved
+  key: string
+  id?: number
+  name: string
+  address: string
+  latitude: string
+  longitude: string
+  isActive: boolean
+}
+
+let nextBranchKey = 0
+
+function toBranchForms(settings: LocationSettings): BranchForm[] {
+  return settings.branches.map((branch) => ({
+    key: `branch-${branch.id}`,
+    id: branch.id,
+    name: branch.name,
+    address: branch.address ?? "",
+    latitude: String(branch.latitude),
+    longitude: String(branch.longitude),
+    isActive: branch.isActive,
+  }))
+}
+
+// Superadmin settings for where customers may order from: the branches and
+// how close to one of them a customer has to be
+export function LocationSettingsManagement() {
+  const settingsQuery = useQuery(queryKeys.locationSettings, fetchLocationSettings)
+  const [radius, setRadius] = useState("")
+  const [branches, setBranches] = useState<BranchForm[]>([])
+  const [dirty, setDirty] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [locatingKey, setLocatingKey] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  // Load the saved settings, without clobbering unsaved edits on a background refetch
+  useEffect(() => {
+    if (!settingsQuery.data || dirty) return
+    setRadius(String(settingsQuery.data.orderingRadiusMeters))
+    setBranches(toBranchForms(settingsQuery.data))
+  }, [settingsQuery.data, dirty])
+
+  const updateBranch = (key: string, changes: Partial<BranchForm>) => {
+    setBranches((current) => current.map((branch) => (branch.key === key ? { ...branch, ...changes } : branch)))
+    setDirty(true)
+  }
+
+  const addBranch = () => {
+    setBranches((current) => [
+      ...current,
+      { key: `new-${nextBranchKey++}`, name: "", address: "", latitude: "", longitude: "", isActive: true },
+    ])
+    setDirty(true)
+  }
+
+  const removeBranch = (key: string) => {
+    setBranches((current) => current.filter((branch) => branch.key !== key))
+    setDirty(true)
+  }
+
+  // Fills in the coordinates of wherever the admin is standing
+  const fillCurrentPosition = (key: string) => {
+    if (!navigator.geolocation) {
+      toast({ title: "Location Error", description: "Geolocation is not supported by this browser", variant: "destructive" })
+      return
+    }
+    setLocatingKey(key)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocatingKey(null)
+        updateBranch(key, {
+          latitude: position.coords.latitude.toFixed(6),
+          longitude: position.coords.longitude.toFixed(6),
+        })
+      },
+      () => {
+        setLocatingKey(null)
+        toast({ title: "Location Error", description: "Unable to get your location", variant: "destructive" })
+      },
+      { enableHighAccuracy: true, timeout: 10000 },
+    )
+  }
+
+  const input: LocationSettingsInput = {
+    orderingRadiusMeters: Number.parseFloat(radius),
+    branches: branches.map((branch) => ({
+      id: branch.id,
+      name: branch.name.trim(),
+      address: branch.address.trim() || undefined,
+      latitude: Number.parseFloat(branch.latitude),
+      longitude: Number.parseFloat(branch.longitude),
+      isActive: branch.isActive,
+    })),
+  }
+
+  const handleSave = async () => {
+    const errors = validateLocationSettingsInput(input)
+    if (errors.length > 0) {
+      toast({ title: "Validation Error", description: errors[0], variant: "destructive" })
+      return
+    }
+
+    setSaving(true)
+    try {
+      const saved = await updateLocationSettings(input)
+      setRadius(String(saved.orderingRadiusMeters))
+      setBranches(toBranchForms(saved))
+      setDirty(false)
+      toast({
+        title: "Locations Updated",
+        description: `Customers can now order within ${formatDistance(saved.orderingRadiusMeters)} of an active branch.`,
+      })
+    } catch (error) {
+      console.error("Error saving location settings:", error)
+      toast({ ...getErrorToast(error, "Failed to save location settings"), variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const radiusValue = Number.parseFloat(radius)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <MapPin className="h-5 w-5" />
+              <span>Branches & Ordering Area</span>
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Customers order from their nearest active branch once they are within the ordering radius.
+            </CardDescription>
+          </div>
+          <Button onClick={handleSave} disabled={saving || !dirty} className="bg-amber-600 hover:bg-amber-700">
+            {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+            Save Changes
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {settingsQuery.isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="max-w-xs">
+              <Label htmlFor="ordering-radius">Ordering radius (metres)</Label>
+              <Input
+                id="ordering-radius"
+                type="number"
+                min={0}
+                value={radius}
+                onChange={(e) => {
+                  setRadius(e.target.value)
+                  setDirty(true)
+                }}
+              />
+              {Number.isFinite(radiusValue) && radiusValue > 0 && (
+                <p className="text-xs text-gray-500 mt-1">Customers see this as “within {formatDistance(radiusValue)}”.</p>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              {branches.map((branch, index) => (
+                <div key={branch.key} className="border rounded-lg p-4 bg-white shadow-sm space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-semibold">{branch.name.trim() || `Branch ${index + 1}`}</h3>
+                    <div className="flex items-center gap-3">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={branch.isActive}
+                          onCheckedChange={(checked) => updateBranch(branch.key, { isActive: checked })}
+                          aria-label="Branch taking orders"
+                        />
+                        <span className="text-xs text-gray-600">{branch.isActive ? "Taking orders" : "Paused"}</span>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => removeBranch(branch.key)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                      <Label htmlFor={`${branch.key}-name`}>Name</Label>
+                      <Input
+                        id={`${branch.key}-name`}
+                        value={branch.name}
+                        onChange={(e) => updateBranch(branch.key, { name: e.target.value })}
+                        placeholder="e.g. Koramangala"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor={`${branch.key}-address`}>Address</Label>
+                      <Input
+                        id={`${branch.key}-address`}
+                        value={branch.address}
+                        onChange={(e) => updateBranch(branch.key, { address: e.target.value })}
+                        placeholder="Shown to customers"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor={`${branch.key}-latitude`}>Latitude</Label>
+                      <Input
+                        id={`${branch.key}-latitude`}
+                        type="number"
+                        step="any"
+                        value={branch.latitude}
+                        onChange={(e) => updateBranch(branch.key, { latitude: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor={`${branch.key}-longitude`}>Longitude</Label>
+                      <Input
+                        id={`${branch.key}-longitude`}
+                        type="number"
+                        step="any"
+                        value={branch.longitude}
+                        onChange={(e) => updateBranch(branch.key, { longitude: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => fillCurrentPosition(branch.key)}
+                    disabled={locatingKey !== null}
+                  >
+                    {locatingKey === branch.key ? (
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                      <Crosshair className="h-3 w-3 mr-1" />
+                    )}
+                    Use My Current Location
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" onClick={addBranch}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Branch
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ShoppingCart } from "lucide-react"
+import { getDefaultSelection, getSelectionPrice, validateSelection } from "@/lib/menu-options"
+import type { MenuItem, MenuItemSelection, ModifierGroup } from "@/lib/types"
+
+interface MenuItemOptionsDialogProps {
+  // The item being customised; null closes the dialog
+  item: MenuItem | null
+  onClose: () => void
+  onConfirm: (item: MenuItem, selection: MenuItemSelection) => void
+}
+
+function formatDelta(priceDelta: number) {
+  if (priceDelta === 0) return ""
+  return priceDelta > 0 ? `+₹${priceDelta}` : `−₹${Math.abs(priceDelta)}`
+}
+
+function describeLimits(group: ModifierGroup) {
+  if (group.minSelect === 1 && group.maxSelect === 1) return "Required"
+  if (group.minSelect > 0) return `Choose ${group.minSelect}–${group.maxSelect}`
+  return `Optional, up to ${group.maxSelect}`
+}
+
+export function MenuItemOptionsDialog({ item, onClose, onConfirm }: MenuItemOptionsDialogProps) {
+  const [selection, setSelection] = useState<MenuItemSelection>({ modifierOptionIds: [] })
+
+  useEffect(() => {
+    if (item) setSelection(getDefaultSelection(item))
+  }, [item])
+
+  if (!item) return null
+
+  const errors = validateSelection(item, selection)
+  const unitPrice = getSelectionPrice(item, selection)
+
+  const groupOptionIds = (group: ModifierGroup) => group.options.map((option) => option.id)
+
+  // Single-choice groups behave like radios; others toggle up to the group's max
+  const setGroupChoice = (group: ModifierGroup, optionId: number) => {
+    const ids = groupOptionIds(group)
+    setSelection({
+      ...selection,
+      modifierOptionIds: [...selection.modifierOptionIds.filter((id) => !ids.includes(id)), optionId],
+    })
+  }
+
+  const toggleOption = (optionId: number, checked: boolean) => {
+    setSelection({
+      ...selection,
+      modifierOptionIds: checked
+        ? [...selection.modifierOptionIds, optionId]
+        : selection.modifierOptionIds.filter((id) => id !== optionId),
+    })
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md mx-4 sm:mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item.name}</DialogTitle>
+          <DialogDescription>{item.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {item.variants && item.variants.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold text-gray-800">Size</h4>
+                <span className="text-xs text-gray-500">Required</span>
+              </div>
+              <RadioGroup
+                value={selection.variantId !== undefined ? String(selection.variantId) : ""}
+                onValueChange={(value) => setSelection({ ...selection, variantId: Number(value) })}
+              >
+                {item.variants.map((variant) => (
+                  <div key={variant.id} className="flex items-center justify-between rounded-md border p-2">
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value={String(variant.id)} id={`variant-${variant.id}`} />
+                      <Label htmlFor={`variant-${variant.id}`}>{variant.name}</Label>
+                    </div>
+                    <span className="text-sm text-gray-600">{formatDelta(variant.priceDelta)}</span>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          )}
+
+          {item.modifierGroups?.map((group) => {
+            const ids = groupOptionIds(group)
+            const selectedCount = selection.modifierOptionIds.filter((id) => ids.includes(id)).length
+            const singleChoice = group.maxSelect === 1
+            return (
+              <div key={group.id} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-semibold text-gray-800">{group.name}</h4>
+                  <span className="text-xs text-gray-500">{describeLimits(group)}</span>
+                </div>
+                {singleChoice && group.minSelect === 1 ? (
+                  <RadioGroup
+                    value={String(selection.modifierOptionIds.find((id) => ids.includes(id)) ?? "")}
+                    onValueChange={(value) => setGroupChoice(group, Number(value))}
+                  >
+                    {group.options.map((option) => (
+                      <div key={option.id} className="flex items-center justify-between rounded-md border p-2">
+                        <div className="flex items-center gap-2">
+                          <RadioGroupItem value={String(option.id)} id={`option-${option.id}`} />
+                          <Label htmlFor={`option-${option.id}`}>{option.name}</Label>
+                        </div>
+                        <span className="text-sm text-gray-600">{formatDelta(option.priceDelta)}</span>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                ) : (
+                  group.options.map((option) => {
+                    const checked = selection.modifierOptionIds.includes(option.id)
+                    return (
+                      <div key={option.id} className="flex items-center justify-between rounded-md border p-2">
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id={`option-${option.id}`}
+                            checked={checked}
+                            disabled={!checked && selectedCount >= group.maxSelect}
+                            onCheckedChange={(value) => toggleOption(option.id, value === true)}
+                          />
+                          <Label htmlFor={`option-${option.id}`}>{option.name}</Label>
+                        </div>
+                        <span className="text-sm text-gray-600">{formatDelta(option.priceDelta)}</span>
+                      </div>
+                    )
+                  })
+                )}
+              </div>
+            )
+          })}
+
+          {errors.length > 0 && <p className="text-xs text-red-600">{errors[0]}</p>}
+
+          <Button
+            className="w-full bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 text-white"
+            disabled={errors.length > 0}
+            onClick={() => onConfirm(item, selection)}
+          >
+            <ShoppingCart className="mr-2 h-4 w-4" />
+            Add to Cart · ₹{unitPrice}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
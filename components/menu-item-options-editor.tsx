@@ -0,0 +1,206 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Plus, Trash2 } from "lucide-react"
+import type { MenuItemInput } from "@/lib/types"
+
+export type MenuItemOptionsInput = Required<Pick<MenuItemInput, "variants" | "modifierGroups">>
+
+interface MenuItemOptionsEditorProps {
+  value: MenuItemOptionsInput
+  onChange: (value: MenuItemOptionsInput) => void
+}
+
+type VariantInput = MenuItemOptionsInput["variants"][number]
+type GroupInput = MenuItemOptionsInput["modifierGroups"][number]
+
+function toNumber(value: string) {
+  const parsed = Number.parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+// Sizes and add-on groups for one menu item. Price deltas are relative to the base price.
+export function MenuItemOptionsEditor({ value, onChange }: MenuItemOptionsEditorProps) {
+  const { variants, modifierGroups } = value
+
+  const setVariant = (index: number, patch: Partial<VariantInput>) => {
+    onChange({
+      ...value,
+      variants: variants.map((variant, i) => {
+        if (i === index) return { ...variant, ...patch }
+        // Only one default size
+        return patch.isDefault ? { ...variant, isDefault: false } : variant
+      }),
+    })
+  }
+
+  const setGroup = (index: number, patch: Partial<GroupInput>) => {
+    onChange({
+      ...value,
+      modifierGroups: modifierGroups.map((group, i) => (i === index ? { ...group, ...patch } : group)),
+    })
+  }
+
+  return (
+    <div className="space-y-4 rounded-md border p-3">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Sizes</Label>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              onChange({
+                ...value,
+                variants: [...variants, { name: "", priceDelta: 0, isDefault: variants.length === 0 }],
+              })
+            }
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Size
+          </Button>
+        </div>
+        {variants.map((variant, index) => (
+          <div key={variant.id ?? `new-${index}`} className="flex items-center gap-2">
+            <Input
+              value={variant.name}
+              onChange={(e) => setVariant(index, { name: e.target.value })}
+              placeholder="e.g., Large"
+            />
+            <Input
+              type="number"
+              className="w-24"
+              value={variant.priceDelta}
+              onChange={(e) => setVariant(index, { priceDelta: toNumber(e.target.value) })}
+              aria-label="Price change"
+            />
+            <div className="flex items-center gap-1">
+              <Switch
+                checked={variant.isDefault}
+                onCheckedChange={(checked) => checked && setVariant(index, { isDefault: true })}
+                aria-label="Default size"
+              />
+              <span className="text-xs text-gray-500">Default</span>
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => onChange({ ...value, variants: variants.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Add-on Groups</Label>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              onChange({
+                ...value,
+                modifierGroups: [...modifierGroups, { name: "", minSelect: 0, maxSelect: 1, options: [] }],
+              })
+            }
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Group
+          </Button>
+        </div>
+        {modifierGroups.map((group, groupIndex) => (
+          <div key={group.id ?? `new-${groupIndex}`} className="space-y-2 rounded-md bg-gray-50 p-2">
+            <div className="flex items-center gap-2">
+              <Input
+                value={group.name}
+                onChange={(e) => setGroup(groupIndex, { name: e.target.value })}
+                placeholder="e.g., Extras"
+              />
+              <Input
+                type="number"
+                min={0}
+                className="w-16"
+                value={group.minSelect}
+                onChange={(e) => setGroup(groupIndex, { minSelect: toNumber(e.target.value) })}
+                aria-label="Minimum selections"
+              />
+              <Input
+                type="number"
+                min={1}
+                className="w-16"
+                value={group.maxSelect}
+                onChange={(e) => setGroup(groupIndex, { maxSelect: toNumber(e.target.value) })}
+                aria-label="Maximum selections"
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() =>
+                  onChange({ ...value, modifierGroups: modifierGroups.filter((_, i) => i !== groupIndex) })
+                }
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">Min / max selections</p>
+            {group.options.map((option, optionIndex) => (
+              <div key={option.id ?? `new-${optionIndex}`} className="flex items-center gap-2 pl-4">
+                <Input
+                  value={option.name}
+                  onChange={(e) =>
+                    setGroup(groupIndex, {
+                      options: group.options.map((entry, i) =>
+                        i === optionIndex ? { ...entry, name: e.target.value } : entry,
+                      ),
+                    })
+                  }
+                  placeholder="e.g., Extra shot"
+                />
+                <Input
+                  type="number"
+                  className="w-24"
+                  value={option.priceDelta}
+                  onChange={(e) =>
+                    setGroup(groupIndex, {
+                      options: group.options.map((entry, i) =>
+                        i === optionIndex ? { ...entry, priceDelta: toNumber(e.target.value) } : entry,
+                      ),
+                    })
+                  }
+                  aria-label="Price change"
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setGroup(groupIndex, { options: group.options.filter((_, i) => i !== optionIndex) })}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="ml-4"
+              onClick={() => setGroup(groupIndex, { options: [...group.options, { name: "", priceDelta: 0 }] })}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Option
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,688 @@
+"use client"
+
+import React, { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Edit, Layers, Loader2, Percent, Plus, RefreshCw, Save, Search, Tags, Trash2, UtensilsCrossed } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useQuery } from "@/hooks/use-query"
+import { queryKeys } from "@/lib/query-cache"
+import {
+  bulkUpdateCategoryPrices,
+  createMenuItem,
+  deleteMenuItem,
+  fetchCategories,
+  fetchMenuItems,
+  setMenuItemAvailability,
+  updateMenuItem,
+} from "@/lib/api"
+import { getErrorToast } from "@/lib/api-errors"
+import { applyPriceChange } from "@/lib/menu-pricing"
+import { validateMenuItemOptions } from "@/lib/menu-options"
+import { CategoryManagement } from "@/components/category-management"
+import { ComboManagement } from "@/components/combo-management"
+import { MenuItemOptionsEditor, type MenuItemOptionsInput } from "@/components/menu-item-options-editor"
+import { DietaryBadges } from "@/components/dietary-badges"
+import { AvailabilityWindowsEditor } from "@/components/availability-windows-editor"
+import { describeWindow, validateAvailabilityWindows } from "@/lib/menu-schedule"
+import { ALLERGEN_LABELS, ALLERGENS, DIETARY_TAG_LABELS, DIETARY_TAGS } from "@/lib/types"
+import type { Allergen, AvailabilityWindow, BulkPriceChange, DietaryTag, MenuItem, MenuItemInput } from "@/lib/types"
+
+interface MenuManagementProps {
+  userType: "admin" | "superadmin" | null
+}
+
+const emptyForm = {
+  name: "",
+  price: "",
+  categoryId: "",
+  description: "",
+  imageUrl: "",
+  preparationTime: "10",
+  isAvailable: true,
+  options: { variants: [], modifierGroups: [] } as MenuItemOptionsInput,
+  dietaryTags: [] as DietaryTag[],
+  // Off until someone has checked the recipe; "Nut-free" etc. filters skip unchecked items
+  allergensRecorded: false,
+  allergens: [] as Allergen[],
+  availabilityWindows: [] as AvailabilityWindow[],
+}
+
+function toggleValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((entry) => entry !== value) : [...values, value]
+}
+
+export function MenuManagement({ userType }: MenuManagementProps) {
+  const menuQuery = useQuery(queryKeys.menu, fetchMenuItems)
+  const menuItems = menuQuery.data ?? []
+  const categoriesQuery = useQuery(queryKeys.categories, fetchCategories)
+  const categories = categoriesQuery.data ?? []
+  const [showCategoryModal, setShowCategoryModal] = useState(false)
+  const [showComboModal, setShowComboModal] = useState(false)
+  const [searchTerm, setSearchTerm] = useState("")
+  const [categoryFilter, setCategoryFilter] = useState("all")
+  const [showFormModal, setShowFormModal] = useState(false)
+  const [editingItem, setEditingItem] = useState<MenuItem | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [deleteTarget, setDeleteTarget] = useState<MenuItem | null>(null)
+  const [showBulkModal, setShowBulkModal] = useState(false)
+  const [bulkChange, setBulkChange] = useState({ categoryId: "", mode: "percent" as BulkPriceChange["mode"], value: "" })
+  const { toast } = useToast()
+
+  // Staff can mark items sold out; only super admins edit the menu itself
+  const canEdit = userType === "superadmin"
+
+  const itemCounts = useMemo(() => {
+    const counts: Record<number, number> = {}
+    menuItems.forEach((item) => {
+      if (item.categoryId !== undefined) counts[item.categoryId] = (counts[item.categoryId] || 0) + 1
+    })
+    return counts
+  }, [menuItems])
+
+  const filteredItems = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase()
+    return menuItems.filter((item) =>
+      (categoryFilter === "all" || String(item.categoryId) === categoryFilter) &&
+      (!term || item.name.toLowerCase().includes(term) || item.description.toLowerCase().includes(term)),
+    )
+  }, [menuItems, searchTerm, categoryFilter])
+
+  const showError = (error: unknown, title: string) => {
+    console.error(`${title}:`, error)
+    toast({ ...getErrorToast(error, title), variant: "destructive" })
+  }
+
+  const openAddModal = () => {
+    setEditingItem(null)
+    setFormData(emptyForm)
+    setShowFormModal(true)
+  }
+
+  const openEditModal = (item: MenuItem) => {
+    setEditingItem(item)
+    setFormData({
+      name: item.name,
+      price: item.price.toString(),
+      categoryId: item.categoryId ? String(item.categoryId) : "",
+      description: item.description,
+      imageUrl: item.imageUrl ?? "",
+      preparationTime: String(item.preparationTime ?? 10),
+      isAvailable: item.isAvailable ?? true,
+      options: { variants: item.variants ?? [], modifierGroups: item.modifierGroups ?? [] },
+      dietaryTags: item.dietaryTags ?? [],
+      allergensRecorded: item.allergens !== undefined,
+      allergens: item.allergens ?? [],
+      availabilityWindows: item.availabilityWindows ?? [],
+    })
+    setShowFormModal(true)
+  }
+
+  const handleSave = async () => {
+    const price = Number.parseFloat(formData.price)
+    const preparationTime = Number.parseInt(formData.preparationTime, 10)
+    if (!formData.name.trim() || !formData.categoryId || !Number.isFinite(price) || price < 0) {
+      toast({
+        title: "Validation Error",
+        description: "Name, category and a valid price are required.",
+        variant: "destructive",
+      })
+      return
+    }
+    const optionErrors = [
+      ...validateAvailabilityWindows(formData.availabilityWindows),
+      ...validateMenuItemOptions(formData.options),
+    ]
+    if (optionErrors.length > 0) {
+      toast({ title: "Validation Error", description: optionErrors[0], variant: "destructive" })
+      return
+    }
+
+    const input: MenuItemInput = {
+      name: formData.name.trim(),
+      price,
+      categoryId: Number(formData.categoryId),
+      description: formData.description.trim(),
+      imageUrl: formData.imageUrl.trim(),
+      isAvailable: formData.isAvailable,
+      preparationTimeMinutes: Number.isFinite(preparationTime) && preparationTime > 0 ? preparationTime : undefined,
+      variants: formData.options.variants,
+      modifierGroups: formData.options.modifierGroups,
+      dietaryTags: formData.dietaryTags,
+      allergens: formData.allergensRecorded ? formData.allergens : undefined,
+      availabilityWindows: formData.availabilityWindows,
+    }
+
+    setSaving(true)
+    try {
+      if (editingItem) {
+        await updateMenuItem(editingItem.id, input)
+        toast({ title: "Item Updated", description: `${input.name} has been updated.` })
+      } else {
+        await createMenuItem(input)
+        toast({ title: "Item Added", description: `${input.name} has been added to the menu.` })
+      }
+      setShowFormModal(false)
+      setEditingItem(null)
+    } catch (error) {
+      showError(error, editingItem ? "Failed to update item" : "Failed to add item")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleAvailability = async (item: MenuItem, isAvailable: boolean) => {
+    try {
+      await setMenuItemAvailability(item.id, isAvailable)
+      toast({
+        title: isAvailable ? "Item Available" : "Item Sold Out",
+        description: `${item.name} is now ${isAvailable ? "available" : "unavailable"} to customers.`,
+      })
+    } catch (error) {
+      showError(error, "Failed to update availability")
+    }
+  }
+
+  const confirmDelete = async () => {
+    if (!deleteTarget) return
+    const item = deleteTarget
+    setDeleteTarget(null)
+    try {
+      await deleteMenuItem(item.id)
+      toast({ title: "Item Removed", description: `${item.name} has been removed from the menu.` })
+    } catch (error) {
+      showError(error, "Failed to delete item")
+    }
+  }
+
+  const bulkValue = Number.parseFloat(bulkChange.value)
+  const bulkPreview = bulkChange.categoryId && Number.isFinite(bulkValue)
+    ? menuItems
+        .filter((item) => String(item.categoryId) === bulkChange.categoryId)
+        .map((item) => ({ item, next: applyPriceChange(item.price, { mode: bulkChange.mode, value: bulkValue }) }))
+    : []
+
+  const handleBulkUpdate = async () => {
+    if (!bulkChange.categoryId || !Number.isFinite(bulkValue) || bulkValue === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Choose a category and a non-zero change.",
+        variant: "destructive",
+      })
+      return
+    }
+    setSaving(true)
+    try {
+      const updated = await bulkUpdateCategoryPrices({
+        categoryId: Number(bulkChange.categoryId),
+        mode: bulkChange.mode,
+        value: bulkValue,
+      })
+      toast({
+        title: "Prices Updated",
+        description: `${updated.length} ${categories.find((category) => String(category.id) === bulkChange.categoryId)?.name ?? ""} item(s) repriced.`,
+      })
+      setShowBulkModal(false)
+      setBulkChange({ categoryId: "", mode: "percent", value: "" })
+    } catch (error) {
+      showError(error, "Failed to update prices")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!userType) return null
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <UtensilsCrossed className="h-6 w-6 text-amber-600" />
+            Menu
+          </h2>
+          <p className="text-gray-600 mt-1">
+            {canEdit ? "Add, edit and reprice menu items" : "Mark items as available or sold out"}
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => {
+              menuQuery.refetch()
+              categoriesQuery.refetch()
+            }}
+            disabled={menuQuery.isFetching}
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${menuQuery.isFetching ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          {canEdit && (
+            <>
+              <Button variant="outline" onClick={() => setShowCategoryModal(true)}>
+                <Tags className="h-4 w-4 mr-2" />
+                Categories
+              </Button>
+              <Button variant="outline" onClick={() => setShowComboModal(true)}>
+                <Layers className="h-4 w-4 mr-2" />
+                Combos
+              </Button>
+              <Button variant="outline" onClick={() => setShowBulkModal(true)}>
+                <Percent className="h-4 w-4 mr-2" />
+                Bulk Price Change
+              </Button>
+              <Button onClick={openAddModal} className="bg-amber-600 hover:bg-amber-700">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Menu Item
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="relative">
+              <Search className="h-4 w-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+              <Input
+                placeholder="Search menu items..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger>
+                <SelectValue placeholder="Filter by category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={String(category.id)}>
+                    {category.icon ? `${category.icon} ` : ""}{category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Items List */}
+      {menuQuery.isLoading ? (
+        <Card>
+          <CardContent className="flex items-center justify-center py-12 text-gray-500">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Loading menu...
+          </CardContent>
+        </Card>
+      ) : filteredItems.length === 0 ? (
+        <Card>
+          <CardContent className="flex items-center justify-center py-12">
+            <div className="text-center">
+              <UtensilsCrossed className="h-16 w-16 mx-auto text-gray-300 mb-4" />
+              <p className="text-gray-500">
+                {menuQuery.error && menuItems.length === 0
+                  ? "Could not load the menu"
+                  : menuItems.length === 0 ? "No menu items yet" : "No items match your filters"}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Prep Time</TableHead>
+                <TableHead>Available</TableHead>
+                {canEdit && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredItems.map((item) => (
+                <TableRow key={item.id} className={item.isAvailable === false ? "opacity-60" : ""}>
+                  <TableCell>
+                    <div className="font-medium">{item.name}</div>
+                    {item.description && <div className="text-xs text-gray-500 line-clamp-1">{item.description}</div>}
+                    <DietaryBadges item={item} className="mt-1" />
+                    {item.availabilityWindows?.map((window, index) => (
+                      <div key={index} className="text-xs text-amber-700">{describeWindow(window)}</div>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{item.category}</Badge>
+                  </TableCell>
+                  <TableCell className="font-semibold text-green-600">₹{item.price}</TableCell>
+                  <TableCell>{item.preparationTime ? `${item.preparationTime} min` : "-"}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={item.isAvailable !== false}
+                      onCheckedChange={(checked) => handleToggleAvailability(item, checked)}
+                      aria-label={`Toggle availability of ${item.name}`}
+                    />
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2">
+                        <Button size="sm" variant="outline" onClick={() => openEditModal(item)}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setDeleteTarget(item)}
+                          className="text-red-600 hover:text-red-700 border-red-200 hover:border-red-300"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      {/* Add / Edit Item Modal */}
+      <Dialog open={showFormModal} onOpenChange={setShowFormModal}>
+        <DialogContent className="max-w-md mx-4 sm:mx-auto max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              {editingItem ? <Edit className="h-5 w-5 text-amber-600" /> : <Plus className="h-5 w-5 text-amber-600" />}
+              {editingItem ? "Edit Menu Item" : "Add Menu Item"}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="menu-name">Name *</Label>
+              <Input
+                id="menu-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., Masala Tea"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="menu-price">Price (₹) *</Label>
+                <Input
+                  id="menu-price"
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={formData.price}
+                  onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="menu-prep">Prep Time (min)</Label>
+                <Input
+                  id="menu-prep"
+                  type="number"
+                  min="1"
+                  value={formData.preparationTime}
+                  onChange={(e) => setFormData({ ...formData, preparationTime: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="menu-category">Category *</Label>
+              <Select value={formData.categoryId} onValueChange={(value) => setFormData({ ...formData, categoryId: value })}>
+                <SelectTrigger id="menu-category">
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={String(category.id)}>
+                    {category.icon ? `${category.icon} ` : ""}{category.name}
+                  </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="menu-description">Description</Label>
+              <Textarea
+                id="menu-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={3}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="menu-image">Image URL</Label>
+              <Input
+                id="menu-image"
+                value={formData.imageUrl}
+                onChange={(e) => setFormData({ ...formData, imageUrl: e.target.value })}
+                placeholder="Leave empty to use /images/menu/<item-name>.jpg"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="menu-available">Available to customers</Label>
+              <Switch
+                id="menu-available"
+                checked={formData.isAvailable}
+                onCheckedChange={(checked) => setFormData({ ...formData, isAvailable: checked })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Dietary Tags</Label>
+              <div className="flex flex-wrap gap-2">
+                {DIETARY_TAGS.map((tag) => (
+                  <Button
+                    key={tag}
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    aria-pressed={formData.dietaryTags.includes(tag)}
+                    className={formData.dietaryTags.includes(tag) ? "bg-green-600 text-white hover:bg-green-700 hover:text-white" : ""}
+                    onClick={() => setFormData({ ...formData, dietaryTags: toggleValue(formData.dietaryTags, tag) })}
+                  >
+                    {DIETARY_TAG_LABELS[tag]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="menu-allergens-recorded">Allergens checked</Label>
+                <Switch
+                  id="menu-allergens-recorded"
+                  checked={formData.allergensRecorded}
+                  onCheckedChange={(checked) => setFormData({ ...formData, allergensRecorded: checked })}
+                />
+              </div>
+              {formData.allergensRecorded && (
+                <div className="flex flex-wrap gap-2">
+                  {ALLERGENS.map((allergen) => (
+                    <Button
+                      key={allergen}
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      aria-pressed={formData.allergens.includes(allergen)}
+                      className={formData.allergens.includes(allergen) ? "bg-red-600 text-white hover:bg-red-700 hover:text-white" : ""}
+                      onClick={() => setFormData({ ...formData, allergens: toggleValue(formData.allergens, allergen) })}
+                    >
+                      {ALLERGEN_LABELS[allergen]}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <AvailabilityWindowsEditor
+              value={formData.availabilityWindows}
+              onChange={(availabilityWindows) => setFormData({ ...formData, availabilityWindows })}
+            />
+
+            <MenuItemOptionsEditor
+              value={formData.options}
+              onChange={(options) => setFormData({ ...formData, options })}
+            />
+
+            <div className="flex space-x-2 pt-4">
+              <Button variant="outline" onClick={() => setShowFormModal(false)} className="flex-1">
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving} className="flex-1 bg-amber-600 hover:bg-amber-700">
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                {editingItem ? "Update Item" : "Save Item"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Bulk Price Modal */}
+      <Dialog open={showBulkModal} onOpenChange={setShowBulkModal}>
+        <DialogContent className="max-w-md mx-4 sm:mx-auto max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Percent className="h-5 w-5 text-amber-600" />
+              Bulk Price Change
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="bulk-category">Category</Label>
+              <Select value={bulkChange.categoryId} onValueChange={(value) => setBulkChange({ ...bulkChange, categoryId: value })}>
+                <SelectTrigger id="bulk-category">
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={String(category.id)}>
+                    {category.icon ? `${category.icon} ` : ""}{category.name}
+                  </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="bulk-mode">Change By</Label>
+                <Select
+                  value={bulkChange.mode}
+                  onValueChange={(value: BulkPriceChange["mode"]) => setBulkChange({ ...bulkChange, mode: value })}
+                >
+                  <SelectTrigger id="bulk-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percent (%)</SelectItem>
+                    <SelectItem value="amount">Amount (₹)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="bulk-value">Value</Label>
+                <Input
+                  id="bulk-value"
+                  type="number"
+                  value={bulkChange.value}
+                  onChange={(e) => setBulkChange({ ...bulkChange, value: e.target.value })}
+                  placeholder="e.g., 10 or -5"
+                />
+              </div>
+            </div>
+
+            {bulkPreview.length > 0 && (
+              <ul className="max-h-48 overflow-y-auto rounded-md border divide-y text-sm">
+                {bulkPreview.map(({ item, next }) => (
+                  <li key={item.id} className="flex justify-between px-3 py-2">
+                    <span>{item.name}</span>
+                    <span>
+                      <span className="text-gray-400 line-through mr-2">₹{item.price}</span>
+                      <span className="font-semibold">₹{next}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex space-x-2 pt-4">
+              <Button variant="outline" onClick={() => setShowBulkModal(false)} className="flex-1">
+                Cancel
+              </Button>
+              <Button onClick={handleBulkUpdate} disabled={saving} className="flex-1 bg-amber-600 hover:bg-amber-700">
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Apply to {bulkPreview.length} Item(s)
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <CategoryManagement
+        open={showCategoryModal}
+        onOpenChange={setShowCategoryModal}
+        categories={categories}
+        itemCounts={itemCounts}
+      />
+
+      <ComboManagement
+        open={showComboModal}
+        onOpenChange={setShowComboModal}
+        menuItems={menuItems}
+        categories={categories}
+      />
+
+      {/* Delete confirmation dialog */}
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => { if (!open) setDeleteTarget(null) }}>
+        <AlertDialogContent className="mx-4 sm:mx-auto">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete menu item?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget ? `Are you sure you want to delete "${deleteTarget.name}"?` : ""}
+              <br />Customers will no longer see it. To hide it temporarily, turn off availability instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-red-600 hover:bg-red-700">Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
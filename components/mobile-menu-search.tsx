@@ -5,62 +5,72 @@ import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
-import { Search, ShoppingCart, Minus, Plus } from "lucide-react"
-
-interface MenuItem {
-  id: number
-  name: string
-  price: number
-  category: string
-  description: string
-  image?: string
-}
+import { Search, ShoppingCart, Minus, Plus, Clock } from "lucide-react"
+import { DietaryFilterChips } from "@/components/dietary-filter-chips"
+import { DietaryBadges } from "@/components/dietary-badges"
+import { HighlightedText } from "@/components/highlighted-text"
+import { useCart } from "@/hooks/use-cart"
+import { hasChoices } from "@/lib/combos"
+import { matchesDietaryFilters, type DietaryFilterId } from "@/lib/menu-dietary"
+import { getSearchSuggestion, searchMenu } from "@/lib/menu-search"
+import type { MenuItem } from "@/lib/types"
 
 interface MobileMenuSearchProps {
   menuItems: MenuItem[]
   categories: string[]
-  cart: any[] // Add main cart state
+  categoryIcons?: Record<string, string>
   onAddToCart: (item: MenuItem) => void
   onUpdateQuantity: (item: MenuItem, newQuantity: number) => void // Add quantity update callback
   selectedCategory: string
   onCategoryChange: (category: string) => void
+  // "Available from 4 PM" etc. for items outside their schedule, keyed by item id
+  closedItemNotices?: Record<number, string>
+  dietaryFilters: DietaryFilterId[]
+  onDietaryFiltersChange: (filters: DietaryFilterId[]) => void
+  // Units sold per item name, to rank search results
+  searchPopularity?: Record<string, number>
   locationAllowed: boolean // Add location state
   checkingLocation: boolean // Add checking location state
+  availabilityUnconfirmed?: boolean // Showing a saved offline menu
 }
 
 export function MobileMenuSearch({
   menuItems,
   categories,
-  cart, // Use main cart instead of local state
+  categoryIcons = {},
   onAddToCart,
   onUpdateQuantity, // Use callback for quantity updates
   selectedCategory,
   onCategoryChange,
+  closedItemNotices = {},
+  dietaryFilters,
+  onDietaryFiltersChange,
+  searchPopularity = {},
   locationAllowed, // Use location state
   checkingLocation, // Use checking location state
+  availabilityUnconfirmed = false,
 }: MobileMenuSearchProps) {
   const [searchTerm, setSearchTerm] = useState("")
+  const cart = useCart()
   // Remove local cart state - const [cart, setCart] = useState<{ [key: number]: number }>({})
 
-  const filteredItems = menuItems.filter((item) => {
-    const categoryMatch = selectedCategory === "All" || item.category === selectedCategory
-    const searchMatch =
-      !searchTerm.trim() ||
-      item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      item.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      item.category.toLowerCase().includes(searchTerm.toLowerCase())
-
-    return categoryMatch && searchMatch
-  })
+  const browsableItems = menuItems.filter((item) =>
+    (selectedCategory === "All" || item.category === selectedCategory) && matchesDietaryFilters(item, dietaryFilters),
+  )
+  const searchResults = searchMenu(browsableItems, searchTerm, searchPopularity)
+  const filteredItems = searchResults.map((result) => result.item)
+  const nameHighlights = Object.fromEntries(searchResults.map((result) => [result.item.id, result.nameHighlights]))
+  const searchSuggestion = filteredItems.length === 0 ? getSearchSuggestion(browsableItems, searchTerm) : null
 
   const handleAddToCart = (item: MenuItem) => {
     onAddToCart(item)
   }
 
-  // Get quantity from main cart state
+  // Get quantity from main cart state (items with options may span several lines)
   const getItemQuantity = (itemId: number) => {
-    const cartItem = cart.find((item) => item.id === itemId)
-    return cartItem ? cartItem.quantity : 0
+    return cart
+      .filter((item) => item.id === itemId && !item.specialId)
+      .reduce((total, item) => total + item.quantity, 0)
   }
 
   const updateQuantity = (item: MenuItem, newQuantity: number) => {
@@ -70,7 +80,7 @@ export function MobileMenuSearch({
   }
 
   // Check if add to cart should be disabled
-  const isAddToCartDisabled = !locationAllowed || checkingLocation
+  const isAddToCartDisabled = !locationAllowed || checkingLocation || availabilityUnconfirmed
 
   return (
     <div className="space-y-6">
@@ -100,11 +110,14 @@ export function MobileMenuSearch({
             }`}
             onClick={() => onCategoryChange(category)}
           >
+            {categoryIcons[category] && <span className="mr-1">{categoryIcons[category]}</span>}
             {category}
           </Button>
         ))}
       </div>
 
+      <DietaryFilterChips selected={dietaryFilters} onChange={onDietaryFiltersChange} />
+
       {/* Results Count */}
       <div className="text-sm text-gray-600 font-medium">
         {filteredItems.length} item{filteredItems.length !== 1 ? "s" : ""} found
@@ -114,19 +127,23 @@ export function MobileMenuSearch({
       <div className="space-y-4">
         {filteredItems.map((item) => {
           const quantity = getItemQuantity(item.id)
+          const closedNotice = closedItemNotices[item.id]
+          const isItemDisabled = isAddToCartDisabled || !!closedNotice
           return (
             <Card
               key={item.id}
               className="bg-white/80 backdrop-blur-sm border border-amber-200/50 overflow-hidden hover:shadow-lg transition-all duration-300"
             >
               <div className="flex">
-                <div className="w-24 h-24 flex-shrink-0">
+                <div className={`w-24 h-24 flex-shrink-0 ${closedNotice ? "grayscale opacity-60" : ""}`}>
                   <img src={item.image || "/placeholder.svg"} alt={item.name} className="w-full h-full object-cover" />
                 </div>
                 <div className="flex-1 p-4">
                   <div className="flex justify-between items-start mb-2">
                     <div>
-                      <h3 className="font-semibold text-gray-800 text-sm leading-tight">{item.name}</h3>
+                      <h3 className="font-semibold text-gray-800 text-sm leading-tight">
+                        <HighlightedText text={item.name} ranges={nameHighlights[item.id]} />
+                      </h3>
                       <Badge
                         variant="secondary"
                         className="text-xs mt-1 bg-gradient-to-r from-amber-100 to-orange-100 text-amber-700 border-0"
@@ -138,9 +155,16 @@ export function MobileMenuSearch({
                       ₹{item.price}
                     </span>
                   </div>
-                  <p className="text-xs text-gray-600 mb-3 line-clamp-2">{item.description}</p>
+                  <p className="text-xs text-gray-600 mb-2 line-clamp-2">{item.description}</p>
+                  <DietaryBadges item={item} className="mb-3" />
+                  {closedNotice && (
+                    <p className="mb-2 flex items-center text-xs font-medium text-gray-500">
+                      <Clock className="mr-1 h-3 w-3" />
+                      {closedNotice}
+                    </p>
+                  )}
 
-                  {quantity > 0 ? (
+                  {quantity > 0 && !hasChoices(item) ? (
                     <div className="flex items-center justify-center">
                       <div className="flex items-center bg-gray-800 rounded-lg p-1">
                         <Button
@@ -151,7 +175,7 @@ export function MobileMenuSearch({
                             e.stopPropagation();
                             updateQuantity(item, quantity - 1);
                           }}
-                          disabled={isAddToCartDisabled}
+                          disabled={isItemDisabled}
                         >
                           <Minus className="h-3 w-3" />
                         </Button>
@@ -166,7 +190,7 @@ export function MobileMenuSearch({
                             e.stopPropagation();
                             updateQuantity(item, quantity + 1);
                           }}
-                          disabled={isAddToCartDisabled}
+                          disabled={isItemDisabled}
                         >
                           <Plus className="h-3 w-3" />
                         </Button>
@@ -176,7 +200,7 @@ export function MobileMenuSearch({
                     <Button
                       size="sm"
                       className={`w-full font-semibold py-2 rounded-lg shadow-md hover:shadow-lg transition-all duration-300 border-0 ${
-                        isAddToCartDisabled
+                        isItemDisabled
                           ? "bg-gray-400 cursor-not-allowed hover:bg-gray-400 hover:transform-none hover:shadow-md"
                           : "bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700 text-white"
                       }`}
@@ -184,10 +208,18 @@ export function MobileMenuSearch({
                         e.stopPropagation();
                         handleAddToCart(item);
                       }}
-                      disabled={isAddToCartDisabled}
+                      disabled={isItemDisabled}
                     >
                       <ShoppingCart className="mr-1 h-3 w-3" />
-                      {checkingLocation ? "Checking..." : "Add"}
+                      {availabilityUnconfirmed
+                        ? "Offline"
+                        : closedNotice
+                          ? "Not Yet"
+                          : checkingLocation
+                          ? "Checking..."
+                          : hasChoices(item)
+                            ? quantity > 0 ? `Add Another (${quantity})` : "Choose Options"
+                            : "Add"}
                     </Button>
                   )}
                 </div>
@@ -204,16 +236,34 @@ export function MobileMenuSearch({
               <p className="text-gray-500 text-sm mb-4">
                 {searchTerm
                   ? `No items match "${searchTerm}" in ${selectedCategory === "All" ? "any category" : selectedCategory}`
-                  : `No items available in ${selectedCategory}`}
+                  : dietaryFilters.length > 0
+                    ? "No items match your dietary filters"
+                    : `No items available in ${selectedCategory}`}
               </p>
-              {searchTerm && (
+              {searchSuggestion && (
+                <p className="text-gray-600 text-sm mb-4">
+                  Did you mean{" "}
+                  <button
+                    type="button"
+                    onClick={() => setSearchTerm(searchSuggestion)}
+                    className="font-semibold text-amber-700 underline underline-offset-2"
+                  >
+                    {searchSuggestion}
+                  </button>
+                  ?
+                </p>
+              )}
+              {(searchTerm || dietaryFilters.length > 0) && (
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setSearchTerm("")}
+                  onClick={() => {
+                    setSearchTerm("")
+                    onDietaryFiltersChange([])
+                  }}
                   className="border-2 border-amber-600 text-amber-600 hover:bg-amber-600 hover:text-white font-semibold px-4 py-2 rounded-full transition-all duration-300"
                 >
-                  Clear Search
+                  Clear Filters
                 </Button>
               )}
             </div>
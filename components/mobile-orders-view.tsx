@@ -11,8 +11,11 @@ import { Label } from "@/components/ui/label"
 import { Search, Clock, CheckCircle, Package, Phone, User, Calendar, ChefHat, XCircle, AlertCircle, DollarSign, Coffee, Download } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { fetchOrdersByPhone, fetchAllOrders } from "@/lib/order-api"
+import { describeOrderType } from "@/lib/order-types"
 import type { Order } from "@/lib/types"
 import { OrderPDFService } from '@/lib/pdf-service'
+import { describeOrderItemOptions } from '@/lib/menu-options'
+import { describeOrderItemComponents } from '@/lib/combos'
 
 interface MobileOrdersViewProps {
   isOpen: boolean
@@ -279,6 +282,7 @@ export function MobileOrdersView({ isOpen, onClose }: MobileOrdersViewProps) {
                             <p className="text-sm text-gray-700 mt-1">
                               <strong>{order.customerName}</strong> • {order.customerPhone}
                             </p>
+                            <p className="text-sm font-medium text-blue-700 mt-1">{describeOrderType(order)}</p>
                           </div>
                         </div>
                       </CardHeader>
@@ -298,6 +302,12 @@ export function MobileOrdersView({ isOpen, onClose }: MobileOrdersViewProps) {
                                       <span className="font-medium text-gray-800">
                                         {item.quantity}x {item.itemName}
                                       </span>
+                                      {describeOrderItemOptions(item) && (
+                                        <p className="text-xs text-gray-600">{describeOrderItemOptions(item)}</p>
+                                      )}
+                                      {describeOrderItemComponents(item) && (
+                                        <p className="text-xs text-gray-600">Includes: {describeOrderItemComponents(item)}</p>
+                                      )}
                                       {item.specialInstructions && (
                                         <p className="text-xs text-gray-500 mt-1">Note: {item.specialInstructions}</p>
                                       )}
@@ -1,6 +1,6 @@
 "use client"
 
-import React, { useState, useEffect } from "react"
+import React, { useState, useEffect, useRef } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -26,13 +26,31 @@ import {
   Download,
   ChevronLeft,
   ChevronRight,
+  QrCode,
+  Bike,
+  CalendarClock,
 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { Label } from "@/components/ui/label"
 import { fetchAllOrders, updateOrderStatus, updatePaymentStatus, cancelOrder } from "@/lib/order-api"
-import type { Order, OrderStatusUpdate, PaymentStatusUpdate, OrderCancellation } from "@/lib/types"
-import { ORDER_STATUS_LABELS, PAYMENT_STATUS_LABELS } from "@/lib/types"
+import type { Order, OrderStatus, OrderStatusUpdate, PaymentStatus, PaymentStatusUpdate, OrderCancellation, OrderType } from "@/lib/types"
+import { ORDER_STATUS_LABELS, ORDER_TYPES, ORDER_TYPE_LABELS, PAYMENT_STATUS_LABELS } from "@/lib/types"
 import { OrderPDFService } from '@/lib/pdf-service'
+import { getErrorToast } from '@/lib/api-errors'
+import { describeOrderItemOptions } from '@/lib/menu-options'
+import { describeOrderItemComponents } from '@/lib/combos'
+import { describeOrderType, formatPickupTime } from '@/lib/order-types'
+import { getScheduledReleaseTime } from '@/lib/pickup-slots'
+import {
+  ORDER_STATUS_ACTIONS,
+  PAYMENT_STATUS_ACTIONS,
+  getNextOrderStatuses,
+  getNextPaymentStatuses,
+  validateOrderTransition,
+  validatePaymentTransition,
+  type OrderActor,
+} from '@/lib/order-status'
+import { useOrderEvents } from "@/hooks/use-order-events"
 
 interface OrderManagementProps {
   userType: "admin" | "superadmin" | null
@@ -40,6 +58,8 @@ interface OrderManagementProps {
 
 export function OrderManagement({ userType }: OrderManagementProps) {
   const [orders, setOrders] = useState<Order[]>([])
+  // Scheduled pickups held back from the main queue until they are due
+  const [scheduledOrders, setScheduledOrders] = useState<Order[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState("")
@@ -48,35 +68,37 @@ export function OrderManagement({ userType }: OrderManagementProps) {
   const [searchItemName, setSearchItemName] = useState("")
   const [statusFilter, setStatusFilter] = useState("all")
   const [paymentFilter, setPaymentFilter] = useState("all")
+  const [orderTypeFilter, setOrderTypeFilter] = useState<OrderType | "all">("all")
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null)
   const [showOrderModal, setShowOrderModal] = useState(false)
   const [currentPage, setCurrentPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
   const [totalCount, setTotalCount] = useState(0)
   const [updatingOrders, setUpdatingOrders] = useState<Set<number>>(new Set())
+  const [reconnecting, setReconnecting] = useState(false)
+  const [freshOrderIds, setFreshOrderIds] = useState<Set<number>>(new Set())
+  const latestLoadRef = useRef(0)
   const { toast } = useToast()
 
-  // Helper function to map backend status to frontend display status
-  const mapBackendToFrontendStatus = (backendStatus: string): string => {
-    if (backendStatus === 'delivered') return 'completed'
-    return backendStatus
-  }
+  const actor: OrderActor = userType === "superadmin" ? "superadmin" : "admin"
 
-  // Helper function to map frontend display status to backend status
-  const mapFrontendToBackendStatus = (frontendStatus: string): string => {
-    if (frontendStatus === 'completed') return 'delivered'
-    return frontendStatus
+  const loadScheduledOrders = async () => {
+    try {
+      const response = await fetchAllOrders({ limit: 50, queue: 'scheduled', sortBy: 'pickup_time', order: 'asc' })
+      setScheduledOrders(response.orders)
+    } catch (err) {
+      console.error('Failed to load scheduled orders:', err)
+    }
   }
 
-  // Guard concurrent requests to avoid 429s
-  let loadingInFlight = false
-
-  // Load orders from API
-  const loadOrders = async (page = 1) => {
+  // Load orders from API. Identical requests are shared and retried by the
+  // API client; only the most recent call is allowed to update state.
+  const loadOrders = async (page = 1, silent = false) => {
+    const loadId = ++latestLoadRef.current
+    // Any change that reloads the main queue can move orders in or out of the scheduled one
+    loadScheduledOrders()
     try {
-      if (loadingInFlight) return
-      loadingInFlight = true
-      setLoading(true)
+      if (!silent) setLoading(true)
       setError(null)
 
       const response = await fetchAllOrders({
@@ -84,6 +106,8 @@ export function OrderManagement({ userType }: OrderManagementProps) {
         limit: 10,
         status: statusFilter !== "all" ? statusFilter : undefined,
         paymentStatus: paymentFilter !== "all" ? paymentFilter : undefined,
+        orderType: orderTypeFilter !== "all" ? orderTypeFilter : undefined,
+        queue: 'active',
         phone: searchTerm.trim() || undefined,
         orderId: searchOrderId.trim() || undefined,
         customerName: searchCustomerName.trim() || undefined,
@@ -91,8 +115,14 @@ export function OrderManagement({ userType }: OrderManagementProps) {
         sortBy: 'order_date',
         order: 'desc',
         includeCancelled: true
+      }, {
+        onRetry: () => {
+          if (loadId === latestLoadRef.current) setReconnecting(true)
+        },
       })
 
+      if (loadId !== latestLoadRef.current) return
+
       if (response.orders.length === 0 && page > 1) {
         // If no orders on current page, go back to page 1
         setCurrentPage(1)
@@ -105,16 +135,14 @@ export function OrderManagement({ userType }: OrderManagementProps) {
       setTotalPages(response.totalPages)
       setCurrentPage(response.currentPage)
     } catch (err) {
+      if (loadId !== latestLoadRef.current) return
       console.error('Failed to load orders:', err)
-      setError(err instanceof Error ? err.message : 'Failed to load orders')
-      toast({
-        title: "Loading Failed",
-        description: "Failed to load orders. Please try again.",
-        variant: "destructive",
-      })
+      setError(getErrorToast(err, 'Failed to load orders').description)
     } finally {
-      setLoading(false)
-      loadingInFlight = false
+      if (loadId === latestLoadRef.current) {
+        setLoading(false)
+        setReconnecting(false)
+      }
     }
   }
 
@@ -134,7 +162,7 @@ export function OrderManagement({ userType }: OrderManagementProps) {
 
       return () => clearTimeout(timeoutId)
     }
-  }, [searchTerm, searchOrderId, searchCustomerName, searchItemName, statusFilter, paymentFilter, userType])
+  }, [searchTerm, searchOrderId, searchCustomerName, searchItemName, statusFilter, paymentFilter, orderTypeFilter, userType])
 
   // First, add useEffect to load orders when page changes
   useEffect(() => {
@@ -143,21 +171,50 @@ export function OrderManagement({ userType }: OrderManagementProps) {
     }
   }, [currentPage]) // Add currentPage to dependency array
 
+  // Move the next scheduled order into the main queue once it is due
+  useEffect(() => {
+    if (scheduledOrders.length === 0) return
+    const nextRelease = Math.min(...scheduledOrders.map((order) => getScheduledReleaseTime(order.pickupTime!).getTime()))
+    const timeoutId = setTimeout(() => loadOrders(currentPage, true), Math.max(0, nextRelease - Date.now()) + 1000)
+    return () => clearTimeout(timeoutId)
+  }, [scheduledOrders])
+
+  // Live updates: refetch on new orders, patch existing rows in place otherwise
+  const streamStatus = useOrderEvents(userType === "admin" || userType === "superadmin", (event) => {
+    if (event.type === 'order-created') {
+      setFreshOrderIds(prev => new Set(prev).add(event.order.id))
+      setTimeout(() => {
+        setFreshOrderIds(prev => {
+          const next = new Set(prev)
+          next.delete(event.order.id)
+          return next
+        })
+      }, 15000)
+      loadOrders(currentPage, true)
+      return
+    }
+    setOrders(prev => prev.map(order => order.id === event.order.id ? event.order : order))
+    if (scheduledOrders.some(order => order.id === event.order.id)) loadOrders(currentPage, true)
+  })
+
   // Helper functions for status updates
-  const handleStatusUpdate = async (orderId: number, newStatus: string) => {
+  const handleStatusUpdate = async (target: Order, newStatus: OrderStatus) => {
+    const orderId = target.id
+    const transitionError = validateOrderTransition(target.orderStatus, newStatus, actor)
+    if (transitionError) {
+      toast({ title: "Update Not Allowed", description: transitionError, variant: "destructive" })
+      return
+    }
+
     try {
       setUpdatingOrders(prev => new Set(prev).add(orderId))
       
       // Update local state immediately for better UX
-      const statusForLocal = mapFrontendToBackendStatus(newStatus) as Order['orderStatus']
-      setOrders(prevOrders => prevOrders.map(order => order.id === Number(orderId) ? { ...order, orderStatus: statusForLocal } : order))
+      setOrders(prevOrders => prevOrders.map(order => order.id === orderId ? { ...order, orderStatus: newStatus } : order))
 
-      // Map frontend status to backend status
-      const backendStatus = mapFrontendToBackendStatus(newStatus)
-      
       await updateOrderStatus(String(orderId), { 
-        status: backendStatus as 'pending' | 'confirmed' | 'preparing' | 'ready' | 'delivered' | 'cancelled',
-        changedBy: 'admin'
+        status: newStatus,
+        changedBy: actor
       })
       
       // Refresh from server to ensure consistency
@@ -165,15 +222,14 @@ export function OrderManagement({ userType }: OrderManagementProps) {
       
       toast({
         title: "Status Updated",
-        description: `Order status updated to ${newStatus.charAt(0).toUpperCase() + newStatus.slice(1)}`,
+        description: `Order #${orderId} is now ${ORDER_STATUS_LABELS[newStatus]}`,
       })
     } catch (err) {
       console.error('Failed to update order status:', err)
       // Revert local change on error
       await loadOrders(currentPage)
       toast({
-        title: "Update Failed",
-        description: "Failed to update order status. Please try again.",
+        ...getErrorToast(err, "Update Failed"),
         variant: "destructive",
       })
     } finally {
@@ -186,40 +242,38 @@ export function OrderManagement({ userType }: OrderManagementProps) {
   }
 
   const handlePaymentUpdate = async (
-    orderId: number,
-    newStatus: 'pending' | 'paid_cash' | 'paid_upi'
+    target: Order,
+    newStatus: PaymentStatus,
+    paymentMethod?: 'cash' | 'upi'
   ) => {
+    const orderId = target.id
+    const transitionError = validatePaymentTransition(target.paymentStatus, newStatus, actor)
+    if (transitionError) {
+      toast({ title: 'Update Not Allowed', description: transitionError, variant: 'destructive' })
+      return
+    }
+
     try {
       setUpdatingOrders(prev => new Set(prev).add(orderId))
 
-      // Map UI statuses to backend shape
-      const backendStatus: 'pending' | 'paid' = 
-        newStatus === 'paid_cash' || newStatus === 'paid_upi' ? 'paid' : 'pending'
-      const backendMethod: 'cash' | 'upi' | undefined =
-        newStatus === 'paid_cash' ? 'cash' : newStatus === 'paid_upi' ? 'upi' : undefined
-
-      // Optimistic update (use backend shape so selection sticks on reload)
-      setOrders(prev => prev.map(o => o.id === Number(orderId) ? { ...o, paymentStatus: backendStatus, paymentMethod: backendMethod } : o))
+      // Optimistic update; the method only changes when the order is paid
+      setOrders(prev => prev.map(o => o.id === orderId ? { ...o, paymentStatus: newStatus, paymentMethod: paymentMethod ?? o.paymentMethod } : o))
 
       await updatePaymentStatus(String(orderId), {
-        paymentStatus: backendStatus,
-        paymentMethod: backendMethod
+        paymentStatus: newStatus,
+        paymentMethod
       })
 
       await loadOrders(currentPage)
 
-      const label =
-        backendStatus === 'paid'
-          ? `Paid ${backendMethod ? `(${backendMethod.toUpperCase()})` : ''}`
-          : 'Payment Pending'
+      const label = `${PAYMENT_STATUS_LABELS[newStatus]}${paymentMethod ? ` (${paymentMethod.toUpperCase()})` : ''}`
 
       toast({ title: 'Payment Updated', description: label })
     } catch (err) {
       console.error('Failed to update payment status:', err)
       await loadOrders(currentPage)
       toast({
-        title: 'Update Failed',
-        description: 'Failed to update payment status. Please try again.',
+        ...getErrorToast(err, 'Update Failed'),
         variant: 'destructive',
       })
     } finally {
@@ -231,13 +285,20 @@ export function OrderManagement({ userType }: OrderManagementProps) {
     }
   }
 
-  const handleCancelOrder = async (orderId: number, reason: string) => {
+  const handleCancelOrder = async (target: Order, reason: string) => {
+    const orderId = target.id
+    const transitionError = validateOrderTransition(target.orderStatus, 'cancelled', actor)
+    if (transitionError) {
+      toast({ title: "Cancellation Not Allowed", description: transitionError, variant: "destructive" })
+      return
+    }
+
     try {
       setUpdatingOrders(prev => new Set(prev).add(orderId))
       
       await cancelOrder(String(orderId), { 
         reason,
-        cancelledBy: 'admin'
+        cancelledBy: actor
       })
       await loadOrders(currentPage)
       toast({
@@ -247,8 +308,7 @@ export function OrderManagement({ userType }: OrderManagementProps) {
     } catch (err) {
       console.error('Failed to cancel order:', err)
       toast({
-        title: "Cancellation Failed",
-        description: "Failed to cancel order. Please try again.",
+        ...getErrorToast(err, "Cancellation Failed"),
         variant: "destructive",
       })
     } finally {
@@ -309,13 +369,14 @@ export function OrderManagement({ userType }: OrderManagementProps) {
     )
   }
 
-  if (loading) {
+  // While a retry is pending the rows already on screen stay, under a reconnecting banner
+  if (loading && (!reconnecting || orders.length === 0)) {
     return (
       <Card>
         <CardContent className="flex items-center justify-center py-8">
           <div className="text-center">
             <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
-            <p className="text-gray-600">Loading orders...</p>
+            <p className="text-gray-600">{reconnecting ? "Reconnecting to server..." : "Loading orders..."}</p>
           </div>
         </CardContent>
       </Card>
@@ -421,6 +482,20 @@ export function OrderManagement({ userType }: OrderManagementProps) {
                 </SelectContent>
               </Select>
             </div>
+            <div className="space-y-2">
+              <Label>Filter by Order Type</Label>
+              <Select value={orderTypeFilter} onValueChange={(value) => setOrderTypeFilter(value as OrderType | "all")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Order Types</SelectItem>
+                  {ORDER_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{ORDER_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="space-y-2">
               <Label>Item Name</Label>
               <div className="relative">
@@ -444,6 +519,7 @@ export function OrderManagement({ userType }: OrderManagementProps) {
                 setSearchItemName("")
                 setStatusFilter("all")
                 setPaymentFilter("all")
+                setOrderTypeFilter("all")
                 setCurrentPage(1)
                 loadOrders(1)
               }}
@@ -454,12 +530,74 @@ export function OrderManagement({ userType }: OrderManagementProps) {
         </CardContent>
       </Card>
 
+      {/* Scheduled Pickups */}
+      {scheduledOrders.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Scheduled Pickups
+              <Badge variant="secondary">{scheduledOrders.length}</Badge>
+            </CardTitle>
+            <p className="text-sm text-gray-600">
+              Held until shortly before pickup, then they join the orders below.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {scheduledOrders.map((order) => {
+              const isUpdating = updatingOrders.has(order.id)
+              return (
+                <div
+                  key={order.id}
+                  className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-lg border border-blue-200 bg-blue-50 p-3"
+                >
+                  <div className="space-y-1">
+                    <p className="font-semibold flex items-center gap-2">
+                      Order #{order.id}
+                      <Badge className="bg-blue-600 hover:bg-blue-600 text-white">
+                        Pickup {formatPickupTime(order.pickupTime!)}
+                      </Badge>
+                    </p>
+                    <p className="text-sm text-gray-700">
+                      {order.customerName} • {order.customerPhone}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {order.items.map((item) => `${item.quantity}× ${item.itemName}`).join(", ")}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Joins the queue at {formatPickupTime(getScheduledReleaseTime(order.pickupTime!).toISOString())}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge className="font-semibold">₹{order.totalAmount}</Badge>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleStatusUpdate(order, 'preparing')}
+                      disabled={isUpdating}
+                    >
+                      {isUpdating ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Package className="h-3 w-3 mr-1" />}
+                      Start Now
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Orders Management */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
           <div className="flex items-center gap-2">
             <ShoppingBag className="h-5 w-5" />
             <CardTitle>Orders Management</CardTitle>
+            {streamStatus === "open" ? (
+              <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Live</Badge>
+            ) : streamStatus === "reconnecting" ? (
+              <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">Reconnecting...</Badge>
+            ) : null}
           </div>
           <Button onClick={() => loadOrders(currentPage)} variant="outline" size="sm">
             <RefreshCw className="h-4 w-4 mr-2" />
@@ -467,22 +605,38 @@ export function OrderManagement({ userType }: OrderManagementProps) {
           </Button>
         </CardHeader>
         <CardContent>
+          {reconnecting && (
+            <Alert className="mb-4 border-yellow-200 bg-yellow-50 text-yellow-800">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <AlertDescription>Reconnecting to server... Showing the last loaded orders.</AlertDescription>
+            </Alert>
+          )}
           {orders.length > 0 ? (
             <>
               {/* Orders list */}
               {orders.map((order) => {
-                // Map backend status to frontend for comparison
-                const displayStatus = mapBackendToFrontendStatus(order.orderStatus)
+                const nextStatuses = getNextOrderStatuses(order.orderStatus, actor)
+                const nextPaymentStatuses = getNextPaymentStatuses(order.paymentStatus, actor)
                 const isUpdating = updatingOrders.has(order.id)
+                const isFresh = freshOrderIds.has(order.id)
                 
                 return (
-                  <Card key={order.id} className="border border-gray-200">
+                  <Card key={order.id} className={isFresh ? "border-2 border-amber-400 bg-amber-50 transition-colors" : "border border-gray-200"}>
                     <CardContent className="p-4">
                       <div className="flex flex-col space-y-4">
                         {/* Order Header */}
                         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-2 sm:space-y-0">
                           <div>
-                            <h3 className="font-semibold text-lg">Order #{order.id}</h3>
+                            <h3 className="font-semibold text-lg flex items-center gap-2">
+                              Order #{order.id}
+                              {isFresh && <Badge className="bg-amber-500 hover:bg-amber-500 text-white">New</Badge>}
+                              <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100 border-blue-200 border">
+                                {order.orderType === "dine_in" && <QrCode className="h-3 w-3 mr-1" />}
+                                {order.orderType === "takeaway" && <ShoppingBag className="h-3 w-3 mr-1" />}
+                                {order.orderType === "delivery" && <Bike className="h-3 w-3 mr-1" />}
+                                {describeOrderType(order)}
+                              </Badge>
+                            </h3>
                             <div className="flex items-center gap-2 text-sm text-gray-600">
                               <User className="h-4 w-4" />
                               <span>{order.customerName}</span>
@@ -520,6 +674,12 @@ export function OrderManagement({ userType }: OrderManagementProps) {
                                   <span className="font-medium">{item.itemName} x{item.quantity}</span>
                                   <span className="font-medium">₹{item.subtotal}</span>
                                 </div>
+                                {describeOrderItemOptions(item) && (
+                                  <p className="mt-1 text-xs font-medium text-gray-700">{describeOrderItemOptions(item)}</p>
+                                )}
+                                {describeOrderItemComponents(item) && (
+                                  <p className="mt-1 text-xs font-medium text-gray-700">Includes: {describeOrderItemComponents(item)}</p>
+                                )}
                                 {item.specialInstructions && (
                                   <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded text-xs">
                                     <span className="text-blue-800 font-medium">Item Note: </span>
@@ -544,107 +704,93 @@ export function OrderManagement({ userType }: OrderManagementProps) {
                           </div>
                         )}
 
-                        {/* Status Controls */}
+                        {/* Status Controls: only the moves the order's current status allows */}
                         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
                           <div>
                             <h4 className="font-medium text-sm text-gray-700 mb-2">Order Status:</h4>
-                            <div className="flex flex-wrap gap-2">
-                              {['pending', 'preparing', 'ready', 'completed', 'cancelled'].map((status) => {
-                                const isSelected = displayStatus === status
-                                return (
-                                  <Button
-                                    key={status}
-                                    variant={isSelected ? "default" : "outline"}
-                                    size="sm"
-                                    onClick={() => handleStatusUpdate(order.id, status)}
-                                    disabled={isUpdating || order.orderStatus === 'cancelled' || order.orderStatus === 'delivered'}
-                                    className={`relative ${
-                                      isSelected 
-                                        ? status === 'cancelled'
-                                          ? 'bg-red-500 hover:bg-red-600 text-white border-red-500'
-                                          : 'bg-orange-500 hover:bg-orange-600 text-white border-orange-500'
-                                        : status === 'cancelled'
-                                        ? 'text-red-600 border-red-600 hover:bg-red-50'
-                                        : 'hover:bg-gray-50'
-                                    }`}
-                                  >
-                                    {isUpdating && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
-                                    {!isUpdating && status === 'pending' && <Clock className="h-3 w-3 mr-1" />}
-                                    {!isUpdating && status === 'preparing' && <Package className="h-3 w-3 mr-1" />}
-                                    {!isUpdating && status === 'ready' && <CheckCircle className="h-3 w-3 mr-1" />}
-                                    {!isUpdating && status === 'completed' && <CheckCircle className="h-3 w-3 mr-1" />}
-                                    {!isUpdating && status === 'cancelled' && <XCircle className="h-3 w-3 mr-1" />}
-                                    {status.charAt(0).toUpperCase() + status.slice(1)}
-                                  </Button>
-                                )
-                              })}
+                            <div className="flex flex-wrap items-center gap-2">
+                              <Badge className={`${getStatusBadgeColor(order.orderStatus)} border`}>
+                                {ORDER_STATUS_LABELS[order.orderStatus]}
+                              </Badge>
+                              {nextStatuses.map((status, index) => (
+                                <Button
+                                  key={status}
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => handleStatusUpdate(order, status)}
+                                  disabled={isUpdating}
+                                  className={
+                                    status === 'cancelled'
+                                      ? 'text-red-600 border-red-600 hover:bg-red-50'
+                                      : index === 0
+                                      ? 'bg-orange-500 hover:bg-orange-600 text-white border-orange-500 hover:text-white'
+                                      : 'hover:bg-gray-50'
+                                  }
+                                >
+                                  {isUpdating && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                                  {!isUpdating && status === 'pending' && <Clock className="h-3 w-3 mr-1" />}
+                                  {!isUpdating && status === 'confirmed' && <CheckCircle className="h-3 w-3 mr-1" />}
+                                  {!isUpdating && status === 'preparing' && <Package className="h-3 w-3 mr-1" />}
+                                  {!isUpdating && status === 'ready' && <CheckCircle className="h-3 w-3 mr-1" />}
+                                  {!isUpdating && status === 'delivered' && <CheckCircle className="h-3 w-3 mr-1" />}
+                                  {!isUpdating && status === 'cancelled' && <XCircle className="h-3 w-3 mr-1" />}
+                                  {ORDER_STATUS_ACTIONS[status]}
+                                </Button>
+                              ))}
+                              {nextStatuses.length === 0 && (
+                                <span className="text-xs text-gray-500">No further changes</span>
+                              )}
                             </div>
                           </div>
                           
                           <div>
                             <h4 className="font-medium text-sm text-gray-700 mb-2">Payment Status:</h4>
-                            <div className="flex flex-wrap gap-2">
-                              {(() => {
-                                const isPaid = order.paymentStatus === 'paid'
-                                const isCash = order.paymentMethod === 'cash'
-                                const isUpi = order.paymentMethod === 'upi'
-
-                                return (
-                                  <>
-                                    {/* Unpaid */}
+                            <div className="flex flex-wrap items-center gap-2">
+                              <Badge className={`${getPaymentBadgeColor(order.paymentStatus)} border`}>
+                                {PAYMENT_STATUS_LABELS[order.paymentStatus]}
+                                {order.paymentStatus === 'paid' && order.paymentMethod ? ` (${order.paymentMethod.toUpperCase()})` : ''}
+                              </Badge>
+                              {nextPaymentStatuses.map((status) =>
+                                status === 'paid' ? (
+                                  <React.Fragment key={status}>
                                     <Button
-                                      variant={order.paymentStatus === 'pending' ? 'default' : 'outline'}
+                                      variant="outline"
                                       size="sm"
-                                      onClick={() => handlePaymentUpdate(order.id, 'pending')}
-                                      disabled={isUpdating || isPaid}
-                                      className={`relative ${
-                                        order.paymentStatus === 'pending'
-                                          ? 'bg-orange-500 text-white border-orange-500 disabled:opacity-100'
-                                          : 'border-gray-300 text-gray-400 cursor-not-allowed'
-                                      }`}
-                                    >
-                                      {isUpdating ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <XCircle className="h-3 w-3 mr-1" />}
-                                      Unpaid
-                                    </Button>
-
-                                    {/* Paid Cash */}
-                                    <Button
-                                      variant={isPaid && isCash ? 'default' : 'outline'}
-                                      size="sm"
-                                      onClick={() => handlePaymentUpdate(order.id, 'paid_cash')}
-                                      disabled={isUpdating || isPaid}
-                                      className={`relative ${
-                                        isPaid && isCash
-                                          ? 'bg-green-500 text-white border-green-500 disabled:opacity-100'
-                                          : isPaid
-                                          ? 'border-gray-300 text-gray-400 cursor-not-allowed'
-                                          : 'border-green-600 text-green-700 hover:bg-green-50'
-                                      }`}
+                                      onClick={() => handlePaymentUpdate(order, 'paid', 'cash')}
+                                      disabled={isUpdating}
+                                      className="border-green-600 text-green-700 hover:bg-green-50"
                                     >
                                       {isUpdating ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <CheckCircle className="h-3 w-3 mr-1" />}
                                       Paid Cash
                                     </Button>
-
-                                    {/* Paid UPI */}
                                     <Button
-                                      variant={isPaid && isUpi ? 'default' : 'outline'}
+                                      variant="outline"
                                       size="sm"
-                                      onClick={() => handlePaymentUpdate(order.id, 'paid_upi')}
-                                      disabled={isUpdating || isPaid}
-                                      className={`relative ${
-                                        isPaid && isUpi
-                                          ? 'bg-green-500 text-white border-green-500 disabled:opacity-100'
-                                          : isPaid
-                                          ? 'border-gray-300 text-gray-400 cursor-not-allowed'
-                                          : 'border-green-600 text-green-700 hover:bg-green-50'
-                                      }`}
+                                      onClick={() => handlePaymentUpdate(order, 'paid', 'upi')}
+                                      disabled={isUpdating}
+                                      className="border-green-600 text-green-700 hover:bg-green-50"
                                     >
                                       {isUpdating ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <CreditCard className="h-3 w-3 mr-1" />}
                                       Paid UPI
                                     </Button>
-                                  </>
+                                  </React.Fragment>
+                                ) : (
+                                  <Button
+                                    key={status}
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handlePaymentUpdate(order, status)}
+                                    disabled={isUpdating}
+                                    className={status === 'pending' ? 'hover:bg-gray-50' : 'text-red-600 border-red-600 hover:bg-red-50'}
+                                  >
+                                    {isUpdating ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <XCircle className="h-3 w-3 mr-1" />}
+                                    {PAYMENT_STATUS_ACTIONS[status]}
+                                  </Button>
                                 )
-                              })()}
+                              )}
+                              {nextPaymentStatuses.length === 0 && (
+                                <span className="text-xs text-gray-500">No further changes</span>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -706,18 +852,19 @@ export function OrderManagement({ userType }: OrderManagementProps) {
               <p className="text-gray-500 mb-4">
                 {loading 
                   ? "Loading orders..."
-                  : searchTerm || statusFilter !== "all" || paymentFilter !== "all"
+                  : searchTerm || statusFilter !== "all" || paymentFilter !== "all" || orderTypeFilter !== "all"
                     ? "No orders match your filters. Try adjusting your search criteria."
                     : "There are no orders to display."
                 }
               </p>
-              {(searchTerm || statusFilter !== "all" || paymentFilter !== "all") && (
+              {(searchTerm || statusFilter !== "all" || paymentFilter !== "all" || orderTypeFilter !== "all") && (
                 <Button
                   variant="outline"
                   onClick={() => {
                     setSearchTerm("")
                     setStatusFilter("all")
                     setPaymentFilter("all")
+                    setOrderTypeFilter("all")
                     setCurrentPage(1)
                     loadOrders(1)
                   }}
@@ -758,6 +905,11 @@ export function OrderManagement({ userType }: OrderManagementProps) {
                     <p>{selectedOrder.customerPhone}</p>
                   </div>
                 </div>
+
+                <div>
+                  <Label className="font-medium">Order Type</Label>
+                  <p>{describeOrderType(selectedOrder)}</p>
+                </div>
                 
                 <div className="grid grid-cols-2 gap-4">
                   <div>
@@ -781,6 +933,12 @@ export function OrderManagement({ userType }: OrderManagementProps) {
                       <div key={item.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-md">
                         <div>
                           <p className="font-medium">{item.itemName}</p>
+                          {describeOrderItemOptions(item) && (
+                            <p className="text-sm text-gray-700">{describeOrderItemOptions(item)}</p>
+                          )}
+                          {describeOrderItemComponents(item) && (
+                            <p className="text-sm text-gray-700">Includes: {describeOrderItemComponents(item)}</p>
+                          )}
                           <p className="text-sm text-gray-600">Qty: {item.quantity} × ₹{item.itemPrice}</p>
                           {item.specialInstructions && (
                             <p className="text-sm text-blue-600">Note: {item.specialInstructions}</p>
@@ -793,6 +951,12 @@ export function OrderManagement({ userType }: OrderManagementProps) {
                 </div>
 
                 <div className="border-t pt-4">
+                  {!!selectedOrder.deliveryFee && (
+                    <div className="flex justify-between items-center text-sm text-gray-600 mb-2">
+                      <span>Delivery Fee:</span>
+                      <span>₹{selectedOrder.deliveryFee}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between items-center text-lg font-semibold">
                     <span>Total Amount:</span>
                     <span>₹{selectedOrder.totalAmount}</span>
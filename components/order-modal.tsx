@@ -7,28 +7,32 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
-import { ShoppingCart, Loader2, AlertCircle } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ShoppingCart, Loader2, AlertCircle, QrCode, UtensilsCrossed, ShoppingBag, Bike } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-import { placeOrder } from "@/lib/order-api"
-import type { OrderSubmission } from "@/lib/types"
+import { useCart } from "@/hooks/use-cart"
+import { useQuery } from "@/hooks/use-query"
+import { queryKeys } from "@/lib/query-cache"
+import { dispatchCart } from "@/lib/cart-store"
+import { getCartItemCount, getCartTotal, toOrderLines } from "@/lib/cart"
+import { fetchPickupSlots, placeOrder } from "@/lib/order-api"
+import { ItemUnavailableError, ValidationError, getErrorToast } from "@/lib/api-errors"
+import { estimatePreparationMinutes } from "@/lib/order-tracking"
+import { MAX_TABLE_NUMBER, formatTableLabel } from "@/lib/tables"
+import { DELIVERY_FEE, formatPickupTime, getDeliveryFee, validateOrderFulfilment } from "@/lib/order-types"
+import { MIN_PICKUP_LEAD_MINUTES } from "@/lib/pickup-slots"
+import { ORDER_TYPES, ORDER_TYPE_LABELS } from "@/lib/types"
+import type { Order, OrderSubmission, OrderType, TableCode } from "@/lib/types"
 import { OrderSuccessPopup } from "./order-success-popup"
 
-interface CartItem {
-  id: string
-  cartId: string
-  name: string
-  price: number
-  image: string
-  quantity: number
-  specialInstructions?: string
-}
-
 interface OrderModalProps {
   isOpen: boolean
   onClose: () => void
-  cart: CartItem[]
-  clearCart: () => void
   onSuccess?: (data: { id: string; totalAmount: number }) => void
+  // Table the customer scanned, if they are ordering from one
+  table?: TableCode | null
+  // The server no longer accepts the table's code
+  onTableRejected?: () => void
 }
 
 // Validation functions
@@ -58,7 +62,13 @@ const validatePhoneNumber = (phone: string): string | null => {
   return null
 }
 
-export function OrderModal({ isOpen, onClose, cart, clearCart, onSuccess }: OrderModalProps) {
+const ORDER_TYPE_ICONS: Record<OrderType, typeof UtensilsCrossed> = {
+  dine_in: UtensilsCrossed,
+  takeaway: ShoppingBag,
+  delivery: Bike,
+}
+
+export function OrderModal({ isOpen, onClose, onSuccess, table, onTableRejected }: OrderModalProps) {
   console.log('OrderModal props received:', { isOpen, onSuccess: typeof onSuccess, onSuccessExists: !!onSuccess })
   
   // No more callback complexity - we handle everything directly!
@@ -67,25 +77,59 @@ export function OrderModal({ isOpen, onClose, cart, clearCart, onSuccess }: Orde
   const [phoneNumber, setPhoneNumber] = useState("")
   const [customerEmail, setCustomerEmail] = useState("")
   const [generalInstructions, setGeneralInstructions] = useState("")
+  const [orderType, setOrderType] = useState<OrderType>("dine_in")
+  const [tableNumber, setTableNumber] = useState("")
+  // Takeaway is made as soon as possible unless the customer books a pickup slot
+  const [pickupMode, setPickupMode] = useState<"asap" | "scheduled">("asap")
+  // ISO start of the chosen slot
+  const [pickupTime, setPickupTime] = useState("")
+  const [deliveryAddress, setDeliveryAddress] = useState("")
   const [isSubmitting, setIsSubmitting] = useState(false)
   
   // Validation error states
   const [emailError, setEmailError] = useState<string | null>(null)
   const [phoneError, setPhoneError] = useState<string | null>(null)
   const [nameError, setNameError] = useState<string | null>(null)
+  // Dine-in, takeaway and delivery details, keyed by OrderSubmission field
+  const [fulfilmentErrors, setFulfilmentErrors] = useState<Record<string, string>>({})
+
+  // Cart line ids (menu item ids, negated for combos) the server rejected as unavailable on the last submit
+  const [unavailableItemIds, setUnavailableItemIds] = useState<number[]>([])
+  const [unavailableReasons, setUnavailableReasons] = useState<Record<number, string>>({})
   
   // Direct popup state (the ONLY popup we need)
   const [showPopup, setShowPopup] = useState(false)
-  const [popupData, setPopupData] = useState<{id: string, totalAmount: number} | null>(null)
+  const [popupData, setPopupData] = useState<{id: string, totalAmount: number, order: Order, preparationMinutes: number} | null>(null)
   
   const { toast } = useToast()
+  const cart = useCart()
+  const pickupSlotsQuery = useQuery(queryKeys.pickupSlots, fetchPickupSlots, {
+    ttlMs: 60_000,
+    enabled: isOpen && orderType === "takeaway" && pickupMode === "scheduled",
+  })
+  const pickupSlots = pickupSlotsQuery.data ?? []
+
+  const getTotalItems = () => getCartItemCount(cart)
+
+  const deliveryFee = getDeliveryFee(orderType)
+
+  const getTotalPrice = () => getCartTotal(cart) + deliveryFee
 
-  const getTotalItems = () => {
-    return cart.reduce((total, item) => total + item.quantity, 0)
+  // Only the details the chosen order type needs are sent
+  const getFulfilment = (): Pick<OrderSubmission, "orderType" | "tableToken" | "tableNumber" | "pickupTime" | "deliveryAddress"> => {
+    if (orderType === "dine_in") {
+      if (table) return { orderType, tableToken: table.token }
+      return { orderType, tableNumber: tableNumber.trim() ? Number(tableNumber) : undefined }
+    }
+    if (orderType === "takeaway") {
+      return { orderType, pickupTime: pickupMode === "scheduled" ? pickupTime || undefined : undefined }
+    }
+    return { orderType, deliveryAddress: deliveryAddress.trim() }
   }
 
-  const getTotalPrice = () => {
-    return cart.reduce((total, item) => total + item.price * item.quantity, 0)
+  const handleOrderTypeChange = (value: OrderType) => {
+    setOrderType(value)
+    setFulfilmentErrors({})
   }
 
   // Real-time validation handlers
@@ -136,6 +180,13 @@ export function OrderModal({ isOpen, onClose, cart, clearCart, onSuccess }: Orde
     setPhoneError(phoneValidationError)
     if (phoneValidationError) isValid = false
 
+    const fulfilmentValidationErrors = validateOrderFulfilment(getFulfilment())
+    if (orderType === "takeaway" && pickupMode === "scheduled" && !pickupTime) {
+      fulfilmentValidationErrors.pickupTime = "Please choose a pickup slot"
+    }
+    setFulfilmentErrors(fulfilmentValidationErrors)
+    if (Object.keys(fulfilmentValidationErrors).length > 0) isValid = false
+
     return isValid
   }
 
@@ -162,25 +213,17 @@ export function OrderModal({ isOpen, onClose, cart, clearCart, onSuccess }: Orde
     }
 
     setIsSubmitting(true)
+    setUnavailableItemIds([])
+    setUnavailableReasons({})
 
     try {
-      // Prepare order data
-      console.log('Cart items before processing:', cart.map(item => ({ id: item.id, name: item.name, type: typeof item.id })));
-      
       const orderData: OrderSubmission = {
         customerName: customerName.trim(),
         customerPhone: phoneNumber.trim() || "Not provided",
         customerEmail: customerEmail.trim() || "Not provided",
-        items: cart.map(item => {
-          const menuItemId = typeof item.id === 'string' ? parseInt(item.id) : item.id;
-          console.log(`Processing item: ${item.name}, original id: ${item.id} (${typeof item.id}), converted id: ${menuItemId}`);
-          return {
-            menuItemId: menuItemId,
-            quantity: item.quantity,
-            specialInstructions: item.specialInstructions || ""
-          };
-        }),
-        specialInstructions: generalInstructions.trim() || ""
+        ...toOrderLines(cart),
+        specialInstructions: generalInstructions.trim() || "",
+        ...getFulfilment(),
       }
 
       console.log('Submitting order:', orderData)
@@ -192,7 +235,9 @@ export function OrderModal({ isOpen, onClose, cart, clearCart, onSuccess }: Orde
       console.log('Order placed successfully!')
       const orderInfo = {
         id: response.id.toString(),
-        totalAmount: response.totalAmount
+        totalAmount: response.totalAmount,
+        order: response,
+        preparationMinutes: estimatePreparationMinutes(cart),
       };
       console.log('Showing popup with order info:', orderInfo)
       
@@ -208,19 +253,49 @@ export function OrderModal({ isOpen, onClose, cart, clearCart, onSuccess }: Orde
     } catch (error) {
       console.error('Order submission error:', error);
       
-      // More specific error handling
-      let errorMessage = 'Failed to place order. Please try again.';
-      if (error instanceof Error) {
-        if (error.message.includes('not available')) {
-          errorMessage = 'Some items in your cart are no longer available. Please refresh your cart and try again.';
-        } else {
-          errorMessage = error.message;
+      const { title, description } = getErrorToast(error, "Order Failed")
+
+      if (error instanceof ItemUnavailableError) {
+        // Combo lines sit in the cart under their negated combo id
+        const rejectedIds = [...error.unavailableItemIds, ...error.unavailableComboIds.map(comboId => -comboId)]
+        const reasons: Record<number, string> = { ...error.reasons }
+        Object.entries(error.comboReasons).forEach(([comboId, reason]) => { reasons[-Number(comboId)] = reason })
+        setUnavailableItemIds(rejectedIds)
+        setUnavailableReasons(reasons)
+        const rejected = cart.filter(item => rejectedIds.includes(item.id))
+        const names = rejected.map(item => item.name)
+        // Outside ordering hours reads differently from sold out
+        const scheduled = rejected.filter(item => reasons[item.id])
+        toast({
+          title,
+          description: scheduled.length > 0
+            ? `${scheduled.map(item => `${item.name} (${reasons[item.id]})`).join(", ")} can't be ordered right now. Please remove ${scheduled.length === 1 ? "it" : "them"} and try again.`
+            : names.length > 0 ? `${names.join(", ")} ${names.length === 1 ? "is" : "are"} no longer available. Please remove ${names.length === 1 ? "it" : "them"} and try again.` : description,
+          variant: "destructive",
+        })
+        return
+      }
+
+      if (error instanceof ValidationError) {
+        if (error.fieldErrors.customerName) setNameError(error.fieldErrors.customerName)
+        if (error.fieldErrors.customerPhone) setPhoneError(error.fieldErrors.customerPhone)
+        if (error.fieldErrors.customerEmail) setEmailError(error.fieldErrors.customerEmail)
+        if (error.fieldErrors.tableToken) onTableRejected?.()
+        const { tableNumber, pickupTime, deliveryAddress } = error.fieldErrors
+        const serverFulfilmentErrors = Object.fromEntries(
+          Object.entries({ tableNumber, pickupTime, deliveryAddress }).filter(([, message]) => message),
+        )
+        if (Object.keys(serverFulfilmentErrors).length > 0) setFulfilmentErrors(serverFulfilmentErrors)
+        // The slot may have filled up or passed while the customer was checking out
+        if (error.fieldErrors.pickupTime) {
+          setPickupTime("")
+          pickupSlotsQuery.refetch().catch(() => {})
         }
       }
-      
+
       toast({
-        title: "Order Failed",
-        description: errorMessage,
+        title,
+        description,
         variant: "destructive",
       });
     } finally {
@@ -233,9 +308,15 @@ export function OrderModal({ isOpen, onClose, cart, clearCart, onSuccess }: Orde
     setPhoneNumber("")
     setCustomerEmail("")
     setGeneralInstructions("")
+    setOrderType("dine_in")
+    setTableNumber("")
+    setPickupMode("asap")
+    setPickupTime("")
+    setDeliveryAddress("")
     setEmailError(null)
     setPhoneError(null)
     setNameError(null)
+    setFulfilmentErrors({})
   }
 
   const handlePopupClose = () => {
@@ -243,7 +324,7 @@ export function OrderModal({ isOpen, onClose, cart, clearCart, onSuccess }: Orde
     setShowPopup(false)
     setPopupData(null)
     // Clear cart when popup is closed
-    clearCart()
+    dispatchCart({ type: "clear" })
     // Close the parent order modal after popup is closed
     onClose()
   }
@@ -276,12 +357,24 @@ export function OrderModal({ isOpen, onClose, cart, clearCart, onSuccess }: Orde
           </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-6">
+          {table && orderType === "dine_in" && (
+            <div className="flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm font-medium text-amber-800">
+              <QrCode className="h-4 w-4" />
+              Ordering for {formatTableLabel(table.tableNumber, table.branchName)}
+            </div>
+          )}
+
           {/* Order Summary */}
           <div className="space-y-4">
             <h3 className="font-semibold text-base">Order Summary</h3>
             <div className="max-h-40 overflow-y-auto space-y-3 border rounded-lg p-4 bg-orange-50">
-              {cart.map((item) => (
-                <div key={item.cartId} className="flex items-center justify-between">
+              {cart.map((item) => {
+                const isUnavailable = unavailableItemIds.includes(item.id)
+                return (
+                <div
+                  key={item.cartId}
+                  className={`flex items-center justify-between ${isUnavailable ? "rounded-md border border-red-300 bg-red-50 p-2" : ""}`}
+                >
                   <div className="flex items-center gap-3 flex-1">
                     <img
                       src={item.image || "/placeholder.jpg"}
@@ -290,6 +383,8 @@ export function OrderModal({ isOpen, onClose, cart, clearCart, onSuccess }: Orde
                     />
                     <div className="flex-1">
                       <p className="font-medium">{item.name}</p>
+                      {item.specialId && <p className="text-xs font-medium text-orange-600">Today's special</p>}
+                      {item.optionsLabel && <p className="text-xs text-gray-600">{item.optionsLabel}</p>}
                       <p className="text-sm text-gray-600">
                         ₹{item.price} × {item.quantity}
                       </p>
@@ -298,20 +393,175 @@ export function OrderModal({ isOpen, onClose, cart, clearCart, onSuccess }: Orde
                           Note: {item.specialInstructions}
                         </p>
                       )}
+                      {isUnavailable && (
+                        <p className="flex items-center gap-1 text-xs font-medium text-red-600">
+                          <AlertCircle className="h-3 w-3" />
+                          {unavailableReasons[item.id] ?? "No longer available"}
+                        </p>
+                      )}
                     </div>
                   </div>
-                  <p className="font-semibold text-orange-600">
+                  <p className={`font-semibold ${isUnavailable ? "text-red-600 line-through" : "text-orange-600"}`}>
                     ₹{(item.price * item.quantity).toFixed(2)}
                   </p>
                 </div>
-              ))}
+                )
+              })}
             </div>
+            {deliveryFee > 0 && (
+              <div className="flex justify-between items-center pt-3 border-t text-sm text-gray-600">
+                <span>Delivery fee</span>
+                <span>₹{deliveryFee.toFixed(2)}</span>
+              </div>
+            )}
             <div className="flex justify-between items-center pt-3 border-t font-bold text-lg">
               <span>Total:</span>
               <span className="text-orange-600">₹{getTotalPrice().toFixed(2)}</span>
             </div>
           </div>
 
+          {/* Order Type */}
+          <div className="space-y-3">
+            <h3 className="font-semibold text-base">How would you like your order?</h3>
+            <div className="grid grid-cols-3 gap-2">
+              {ORDER_TYPES.map((type) => {
+                const Icon = ORDER_TYPE_ICONS[type]
+                const selected = orderType === type
+                return (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => handleOrderTypeChange(type)}
+                    aria-pressed={selected}
+                    className={`flex flex-col items-center gap-1 rounded-lg border p-3 text-sm font-medium transition-colors ${
+                      selected ? "border-orange-500 bg-orange-50 text-orange-700" : "border-gray-200 text-gray-600 hover:border-orange-300"
+                    }`}
+                  >
+                    <Icon className="h-5 w-5" />
+                    {ORDER_TYPE_LABELS[type]}
+                  </button>
+                )
+              })}
+            </div>
+
+            {orderType === "dine_in" && !table && (
+              <div>
+                <Label htmlFor="tableNumber" className="text-sm font-medium">
+                  Table Number <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="tableNumber"
+                  type="number"
+                  min={1}
+                  max={MAX_TABLE_NUMBER}
+                  value={tableNumber}
+                  onChange={(e) => setTableNumber(e.target.value)}
+                  placeholder="The number on your table"
+                  className={`mt-2 ${fulfilmentErrors.tableNumber ? 'border-red-500 focus:border-red-500' : ''}`}
+                  autoComplete="off"
+                />
+                {fulfilmentErrors.tableNumber && (
+                  <div className="flex items-center gap-1 mt-1 text-red-500 text-xs">
+                    <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                    <span>{fulfilmentErrors.tableNumber}</span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {orderType === "takeaway" && (
+              <div>
+                <Label className="text-sm font-medium">Pickup Time</Label>
+                <div className="mt-2 grid grid-cols-2 gap-2">
+                  {(["asap", "scheduled"] as const).map((mode) => (
+                    <Button
+                      key={mode}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      aria-pressed={pickupMode === mode}
+                      onClick={() => {
+                        setPickupMode(mode)
+                        setFulfilmentErrors({})
+                      }}
+                      className={pickupMode === mode ? "border-orange-500 bg-orange-50 text-orange-700 hover:bg-orange-50" : ""}
+                    >
+                      {mode === "asap" ? "As soon as possible" : "Schedule for later"}
+                    </Button>
+                  ))}
+                </div>
+                {pickupMode === "scheduled" && (
+                  <Select
+                    value={pickupTime}
+                    onValueChange={(value) => {
+                      setPickupTime(value)
+                      setFulfilmentErrors({})
+                    }}
+                    disabled={pickupSlotsQuery.isLoading || pickupSlots.length === 0}
+                  >
+                    <SelectTrigger
+                      id="pickupTime"
+                      className={`mt-2 ${fulfilmentErrors.pickupTime ? 'border-red-500 focus:border-red-500' : ''}`}
+                    >
+                      <SelectValue
+                        placeholder={
+                          pickupSlotsQuery.isLoading
+                            ? "Loading pickup slots..."
+                            : pickupSlots.length === 0 ? "No pickup slots left today" : "Choose a pickup slot"
+                        }
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pickupSlots.map((slot) => (
+                        <SelectItem key={slot.start} value={slot.start} disabled={slot.remaining === 0}>
+                          {formatPickupTime(slot.start)}
+                          {slot.remaining === 0 ? " (full)" : slot.remaining <= 2 ? ` (${slot.remaining} left)` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {fulfilmentErrors.pickupTime ? (
+                  <div className="flex items-center gap-1 mt-1 text-red-500 text-xs">
+                    <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                    <span>{fulfilmentErrors.pickupTime}</span>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {pickupMode === "asap"
+                      ? "We'll start on your order right away"
+                      : `Pick any time later today within opening hours, at least ${MIN_PICKUP_LEAD_MINUTES} minutes from now`}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {orderType === "delivery" && (
+              <div>
+                <Label htmlFor="deliveryAddress" className="text-sm font-medium">
+                  Delivery Address <span className="text-red-500">*</span>
+                </Label>
+                <Textarea
+                  id="deliveryAddress"
+                  value={deliveryAddress}
+                  onChange={(e) => setDeliveryAddress(e.target.value)}
+                  placeholder="House / flat number, street, landmark"
+                  className={`mt-2 resize-none ${fulfilmentErrors.deliveryAddress ? 'border-red-500 focus:border-red-500' : ''}`}
+                  rows={2}
+                  autoComplete="off"
+                />
+                {fulfilmentErrors.deliveryAddress ? (
+                  <div className="flex items-center gap-1 mt-1 text-red-500 text-xs">
+                    <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                    <span>{fulfilmentErrors.deliveryAddress}</span>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500 mt-1">A ₹{DELIVERY_FEE} delivery fee is added to your total</p>
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Customer Information */}
           <div className="space-y-4">
             {/* Customer Name */}
@@ -440,6 +690,8 @@ export function OrderModal({ isOpen, onClose, cart, clearCart, onSuccess }: Orde
       onClose={handlePopupClose}
       orderId={popupData?.id}
       totalAmount={popupData?.totalAmount}
+      order={popupData?.order}
+      preparationMinutes={popupData?.preparationMinutes}
     />
   </>
   )
@@ -2,15 +2,20 @@
 
 import { CheckCircle, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { LiveOrderTracker } from "@/components/live-order-tracker"
+import type { Order } from "@/lib/types"
 
 interface OrderSuccessPopupProps {
   open: boolean
   onClose: () => void
   orderId?: string
   totalAmount?: number
+  // When set, the popup tracks the order live until closed
+  order?: Order
+  preparationMinutes?: number
 }
 
-export function OrderSuccessPopup({ open, onClose, orderId, totalAmount }: OrderSuccessPopupProps) {
+export function OrderSuccessPopup({ open, onClose, orderId, totalAmount, order, preparationMinutes }: OrderSuccessPopupProps) {
   console.log('OrderSuccessPopup render:', { open, orderId, totalAmount })
   
   if (!open) {
@@ -58,6 +63,15 @@ export function OrderSuccessPopup({ open, onClose, orderId, totalAmount }: Order
             </div>
           )}
 
+          {orderId && order?.trackingToken && (
+            <LiveOrderTracker
+              orderId={orderId}
+              trackingToken={order.trackingToken}
+              initialOrder={order}
+              preparationMinutes={preparationMinutes}
+            />
+          )}
+
           <Button className="w-full bg-green-600 hover:bg-green-700" onClick={onClose}>
             Got it, thanks!
           </Button>
@@ -0,0 +1,33 @@
+import { useMemo } from "react"
+import { createQrMatrix, toQrSvgPath } from "@/lib/qr-code"
+
+interface QrCodeProps {
+  value: string
+  // Rendered width and height in pixels
+  size?: number
+  className?: string
+}
+
+const QUIET_ZONE = 4
+
+export function QrCode({ value, size = 160, className }: QrCodeProps) {
+  const { path, dimension } = useMemo(() => {
+    const modules = createQrMatrix(value)
+    return { path: toQrSvgPath(modules, QUIET_ZONE), dimension: modules.length + QUIET_ZONE * 2 }
+  }, [value])
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width={dimension} height={dimension} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  )
+}
@@ -0,0 +1,393 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem } from "@/components/ui/command"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { CalendarDays, ChevronsUpDown, Coffee, Edit, Loader2, Plus, Save, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useQuery } from "@/hooks/use-query"
+import { queryKeys } from "@/lib/query-cache"
+import { fetchMenuItems } from "@/lib/api"
+import { createSpecial, deleteSpecial, fetchSpecials, updateSpecial } from "@/lib/specials-api"
+import { describeSpecialDeal, getSpecialPrice, isSpecialRunning, validateSpecialInput } from "@/lib/specials"
+import { getCafeDate } from "@/lib/menu-schedule"
+import { getErrorToast } from "@/lib/api-errors"
+import type { Special, SpecialInput } from "@/lib/types"
+
+type PricingMode = "price" | "percent"
+
+const emptyForm = {
+  menuItemId: "",
+  title: "",
+  description: "",
+  pricingMode: "percent" as PricingMode,
+  value: "",
+  startsOn: "",
+  endsOn: "",
+  isActive: true,
+}
+
+function getSpecialStatus(special: Special, today: string): { label: string; className: string } {
+  if (!special.isActive) return { label: "Paused", className: "bg-gray-100 text-gray-700" }
+  if (isSpecialRunning(special, today)) return { label: "Running today", className: "bg-green-100 text-green-800" }
+  if (special.startsOn > today) return { label: "Upcoming", className: "bg-blue-100 text-blue-800" }
+  return { label: "Ended", className: "bg-gray-100 text-gray-500" }
+}
+
+// Admin list of specials: which menu item, the deal, and the dates it runs
+export function SpecialsManagement() {
+  const specialsQuery = useQuery(queryKeys.specials, fetchSpecials)
+  const specials = specialsQuery.data ?? []
+  const menuItems = useQuery(queryKeys.menu, fetchMenuItems).data ?? []
+  const [editingId, setEditingId] = useState<number | "new" | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+  const [itemPickerOpen, setItemPickerOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [deleteTarget, setDeleteTarget] = useState<Special | null>(null)
+  const { toast } = useToast()
+
+  const today = getCafeDate()
+  const itemsById = new Map(menuItems.map((item) => [item.id, item]))
+  const selectedItem = itemsById.get(Number(formData.menuItemId))
+
+  const startAdd = () => {
+    setFormData({ ...emptyForm, startsOn: today, endsOn: today })
+    setEditingId("new")
+  }
+
+  const startEdit = (special: Special) => {
+    setFormData({
+      menuItemId: String(special.menuItemId),
+      title: special.title ?? "",
+      description: special.description ?? "",
+      pricingMode: special.specialPrice !== undefined ? "price" : "percent",
+      value: String(special.specialPrice ?? special.discountPercent ?? ""),
+      startsOn: special.startsOn,
+      endsOn: special.endsOn,
+      isActive: special.isActive,
+    })
+    setEditingId(special.id)
+  }
+
+  const value = Number.parseFloat(formData.value)
+  const input: SpecialInput = {
+    menuItemId: Number(formData.menuItemId) || 0,
+    title: formData.title.trim() || undefined,
+    description: formData.description.trim() || undefined,
+    specialPrice: formData.pricingMode === "price" ? value : undefined,
+    discountPercent: formData.pricingMode === "percent" ? value : undefined,
+    startsOn: formData.startsOn,
+    endsOn: formData.endsOn,
+    isActive: formData.isActive,
+  }
+  const previewPrice = selectedItem && Number.isFinite(value) ? getSpecialPrice(selectedItem.price, input) : null
+
+  const handleSave = async () => {
+    const errors = validateSpecialInput(input)
+    if (errors.length > 0) {
+      toast({ title: "Validation Error", description: errors[0], variant: "destructive" })
+      return
+    }
+    const name = input.title || selectedItem?.name || "Special"
+
+    setSaving(true)
+    try {
+      if (editingId === "new") {
+        await createSpecial(input)
+        toast({ title: "Special Added", description: `${name} has been added to the specials.` })
+      } else if (editingId !== null) {
+        await updateSpecial(editingId, input)
+        toast({ title: "Special Updated", description: `${name} has been updated.` })
+      }
+      setEditingId(null)
+    } catch (error) {
+      console.error("Error saving special:", error)
+      toast({ ...getErrorToast(error, "Failed to save special"), variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleActive = async (special: Special, isActive: boolean) => {
+    try {
+      await updateSpecial(special.id, { isActive })
+    } catch (error) {
+      console.error("Error updating special:", error)
+      toast({ ...getErrorToast(error, "Failed to update special"), variant: "destructive" })
+    }
+  }
+
+  const confirmDelete = async () => {
+    if (!deleteTarget) return
+    const special = deleteTarget
+    setDeleteTarget(null)
+    try {
+      await deleteSpecial(special.id)
+      toast({ title: "Special Removed", description: "The special has been removed." })
+    } catch (error) {
+      console.error("Error deleting special:", error)
+      toast({ ...getErrorToast(error, "Failed to delete special"), variant: "destructive" })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center space-x-2">
+            <Coffee className="h-5 w-5" />
+            <span>Specials</span>
+          </CardTitle>
+          <Button onClick={startAdd} className="bg-amber-600 hover:bg-amber-700">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Special
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {specialsQuery.isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : specials.length === 0 ? (
+          <div className="text-center py-8">
+            <Coffee className="h-16 w-16 mx-auto text-gray-300 mb-4" />
+            <p className="text-gray-500">No specials scheduled</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {specials.map((special) => {
+              const item = itemsById.get(special.menuItemId)
+              const status = getSpecialStatus(special, today)
+              return (
+                <div key={special.id} className="border rounded-lg p-4 bg-white shadow-sm">
+                  <img
+                    src={item?.image || "/placeholder.svg"}
+                    alt={item?.name || "Special"}
+                    className="w-full h-32 object-cover rounded-lg mb-3"
+                  />
+                  <div className="flex items-start justify-between gap-2 mb-1">
+                    <h3 className="font-semibold text-lg">{special.title || item?.name || `Item #${special.menuItemId}`}</h3>
+                    <Badge className={status.className}>{status.label}</Badge>
+                  </div>
+                  {special.title && item && <p className="text-sm text-gray-500">{item.name}</p>}
+                  <p className="text-gray-600 text-sm mb-2 line-clamp-2">{special.description || item?.description}</p>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium text-orange-700">{describeSpecialDeal(special)}</span>
+                    {item && (
+                      <span>
+                        <span className="text-sm text-gray-400 line-through mr-1">₹{item.price}</span>
+                        <span className="text-lg font-bold text-amber-600">₹{getSpecialPrice(item.price, special)}</span>
+                      </span>
+                    )}
+                  </div>
+                  <p className="flex items-center gap-1 text-xs text-gray-500 mb-3">
+                    <CalendarDays className="h-3 w-3" />
+                    {special.startsOn === special.endsOn ? special.startsOn : `${special.startsOn} → ${special.endsOn}`}
+                  </p>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={special.isActive}
+                        onCheckedChange={(checked) => toggleActive(special, checked)}
+                        aria-label="Special active"
+                      />
+                      <span className="text-xs text-gray-600">{special.isActive ? "Active" : "Paused"}</span>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button size="sm" variant="outline" onClick={() => startEdit(special)}>
+                        <Edit className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => setDeleteTarget(special)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Add/Edit Special dialog */}
+      <Dialog open={editingId !== null} onOpenChange={(open) => { if (!open) setEditingId(null) }}>
+        <DialogContent className="max-w-lg mx-4 sm:mx-auto max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId === "new" ? "Add Special" : "Edit Special"}</DialogTitle>
+            <DialogDescription>
+              Specials are sold at the special price between the start and end dates (inclusive).
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Menu Item</Label>
+              <Popover open={itemPickerOpen} onOpenChange={setItemPickerOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    role="combobox"
+                    aria-expanded={itemPickerOpen}
+                    className="w-full justify-between"
+                  >
+                    {selectedItem ? `${selectedItem.name} - ₹${selectedItem.price} (${selectedItem.category})` : "Select a menu item"}
+                    <ChevronsUpDown className="ml-2 h-4 w-4 opacity-50" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="p-0 w-[--radix-popover-trigger-width]">
+                  <Command>
+                    <CommandInput placeholder="Search menu items..." />
+                    <CommandEmpty>No item found.</CommandEmpty>
+                    <CommandGroup>
+                      {menuItems.map((item) => (
+                        <CommandItem
+                          key={item.id}
+                          value={`${item.name} - ₹${item.price} (${item.category})`}
+                          onSelect={() => {
+                            setFormData({ ...formData, menuItemId: String(item.id) })
+                            setItemPickerOpen(false)
+                          }}
+                        >
+                          {item.name} - ₹{item.price} ({item.category})
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  </Command>
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Pricing</Label>
+                <Select
+                  value={formData.pricingMode}
+                  onValueChange={(mode) => setFormData({ ...formData, pricingMode: mode as PricingMode })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Discount (%)</SelectItem>
+                    <SelectItem value="price">Special price (₹)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="specialValue">{formData.pricingMode === "percent" ? "Percent off" : "Price"}</Label>
+                <Input
+                  id="specialValue"
+                  type="number"
+                  min={formData.pricingMode === "percent" ? 1 : 0}
+                  max={formData.pricingMode === "percent" ? 99 : undefined}
+                  value={formData.value}
+                  onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                  placeholder={formData.pricingMode === "percent" ? "20" : "0"}
+                />
+              </div>
+            </div>
+            {selectedItem && previewPrice !== null && (
+              <p className="text-sm text-gray-600">
+                Customers pay <span className="font-semibold text-amber-700">₹{previewPrice}</span> instead of ₹{selectedItem.price}
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="specialStartsOn">Starts</Label>
+                <Input
+                  id="specialStartsOn"
+                  type="date"
+                  value={formData.startsOn}
+                  onChange={(e) => setFormData({ ...formData, startsOn: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="specialEndsOn">Ends</Label>
+                <Input
+                  id="specialEndsOn"
+                  type="date"
+                  value={formData.endsOn}
+                  min={formData.startsOn || undefined}
+                  onChange={(e) => setFormData({ ...formData, endsOn: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="specialTitle">Title (optional)</Label>
+              <Input
+                id="specialTitle"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                placeholder={selectedItem?.name || "e.g. Monsoon Combo"}
+              />
+            </div>
+            <div>
+              <Label htmlFor="specialDescription">Description (optional)</Label>
+              <Textarea
+                id="specialDescription"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder={selectedItem?.description || "Shown instead of the menu description"}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="specialActive"
+                checked={formData.isActive}
+                onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+              />
+              <Label htmlFor="specialActive">Active</Label>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setEditingId(null)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving} className="bg-amber-600 hover:bg-amber-700">
+                {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                Save Special
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => { if (!open) setDeleteTarget(null) }}>
+        <AlertDialogContent className="mx-4 sm:mx-auto">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete special?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Customers will stop seeing it straight away. To pause it instead, switch it off.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-red-600 hover:bg-red-700">Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
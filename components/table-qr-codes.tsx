@@ -0,0 +1,142 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Download, Loader2, QrCode as QrCodeIcon } from "lucide-react"
+import { QrCode } from "@/components/qr-code"
+import { useToast } from "@/hooks/use-toast"
+import { useQuery } from "@/hooks/use-query"
+import { queryKeys } from "@/lib/query-cache"
+import { fetchLocationSettings } from "@/lib/settings-api"
+import { createTableCodes } from "@/lib/tables-api"
+import { getTableOrderUrl, parseTableNumbers } from "@/lib/tables"
+import { TableQrPDFService } from "@/lib/pdf-service"
+import { getErrorToast } from "@/lib/api-errors"
+import type { TableCode } from "@/lib/types"
+
+// Generates the signed QR codes for a branch's tables and prints them as a sheet
+export function TableQrCodes() {
+  const branches = useQuery(queryKeys.locationSettings, fetchLocationSettings).data?.branches ?? []
+  const [branchId, setBranchId] = useState("")
+  const [tableNumbersText, setTableNumbersText] = useState("1-12")
+  const [codes, setCodes] = useState<TableCode[]>([])
+  const [generating, setGenerating] = useState(false)
+  const [origin, setOrigin] = useState("")
+  const { toast } = useToast()
+
+  useEffect(() => {
+    setOrigin(window.location.origin)
+  }, [])
+
+  useEffect(() => {
+    if (!branchId && branches.length > 0) setBranchId(String(branches[0].id))
+  }, [branchId, branches])
+
+  const handleGenerate = async () => {
+    const parsed = parseTableNumbers(tableNumbersText)
+    if ("error" in parsed) {
+      toast({ title: "Validation Error", description: parsed.error, variant: "destructive" })
+      return
+    }
+    if (!branchId) {
+      toast({ title: "Validation Error", description: "Pick the branch these tables are in", variant: "destructive" })
+      return
+    }
+
+    setGenerating(true)
+    try {
+      setCodes(await createTableCodes(Number(branchId), parsed.tableNumbers))
+    } catch (error) {
+      console.error("Error generating table codes:", error)
+      toast({ ...getErrorToast(error, "Failed to generate table codes"), variant: "destructive" })
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <QrCodeIcon className="h-5 w-5" />
+              <span>Table QR Codes</span>
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Customers who scan a table&apos;s code can order without sharing their location, and the order shows the table.
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => TableQrPDFService.download(codes, origin)}
+            disabled={codes.length === 0}
+            className="bg-amber-600 hover:bg-amber-700"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            Download Print Sheet
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+          <div className="sm:w-60">
+            <Label>Branch</Label>
+            <Select
+              value={branchId}
+              onValueChange={(value) => {
+                setBranchId(value)
+                setCodes([])
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select branch" />
+              </SelectTrigger>
+              <SelectContent>
+                {branches.map((branch) => (
+                  <SelectItem key={branch.id} value={String(branch.id)}>
+                    {branch.name}
+                    {!branch.isActive && " (paused)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="sm:w-60">
+            <Label htmlFor="table-numbers">Tables</Label>
+            <Input
+              id="table-numbers"
+              value={tableNumbersText}
+              onChange={(e) => setTableNumbersText(e.target.value)}
+              placeholder="e.g. 1-12, 15"
+            />
+          </div>
+          <Button onClick={handleGenerate} disabled={generating} variant="outline">
+            {generating && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Generate Codes
+          </Button>
+        </div>
+
+        {codes.length === 0 ? (
+          <div className="text-center py-8">
+            <QrCodeIcon className="h-16 w-16 mx-auto text-gray-300 mb-4" />
+            <p className="text-gray-500">Pick a branch and the table numbers, then generate their codes</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+            {codes.map((code) => (
+              <div key={code.tableNumber} className="border rounded-lg p-3 bg-white shadow-sm text-center">
+                <p className="font-semibold mb-2">Table {code.tableNumber}</p>
+                {origin && <QrCode value={getTableOrderUrl(code.token, origin)} size={128} className="mx-auto" />}
+                <p className="text-xs text-gray-500 mt-2">{code.branchName}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
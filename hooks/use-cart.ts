@@ -0,0 +1,20 @@
+"use client"
+
+import * as React from "react"
+import { getCartLines, subscribeCart } from "@/lib/cart-store"
+import type { CartLine } from "@/lib/cart"
+
+// The saved cart, kept in sync across every cart view and browser tab. Starts
+// empty so the server render and the first client render agree.
+export function useCart(): CartLine[] {
+  const [lines, setLines] = React.useState<CartLine[]>([])
+
+  React.useEffect(() => {
+    const update = () => setLines(getCartLines())
+    const unsubscribe = subscribeCart(update)
+    update()
+    return unsubscribe
+  }, [])
+
+  return lines
+}
@@ -0,0 +1,24 @@
+"use client"
+
+import * as React from "react"
+import { subscribeToOrderEvents } from "@/lib/order-api"
+import type { StreamStatus } from "@/lib/api-client"
+import type { OrderEvent } from "@/lib/types"
+
+// Subscribes to the live order feed while `enabled`; returns the connection status
+export function useOrderEvents(enabled: boolean, onEvent: (event: OrderEvent) => void) {
+  const [status, setStatus] = React.useState<StreamStatus>("closed")
+  const onEventRef = React.useRef(onEvent)
+  onEventRef.current = onEvent
+
+  React.useEffect(() => {
+    if (!enabled) return
+    const unsubscribe = subscribeToOrderEvents((event) => onEventRef.current(event), setStatus)
+    return () => {
+      unsubscribe()
+      setStatus("closed")
+    }
+  }, [enabled])
+
+  return status
+}
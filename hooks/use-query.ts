@@ -0,0 +1,45 @@
+"use client"
+
+import * as React from "react"
+import {
+  getQueryState,
+  readQuery,
+  refetchQuery,
+  subscribeQuery,
+  type QueryKey,
+  type QueryOptions,
+  type QueryState,
+} from "@/lib/query-cache"
+
+// Serves cached data immediately (even if stale) and revalidates in the background
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: QueryOptions & { enabled?: boolean } = {},
+) {
+  const enabled = options.enabled ?? true
+  const hash = JSON.stringify(key)
+  const [state, setState] = React.useState<QueryState<T>>(() => getQueryState<T>(key))
+  const fetcherRef = React.useRef(fetcher)
+  fetcherRef.current = fetcher
+
+  React.useEffect(() => {
+    if (!enabled) return
+    const update = () => setState(getQueryState<T>(key))
+    const unsubscribe = subscribeQuery(key, update)
+    readQuery(key, () => fetcherRef.current(), { ttlMs: options.ttlMs })
+    update()
+    return unsubscribe
+    // key is tracked through its hash
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hash, enabled, options.ttlMs])
+
+  const refetch = React.useCallback(() => refetchQuery<T>(key), [hash]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  return {
+    ...state,
+    // True only until the first data arrives; later refetches keep showing cached data
+    isLoading: enabled && state.data === undefined && state.error === undefined,
+    refetch,
+  }
+}
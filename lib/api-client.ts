@@ -0,0 +1,392 @@
+import type { ZodType } from 'zod'
+import type { ApiResponse } from './types'
+import { ApiError, NetworkError, ResponseValidationError, createApiError } from './api-errors'
+
+// Demo mode serves the API from in-memory data via app/api/demo (no backend needed)
+export const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true'
+
+// API Configuration - single source for every lib/*-api module
+export const API_BASE_URL = DEMO_MODE
+  ? '/api/demo/v1'
+  : process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api/v1'
+
+const DEFAULT_TIMEOUT_MS = 15000
+const DEFAULT_GET_RETRIES = 3
+const RETRY_BASE_DELAY_MS = 500
+// Longest wait we accept between attempts, including a server's Retry-After
+const MAX_RETRY_DELAY_MS = 10000
+const RETRYABLE_STATUSES = [429, 502, 503, 504]
+
+export type QueryValue = string | number | boolean | null | undefined
+
+export interface RetryInfo {
+  // 1 for the first retry
+  attempt: number
+  delayMs: number
+  error: ApiError
+}
+
+export interface RequestOptions<T = unknown> {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  query?: Record<string, QueryValue>
+  body?: unknown
+  headers?: Record<string, string>
+  // Attach the stored Bearer token (default true)
+  auth?: boolean
+  timeoutMs?: number
+  signal?: AbortSignal
+  credentials?: RequestCredentials
+  // Used when the server does not send its own message
+  errorMessage?: string
+  // Validates the envelope's data; failures throw ResponseValidationError
+  schema?: ZodType<T>
+  // Retries for network errors and 429/502/503/504 (default 3 for GET, 0 otherwise)
+  retries?: number
+  // Called before each retry, e.g. to show a "reconnecting" state
+  onRetry?: (info: RetryInfo) => void
+  // Share one in-flight request between identical GETs (default true, off when a signal is passed)
+  dedupe?: boolean
+}
+
+// What request interceptors receive and may modify before fetch runs
+export interface RequestConfig {
+  path: string
+  url: string
+  init: RequestInit & { headers: Headers }
+  options: RequestOptions<any>
+}
+
+export type RequestInterceptor = (config: RequestConfig) => RequestConfig | Promise<RequestConfig>
+export type ResponseInterceptor = (response: Response, config: RequestConfig) => Response | Promise<Response>
+
+const requestInterceptors: RequestInterceptor[] = []
+const responseInterceptors: ResponseInterceptor[] = []
+
+// Register an interceptor; returns a function that removes it again
+export function addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+  requestInterceptors.push(interceptor)
+  return () => {
+    const index = requestInterceptors.indexOf(interceptor)
+    if (index > -1) requestInterceptors.splice(index, 1)
+  }
+}
+
+export function addResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+  responseInterceptors.push(interceptor)
+  return () => {
+    const index = responseInterceptors.indexOf(interceptor)
+    if (index > -1) responseInterceptors.splice(index, 1)
+  }
+}
+
+// Auth token helpers (token is written by login() in auth-api)
+export function getAuthToken(): string | null {
+  if (typeof window === 'undefined') return null
+  try {
+    return localStorage.getItem('token') || sessionStorage.getItem('token')
+  } catch {
+    return null
+  }
+}
+
+export function setAuthToken(token: string) {
+  try {
+    localStorage.setItem('token', token)
+    sessionStorage.setItem('token', token)
+  } catch {}
+}
+
+export function clearAuthToken() {
+  try {
+    localStorage.removeItem('token')
+    sessionStorage.removeItem('token')
+  } catch {}
+}
+
+export function buildUrl(path: string, query?: Record<string, QueryValue>): string {
+  const qs = new URLSearchParams()
+  if (query) {
+    for (const [key, value] of Object.entries(query)) {
+      if (value === undefined || value === null || value === '') continue
+      qs.append(key, String(value))
+    }
+  }
+  const queryString = qs.toString()
+  return `${API_BASE_URL}${path}${queryString ? `?${queryString}` : ''}`
+}
+
+function createRequestId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+// Runs the request through interceptors, auth, timeout; throws NetworkError when no response arrives
+async function send(path: string, options: RequestOptions<any>): Promise<{ response: Response; config: RequestConfig }> {
+  const headers = new Headers({ Accept: 'application/json', ...options.headers })
+  if (options.body !== undefined) headers.set('Content-Type', 'application/json')
+  if (!headers.has('X-Request-Id')) headers.set('X-Request-Id', createRequestId())
+  if (options.auth !== false) {
+    const token = getAuthToken()
+    if (token) headers.set('Authorization', `Bearer ${token}`)
+  }
+
+  let config: RequestConfig = {
+    path,
+    url: buildUrl(path, options.query),
+    init: {
+      method: options.method || 'GET',
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      credentials: options.credentials,
+    },
+    options,
+  }
+  for (const interceptor of requestInterceptors) {
+    config = await interceptor(config)
+  }
+
+  const controller = new AbortController()
+  let timedOut = false
+  const timeoutId = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+  const abortFromCaller = () => controller.abort()
+  options.signal?.addEventListener('abort', abortFromCaller)
+
+  const requestId = config.init.headers.get('X-Request-Id') || undefined
+  let response: Response
+  try {
+    response = await fetch(config.url, { ...config.init, signal: controller.signal })
+  } catch (error) {
+    const message = timedOut
+      ? `Request timed out after ${options.timeoutMs ?? DEFAULT_TIMEOUT_MS}ms`
+      : options.signal?.aborted
+        ? 'Request was cancelled'
+        : 'Unable to reach the server'
+    throw new NetworkError(message, { url: config.url, requestId, payload: error, timedOut })
+  } finally {
+    clearTimeout(timeoutId)
+    options.signal?.removeEventListener('abort', abortFromCaller)
+  }
+
+  for (const interceptor of responseInterceptors) {
+    response = await interceptor(response, config)
+  }
+  return { response, config }
+}
+
+function isRetryable(error: unknown, options: RequestOptions<any>): error is ApiError {
+  if (options.signal?.aborted) return false
+  if (error instanceof NetworkError) return true
+  return error instanceof ApiError && RETRYABLE_STATUSES.includes(error.status)
+}
+
+// Retry-After when the server sent one, otherwise jittered exponential backoff
+function getRetryDelay(error: ApiError, attempt: number): number | undefined {
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= MAX_RETRY_DELAY_MS ? error.retryAfterMs : undefined
+  }
+  const backoff = Math.min(MAX_RETRY_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1))
+  return backoff / 2 + Math.random() * (backoff / 2)
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId)
+      resolve()
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+async function withRetry<T>(options: RequestOptions<any>, run: () => Promise<T>): Promise<T> {
+  const method = options.method || 'GET'
+  const retries = options.retries ?? (method === 'GET' ? DEFAULT_GET_RETRIES : 0)
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run()
+    } catch (error) {
+      if (attempt > retries || !isRetryable(error, options)) throw error
+      const delayMs = getRetryDelay(error, attempt)
+      if (delayMs === undefined) throw error
+      console.warn('Retrying API request:', { url: error.url, status: error.status, attempt, delayMs: Math.round(delayMs) })
+      options.onRetry?.({ attempt, delayMs, error })
+      await sleep(delayMs, options.signal)
+      if (options.signal?.aborted) throw error
+    }
+  }
+}
+
+// Identical GETs currently in flight, keyed by url + token. Every caller sharing one
+// hears about its retries, so each screen can show its own "reconnecting" state.
+interface InFlightRequest {
+  promise: Promise<unknown>
+  retryListeners: Set<(info: RetryInfo) => void>
+  lastRetry?: RetryInfo
+}
+
+const inFlightRequests = new Map<string, InFlightRequest>()
+
+// Request returning the parsed JSON envelope (use when you need fields beside data, e.g. totalCount)
+export async function apiRequest<R extends ApiResponse<unknown> = ApiResponse<unknown>>(
+  path: string,
+  options: RequestOptions<R['data']> = {},
+): Promise<R> {
+  const canDedupe = (options.method || 'GET') === 'GET' && options.dedupe !== false && !options.signal
+  if (!canDedupe) return withRetry(options, () => requestOnce<R>(path, options))
+
+  const key = `${buildUrl(path, options.query)}|${options.auth !== false ? getAuthToken() ?? '' : ''}`
+  const existing = inFlightRequests.get(key)
+  if (existing) {
+    if (options.onRetry) {
+      existing.retryListeners.add(options.onRetry)
+      // Joined while the request was already retrying
+      if (existing.lastRetry) options.onRetry(existing.lastRetry)
+    }
+    return existing.promise as Promise<R>
+  }
+
+  const entry: InFlightRequest = { promise: Promise.resolve(), retryListeners: new Set() }
+  if (options.onRetry) entry.retryListeners.add(options.onRetry)
+  const onRetry = (info: RetryInfo) => {
+    entry.lastRetry = info
+    entry.retryListeners.forEach((listener) => listener(info))
+  }
+  const promise = withRetry({ ...options, onRetry }, () => requestOnce<R>(path, options)).finally(() => {
+    inFlightRequests.delete(key)
+  })
+  entry.promise = promise
+  inFlightRequests.set(key, entry)
+  return promise
+}
+
+async function requestOnce<R extends ApiResponse<unknown>>(path: string, options: RequestOptions<R['data']>): Promise<R> {
+  const { response, config } = await send(path, options)
+  const payload = await response.json().catch(() => undefined) as (R & { requestId?: string }) | undefined
+  const requestId = response.headers.get('X-Request-Id') || payload?.requestId || config.init.headers.get('X-Request-Id') || undefined
+
+  if (!response.ok || !payload || payload.success === false) {
+    const error = createApiError(response, payload, { url: config.url, requestId, fallbackMessage: options.errorMessage })
+    console.error('API request failed:', { url: config.url, status: error.status, type: error.name, requestId, message: error.message })
+    throw error
+  }
+
+  if (options.schema) {
+    const result = options.schema.safeParse(payload.data)
+    if (!result.success) {
+      const error = new ResponseValidationError(result.error, { status: response.status, url: config.url, requestId, payload })
+      console.error('API response failed validation:', { url: config.url, field: error.fieldPath, issues: error.issues })
+      throw error
+    }
+    payload.data = result.data
+  }
+
+  return payload
+}
+
+// Request returning only the envelope's data
+export async function apiData<T>(path: string, options: RequestOptions<T> = {}): Promise<T> {
+  const payload = await apiRequest<ApiResponse<T>>(path, options)
+  return payload.data
+}
+
+// Request returning a file body (CSV exports etc.)
+export async function apiBlob(path: string, options: RequestOptions = {}): Promise<Blob> {
+  return withRetry(options, async () => {
+    const { response, config } = await send(path, options)
+    if (!response.ok) {
+      const payload = await response.json().catch(() => undefined)
+      throw createApiError(response, payload, {
+        url: config.url,
+        requestId: response.headers.get('X-Request-Id') || config.init.headers.get('X-Request-Id') || undefined,
+        fallbackMessage: options.errorMessage,
+      })
+    }
+    return response.blob()
+  })
+}
+
+// Trigger a browser download for a blob
+export function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+export type StreamStatus = 'connecting' | 'open' | 'reconnecting' | 'closed'
+
+export interface EventStreamOptions {
+  // Named SSE events to listen for (the `event:` field)
+  events: string[]
+  onEvent: (event: string, data: unknown) => void
+  onStatusChange?: (status: StreamStatus) => void
+  query?: Record<string, QueryValue>
+  auth?: boolean
+}
+
+// EventSource wrapper that keeps reconnecting with backoff. EventSource cannot
+// send headers, so the token travels as a query parameter. Returns a close function.
+export function openEventStream(path: string, options: EventStreamOptions): () => void {
+  let source: EventSource | null = null
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined
+  let attempt = 0
+  let closed = false
+
+  const connect = () => {
+    if (closed) return
+    const token = options.auth !== false ? getAuthToken() : null
+    source = new EventSource(buildUrl(path, { ...options.query, token }))
+    options.onStatusChange?.(attempt === 0 ? 'connecting' : 'reconnecting')
+
+    source.onopen = () => {
+      attempt = 0
+      options.onStatusChange?.('open')
+    }
+    source.onerror = () => {
+      // The browser retries on its own unless the stream was closed (e.g. HTTP error);
+      // we always take over so the backoff and token refresh are ours
+      source?.close()
+      source = null
+      if (closed) return
+      attempt++
+      const backoff = Math.min(MAX_RETRY_DELAY_MS * 3, RETRY_BASE_DELAY_MS * 2 ** attempt)
+      const delayMs = backoff / 2 + Math.random() * (backoff / 2)
+      console.warn('Event stream disconnected, reconnecting:', { path, attempt, delayMs: Math.round(delayMs) })
+      options.onStatusChange?.('reconnecting')
+      reconnectTimer = setTimeout(connect, delayMs)
+    }
+    for (const event of options.events) {
+      source.addEventListener(event, (message) => {
+        let data: unknown
+        try {
+          data = JSON.parse((message as MessageEvent<string>).data)
+        } catch {
+          console.error('Ignoring malformed stream event:', { path, event })
+          return
+        }
+        options.onEvent(event, data)
+      })
+    }
+  }
+
+  connect()
+
+  return () => {
+    closed = true
+    clearTimeout(reconnectTimer)
+    source?.close()
+    source = null
+    options.onStatusChange?.('closed')
+  }
+}
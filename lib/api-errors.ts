@@ -0,0 +1,292 @@
+import type { ZodError } from 'zod'
+
+interface ApiErrorOptions {
+  status: number
+  url: string
+  serverMessage?: string
+  requestId?: string
+  payload?: unknown
+  retryAfterMs?: number
+}
+
+// Base error thrown for every failed API call
+export class ApiError extends Error {
+  status: number
+  serverMessage?: string
+  requestId?: string
+  url: string
+  payload?: unknown
+  // From the Retry-After header (429 / 503)
+  retryAfterMs?: number
+
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = options.status
+    this.url = options.url
+    this.serverMessage = options.serverMessage
+    this.requestId = options.requestId
+    this.payload = options.payload
+    this.retryAfterMs = options.retryAfterMs
+  }
+}
+
+// Server unreachable, request timed out or was cancelled (status 0)
+export class NetworkError extends ApiError {
+  timedOut: boolean
+
+  constructor(message: string, options: Omit<ApiErrorOptions, 'status'> & { timedOut?: boolean }) {
+    super(message, { ...options, status: 0 })
+    this.name = 'NetworkError'
+    this.timedOut = options.timedOut ?? false
+  }
+}
+
+// 401 / 403 - missing, expired or insufficient credentials
+export class AuthError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message, options)
+    this.name = 'AuthError'
+  }
+}
+
+// 400 / 422 with per-field messages, keyed by field name
+export class ValidationError extends ApiError {
+  fieldErrors: Record<string, string>
+
+  constructor(message: string, options: ApiErrorOptions & { fieldErrors: Record<string, string> }) {
+    super(message, options)
+    this.name = 'ValidationError'
+    this.fieldErrors = options.fieldErrors
+  }
+}
+
+// 429 - retryAfterMs comes from the Retry-After header when present
+export class RateLimitError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message, options)
+    this.name = 'RateLimitError'
+  }
+}
+
+// Order rejected because some menu items can no longer be ordered
+export class ItemUnavailableError extends ApiError {
+  unavailableItemIds: number[]
+  // Why, per menu item id, when the server says (e.g. "Available from 4 PM")
+  reasons: Record<number, string>
+  // Combos are reported on their own, not as the items inside them
+  unavailableComboIds: number[]
+  comboReasons: Record<number, string>
+
+  constructor(message: string, options: ApiErrorOptions & {
+    unavailableItemIds: number[]
+    reasons?: Record<number, string>
+    unavailableComboIds?: number[]
+    comboReasons?: Record<number, string>
+  }) {
+    super(message, options)
+    this.name = 'ItemUnavailableError'
+    this.unavailableItemIds = options.unavailableItemIds
+    this.reasons = options.reasons ?? {}
+    this.unavailableComboIds = options.unavailableComboIds ?? []
+    this.comboReasons = options.comboReasons ?? {}
+  }
+}
+
+// Successful response that does not match the expected schema (backend drift)
+export class ResponseValidationError extends ApiError {
+  // Offending field, e.g. "data[2].total_amount"
+  fieldPath: string
+  issues: ZodError['issues']
+
+  constructor(error: ZodError, options: Omit<ApiErrorOptions, 'serverMessage'>) {
+    const issue = error.issues[0]
+    const fieldPath = formatFieldPath(issue?.path ?? [])
+    super(`Unexpected response from ${options.url}: ${fieldPath} ${issue?.message ?? 'is invalid'}`, options)
+    this.name = 'ResponseValidationError'
+    this.fieldPath = fieldPath
+    this.issues = error.issues
+  }
+}
+
+function formatFieldPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (acc, key) => (typeof key === 'number' ? `${acc}[${key}]` : `${acc}.${key}`),
+    'data',
+  )
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, date - Date.now())
+}
+
+type ErrorPayload = {
+  message?: string
+  error?: string
+  errors?: unknown
+  unavailableItems?: unknown
+  unavailable_item_ids?: unknown
+  data?: { unavailableItems?: unknown; unavailable_item_ids?: unknown } | null
+}
+
+function extractFieldErrors(errors: unknown): Record<string, string> {
+  const fieldErrors: Record<string, string> = {}
+  if (Array.isArray(errors)) {
+    // express-validator style: [{ path | param | field, msg | message }]
+    for (const entry of errors) {
+      if (!entry || typeof entry !== 'object') continue
+      const e = entry as Record<string, unknown>
+      const field = e.path ?? e.param ?? e.field
+      const message = e.msg ?? e.message
+      if (typeof field === 'string' && typeof message === 'string' && !fieldErrors[field]) {
+        fieldErrors[field] = message
+      }
+    }
+  } else if (errors && typeof errors === 'object') {
+    for (const [field, message] of Object.entries(errors as Record<string, unknown>)) {
+      if (typeof message === 'string') fieldErrors[field] = message
+      else if (Array.isArray(message) && typeof message[0] === 'string') fieldErrors[field] = message[0]
+    }
+  }
+  return fieldErrors
+}
+
+function extractUnavailableItemIds(payload: ErrorPayload | undefined): number[] | undefined {
+  const raw = payload?.unavailableItems ?? payload?.unavailable_item_ids
+    ?? payload?.data?.unavailableItems ?? payload?.data?.unavailable_item_ids
+  if (!Array.isArray(raw)) return undefined
+  return raw
+    .map((entry) => {
+      if (typeof entry === 'number') return entry
+      if (typeof entry === 'string') return Number(entry)
+      if (entry && typeof entry === 'object') {
+        const e = entry as Record<string, unknown>
+        return Number(e.menuItemId ?? e.menu_item_id ?? e.id)
+      }
+      return NaN
+    })
+    .filter((id) => Number.isFinite(id))
+}
+
+type UnavailableEntry = Record<string, unknown>
+
+const readMenuItemId = (e: UnavailableEntry) => Number(e.menuItemId ?? e.menu_item_id ?? e.id)
+const readComboId = (e: UnavailableEntry) => Number(e.comboId ?? e.combo_id)
+
+// Combo entries look like { comboId, reason? }
+function extractUnavailableComboIds(payload: ErrorPayload | undefined): number[] {
+  const raw = payload?.unavailableItems ?? payload?.data?.unavailableItems
+  if (!Array.isArray(raw)) return []
+  return raw
+    .filter((entry): entry is UnavailableEntry => !!entry && typeof entry === 'object')
+    .map(readComboId)
+    .filter((id) => Number.isFinite(id))
+}
+
+// Entries may be objects with a `reason`, e.g. an item outside its ordering hours
+function extractUnavailableReasons(payload: ErrorPayload | undefined, readId = readMenuItemId): Record<number, string> {
+  const raw = payload?.unavailableItems ?? payload?.data?.unavailableItems
+  const reasons: Record<number, string> = {}
+  if (!Array.isArray(raw)) return reasons
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue
+    const e = entry as UnavailableEntry
+    const id = readId(e)
+    if (Number.isFinite(id) && typeof e.reason === 'string') reasons[id] = e.reason
+  }
+  return reasons
+}
+
+// Picks the most specific error class for a failed response
+export function createApiError(
+  response: { status: number; headers: Headers },
+  body: unknown,
+  options: { url: string; requestId?: string; fallbackMessage?: string },
+): ApiError {
+  const payload = body && typeof body === 'object' ? body as ErrorPayload : undefined
+  const serverMessage = payload?.message || payload?.error
+  const message = serverMessage || options.fallbackMessage || `HTTP error! status: ${response.status}`
+  const base = {
+    status: response.status,
+    url: options.url,
+    serverMessage,
+    requestId: options.requestId,
+    payload,
+    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+  }
+
+  const unavailableItemIds = extractUnavailableItemIds(payload)
+  if (unavailableItemIds || (serverMessage && /not available|unavailable/i.test(serverMessage) && response.status < 500)) {
+    return new ItemUnavailableError(message, {
+      ...base,
+      unavailableItemIds: unavailableItemIds ?? [],
+      reasons: extractUnavailableReasons(payload),
+      unavailableComboIds: extractUnavailableComboIds(payload),
+      comboReasons: extractUnavailableReasons(payload, readComboId),
+    })
+  }
+  if (response.status === 401 || response.status === 403) {
+    return new AuthError(message, base)
+  }
+  if (response.status === 429) {
+    return new RateLimitError(message, base)
+  }
+  if (response.status === 400 || response.status === 422) {
+    return new ValidationError(message, { ...base, fieldErrors: extractFieldErrors(payload?.errors) })
+  }
+  return new ApiError(message, base)
+}
+
+// Shared mapping from API errors to toast copy
+export function getErrorToast(error: unknown, fallbackTitle = 'Something went wrong'): { title: string; description: string } {
+  if (error instanceof ItemUnavailableError) {
+    return {
+      title: 'Items Unavailable',
+      description: 'Some items in your order are no longer available. Remove the highlighted items and try again.',
+    }
+  }
+  if (error instanceof NetworkError) {
+    return {
+      title: error.timedOut ? 'Request Timed Out' : 'Connection Problem',
+      description: 'We could not reach the server. Check your connection and try again.',
+    }
+  }
+  if (error instanceof AuthError) {
+    return {
+      title: error.status === 403 ? 'Not Allowed' : 'Session Expired',
+      description: error.status === 403
+        ? 'Your account does not have permission to do this.'
+        : 'Please log in again to continue.',
+    }
+  }
+  if (error instanceof RateLimitError) {
+    const seconds = error.retryAfterMs !== undefined ? Math.ceil(error.retryAfterMs / 1000) : undefined
+    return {
+      title: 'Too Many Requests',
+      description: seconds ? `Please wait ${seconds}s and try again.` : 'Please wait a moment and try again.',
+    }
+  }
+  if (error instanceof ValidationError) {
+    const firstFieldError = Object.values(error.fieldErrors)[0]
+    return {
+      title: 'Please Check Your Details',
+      description: firstFieldError || error.message,
+    }
+  }
+  if (error instanceof ResponseValidationError) {
+    return {
+      title: fallbackTitle,
+      description: 'The server sent an unexpected response. Please try again later.',
+    }
+  }
+  if (error instanceof Error) {
+    return { title: fallbackTitle, description: error.message }
+  }
+  return { title: fallbackTitle, description: 'Please try again.' }
+}
@@ -1,36 +1,119 @@
-import type { ApiResponse, BackendMenuItem, MenuItem } from './types.ts'
-import { CATEGORY_MAP } from './types.ts'
-
-// API Configuration - Updated to use port 8000
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:8000/api/v1'
+import { z } from 'zod'
+import type {
+  AvailabilityWindow,
+  BackendAvailabilityWindow,
+  BackendCategory,
+  BackendCombo,
+  BackendMenuItem,
+  BackendMenuVariant,
+  BackendModifierGroup,
+  BackendModifierOption,
+  BulkPriceChange,
+  Combo,
+  ComboInput,
+  MenuCategory,
+  MenuCategoryInput,
+  MenuItem,
+  MenuItemInput,
+} from './types'
+import { apiData, apiRequest } from './api-client'
+import { backendCategorySchema, backendComboSchema, backendMenuItemSchema } from './schemas'
+import { saveMenuSnapshot } from './menu-snapshot'
+import { fetchQuery, getQueryState, invalidateQueries, queryKeys, setQueryData } from './query-cache'
+import { applyPriceChange } from './menu-pricing'
+import { compareCategories } from './menu-categories'
 
 // Test API connection great
 export async function testApiConnection(): Promise<boolean> {
   try {
-    const response = await fetch(`${API_BASE_URL}/menu/test`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    })
-    return response.ok
+    await apiRequest('/menu/test', { auth: false })
+    return true
   } catch (error) {
     console.error('API connection test failed:', error)
     return false
   }
 }
 
+const menuItemsSchema = z.array(backendMenuItemSchema)
+const categoriesSchema = z.array(backendCategorySchema)
+const combosSchema = z.array(backendComboSchema)
+
+type CategoryNames = Map<number, string>
+
+// Create/update body: option ids are left out for rows the server should create
+type WithOptionalId<T extends { id: number }> = Omit<T, 'id'> & { id?: number }
+type BackendMenuItemBody = Omit<Partial<BackendMenuItem>, 'variants' | 'modifier_groups'> & {
+  variants?: WithOptionalId<BackendMenuVariant>[]
+  modifier_groups?: (WithOptionalId<Omit<BackendModifierGroup, 'options'>> & {
+    options: WithOptionalId<BackendModifierOption>[]
+  })[]
+}
+
 // Helper function to convert backend menu item to frontend format
-function transformMenuItem(backendItem: BackendMenuItem): MenuItem {
+function transformMenuItem(backendItem: BackendMenuItem, categoryNames: CategoryNames): MenuItem {
   return {
     id: backendItem.id,
     name: backendItem.name,
     price: backendItem.price,
-    category: CATEGORY_MAP[backendItem.category_id] || 'Other',
+    category: categoryNames.get(backendItem.category_id) || 'Other',
     description: backendItem.description,
     image: backendItem.image_url || `/images/menu/${getImageFileName(backendItem.name)}`,
     isAvailable: backendItem.is_available,
-    preparationTime: backendItem.preparation_time_minutes
+    preparationTime: backendItem.preparation_time_minutes,
+    categoryId: backendItem.category_id,
+    imageUrl: backendItem.image_url || undefined,
+    variants: backendItem.variants?.map((variant) => ({
+      id: variant.id,
+      name: variant.name,
+      priceDelta: variant.price_delta,
+      isDefault: variant.is_default,
+    })),
+    modifierGroups: backendItem.modifier_groups?.map((group) => ({
+      id: group.id,
+      name: group.name,
+      minSelect: group.min_select,
+      maxSelect: group.max_select,
+      options: group.options.map((option) => ({
+        id: option.id,
+        name: option.name,
+        priceDelta: option.price_delta,
+      })),
+    })),
+    dietaryTags: backendItem.dietary_tags,
+    allergens: backendItem.allergens,
+    availabilityWindows: backendItem.availability_windows?.map(transformAvailabilityWindow),
+  }
+}
+
+function toBackendMenuItem(input: Partial<MenuItemInput>): BackendMenuItemBody {
+  return {
+    name: input.name,
+    price: input.price,
+    category_id: input.categoryId,
+    description: input.description,
+    image_url: input.imageUrl,
+    is_available: input.isAvailable,
+    preparation_time_minutes: input.preparationTimeMinutes,
+    dietary_tags: input.dietaryTags,
+    allergens: input.allergens,
+    availability_windows: input.availabilityWindows?.map(toBackendAvailabilityWindow),
+    variants: input.variants?.map((variant) => ({
+      id: variant.id,
+      name: variant.name,
+      price_delta: variant.priceDelta,
+      is_default: variant.isDefault,
+    })),
+    modifier_groups: input.modifierGroups?.map((group) => ({
+      id: group.id,
+      name: group.name,
+      min_select: group.minSelect,
+      max_select: group.maxSelect,
+      options: group.options.map((option) => ({
+        id: option.id,
+        name: option.name,
+        price_delta: option.priceDelta,
+      })),
+    })),
   }
 }
 
@@ -44,92 +127,303 @@ function getImageFileName(itemName: string): string {
     + '.jpg'
 }
 
-// API Functions
-export async function fetchMenuItems(): Promise<MenuItem[]> {
-  try {
-  //  console.log('Attempting to fetch menu items from:', `${API_BASE_URL}/menu/items`);
-    
-    const response = await fetch(`${API_BASE_URL}/menu/items`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      },
-      credentials: 'include',
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      console.error('Menu API response not ok:', {
-        status: response.status,
-        statusText: response.statusText,
-        errorData
-      });
-      throw new Error(errorData.message || `HTTP error! status: ${response.status} - ${response.statusText}`);
-    }
-
-    const apiResponse: ApiResponse<BackendMenuItem[]> = await response.json();
-  //  console.log('Menu API response:', apiResponse);
-    
-    if (!apiResponse.success) {
-      throw new Error(apiResponse.message || 'Failed to fetch menu items');
-    }
-
-    return apiResponse.data.map(transformMenuItem);
-  } catch (error) {
-    console.error('Error fetching menu items:', error);
-    throw error;
+function transformCategory(backendCategory: BackendCategory): MenuCategory {
+  return {
+    id: backendCategory.id,
+    name: backendCategory.name,
+    sortOrder: backendCategory.sort_order,
+    icon: backendCategory.icon || undefined,
+    isVisible: backendCategory.is_visible,
+    activeFrom: backendCategory.active_from || undefined,
+    activeUntil: backendCategory.active_until || undefined,
+    availabilityWindows: backendCategory.availability_windows?.map(transformAvailabilityWindow),
   }
 }
 
-export async function fetchAvailableMenuItems(): Promise<MenuItem[]> {
+function transformAvailabilityWindow(window: BackendAvailabilityWindow): AvailabilityWindow {
+  return { days: window.days, from: window.start_time, until: window.end_time }
+}
+
+function toBackendAvailabilityWindow(window: AvailabilityWindow): BackendAvailabilityWindow {
+  return { days: window.days, start_time: window.from, end_time: window.until }
+}
+
+function toBackendCategory(input: Partial<MenuCategoryInput>): Partial<BackendCategory> {
+  return {
+    name: input.name,
+    sort_order: input.sortOrder,
+    icon: input.icon === undefined ? undefined : input.icon || null,
+    is_visible: input.isVisible,
+    active_from: input.activeFrom === undefined ? undefined : input.activeFrom || null,
+    active_until: input.activeUntil === undefined ? undefined : input.activeUntil || null,
+    availability_windows: input.availabilityWindows?.map(toBackendAvailabilityWindow),
+  }
+}
+
+function transformCombo(backendCombo: BackendCombo): Combo {
+  return {
+    id: backendCombo.id,
+    name: backendCombo.name,
+    description: backendCombo.description || '',
+    price: backendCombo.price,
+    imageUrl: backendCombo.image_url || undefined,
+    isAvailable: backendCombo.is_available,
+    slots: backendCombo.slots.map((slot) => ({
+      id: slot.id,
+      name: slot.name,
+      menuItemIds: slot.menu_item_ids,
+      categoryId: slot.category_id ?? undefined,
+    })),
+  }
+}
+
+function toBackendCombo(input: Partial<ComboInput>) {
+  return {
+    name: input.name,
+    description: input.description === undefined ? undefined : input.description || null,
+    price: input.price,
+    image_url: input.imageUrl === undefined ? undefined : input.imageUrl || null,
+    is_available: input.isAvailable,
+    slots: input.slots?.map((slot) => ({
+      id: slot.id,
+      name: slot.name,
+      menu_item_ids: slot.categoryId === undefined ? slot.menuItemIds : [],
+      category_id: slot.categoryId ?? null,
+    })),
+  }
+}
+
+// Category names for transformMenuItem. A failed category fetch should not take
+// the menu down with it, so items fall back to "Other" instead.
+async function getCategoryNames(): Promise<CategoryNames> {
   try {
-    const response = await fetch(`${API_BASE_URL}/menu/items/available`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-
-    const apiResponse: ApiResponse<BackendMenuItem[]> = await response.json()
-    
-    if (!apiResponse.success) {
-      throw new Error(apiResponse.message || 'Failed to fetch available menu items')
-    }
-
-    return apiResponse.data.map(transformMenuItem)
+    const categories = await fetchQuery(queryKeys.categories, fetchCategories)
+    return new Map(categories.map((category) => [category.id, category.name]))
   } catch (error) {
-    console.error('Error fetching available menu items:', error)
-    throw error
+    console.warn('Could not load menu categories:', error)
+    return new Map()
   }
 }
 
+// API Functions
+export async function fetchCategories(): Promise<MenuCategory[]> {
+  const categories = await apiData<BackendCategory[]>('/menu/categories', {
+    auth: false,
+    schema: categoriesSchema,
+    errorMessage: 'Failed to fetch menu categories',
+  })
+  return categories.map(transformCategory).sort(compareCategories)
+}
+
+// All combos; customers only see the available ones whose items can be ordered
+export async function fetchCombos(): Promise<Combo[]> {
+  const combos = await apiData<BackendCombo[]>('/menu/combos', {
+    auth: false,
+    schema: combosSchema,
+    errorMessage: 'Failed to fetch combos',
+  })
+  return combos.map(transformCombo)
+}
+
+export async function fetchMenuItems(): Promise<MenuItem[]> {
+  const [items, categoryNames] = await Promise.all([
+    apiData<BackendMenuItem[]>('/menu/items', {
+      credentials: 'include',
+      schema: menuItemsSchema,
+      errorMessage: 'Failed to fetch menu items',
+    }),
+    getCategoryNames(),
+  ])
+  const menu = items.map((item) => transformMenuItem(item, categoryNames))
+  // Keep the last good menu for offline use (fire and forget)
+  saveMenuSnapshot(menu)
+  return menu
+}
+
+export async function fetchAvailableMenuItems(): Promise<MenuItem[]> {
+  const [items, categoryNames] = await Promise.all([
+    apiData<BackendMenuItem[]>('/menu/items/available', {
+      schema: menuItemsSchema,
+      errorMessage: 'Failed to fetch available menu items',
+    }),
+    getCategoryNames(),
+  ])
+  return items.map((item) => transformMenuItem(item, categoryNames))
+}
+
 export async function fetchMenuItemsByCategory(categoryId: number): Promise<MenuItem[]> {
+  const [items, categoryNames] = await Promise.all([
+    apiData<BackendMenuItem[]>(`/menu/items/category/${categoryId}`, {
+      schema: menuItemsSchema,
+      errorMessage: 'Failed to fetch menu items by category',
+    }),
+    getCategoryNames(),
+  ])
+  return items.map((item) => transformMenuItem(item, categoryNames))
+}
+
+// Admin menu management ----------------------------------------------------
+
+// Other open tabs (e.g. the customer menu) refetch when the menu changes here
+const menuChannel = typeof window !== 'undefined' && typeof BroadcastChannel !== 'undefined'
+  ? new BroadcastChannel('cafe-menu')
+  : null
+menuChannel?.addEventListener('message', () => invalidateQueries('/menu'))
+
+export function invalidateMenuQueries() {
+  invalidateQueries('/menu')
+  menuChannel?.postMessage('invalidate')
+}
+
+// Apply `update` to the cached menu straight away so every screen reflects the
+// change, then roll back if the request fails. Either way the menu is refetched.
+async function mutateMenu<T>(update: (items: MenuItem[]) => MenuItem[], request: () => Promise<T>): Promise<T> {
+  const previous = getQueryState<MenuItem[]>(queryKeys.menu).data
+  if (previous) setQueryData(queryKeys.menu, update(previous))
   try {
-    const response = await fetch(`${API_BASE_URL}/menu/items/category/${categoryId}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-
-    const apiResponse: ApiResponse<BackendMenuItem[]> = await response.json()
-    
-    if (!apiResponse.success) {
-      throw new Error(apiResponse.message || 'Failed to fetch menu items by category')
-    }
-
-    return apiResponse.data.map(transformMenuItem)
+    return await request()
   } catch (error) {
-    console.error('Error fetching menu items by category:', error)
+    if (previous) setQueryData(queryKeys.menu, previous)
     throw error
+  } finally {
+    invalidateMenuQueries()
   }
-} 
\ No newline at end of file
+}
+
+export async function createMenuItem(input: MenuItemInput): Promise<MenuItem> {
+  const item = await apiData<BackendMenuItem>('/menu/items', {
+    method: 'POST',
+    body: toBackendMenuItem(input),
+    schema: backendMenuItemSchema,
+    errorMessage: 'Failed to create menu item',
+  })
+  invalidateMenuQueries()
+  return transformMenuItem(item, await getCategoryNames())
+}
+
+export async function updateMenuItem(id: number, input: Partial<MenuItemInput>): Promise<MenuItem> {
+  const categoryNames = await getCategoryNames()
+  const item = await mutateMenu(
+    (items) => items.map((entry) => entry.id === id ? {
+      ...entry,
+      name: input.name ?? entry.name,
+      price: input.price ?? entry.price,
+      categoryId: input.categoryId ?? entry.categoryId,
+      category: input.categoryId !== undefined ? categoryNames.get(input.categoryId) || 'Other' : entry.category,
+      description: input.description ?? entry.description,
+      image: input.imageUrl || entry.image,
+      imageUrl: input.imageUrl ?? entry.imageUrl,
+      isAvailable: input.isAvailable ?? entry.isAvailable,
+      preparationTime: input.preparationTimeMinutes ?? entry.preparationTime,
+      dietaryTags: input.dietaryTags ?? entry.dietaryTags,
+      allergens: input.allergens ?? entry.allergens,
+      availabilityWindows: input.availabilityWindows ?? entry.availabilityWindows,
+    } : entry),
+    () => apiData<BackendMenuItem>(`/menu/items/${id}`, {
+      method: 'PUT',
+      body: toBackendMenuItem(input),
+      schema: backendMenuItemSchema,
+      errorMessage: 'Failed to update menu item',
+    }),
+  )
+  return transformMenuItem(item, categoryNames)
+}
+
+export async function setMenuItemAvailability(id: number, isAvailable: boolean): Promise<void> {
+  await mutateMenu(
+    (items) => items.map((entry) => entry.id === id ? { ...entry, isAvailable } : entry),
+    () => apiRequest(`/menu/items/${id}/availability`, {
+      method: 'PATCH',
+      body: { is_available: isAvailable },
+      errorMessage: 'Failed to update availability',
+    }),
+  )
+}
+
+export async function deleteMenuItem(id: number): Promise<void> {
+  await mutateMenu(
+    (items) => items.filter((entry) => entry.id !== id),
+    () => apiRequest(`/menu/items/${id}`, {
+      method: 'DELETE',
+      errorMessage: 'Failed to delete menu item',
+    }),
+  )
+}
+
+// Returns the repriced items
+export async function bulkUpdateCategoryPrices(change: BulkPriceChange): Promise<MenuItem[]> {
+  const items = await mutateMenu(
+    (current) => current.map((entry) => entry.categoryId === change.categoryId
+      ? { ...entry, price: applyPriceChange(entry.price, change) }
+      : entry),
+    () => apiData<BackendMenuItem[]>(`/menu/items/category/${change.categoryId}/prices`, {
+      method: 'POST',
+      body: { mode: change.mode, value: change.value },
+      schema: menuItemsSchema,
+      errorMessage: 'Failed to update prices',
+    }),
+  )
+  const categoryNames = await getCategoryNames()
+  return items.map((item) => transformMenuItem(item, categoryNames))
+}
+
+export async function createCategory(input: MenuCategoryInput): Promise<MenuCategory> {
+  const category = await apiData<BackendCategory>('/menu/categories', {
+    method: 'POST',
+    body: toBackendCategory(input),
+    schema: backendCategorySchema,
+    errorMessage: 'Failed to create category',
+  })
+  invalidateMenuQueries()
+  return transformCategory(category)
+}
+
+export async function updateCategory(id: number, input: Partial<MenuCategoryInput>): Promise<MenuCategory> {
+  const category = await apiData<BackendCategory>(`/menu/categories/${id}`, {
+    method: 'PUT',
+    body: toBackendCategory(input),
+    schema: backendCategorySchema,
+    errorMessage: 'Failed to update category',
+  })
+  invalidateMenuQueries()
+  return transformCategory(category)
+}
+
+// The server refuses while menu items still use the category
+export async function deleteCategory(id: number): Promise<void> {
+  await apiRequest(`/menu/categories/${id}`, {
+    method: 'DELETE',
+    errorMessage: 'Failed to delete category',
+  })
+  invalidateMenuQueries()
+}
+
+export async function createCombo(input: ComboInput): Promise<Combo> {
+  const combo = await apiData<BackendCombo>('/menu/combos', {
+    method: 'POST',
+    body: toBackendCombo(input),
+    schema: backendComboSchema,
+    errorMessage: 'Failed to create combo',
+  })
+  invalidateMenuQueries()
+  return transformCombo(combo)
+}
+
+export async function updateCombo(id: number, input: Partial<ComboInput>): Promise<Combo> {
+  const combo = await apiData<BackendCombo>(`/menu/combos/${id}`, {
+    method: 'PUT',
+    body: toBackendCombo(input),
+    schema: backendComboSchema,
+    errorMessage: 'Failed to update combo',
+  })
+  invalidateMenuQueries()
+  return transformCombo(combo)
+}
+
+export async function deleteCombo(id: number): Promise<void> {
+  await apiRequest(`/menu/combos/${id}`, {
+    method: 'DELETE',
+    errorMessage: 'Failed to delete combo',
+  })
+  invalidateMenuQueries()
+}
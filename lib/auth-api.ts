@@ -1,30 +1,22 @@
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api/v1';
+import { apiData, clearAuthToken, setAuthToken } from './api-client'
 
-export async function login(username: string, password: string) {
-  const res = await fetch(`${API_BASE_URL}/auth/login`, {
+export interface AuthUser {
+  id?: number
+  username: string
+  role: 'admin' | 'super_admin'
+}
+
+export async function login(username: string, password: string): Promise<AuthUser> {
+  const { token, user } = await apiData<{ token?: string; user: AuthUser }>('/auth/login', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ username, password }),
-  });
-  const payload = await res.json().catch(() => ({}));
-  if (!res.ok || !payload?.success) {
-    throw new Error(payload?.message || `Login failed (${res.status})`);
-  }
-  const { token, user } = payload.data || {};
-  if (token) {
-    try {
-      localStorage.setItem('token', token);
-      sessionStorage.setItem('token', token);
-    } catch {}
-  }
-  return user;
+    body: { username, password },
+    auth: false,
+    errorMessage: 'Login failed',
+  })
+  if (token) setAuthToken(token)
+  return user
 }
 
 export function logout() {
-  try {
-    localStorage.removeItem('token');
-    sessionStorage.removeItem('token');
-  } catch {}
+  clearAuthToken()
 }
-
-
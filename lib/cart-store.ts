@@ -0,0 +1,100 @@
+import { z } from 'zod'
+import { cartReducer, type CartAction, type CartLine } from './cart'
+
+// The customer's cart, kept in localStorage so it survives reloads and shared by
+// every cart view through useCart. Bump CART_VERSION whenever CartLine changes
+// shape: carts saved by another version are dropped rather than misread.
+
+const STORAGE_KEY = 'cafe-cart'
+const CART_VERSION = 1
+// Carts older than this are stale enough to start over
+const MAX_AGE_MS = 24 * 60 * 60_000
+
+const cartLineSchema: z.ZodType<CartLine> = z.object({
+  cartId: z.string(),
+  id: z.number(),
+  name: z.string(),
+  price: z.number(),
+  quantity: z.number(),
+  image: z.string().optional(),
+  preparationTime: z.number().optional(),
+  specialInstructions: z.string().optional(),
+  variantId: z.number().optional(),
+  modifierOptionIds: z.array(z.number()).optional(),
+  optionsLabel: z.string().optional(),
+  specialId: z.number().optional(),
+  comboId: z.number().optional(),
+  comboSelections: z.array(z.number()).optional(),
+})
+
+const storedCartSchema = z.object({
+  version: z.literal(CART_VERSION),
+  savedAt: z.number(),
+  lines: z.array(cartLineSchema),
+})
+
+let lines: CartLine[] = []
+let loaded = false
+const listeners = new Set<() => void>()
+
+function loadStoredCart(): CartLine[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    const stored = storedCartSchema.safeParse(JSON.parse(raw))
+    if (!stored.success || Date.now() - stored.data.savedAt > MAX_AGE_MS) {
+      localStorage.removeItem(STORAGE_KEY)
+      return []
+    }
+    // Rebuilds line ids and applies today's quantity limits
+    return cartReducer([], { type: 'replace', lines: stored.data.lines })
+  } catch (error) {
+    console.warn('Could not load saved cart:', error)
+    return []
+  }
+}
+
+function saveCart() {
+  try {
+    if (lines.length === 0) localStorage.removeItem(STORAGE_KEY)
+    else localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: CART_VERSION, savedAt: Date.now(), lines }))
+  } catch (error) {
+    console.warn('Could not save cart:', error)
+  }
+}
+
+function notify() {
+  listeners.forEach((listener) => listener())
+}
+
+// Another tab changed the cart
+function handleStorage(event: StorageEvent) {
+  if (event.key !== STORAGE_KEY) return
+  lines = loadStoredCart()
+  notify()
+}
+
+// Empty on the server; the saved cart is read on first use in the browser
+export function getCartLines(): CartLine[] {
+  if (!loaded && typeof window !== 'undefined') {
+    lines = loadStoredCart()
+    loaded = true
+  }
+  return lines
+}
+
+export function dispatchCart(action: CartAction) {
+  lines = cartReducer(getCartLines(), action)
+  loaded = true
+  saveCart()
+  notify()
+}
+
+export function subscribeCart(listener: () => void): () => void {
+  listeners.add(listener)
+  if (listeners.size === 1) window.addEventListener('storage', handleStorage)
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0) window.removeEventListener('storage', handleStorage)
+  }
+}
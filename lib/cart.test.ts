@@ -0,0 +1,233 @@
+import { describe, expect, it } from 'vitest'
+import {
+  MAX_INSTRUCTIONS_LENGTH,
+  MAX_LINE_QUANTITY,
+  cartReducer,
+  getCartItemCount,
+  getCartLineId,
+  getCartTotal,
+  revalidateCart,
+  type CartLine,
+  type CartLineInput,
+  type CartMenu,
+} from './cart'
+import type { Combo, MenuItem, Special } from './types'
+
+const latte: CartLineInput = { id: 1, name: 'Latte', price: 120 }
+const largeLatte: CartLineInput = { ...latte, price: 150, variantId: 11, modifierOptionIds: [21, 22] }
+const muffin: CartLineInput = { id: 2, name: 'Muffin', price: 80 }
+const breakfast: CartLineInput = { id: -5, name: 'Breakfast Combo', price: 180, comboId: 5, comboSelections: [1, 2] }
+
+function add(lines: CartLine[], line: CartLineInput, quantity?: number): CartLine[] {
+  return cartReducer(lines, { type: 'add', line, quantity })
+}
+
+// One unit of each, in order
+function cartOf(...inputs: CartLineInput[]): CartLine[] {
+  return inputs.reduce<CartLine[]>((lines, line) => add(lines, line), [])
+}
+
+describe('cartReducer add', () => {
+  it('merges identical lines into one line with a stable id', () => {
+    const once = add([], latte)
+    const twice = add(once, latte, 2)
+    expect(twice).toHaveLength(1)
+    expect(twice[0]).toMatchObject({ cartId: 'item:1', quantity: 3 })
+    expect(twice[0].cartId).toBe(once[0].cartId)
+  })
+
+  it('merges regardless of add-on order and note spacing or case', () => {
+    const lines = add(
+      add([], { ...largeLatte, specialInstructions: 'No  sugar ' }),
+      { ...largeLatte, modifierOptionIds: [22, 21], specialInstructions: 'no sugar' },
+    )
+    expect(lines).toHaveLength(1)
+    expect(lines[0]).toMatchObject({ cartId: 'item:1|variant:11|mods:21,22|note:no sugar', quantity: 2 })
+  })
+
+  it('keeps lines apart when their options, special, note or combo picks differ', () => {
+    const lines = cartOf(
+      latte,
+      largeLatte,
+      { ...largeLatte, modifierOptionIds: [21] },
+      { ...latte, specialId: 3 },
+      { ...latte, specialInstructions: 'Extra hot' },
+      breakfast,
+      { ...breakfast, comboSelections: [1, 4] },
+    )
+    expect(lines).toHaveLength(7)
+    expect(new Set(lines.map((line) => line.cartId)).size).toBe(7)
+  })
+
+  it('clamps quantities to the line limit', () => {
+    const full = add([], latte, MAX_LINE_QUANTITY + 5)
+    expect(full[0].quantity).toBe(MAX_LINE_QUANTITY)
+    expect(add(full, latte)[0].quantity).toBe(MAX_LINE_QUANTITY)
+    expect(add([], latte, 2.7)[0].quantity).toBe(2)
+    expect(add([], latte, 0)).toEqual([])
+    expect(add([], latte, -3)).toEqual([])
+  })
+
+  it('trims long notes to the limit', () => {
+    const [line] = add([], { ...latte, specialInstructions: 'x'.repeat(MAX_INSTRUCTIONS_LENGTH + 50) })
+    expect(line.specialInstructions).toHaveLength(MAX_INSTRUCTIONS_LENGTH)
+  })
+})
+
+describe('cartReducer setQuantity', () => {
+  it('sets, clamps and removes at zero', () => {
+    const lines = add([], latte)
+    const { cartId } = lines[0]
+    expect(cartReducer(lines, { type: 'setQuantity', cartId, quantity: 4 })[0].quantity).toBe(4)
+    expect(cartReducer(lines, { type: 'setQuantity', cartId, quantity: 99 })[0].quantity).toBe(MAX_LINE_QUANTITY)
+    expect(cartReducer(lines, { type: 'setQuantity', cartId, quantity: 0 })).toEqual([])
+  })
+})
+
+describe('cartReducer setInstructions', () => {
+  it('re-keys the line in place', () => {
+    const lines = cartOf(latte, muffin)
+    const updated = cartReducer(lines, { type: 'setInstructions', cartId: 'item:1', specialInstructions: 'Oat milk' })
+    expect(updated.map((line) => line.cartId)).toEqual(['item:1|note:oat milk', 'item:2'])
+  })
+
+  it('merges into a line that already has the new note', () => {
+    const lines = add(add([], latte, 2), { ...latte, specialInstructions: 'Oat milk' }, 3)
+    const updated = cartReducer(lines, { type: 'setInstructions', cartId: 'item:1', specialInstructions: 'oat milk' })
+    expect(updated).toHaveLength(1)
+    expect(updated[0]).toMatchObject({ cartId: 'item:1|note:oat milk', quantity: 5 })
+  })
+})
+
+describe('cartReducer split', () => {
+  it('moves some units to a new line right after the original', () => {
+    const lines = add(add([], latte, 3), muffin, 3)
+    const split = cartReducer(lines, { type: 'split', cartId: 'item:1', quantity: 1, specialInstructions: 'No sugar' })
+    expect(split.map(({ cartId, quantity }) => [cartId, quantity])).toEqual([
+      ['item:1', 2],
+      ['item:1|note:no sugar', 1],
+      ['item:2', 3],
+    ])
+    expect(getCartItemCount(split)).toBe(6)
+  })
+
+  it('re-notes the whole line when every unit moves', () => {
+    const split = cartReducer(add([], latte, 2), { type: 'split', cartId: 'item:1', quantity: 5, specialInstructions: 'Decaf' })
+    expect(split).toEqual([expect.objectContaining({ cartId: 'item:1|note:decaf', quantity: 2 })])
+  })
+
+  it('merges the moved units into a matching line', () => {
+    const lines = add(add([], latte, 3), { ...latte, specialInstructions: 'Decaf' })
+    const split = cartReducer(lines, { type: 'split', cartId: 'item:1', quantity: 2, specialInstructions: 'decaf' })
+    expect(split.map(({ cartId, quantity }) => [cartId, quantity])).toEqual([
+      ['item:1', 1],
+      ['item:1|note:decaf', 3],
+    ])
+  })
+
+  it('ignores unknown lines and empty splits', () => {
+    const lines = add([], latte, 2)
+    expect(cartReducer(lines, { type: 'split', cartId: 'item:9', quantity: 1, specialInstructions: 'x' })).toBe(lines)
+    expect(cartReducer(lines, { type: 'split', cartId: 'item:1', quantity: 0, specialInstructions: 'x' })).toBe(lines)
+  })
+})
+
+describe('cartReducer remove, clear and replace', () => {
+  it('removes one line and clears the cart', () => {
+    const lines = cartOf(latte, muffin, breakfast)
+    expect(cartReducer(lines, { type: 'remove', cartId: 'item:2' }).map((line) => line.id)).toEqual([1, -5])
+    expect(cartReducer(lines, { type: 'clear' })).toEqual([])
+  })
+
+  it('rebuilds ids and merges duplicates from storage', () => {
+    const stored: CartLine[] = [
+      { ...latte, cartId: 'old-1', quantity: 2 },
+      { ...latte, cartId: 'old-2', quantity: 3 },
+      { ...muffin, cartId: 'old-3', quantity: 1 },
+    ]
+    const lines = cartReducer([], { type: 'replace', lines: stored })
+    expect(lines.map(({ cartId, quantity }) => [cartId, quantity])).toEqual([['item:1', 5], ['item:2', 1]])
+    expect(getCartTotal(lines)).toBe(5 * 120 + 80)
+  })
+})
+
+describe('getCartLineId', () => {
+  it('tells combos apart by their picks', () => {
+    expect(getCartLineId(breakfast)).toBe('combo:5:1,2')
+  })
+})
+
+describe('revalidateCart', () => {
+  const menuItems: MenuItem[] = [
+    {
+      id: 1,
+      name: 'Latte',
+      price: 130,
+      category: 'Coffee',
+      description: '',
+      image: '',
+      variants: [{ id: 11, name: 'Large', priceDelta: 30, isDefault: false }],
+      modifierGroups: [{
+        id: 20,
+        name: 'Extras',
+        minSelect: 0,
+        maxSelect: 2,
+        options: [{ id: 21, name: 'Extra shot', priceDelta: 20 }, { id: 22, name: 'Oat milk', priceDelta: 10 }],
+      }],
+    },
+    { id: 2, name: 'Muffin', price: 80, category: 'Bakery', description: '', image: '' },
+  ]
+  const combos: Combo[] = [
+    {
+      id: 5,
+      name: 'Breakfast Combo',
+      description: '',
+      price: 190,
+      isAvailable: true,
+      slots: [{ id: 1, name: 'Drink', menuItemIds: [1] }, { id: 2, name: 'Bake', menuItemIds: [2] }],
+    },
+  ]
+  const specials: Special[] = [
+    { id: 3, menuItemId: 2, specialPrice: 60, startsOn: '2026-10-01', endsOn: '2026-10-19', isActive: true },
+  ]
+  const menu: CartMenu = { menuItems, combos, specials, today: '2026-10-19' }
+  it('leaves lines that still match the menu alone', () => {
+    const lines = cartOf(muffin, { ...muffin, price: 60, specialId: 3 })
+    expect(revalidateCart(lines, menu)).toEqual({ lines, changes: [] })
+  })
+
+  it('reprices items, options, specials and combos from the live menu', () => {
+    const lines = cartOf(latte, largeLatte, { ...muffin, price: 70, specialId: 3 }, breakfast)
+    const { lines: kept, changes } = revalidateCart(lines, menu)
+    expect(kept.map((line) => line.price)).toEqual([130, 190, 60, 190])
+    expect(changes).toEqual([
+      'Latte is now ₹130 (was ₹120).',
+      'Latte is now ₹190 (was ₹150).',
+      'Muffin is now ₹60 (was ₹70).',
+      'Breakfast Combo is now ₹190 (was ₹180).',
+    ])
+  })
+
+  it('drops items that left the menu, ended specials and changed options', () => {
+    const lines = cartOf({ id: 9, name: 'Scone', price: 50 }, { ...muffin, specialId: 3 }, { ...largeLatte, variantId: 12 })
+    const { lines: kept, changes } = revalidateCart(lines, { ...menu, today: '2026-10-20' })
+    expect(kept).toEqual([])
+    expect(changes).toEqual([
+      'Scone is no longer available and was removed.',
+      'The special on Muffin has ended, so it was removed.',
+      'The options for Latte have changed, so it was removed. Please add it again.',
+    ])
+  })
+
+  it('drops combos that can no longer be made', () => {
+    const lines = cartOf(breakfast, { ...breakfast, comboSelections: [1, 9] })
+    const unavailable = revalidateCart(lines, { ...menu, combos: [{ ...combos[0], isAvailable: false }] })
+    expect(unavailable.lines).toEqual([])
+    expect(revalidateCart(lines, menu).lines.map((line) => line.cartId)).toEqual(['combo:5:1,2'])
+  })
+
+  it('keeps combo and special lines when those lists could not be loaded', () => {
+    const lines = cartOf(breakfast, { ...muffin, price: 70, specialId: 3 })
+    expect(revalidateCart(lines, { menuItems, today: menu.today })).toEqual({ lines, changes: [] })
+  })
+})
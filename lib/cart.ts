@@ -0,0 +1,261 @@
+import type { Combo, MenuItem, MenuItemSelection, OrderSubmission, Special } from './types'
+import { describeSelection, getSelectionPrice, validateSelection } from './menu-options'
+import { describeComboSelections, isComboOrderable, validateComboSelections, type ComboMenuItem } from './combos'
+import { isSpecialRunning, toSpecialMenuItem, type SpecialMenuItem } from './specials'
+
+// Most units of one line a customer can order; the demo backend enforces the same
+export const MAX_LINE_QUANTITY = 20
+export const MAX_INSTRUCTIONS_LENGTH = 200
+
+// One line in the customer's cart
+export interface CartLine {
+  // Stable id from what makes the line distinct (see getCartLineId), so adding
+  // the same thing twice bumps the quantity instead of adding a second line
+  cartId: string
+  // Menu item id; combo lines use the negated combo id like the menu grid
+  id: number
+  name: string
+  // Unit price, already including options, the special price or the combo price
+  price: number
+  quantity: number
+  image?: string
+  preparationTime?: number
+  specialInstructions?: string
+  variantId?: number
+  modifierOptionIds?: number[]
+  // Chosen size/add-ons or combo picks, for display
+  optionsLabel?: string
+  // Set when added from the specials carousel at the special price
+  specialId?: number
+  // Combo lines: the menu item picked for each slot
+  comboId?: number
+  comboSelections?: number[]
+}
+
+// A line before it is in the cart
+export type CartLineInput = Omit<CartLine, 'cartId' | 'quantity'>
+
+export type CartAction =
+  | { type: 'add'; line: CartLineInput; quantity?: number }
+  | { type: 'setQuantity'; cartId: string; quantity: number }
+  // Changing the note makes it a different line, so it may merge with another
+  | { type: 'setInstructions'; cartId: string; specialInstructions: string }
+  // Moves some units to their own line with a different note ("one without sugar")
+  | { type: 'split'; cartId: string; quantity: number; specialInstructions: string }
+  | { type: 'remove'; cartId: string }
+  | { type: 'clear' }
+  // Whole cart from storage or revalidation; ids are rebuilt and duplicates merged
+  | { type: 'replace'; lines: CartLine[] }
+
+function normalizeInstructions(text?: string): string {
+  return (text ?? '').trim().replace(/\s+/g, ' ').slice(0, MAX_INSTRUCTIONS_LENGTH)
+}
+
+// "item:12|variant:3|mods:4,7|note:no sugar"
+export function getCartLineId(
+  line: Pick<CartLine, 'id' | 'specialId' | 'variantId' | 'modifierOptionIds' | 'comboId' | 'comboSelections' | 'specialInstructions'>,
+): string {
+  const parts = [line.comboId !== undefined ? `combo:${line.comboId}:${(line.comboSelections ?? []).join(',')}` : `item:${line.id}`]
+  if (line.specialId !== undefined) parts.push(`special:${line.specialId}`)
+  if (line.variantId !== undefined) parts.push(`variant:${line.variantId}`)
+  if (line.modifierOptionIds?.length) parts.push(`mods:${[...line.modifierOptionIds].sort((a, b) => a - b).join(',')}`)
+  const note = normalizeInstructions(line.specialInstructions).toLowerCase()
+  if (note) parts.push(`note:${note}`)
+  return parts.join('|')
+}
+
+export function clampLineQuantity(quantity: number): number {
+  return Math.min(MAX_LINE_QUANTITY, Math.max(0, Math.floor(quantity)))
+}
+
+// Adds units to the identical line, or inserts a new line at `index` (default: the end)
+function addUnits(lines: CartLine[], input: CartLineInput, quantity: number, index = lines.length): CartLine[] {
+  const specialInstructions = normalizeInstructions(input.specialInstructions) || undefined
+  const cartId = getCartLineId({ ...input, specialInstructions })
+  if (lines.some((line) => line.cartId === cartId)) {
+    return lines.map((line) =>
+      line.cartId === cartId ? { ...line, quantity: clampLineQuantity(line.quantity + quantity) } : line)
+  }
+  const clamped = clampLineQuantity(quantity)
+  if (clamped === 0) return lines
+  return [...lines.slice(0, index), { ...input, specialInstructions, cartId, quantity: clamped }, ...lines.slice(index)]
+}
+
+export function cartReducer(lines: CartLine[], action: CartAction): CartLine[] {
+  switch (action.type) {
+    case 'add':
+      return addUnits(lines, action.line, action.quantity ?? 1)
+    case 'setQuantity': {
+      const quantity = clampLineQuantity(action.quantity)
+      return quantity === 0
+        ? lines.filter((line) => line.cartId !== action.cartId)
+        : lines.map((line) => (line.cartId === action.cartId ? { ...line, quantity } : line))
+    }
+    case 'setInstructions': {
+      const index = lines.findIndex((line) => line.cartId === action.cartId)
+      if (index === -1) return lines
+      const { cartId, quantity, ...input } = lines[index]
+      const rest = lines.filter((line) => line.cartId !== cartId)
+      return addUnits(rest, { ...input, specialInstructions: action.specialInstructions }, quantity, index)
+    }
+    case 'split': {
+      const index = lines.findIndex((line) => line.cartId === action.cartId)
+      if (index === -1) return lines
+      const line = lines[index]
+      const moved = clampLineQuantity(action.quantity)
+      if (moved === 0) return lines
+      if (moved >= line.quantity) {
+        return cartReducer(lines, { type: 'setInstructions', cartId: line.cartId, specialInstructions: action.specialInstructions })
+      }
+      const { cartId, quantity, ...input } = line
+      const reduced = lines.map((entry) => (entry.cartId === cartId ? { ...entry, quantity: quantity - moved } : entry))
+      return addUnits(reduced, { ...input, specialInstructions: action.specialInstructions }, moved, index + 1)
+    }
+    case 'remove':
+      return lines.filter((line) => line.cartId !== action.cartId)
+    case 'clear':
+      return []
+    case 'replace':
+      return action.lines.reduce<CartLine[]>((merged, { cartId, quantity, ...input }) => addUnits(merged, input, quantity), [])
+  }
+}
+
+export function getCartItemCount(lines: CartLine[]): number {
+  return lines.reduce((total, line) => total + line.quantity, 0)
+}
+
+export function getCartTotal(lines: CartLine[]): number {
+  return lines.reduce((total, line) => total + line.price * line.quantity, 0)
+}
+
+// A menu item (or today's special) as a cart line; the price includes the chosen size and add-ons
+export function toCartLineInput(item: MenuItem | SpecialMenuItem, selection?: MenuItemSelection): CartLineInput {
+  const line: CartLineInput = {
+    id: item.id,
+    name: item.name,
+    price: item.price,
+    image: item.image,
+    preparationTime: item.preparationTime,
+  }
+  if ('specialId' in item) line.specialId = item.specialId
+  if (selection) {
+    line.price = getSelectionPrice(item, selection)
+    line.variantId = selection.variantId
+    line.modifierOptionIds = selection.modifierOptionIds
+    line.optionsLabel = describeSelection(item, selection) || undefined
+  }
+  return line
+}
+
+// Combos bill at the bundle price; the picked items ride along for the kitchen
+export function toComboCartLineInput(item: ComboMenuItem, selections: number[], menuItems: MenuItem[]): CartLineInput {
+  return {
+    id: item.id,
+    name: item.name,
+    price: item.price,
+    image: item.image,
+    preparationTime: item.preparationTime,
+    comboId: item.comboId,
+    comboSelections: selections,
+    optionsLabel: describeComboSelections(selections, menuItems),
+  }
+}
+
+export function toOrderLines(lines: CartLine[]): Pick<OrderSubmission, 'items' | 'combos'> {
+  return {
+    items: lines
+      .filter((line) => line.comboId === undefined)
+      .map((line) => ({
+        menuItemId: line.id,
+        quantity: line.quantity,
+        specialInstructions: line.specialInstructions ?? '',
+        variantId: line.variantId,
+        modifierOptionIds: line.modifierOptionIds,
+        specialId: line.specialId,
+      })),
+    combos: lines
+      .filter((line) => line.comboId !== undefined)
+      .map((line) => ({
+        comboId: line.comboId!,
+        quantity: line.quantity,
+        selections: line.comboSelections ?? [],
+        specialInstructions: line.specialInstructions ?? '',
+      })),
+  }
+}
+
+// What a saved cart is checked against when the customer comes back
+export interface CartMenu {
+  // Items customers can order right now
+  menuItems: MenuItem[]
+  // Undefined when they could not be loaded, so their lines are left alone
+  combos?: Combo[]
+  specials?: Special[]
+  // Cafe date ("YYYY-MM-DD") for judging specials
+  today: string
+}
+
+export interface CartRevalidation {
+  lines: CartLine[]
+  // One sentence per change, for telling the customer
+  changes: string[]
+}
+
+function getLineSelection(line: CartLine): MenuItemSelection | null {
+  return line.variantId !== undefined || line.modifierOptionIds?.length
+    ? { variantId: line.variantId, modifierOptionIds: line.modifierOptionIds ?? [] }
+    : null
+}
+
+// Current unit price for a line, or the reason it can no longer be ordered
+function priceLine(line: CartLine, menu: CartMenu): { price: number } | { removed: string } | null {
+  if (line.comboId !== undefined) {
+    if (!menu.combos) return null
+    const combo = menu.combos.find((entry) => entry.id === line.comboId)
+    if (
+      !combo ||
+      !isComboOrderable(combo, menu.menuItems) ||
+      validateComboSelections(combo, line.comboSelections ?? [], menu.menuItems).length > 0
+    ) {
+      return { removed: `${line.name} is no longer available and was removed.` }
+    }
+    return { price: combo.price }
+  }
+
+  const menuItem = menu.menuItems.find((item) => item.id === line.id)
+  if (!menuItem) return { removed: `${line.name} is no longer available and was removed.` }
+
+  let item: MenuItem = menuItem
+  if (line.specialId !== undefined) {
+    if (!menu.specials) return null
+    const special = menu.specials.find((entry) => entry.id === line.specialId)
+    if (!special || !isSpecialRunning(special, menu.today)) {
+      return { removed: `The special on ${line.name} has ended, so it was removed.` }
+    }
+    item = toSpecialMenuItem(special, menuItem)
+  }
+
+  const selection = getLineSelection(line)
+  if (!selection) return { price: item.price }
+  if (validateSelection(item, selection).length > 0) {
+    return { removed: `The options for ${line.name} have changed, so it was removed. Please add it again.` }
+  }
+  return { price: getSelectionPrice(item, selection) }
+}
+
+// Drops lines that can no longer be ordered and reprices the rest from the live menu
+export function revalidateCart(lines: CartLine[], menu: CartMenu): CartRevalidation {
+  const changes: string[] = []
+  const kept = lines.flatMap((line) => {
+    const result = priceLine(line, menu)
+    if (!result) return [line]
+    if ('removed' in result) {
+      changes.push(result.removed)
+      return []
+    }
+    if (result.price === line.price) return [line]
+    changes.push(`${line.name} is now ₹${result.price} (was ₹${line.price}).`)
+    return [{ ...line, price: result.price }]
+  })
+  return { lines: kept, changes }
+}
@@ -0,0 +1,134 @@
+import type { Allergen, Combo, ComboInput, ComboSlot, DietaryTag, MenuCategory, MenuItem, OrderItem } from './types'
+import { hasOptions } from './menu-options'
+import { getItemSchedules, type Schedule } from './menu-schedule'
+
+// Combos are listed on the customer menu as their own category
+export const COMBOS_CATEGORY = 'Combos'
+
+// A combo dressed as a menu item so the menu grid, search and filters can show it.
+// Its id is the negated combo id so it never collides with a real menu item.
+export type ComboMenuItem = MenuItem & {
+  comboId: number
+  combo: Combo
+  // Some slot offers more than one item, so the customer has to pick
+  needsPicker: boolean
+}
+
+export function isComboMenuItem(item: object): item is ComboMenuItem {
+  return 'comboId' in item && typeof item.comboId === 'number'
+}
+
+// Items and combos that open a picker instead of a one-tap add
+export function hasChoices(item: Pick<MenuItem, 'variants' | 'modifierGroups'>): boolean {
+  return hasOptions(item) || (isComboMenuItem(item) && item.needsPicker)
+}
+
+type ComboChoice = Pick<MenuItem, 'id' | 'categoryId' | 'isAvailable'>
+
+// Items that can fill a slot right now: the listed items, or any item in the slot's category
+export function getSlotChoices<T extends ComboChoice>(slot: Pick<ComboSlot, 'menuItemIds' | 'categoryId'>, menuItems: T[]): T[] {
+  return menuItems.filter((item) =>
+    item.isAvailable !== false &&
+    (slot.categoryId !== undefined ? item.categoryId === slot.categoryId : slot.menuItemIds.includes(item.id)))
+}
+
+export function isComboOrderable(combo: Combo, menuItems: ComboChoice[]): boolean {
+  return combo.isAvailable && combo.slots.length > 0 && combo.slots.every((slot) => getSlotChoices(slot, menuItems).length > 0)
+}
+
+// Selections when every slot has exactly one choice, so no picker is needed; null otherwise
+export function getFixedComboSelections(combo: Combo, menuItems: ComboChoice[]): number[] | null {
+  const selections: number[] = []
+  for (const slot of combo.slots) {
+    const choices = getSlotChoices(slot, menuItems)
+    if (choices.length !== 1) return null
+    selections.push(choices[0].id)
+  }
+  return selections
+}
+
+// One menu item id per slot, in slot order; the demo backend applies the same rules
+export function validateComboSelections(combo: Combo, selections: number[], menuItems: ComboChoice[]): string[] {
+  if (selections.length !== combo.slots.length) return ['Pick an item for every part of the combo']
+  return combo.slots.flatMap((slot, index) =>
+    getSlotChoices(slot, menuItems).some((item) => item.id === selections[index])
+      ? []
+      : [`${slot.name}: choose one of the listed items`])
+}
+
+// What the items would cost separately: the chosen ones, or the cheapest choice per slot
+export function getComboRegularPrice(combo: Combo, menuItems: MenuItem[], selections?: number[]): number {
+  return combo.slots.reduce((total, slot, index) => {
+    const choices = getSlotChoices(slot, menuItems)
+    const chosen = selections && choices.find((item) => item.id === selections[index])
+    const price = chosen ? chosen.price : Math.min(...choices.map((item) => item.price))
+    return total + (Number.isFinite(price) ? price : 0)
+  }, 0)
+}
+
+// Schedules of the items a combo always includes; slots with a choice are
+// left out because the picker only offers the items that are open.
+export function getComboSchedules(combo: Combo, menuItems: MenuItem[], categories: MenuCategory[]): Schedule[] {
+  return combo.slots.flatMap((slot) => {
+    const choices = getSlotChoices(slot, menuItems)
+    if (choices.length !== 1) return []
+    return getItemSchedules(choices[0], categories.find((category) => category.id === choices[0].categoryId))
+  })
+}
+
+// "Milk Coffee + Veg Sandwich"
+export function describeComboSelections(selections: number[], menuItems: Pick<MenuItem, 'id' | 'name'>[]): string {
+  return selections
+    .map((id) => menuItems.find((item) => item.id === id)?.name)
+    .filter(Boolean)
+    .join(' + ')
+}
+
+// Kitchen line for a combo order item: "2× Milk Coffee, 2× Veg Sandwich"
+export function describeOrderItemComponents(item: Pick<OrderItem, 'components'>): string {
+  return (item.components ?? []).map((component) => `${component.quantity}× ${component.itemName}`).join(', ')
+}
+
+// Tags every possible item carries, and allergens any of them may contain.
+// Allergens stay unrecorded unless every item has them recorded.
+function getComboDietary(choices: MenuItem[]): Pick<MenuItem, 'dietaryTags' | 'allergens'> {
+  if (choices.length === 0) return {}
+  const dietaryTags = (choices[0].dietaryTags ?? []).filter((tag: DietaryTag) =>
+    choices.every((item) => item.dietaryTags?.includes(tag)))
+  const allergens = choices.every((item) => item.allergens !== undefined)
+    ? [...new Set(choices.flatMap((item) => item.allergens as Allergen[]))]
+    : undefined
+  return { dietaryTags, allergens }
+}
+
+export function toComboMenuItem(combo: Combo, menuItems: MenuItem[]): ComboMenuItem {
+  const choicesBySlot = combo.slots.map((slot) => getSlotChoices(slot, menuItems))
+  const choices = choicesBySlot.flat()
+  return {
+    id: -combo.id,
+    comboId: combo.id,
+    combo,
+    needsPicker: getFixedComboSelections(combo, menuItems) === null,
+    name: combo.name,
+    price: combo.price,
+    category: COMBOS_CATEGORY,
+    description: combo.description || combo.slots.map((slot) => slot.name).join(' + '),
+    image: combo.imageUrl || choicesBySlot[0]?.[0]?.image || '/placeholder.svg',
+    isAvailable: isComboOrderable(combo, menuItems),
+    preparationTime: Math.max(0, ...choices.map((item) => item.preparationTime ?? 0)),
+    ...getComboDietary(choices),
+  }
+}
+
+// Admin-side checks; the demo backend applies the same rules
+export function validateComboInput(input: ComboInput): string[] {
+  const errors: string[] = []
+  if (!input.name.trim()) errors.push('Name is required')
+  if (!Number.isFinite(input.price) || input.price < 0) errors.push('Price must be zero or more')
+  if (input.slots.length < 2) errors.push('A combo needs at least two items')
+  if (input.slots.some((slot) => !slot.name.trim())) errors.push('Every combo slot needs a name')
+  if (input.slots.some((slot) => slot.categoryId === undefined && slot.menuItemIds.length === 0)) {
+    errors.push('Every combo slot needs a category or at least one menu item')
+  }
+  return errors
+}
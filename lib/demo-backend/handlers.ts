@@ -0,0 +1,1562 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import type {
+  AvailabilityWindow,
+  BackendAvailabilityWindow,
+  BackendCategory,
+  BackendCombo,
+  BackendFeedbackItem,
+  BackendLocationSettings,
+  BackendMenuItem,
+  BackendModifierGroup,
+  BackendOrder,
+  BackendOrderItem,
+  BackendOrderTracking,
+  BackendPickupSlot,
+  BackendSpecial,
+  BackendTableCode,
+  Combo,
+  FeedbackSubmission,
+  LocationSettingsInput,
+  OrderCancellation,
+  OrderStatusUpdate,
+  OrderSubmission,
+  PaymentStatusUpdate,
+  Special,
+} from '../types'
+import type { InventoryItemDto, InventoryOrderDto } from '../inventory-api'
+import { ALLERGENS, DIETARY_TAGS } from '../types'
+import { getDemoState, nextId, publishDemoOrderEvent, subscribeToDemoOrders } from './store'
+import { applyPriceChange } from '../menu-pricing'
+import { getSelectionPrice, validateMenuItemOptions, validateSelection } from '../menu-options'
+import { describeNextOpening, getCafeClock, getCafeDate, getItemSchedules, isScheduledNow, validateAvailabilityWindows } from '../menu-schedule'
+import { getSpecialPrice, isSpecialRunning, validateSpecialInput } from '../specials'
+import { validateComboInput, validateComboSelections } from '../combos'
+import { MAX_LINE_QUANTITY } from '../cart'
+import { validateLocationSettingsInput } from '../locations'
+import { MAX_TABLE_NUMBER, MAX_TABLES_PER_SHEET } from '../tables'
+import { getDeliveryFee, validateOrderFulfilment } from '../order-types'
+import { PICKUP_SLOT_CAPACITY, getPickupSlotTimes, isHeldScheduledOrder } from '../pickup-slots'
+import { validateOrderTransition, validatePaymentTransition, type OrderActor } from '../order-status'
+
+// Request router for the demo backend. Implements the /api/v1 contract used by
+// the lib/*-api modules against the in-memory store, including the same
+// envelope ({ success, data, message }) and error shapes as the real server.
+
+export interface DemoRequest {
+  method: string
+  // Path below the API base, e.g. "/orders/12/status"
+  path: string
+  query: URLSearchParams
+  body: unknown
+  // Bearer token from the Authorization header or ?token= (event streams)
+  token: string | null
+}
+
+export type DemoStreamSend = (event: string, data: unknown) => void
+
+export type DemoResponse =
+  | { kind: 'json'; status: number; body: unknown }
+  | { kind: 'csv'; fileName: string; body: string }
+  | { kind: 'stream'; subscribe: (send: DemoStreamSend) => () => void }
+
+type Params = Record<string, string>
+type Handler = (req: DemoRequest, params: Params) => DemoResponse
+
+interface Route {
+  method: string
+  pattern: string
+  // Requires a token issued by /auth/login
+  admin?: boolean
+  // Requires a super admin's token
+  superAdmin?: boolean
+  handler: Handler
+}
+
+const DEMO_USERS: Record<string, { id: number; password: string; role: 'admin' | 'super_admin' }> = {
+  admin: { id: 1, password: 'admin123', role: 'admin' },
+  superadmin: { id: 2, password: 'superadmin123', role: 'super_admin' },
+}
+
+function ok(data: unknown, extra: Record<string, unknown> = {}): DemoResponse {
+  return { kind: 'json', status: 200, body: { success: true, data, ...extra } }
+}
+
+function created(data: unknown, message: string): DemoResponse {
+  return { kind: 'json', status: 201, body: { success: true, message, data } }
+}
+
+function fail(status: number, message: string, extra: Record<string, unknown> = {}): DemoResponse {
+  return { kind: 'json', status, body: { success: false, message, ...extra } }
+}
+
+function body<T>(req: DemoRequest): Partial<T> {
+  return req.body && typeof req.body === 'object' ? (req.body as Partial<T>) : {}
+}
+
+function findOrder(id: string): BackendOrder | undefined {
+  return getDemoState().orders.find((order) => order.id === Number(id))
+}
+
+function csv(rows: (string | number | null | undefined)[][]): string {
+  return rows
+    .map((row) => row.map((cell) => {
+      const text = cell === null || cell === undefined ? '' : String(cell)
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    }).join(','))
+    .join('\n')
+}
+
+// Dates ------------------------------------------------------------------
+
+function startOfDay(date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+function startOfMonth(date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1)
+}
+
+function toDateString(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+// ?start=YYYY-MM-DD&end=YYYY-MM-DD (inclusive), defaulting to the current month
+function dateRange(query: URLSearchParams): { start: Date; end: Date } {
+  const start = query.get('start') ? new Date(`${query.get('start')}T00:00:00`) : startOfMonth()
+  const end = query.get('end') ? new Date(`${query.get('end')}T23:59:59.999`) : new Date()
+  return { start, end }
+}
+
+function inRange(iso: string, start: Date, end: Date): boolean {
+  const time = new Date(iso).getTime()
+  return time >= start.getTime() && time <= end.getTime()
+}
+
+// Menu -------------------------------------------------------------------
+
+const menuRoutes: Route[] = [
+  { method: 'GET', pattern: '/menu/test', handler: () => ok({ status: 'ok', mode: 'demo' }) },
+  { method: 'POST', pattern: '/menu/test', handler: () => ok({ status: 'ok', mode: 'demo' }) },
+  {
+    method: 'GET',
+    pattern: '/menu/items',
+    handler: () => {
+      const items = getDemoState().menuItems
+      return ok(items, { count: items.length })
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/menu/items/available',
+    handler: () => {
+      const items = getDemoState().menuItems.filter((item) => item.is_available)
+      return ok(items, { count: items.length })
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/menu/items/category/:categoryId',
+    handler: (_req, { categoryId }) => {
+      const items = getDemoState().menuItems.filter((item) => item.category_id === Number(categoryId))
+      return ok(items, { count: items.length })
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/menu/items',
+    admin: true,
+    handler: (req) => {
+      const payload = body<BackendMenuItem>(req)
+      const errors = validateMenuItem(payload, true)
+      if (errors.length > 0) return fail(422, errors[0].msg, { errors })
+      const now = new Date().toISOString()
+      const item: BackendMenuItem = {
+        id: nextId('menuItem'),
+        name: payload.name!.trim(),
+        price: Number(payload.price),
+        category_id: Number(payload.category_id),
+        description: payload.description?.trim() || '',
+        image_url: payload.image_url?.trim() || '',
+        is_available: payload.is_available ?? true,
+        preparation_time_minutes: Number(payload.preparation_time_minutes) || 10,
+        availability_windows: payload.availability_windows ?? [],
+        dietary_tags: payload.dietary_tags ?? [],
+        allergens: payload.allergens,
+        ...withOptionIds(payload),
+        created_at: now,
+        updated_at: now,
+      }
+      getDemoState().menuItems.push(item)
+      return created(item, 'Menu item created')
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/menu/items/:id',
+    admin: true,
+    handler: (req, { id }) => {
+      const item = findMenuItem(id)
+      if (!item) return fail(404, `Menu item ${id} not found`)
+      const payload = body<BackendMenuItem>(req)
+      const errors = validateMenuItem(payload, false)
+      if (errors.length > 0) return fail(422, errors[0].msg, { errors })
+      if (payload.name !== undefined) item.name = payload.name.trim()
+      if (payload.price !== undefined) item.price = Number(payload.price)
+      if (payload.category_id !== undefined) item.category_id = Number(payload.category_id)
+      if (payload.description !== undefined) item.description = payload.description.trim()
+      if (payload.image_url !== undefined) item.image_url = payload.image_url.trim()
+      if (payload.is_available !== undefined) item.is_available = Boolean(payload.is_available)
+      if (payload.preparation_time_minutes !== undefined) item.preparation_time_minutes = Number(payload.preparation_time_minutes)
+      if (payload.availability_windows !== undefined) item.availability_windows = payload.availability_windows
+      if (payload.dietary_tags !== undefined) item.dietary_tags = payload.dietary_tags
+      if (payload.allergens !== undefined) item.allergens = payload.allergens
+      if (payload.variants !== undefined || payload.modifier_groups !== undefined) {
+        const options = withOptionIds({
+          variants: payload.variants ?? item.variants,
+          modifier_groups: payload.modifier_groups ?? item.modifier_groups,
+        })
+        item.variants = options.variants
+        item.modifier_groups = options.modifier_groups
+      }
+      item.updated_at = new Date().toISOString()
+      return ok(item, { message: 'Menu item updated' })
+    },
+  },
+  {
+    method: 'PATCH',
+    pattern: '/menu/items/:id/availability',
+    admin: true,
+    handler: (req, { id }) => {
+      const item = findMenuItem(id)
+      if (!item) return fail(404, `Menu item ${id} not found`)
+      item.is_available = Boolean(body<{ is_available: boolean }>(req).is_available)
+      item.updated_at = new Date().toISOString()
+      return ok(item, { message: 'Availability updated' })
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/menu/items/:id',
+    admin: true,
+    handler: (_req, { id }) => {
+      const state = getDemoState()
+      const before = state.menuItems.length
+      state.menuItems = state.menuItems.filter((item) => item.id !== Number(id))
+      return state.menuItems.length < before ? ok(null, { message: 'Menu item deleted' }) : fail(404, `Menu item ${id} not found`)
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/menu/items/category/:categoryId/prices',
+    admin: true,
+    handler: (req, { categoryId }) => {
+      const { mode, value } = body<{ mode: 'percent' | 'amount'; value: number }>(req)
+      if ((mode !== 'percent' && mode !== 'amount') || !Number.isFinite(Number(value))) {
+        return fail(422, 'mode must be "percent" or "amount" and value must be a number')
+      }
+      const now = new Date().toISOString()
+      const items = getDemoState().menuItems.filter((item) => item.category_id === Number(categoryId))
+      items.forEach((item) => {
+        item.price = applyPriceChange(item.price, { mode, value: Number(value) })
+        item.updated_at = now
+      })
+      return ok(items, { count: items.length, message: `${items.length} prices updated` })
+    },
+  },
+]
+
+const TIME_PATTERN = /^\d{1,2}:\d{2}$/
+
+function validateCategory(payload: Partial<BackendCategory>, requireAll: boolean): { path: string; msg: string }[] {
+  const errors: { path: string; msg: string }[] = []
+  if ((requireAll || payload.name !== undefined) && !payload.name?.trim()) errors.push({ path: 'name', msg: 'Name is required' })
+  for (const field of ['active_from', 'active_until'] as const) {
+    const value = payload[field]
+    if (value && !TIME_PATTERN.test(value)) errors.push({ path: field, msg: 'Use HH:MM (24-hour) time' })
+  }
+  for (const msg of validateAvailabilityWindows(toAvailabilityWindows(payload.availability_windows))) {
+    errors.push({ path: 'availability_windows', msg })
+  }
+  return errors
+}
+
+function toAvailabilityWindows(windows: BackendAvailabilityWindow[] | undefined): AvailabilityWindow[] | undefined {
+  return windows?.map((window) => ({
+    days: Array.isArray(window.days) ? window.days.map(Number) : [],
+    from: String(window.start_time ?? ''),
+    until: String(window.end_time ?? ''),
+  }))
+}
+
+// Same rules the customer menu uses to grey items out
+function getScheduleFor(menuItem: BackendMenuItem) {
+  const category = getDemoState().categories.find((entry) => entry.id === menuItem.category_id)
+  return getItemSchedules(
+    { availabilityWindows: toAvailabilityWindows(menuItem.availability_windows) },
+    category && {
+      availabilityWindows: toAvailabilityWindows(category.availability_windows),
+      activeFrom: category.active_from ?? undefined,
+      activeUntil: category.active_until ?? undefined,
+    },
+  )
+}
+
+const categoryRoutes: Route[] = [
+  {
+    method: 'GET',
+    pattern: '/menu/categories',
+    handler: () => {
+      const categories = [...getDemoState().categories].sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name))
+      return ok(categories, { count: categories.length })
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/menu/categories',
+    admin: true,
+    handler: (req) => {
+      const state = getDemoState()
+      const payload = body<BackendCategory>(req)
+      const errors = validateCategory(payload, true)
+      if (errors.length > 0) return fail(422, errors[0].msg, { errors })
+      const now = new Date().toISOString()
+      const category: BackendCategory = {
+        id: nextId('category'),
+        name: payload.name!.trim(),
+        sort_order: payload.sort_order ?? Math.max(0, ...state.categories.map((entry) => entry.sort_order)) + 10,
+        icon: payload.icon || null,
+        is_visible: payload.is_visible ?? true,
+        active_from: payload.active_from || null,
+        active_until: payload.active_until || null,
+        availability_windows: payload.availability_windows ?? [],
+        created_at: now,
+        updated_at: now,
+      }
+      state.categories.push(category)
+      return created(category, 'Category created')
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/menu/categories/:id',
+    admin: true,
+    handler: (req, { id }) => {
+      const category = getDemoState().categories.find((entry) => entry.id === Number(id))
+      if (!category) return fail(404, `Category ${id} not found`)
+      const payload = body<BackendCategory>(req)
+      const errors = validateCategory(payload, false)
+      if (errors.length > 0) return fail(422, errors[0].msg, { errors })
+      if (payload.name !== undefined) category.name = payload.name.trim()
+      if (payload.sort_order !== undefined) category.sort_order = Number(payload.sort_order)
+      if (payload.icon !== undefined) category.icon = payload.icon || null
+      if (payload.is_visible !== undefined) category.is_visible = Boolean(payload.is_visible)
+      if (payload.active_from !== undefined) category.active_from = payload.active_from || null
+      if (payload.active_until !== undefined) category.active_until = payload.active_until || null
+      if (payload.availability_windows !== undefined) category.availability_windows = payload.availability_windows
+      category.updated_at = new Date().toISOString()
+      return ok(category, { message: 'Category updated' })
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/menu/categories/:id',
+    admin: true,
+    handler: (_req, { id }) => {
+      const state = getDemoState()
+      const inUse = state.menuItems.filter((item) => item.category_id === Number(id)).length
+      if (inUse > 0) return fail(409, `${inUse} menu item(s) still use this category`)
+      const before = state.categories.length
+      state.categories = state.categories.filter((entry) => entry.id !== Number(id))
+      return state.categories.length < before ? ok(null, { message: 'Category deleted' }) : fail(404, `Category ${id} not found`)
+    },
+  },
+]
+
+function findMenuItem(id: string): BackendMenuItem | undefined {
+  return getDemoState().menuItems.find((item) => item.id === Number(id))
+}
+
+function validateMenuItem(payload: Partial<BackendMenuItem>, requireAll: boolean): { path: string; msg: string }[] {
+  const errors: { path: string; msg: string }[] = []
+  if ((requireAll || payload.name !== undefined) && !payload.name?.trim()) errors.push({ path: 'name', msg: 'Name is required' })
+  if ((requireAll || payload.price !== undefined) && !(Number(payload.price) >= 0)) errors.push({ path: 'price', msg: 'Price must be zero or more' })
+  if (requireAll || payload.category_id !== undefined) {
+    if (!getDemoState().categories.some((category) => category.id === Number(payload.category_id))) {
+      errors.push({ path: 'category_id', msg: 'Choose an existing category' })
+    }
+  }
+  if (payload.dietary_tags?.some((tag) => !(DIETARY_TAGS as readonly string[]).includes(tag))) {
+    errors.push({ path: 'dietary_tags', msg: 'Unknown dietary tag' })
+  }
+  if (payload.allergens?.some((allergen) => !(ALLERGENS as readonly string[]).includes(allergen))) {
+    errors.push({ path: 'allergens', msg: 'Unknown allergen' })
+  }
+  for (const msg of validateAvailabilityWindows(toAvailabilityWindows(payload.availability_windows))) {
+    errors.push({ path: 'availability_windows', msg })
+  }
+  for (const msg of validateMenuItemOptions(toItemOptions(payload))) errors.push({ path: 'options', msg })
+  return errors
+}
+
+// Frontend-shaped options so the shared menu-options rules can run on backend rows
+function toItemOptions(item: Partial<Pick<BackendMenuItem, 'variants' | 'modifier_groups'>>) {
+  return {
+    variants: (item.variants ?? []).map((variant) => ({
+      id: variant.id,
+      name: variant.name ?? '',
+      priceDelta: Number(variant.price_delta) || 0,
+      isDefault: Boolean(variant.is_default),
+    })),
+    modifierGroups: (item.modifier_groups ?? []).map((group) => ({
+      id: group.id,
+      name: group.name ?? '',
+      minSelect: Number(group.min_select) || 0,
+      maxSelect: Number(group.max_select) || 0,
+      options: (group.options ?? []).map((option) => ({
+        id: option.id,
+        name: option.name ?? '',
+        priceDelta: Number(option.price_delta) || 0,
+      })),
+    })),
+  }
+}
+
+// New variants, groups and options arrive without ids; existing ones keep theirs
+function withOptionIds(payload: Partial<Pick<BackendMenuItem, 'variants' | 'modifier_groups'>>): Pick<BackendMenuItem, 'variants' | 'modifier_groups'> {
+  const options = toItemOptions(payload)
+  return {
+    variants: options.variants.map((variant) => ({
+      id: variant.id ?? nextId('menuOption'),
+      name: variant.name.trim(),
+      price_delta: variant.priceDelta,
+      is_default: variant.isDefault,
+    })),
+    modifier_groups: options.modifierGroups.map((group): BackendModifierGroup => ({
+      id: group.id ?? nextId('menuOption'),
+      name: group.name.trim(),
+      min_select: group.minSelect,
+      max_select: group.maxSelect,
+      options: group.options.map((option) => ({
+        id: option.id ?? nextId('menuOption'),
+        name: option.name.trim(),
+        price_delta: option.priceDelta,
+      })),
+    })),
+  }
+}
+
+// Auth -------------------------------------------------------------------
+
+const authRoutes: Route[] = [
+  {
+    method: 'POST',
+    pattern: '/auth/login',
+    handler: (req) => {
+      const { username = '', password = '' } = body<{ username: string; password: string }>(req)
+      const user = DEMO_USERS[username]
+      if (!user || user.password !== password) return fail(401, 'Invalid username or password')
+      return ok({ token: `demo-${user.role}`, user: { id: user.id, username, role: user.role } })
+    },
+  },
+]
+
+// Combos -----------------------------------------------------------------
+
+// Frontend-shaped combo and menu so the shared combo rules can run on backend rows
+function toCombo(combo: Partial<BackendCombo>): Combo {
+  return {
+    id: combo.id ?? 0,
+    name: combo.name ?? '',
+    description: combo.description ?? '',
+    price: Number(combo.price),
+    imageUrl: combo.image_url || undefined,
+    isAvailable: combo.is_available ?? true,
+    slots: (combo.slots ?? []).map((slot) => ({
+      id: slot.id,
+      name: slot.name ?? '',
+      menuItemIds: (slot.menu_item_ids ?? []).map(Number),
+      categoryId: slot.category_id === null || slot.category_id === undefined ? undefined : Number(slot.category_id),
+    })),
+  }
+}
+
+function toComboChoices() {
+  return getDemoState().menuItems.map((item) => ({ id: item.id, categoryId: item.category_id, isAvailable: item.is_available }))
+}
+
+function validateCombo(payload: Partial<BackendCombo>): { path: string; msg: string }[] {
+  const state = getDemoState()
+  const combo = toCombo(payload)
+  const errors = validateComboInput(combo).map((msg) => ({ path: 'combo', msg }))
+  for (const slot of combo.slots) {
+    if (slot.categoryId !== undefined && !state.categories.some((category) => category.id === slot.categoryId)) {
+      errors.push({ path: 'slots', msg: `${slot.name}: choose an existing category` })
+    }
+    if (slot.menuItemIds.some((id) => !state.menuItems.some((item) => item.id === id))) {
+      errors.push({ path: 'slots', msg: `${slot.name}: choose existing menu items` })
+    }
+  }
+  return errors
+}
+
+// New slots arrive without ids; existing ones keep theirs
+function withSlotIds(slots: BackendCombo['slots']): BackendCombo['slots'] {
+  return toCombo({ slots }).slots.map((slot) => ({
+    id: slot.id ?? nextId('comboSlot'),
+    name: slot.name.trim(),
+    menu_item_ids: slot.categoryId === undefined ? slot.menuItemIds : [],
+    category_id: slot.categoryId ?? null,
+  }))
+}
+
+const comboRoutes: Route[] = [
+  {
+    method: 'GET',
+    pattern: '/menu/combos',
+    handler: () => {
+      const combos = [...getDemoState().combos].sort((a, b) => a.name.localeCompare(b.name))
+      return ok(combos, { count: combos.length })
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/menu/combos',
+    admin: true,
+    handler: (req) => {
+      const payload = body<BackendCombo>(req)
+      const errors = validateCombo(payload)
+      if (errors.length > 0) return fail(422, errors[0].msg, { errors })
+      const now = new Date().toISOString()
+      const combo: BackendCombo = {
+        id: nextId('combo'),
+        name: payload.name!.trim(),
+        description: payload.description?.trim() || null,
+        price: Number(payload.price),
+        image_url: payload.image_url || null,
+        is_available: payload.is_available ?? true,
+        slots: withSlotIds(payload.slots ?? []),
+        created_at: now,
+        updated_at: now,
+      }
+      getDemoState().combos.push(combo)
+      return created(combo, 'Combo created')
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/menu/combos/:id',
+    admin: true,
+    handler: (req, { id }) => {
+      const combo = getDemoState().combos.find((entry) => entry.id === Number(id))
+      if (!combo) return fail(404, `Combo ${id} not found`)
+      const payload = body<BackendCombo>(req)
+      const errors = validateCombo({ ...combo, ...payload })
+      if (errors.length > 0) return fail(422, errors[0].msg, { errors })
+      if (payload.name !== undefined) combo.name = payload.name.trim()
+      if (payload.description !== undefined) combo.description = payload.description?.trim() || null
+      if (payload.price !== undefined) combo.price = Number(payload.price)
+      if (payload.image_url !== undefined) combo.image_url = payload.image_url || null
+      if (payload.is_available !== undefined) combo.is_available = Boolean(payload.is_available)
+      if (payload.slots !== undefined) combo.slots = withSlotIds(payload.slots)
+      combo.updated_at = new Date().toISOString()
+      return ok(combo, { message: 'Combo updated' })
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/menu/combos/:id',
+    admin: true,
+    handler: (_req, { id }) => {
+      const state = getDemoState()
+      const before = state.combos.length
+      state.combos = state.combos.filter((entry) => entry.id !== Number(id))
+      return state.combos.length < before ? ok(null, { message: 'Combo deleted' }) : fail(404, `Combo ${id} not found`)
+    },
+  },
+]
+
+// Specials ---------------------------------------------------------------
+
+// Frontend-shaped special so the shared pricing and validation rules apply
+function toSpecial(special: BackendSpecial): Special {
+  return {
+    id: special.id,
+    menuItemId: Number(special.menu_item_id),
+    title: special.title || undefined,
+    description: special.description || undefined,
+    specialPrice: special.special_price === null ? undefined : Number(special.special_price),
+    discountPercent: special.discount_percent === null ? undefined : Number(special.discount_percent),
+    startsOn: special.starts_on ?? '',
+    endsOn: special.ends_on ?? '',
+    isActive: Boolean(special.is_active),
+  }
+}
+
+// Validates the special as it would be saved, so partial updates are checked whole
+function validateSpecial(special: BackendSpecial): { path: string; msg: string }[] {
+  const errors = validateSpecialInput(toSpecial(special)).map((msg) => ({ path: 'special', msg }))
+  if (errors.length === 0 && !getDemoState().menuItems.some((item) => item.id === special.menu_item_id)) {
+    errors.push({ path: 'menu_item_id', msg: 'Choose an existing menu item' })
+  }
+  return errors
+}
+
+function applySpecialPayload(special: BackendSpecial, payload: Partial<BackendSpecial>): BackendSpecial {
+  const next = { ...special }
+  if (payload.menu_item_id !== undefined) next.menu_item_id = Number(payload.menu_item_id)
+  if (payload.title !== undefined) next.title = payload.title?.trim() || null
+  if (payload.description !== undefined) next.description = payload.description?.trim() || null
+  if (payload.special_price !== undefined) next.special_price = payload.special_price
+  if (payload.discount_percent !== undefined) next.discount_percent = payload.discount_percent
+  if (payload.starts_on !== undefined) next.starts_on = payload.starts_on
+  if (payload.ends_on !== undefined) next.ends_on = payload.ends_on
+  if (payload.is_active !== undefined) next.is_active = Boolean(payload.is_active)
+  return next
+}
+
+const specialRoutes: Route[] = [
+  {
+    method: 'GET',
+    pattern: '/specials/active',
+    handler: () => {
+      const state = getDemoState()
+      const today = getCafeDate()
+      const specials = state.specials.filter((special) =>
+        isSpecialRunning(toSpecial(special), today) &&
+        state.menuItems.some((item) => item.id === special.menu_item_id && item.is_available))
+      return ok(specials, { count: specials.length })
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/specials',
+    admin: true,
+    handler: () => {
+      const specials = [...getDemoState().specials].sort((a, b) => b.starts_on.localeCompare(a.starts_on) || b.id - a.id)
+      return ok(specials, { count: specials.length })
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/specials',
+    admin: true,
+    handler: (req) => {
+      const now = new Date().toISOString()
+      const special = applySpecialPayload({
+        id: 0,
+        menu_item_id: 0,
+        title: null,
+        description: null,
+        special_price: null,
+        discount_percent: null,
+        starts_on: '',
+        ends_on: '',
+        is_active: true,
+        created_at: now,
+        updated_at: now,
+      }, body<BackendSpecial>(req))
+      const errors = validateSpecial(special)
+      if (errors.length > 0) return fail(422, errors[0].msg, { errors })
+      special.id = nextId('special')
+      getDemoState().specials.push(special)
+      return created(special, 'Special created')
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/specials/:id',
+    admin: true,
+    handler: (req, { id }) => {
+      const state = getDemoState()
+      const index = state.specials.findIndex((entry) => entry.id === Number(id))
+      if (index === -1) return fail(404, `Special ${id} not found`)
+      const special = applySpecialPayload(state.specials[index], body<BackendSpecial>(req))
+      const errors = validateSpecial(special)
+      if (errors.length > 0) return fail(422, errors[0].msg, { errors })
+      special.updated_at = new Date().toISOString()
+      state.specials[index] = special
+      return ok(special, { message: 'Special updated' })
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/specials/:id',
+    admin: true,
+    handler: (_req, { id }) => {
+      const state = getDemoState()
+      const before = state.specials.length
+      state.specials = state.specials.filter((entry) => entry.id !== Number(id))
+      return state.specials.length < before ? ok(null, { message: 'Special deleted' }) : fail(404, `Special ${id} not found`)
+    },
+  },
+]
+
+// Orders -----------------------------------------------------------------
+
+function placeOrder(req: DemoRequest): DemoResponse {
+  const state = getDemoState()
+  const submission = body<OrderSubmission>(req)
+
+  const errors: { path: string; msg: string }[] = []
+  if (!submission.customerName?.trim()) errors.push({ path: 'customerName', msg: 'Name is required' })
+  const itemLines = Array.isArray(submission.items) ? submission.items : []
+  const comboLines = Array.isArray(submission.combos) ? submission.combos : []
+  if (itemLines.length + comboLines.length === 0) errors.push({ path: 'items', msg: 'Order must contain at least one item' })
+  const quantities = [...itemLines, ...comboLines].map((line) => Number(line.quantity))
+  if (quantities.some((quantity) => !Number.isInteger(quantity) || quantity < 1 || quantity > MAX_LINE_QUANTITY)) {
+    errors.push({ path: 'items', msg: `Each item quantity must be between 1 and ${MAX_LINE_QUANTITY}` })
+  }
+  const orderType = submission.orderType ?? 'dine_in'
+  Object.entries(validateOrderFulfilment({ ...submission, orderType })).forEach(([path, msg]) => errors.push({ path, msg }))
+  // Only dine-in orders are served at a table
+  const table = orderType === 'dine_in' && submission.tableToken ? readTableToken(submission.tableToken) : null
+  if (orderType === 'dine_in' && submission.tableToken && !table) {
+    errors.push({ path: 'tableToken', msg: 'This table code is no longer valid. Please scan the QR code on your table again.' })
+  }
+  const pickupTime = orderType === 'takeaway' && submission.pickupTime ? new Date(submission.pickupTime) : null
+  if (pickupTime && errors.length === 0 && countPickupBookings(pickupTime) >= PICKUP_SLOT_CAPACITY) {
+    errors.push({ path: 'pickupTime', msg: 'That pickup slot is fully booked. Please choose another time.' })
+  }
+  if (errors.length > 0) return fail(422, errors[0].msg, { errors })
+
+  const lines = itemLines.map((line) => ({
+    line,
+    menuItem: state.menuItems.find((item) => item.id === Number(line.menuItemId)),
+  }))
+  const unavailableItems = lines
+    .filter(({ menuItem }) => !menuItem || !menuItem.is_available)
+    .map(({ line }) => Number(line.menuItemId))
+  // Combo lines are reported by combo id, never by the items inside them
+  const unavailableCombos = comboLines
+    .filter((line) => !state.combos.some((combo) => combo.id === Number(line.comboId) && combo.is_available))
+    .map((line) => ({ comboId: Number(line.comboId) }))
+  if (unavailableItems.length + unavailableCombos.length > 0) {
+    const message = unavailableItems.length === 0 ? 'This combo is no longer available' : 'Some items are not available'
+    return fail(409, message, { unavailableItems: [...unavailableItems, ...unavailableCombos] })
+  }
+
+  // Combos are billed at the bundle price; the picked items are checked like any other line
+  const choices = toComboChoices()
+  const combos: { line: (typeof comboLines)[number]; combo: BackendCombo; components: BackendMenuItem[] }[] = []
+  for (const line of comboLines) {
+    const combo = state.combos.find((entry) => entry.id === Number(line.comboId))!
+    const selections = (line.selections ?? []).map(Number)
+    const selectionErrors = validateComboSelections(toCombo(combo), selections, choices)
+    if (selectionErrors.length > 0) {
+      return fail(422, `${combo.name}: ${selectionErrors[0]}`, {
+        errors: selectionErrors.map((msg) => ({ path: 'combos', msg })),
+      })
+    }
+    combos.push({ line, combo, components: selections.map((id) => state.menuItems.find((item) => item.id === id)!) })
+  }
+
+  const clock = getCafeClock()
+  const outOfHours = [
+    ...lines.map(({ menuItem }) => ({ menuItem: menuItem!, combo: undefined as BackendCombo | undefined })),
+    ...combos.flatMap(({ combo, components }) => components.map((menuItem) => ({ menuItem, combo }))),
+  ]
+    .map((entry) => ({ ...entry, schedules: getScheduleFor(entry.menuItem) }))
+    .filter(({ schedules }) => !isScheduledNow(schedules, clock))
+  if (outOfHours.length > 0) {
+    const first = outOfHours[0]
+    const name = first.combo ? `${first.menuItem.name} in ${first.combo.name}` : first.menuItem.name
+    return fail(409, `${name} is not available right now (${describeNextOpening(first.schedules, clock)})`, {
+      unavailableItems: outOfHours.map(({ menuItem, combo, schedules }) => ({
+        ...(combo ? { comboId: combo.id } : { menuItemId: menuItem.id }),
+        reason: describeNextOpening(schedules, clock),
+      })),
+    })
+  }
+
+  // Sizes and add-ons are checked and priced here; the client's prices are never trusted
+  for (const { line, menuItem } of lines) {
+    const selection = { variantId: line.variantId, modifierOptionIds: line.modifierOptionIds ?? [] }
+    const selectionErrors = validateSelection(toItemOptions(menuItem!), selection)
+    if (selectionErrors.length > 0) {
+      return fail(422, `${menuItem!.name}: ${selectionErrors[0]}`, {
+        errors: selectionErrors.map((msg) => ({ path: 'items', msg })),
+      })
+    }
+  }
+
+  // A special must be running today and belong to the line's item; it replaces the base price
+  const today = getCafeDate()
+  const specials = new Map<number, Special>()
+  for (const { line, menuItem } of lines) {
+    if (line.specialId === undefined) continue
+    const found = state.specials.find((special) => special.id === Number(line.specialId))
+    const special = found && toSpecial(found)
+    if (!special || special.menuItemId !== menuItem!.id || !isSpecialRunning(special, today)) {
+      return fail(409, `The special on ${menuItem!.name} has ended`, {
+        unavailableItems: [{ menuItemId: menuItem!.id, reason: 'Special has ended' }],
+      })
+    }
+    specials.set(special.id, special)
+  }
+
+  const now = new Date()
+  const items = lines.map(({ line, menuItem }): BackendOrderItem => {
+    const selection = { variantId: line.variantId, modifierOptionIds: line.modifierOptionIds ?? [] }
+    const special = line.specialId === undefined ? undefined : specials.get(Number(line.specialId))
+    const basePrice = special ? getSpecialPrice(menuItem!.price, special) : menuItem!.price
+    const unitPrice = getSelectionPrice({ price: basePrice, ...toItemOptions(menuItem!) }, selection)
+    const variant = menuItem!.variants?.find((candidate) => candidate.id === selection.variantId)
+    const modifiers = (menuItem!.modifier_groups ?? []).flatMap((group) => group.options
+      .filter((option) => selection.modifierOptionIds.includes(option.id))
+      .map((option) => ({ group_name: group.name, option_name: option.name, price_delta: option.price_delta })))
+    return {
+      id: nextId('orderItem'),
+      item_name: menuItem!.name,
+      item_price: unitPrice,
+      quantity: line.quantity,
+      special_instructions: line.specialInstructions || null,
+      subtotal: unitPrice * line.quantity,
+      variant_name: variant?.name ?? null,
+      modifiers,
+    }
+  })
+  for (const { line, combo, components } of combos) {
+    const { quantity } = line
+    items.push({
+      id: nextId('orderItem'),
+      item_name: combo.name,
+      item_price: combo.price,
+      quantity,
+      special_instructions: line.specialInstructions || null,
+      subtotal: combo.price * quantity,
+      combo_id: combo.id,
+      components: components.map((component) => ({ menu_item_id: component.id, item_name: component.name, quantity })),
+    })
+  }
+  const preparationMinutes = Math.max(
+    ...lines.map(({ menuItem }) => menuItem!.preparation_time_minutes),
+    ...combos.flatMap(({ components }) => components.map((component) => component.preparation_time_minutes)),
+  )
+  const provided = (value?: string) => (value && value.trim() && value !== 'Not provided' ? value.trim() : null)
+  const deliveryFee = getDeliveryFee(orderType)
+  // Scheduled takeaway is ready for its pickup time, everything else as soon as it can be made
+  const readyAt = new Date(Math.max(now.getTime() + preparationMinutes * 60_000, pickupTime?.getTime() ?? 0))
+
+  const order: BackendOrder = {
+    id: nextId('order'),
+    customer_name: submission.customerName!.trim(),
+    customer_phone: provided(submission.customerPhone) ?? 'Not provided',
+    customer_email: provided(submission.customerEmail),
+    total_amount: items.reduce((sum, item) => sum + item.subtotal, 0) + deliveryFee,
+    order_status: 'pending',
+    payment_status: 'pending',
+    payment_method: submission.paymentMethod ?? null,
+    special_instructions: provided(submission.specialInstructions),
+    delivery_address: orderType === 'delivery' ? provided(submission.deliveryAddress) : null,
+    order_date: now.toISOString(),
+    estimated_delivery_time: readyAt.toISOString(),
+    actual_delivery_time: null,
+    cancelled_at: null,
+    cancelled_reason: null,
+    cancelled_by: null,
+    order_type: orderType,
+    pickup_time: pickupTime?.toISOString() ?? null,
+    delivery_fee: deliveryFee,
+    table_number: orderType === 'dine_in' ? table?.table_number ?? submission.tableNumber ?? null : null,
+    branch_name: table?.branch_name ?? null,
+    items,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  }
+  const trackingToken = randomBytes(16).toString('base64url')
+  state.orders.push(order)
+  state.trackingTokens[order.id] = trackingToken
+  publishDemoOrderEvent('order-created', order)
+  return created({ ...order, tracking_token: trackingToken }, 'Order placed successfully')
+}
+
+// Orders already booked into the pickup slot starting at `start`
+function countPickupBookings(start: Date): number {
+  return getDemoState().orders.filter((order) =>
+    order.order_status !== 'cancelled' && order.pickup_time && new Date(order.pickup_time).getTime() === start.getTime()
+  ).length
+}
+
+function pickupSlots(): DemoResponse {
+  const slots: BackendPickupSlot[] = getPickupSlotTimes().map((start) => ({
+    start: start.toISOString(),
+    capacity: PICKUP_SLOT_CAPACITY,
+    booked: countPickupBookings(start),
+  }))
+  return ok(slots)
+}
+
+function listOrders(req: DemoRequest): DemoResponse {
+  const q = req.query
+  const contains = (value: string | null, filter: string | null) =>
+    !filter || (value ?? '').toLowerCase().includes(filter.toLowerCase())
+  const now = new Date()
+  const isHeld = (order: BackendOrder) =>
+    isHeldScheduledOrder({ orderStatus: order.order_status, pickupTime: order.pickup_time ?? undefined }, now)
+
+  let orders = getDemoState().orders.filter((order) =>
+    (!q.get('status') || order.order_status === q.get('status')) &&
+    (q.get('includeCancelled') === 'true' || q.get('status') === 'cancelled' || order.order_status !== 'cancelled') &&
+    (!q.get('paymentStatus') || order.payment_status === q.get('paymentStatus')) &&
+    (!q.get('paymentMethod') || order.payment_method === q.get('paymentMethod')) &&
+    (!q.get('orderType') || (order.order_type ?? 'dine_in') === q.get('orderType')) &&
+    (!q.get('queue') || isHeld(order) === (q.get('queue') === 'scheduled')) &&
+    (!(q.get('orderId') || q.get('orderNumber')) || String(order.id) === (q.get('orderId') || q.get('orderNumber'))) &&
+    contains(order.customer_phone, q.get('phone')) &&
+    contains(order.customer_name, q.get('customerName')) &&
+    (!q.get('item') || order.items.some((item) =>
+      contains(item.item_name, q.get('item')) || item.components?.some((component) => contains(component.item_name, q.get('item')))))
+  )
+
+  const sortBy = q.get('sortBy') === 'total_amount' || q.get('sortBy') === 'pickup_time' ? q.get('sortBy') : 'order_date'
+  const direction = q.get('order') === 'asc' ? 1 : -1
+  orders = [...orders].sort((a, b) => {
+    if (sortBy === 'total_amount') return (a.total_amount - b.total_amount) * direction
+    if (sortBy === 'pickup_time') return (a.pickup_time ?? '').localeCompare(b.pickup_time ?? '') * direction
+    return a.order_date.localeCompare(b.order_date) * direction
+  })
+
+  const limit = Math.max(1, Number(q.get('limit')) || 10)
+  const totalPages = Math.max(1, Math.ceil(orders.length / limit))
+  const currentPage = Math.min(Math.max(1, Number(q.get('page')) || 1), totalPages)
+  const page = orders.slice((currentPage - 1) * limit, currentPage * limit)
+  return ok(page, { count: page.length, totalCount: orders.length, totalPages, currentPage })
+}
+
+function updateOrder(id: string, type: 'status-changed' | 'payment-changed' | 'cancelled', apply: (order: BackendOrder) => string | void): DemoResponse {
+  const order = findOrder(id)
+  if (!order) return fail(404, `Order ${id} not found`)
+  const error = apply(order)
+  if (error) return fail(400, error)
+  order.updated_at = new Date().toISOString()
+  publishDemoOrderEvent(type, order)
+  return ok(order, { message: 'Order updated' })
+}
+
+// Order routes are staff-only, so the token tells staff and super admins apart
+function getActor(req: DemoRequest): OrderActor {
+  return req.token === 'demo-super_admin' ? 'superadmin' : 'admin'
+}
+
+function orderStream(filter?: (order: BackendOrder) => boolean, view: (order: BackendOrder) => unknown = (order) => order): DemoResponse {
+  return {
+    kind: 'stream',
+    subscribe: (send) => subscribeToDemoOrders(({ type, order }) => {
+      if (!filter || filter(order)) send(type, view(order))
+    }),
+  }
+}
+
+// Tracking needs no login, and order ids are sequential, so it also takes the
+// token returned when the order was placed. Wrong tokens look like missing orders.
+function findTrackedOrder(req: DemoRequest, id: string): BackendOrder | undefined {
+  const order = findOrder(id)
+  const expected = order && getDemoState().trackingTokens[order.id]
+  return expected && tokensMatch(expected, req.query.get('trackingToken') ?? '') ? order : undefined
+}
+
+function toOrderTracking(order: BackendOrder): BackendOrderTracking {
+  return {
+    id: order.id,
+    order_status: order.order_status,
+    order_type: order.order_type ?? 'dine_in',
+    order_date: order.order_date,
+    pickup_time: order.pickup_time ?? null,
+    estimated_delivery_time: order.estimated_delivery_time,
+    cancelled_reason: order.cancelled_reason,
+    items: order.items,
+  }
+}
+
+const orderRoutes: Route[] = [
+  { method: 'POST', pattern: '/orders', handler: placeOrder },
+  { method: 'GET', pattern: '/orders', admin: true, handler: listOrders },
+  { method: 'GET', pattern: '/orders/stream', admin: true, handler: () => orderStream() },
+  { method: 'GET', pattern: '/orders/stats/orders', admin: true, handler: () => ok(orderStats()) },
+  { method: 'GET', pattern: '/orders/pickup-slots', handler: () => pickupSlots() },
+  {
+    method: 'GET',
+    pattern: '/orders/customer/:phone',
+    handler: (req, { phone }) => {
+      const includeCancelled = req.query.get('includeCancelled') === 'true'
+      const orders = getDemoState().orders
+        .filter((order) => order.customer_phone === decodeURIComponent(phone))
+        .filter((order) => includeCancelled || order.order_status !== 'cancelled')
+        .sort((a, b) => b.order_date.localeCompare(a.order_date))
+      return ok(orders, { count: orders.length })
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/orders/:id/track',
+    handler: (req, { id }) => {
+      const order = findTrackedOrder(req, id)
+      return order ? ok(toOrderTracking(order)) : fail(404, `Order ${id} not found`)
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/orders/:id/track/stream',
+    handler: (req, { id }) => {
+      const tracked = findTrackedOrder(req, id)
+      if (!tracked) return fail(404, `Order ${id} not found`)
+      return orderStream((order) => order.id === tracked.id, toOrderTracking)
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/orders/:id/status',
+    admin: true,
+    handler: (req, { id }) => updateOrder(id, 'status-changed', (order) => {
+      const { status } = body<OrderStatusUpdate>(req)
+      if (!status) return 'Status is required'
+      const transitionError = validateOrderTransition(order.order_status, status, getActor(req))
+      if (transitionError) return transitionError
+      order.order_status = status
+      if (status === 'delivered') order.actual_delivery_time = new Date().toISOString()
+    }),
+  },
+  {
+    method: 'PUT',
+    pattern: '/orders/:id/payment',
+    admin: true,
+    handler: (req, { id }) => updateOrder(id, 'payment-changed', (order) => {
+      const { paymentStatus, paymentMethod } = body<PaymentStatusUpdate>(req)
+      if (!paymentStatus) return 'Payment status is required'
+      const transitionError = validatePaymentTransition(order.payment_status, paymentStatus, getActor(req))
+      if (transitionError) return transitionError
+      order.payment_status = paymentStatus
+      order.payment_method = paymentMethod ?? (paymentStatus === 'pending' ? null : order.payment_method)
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: '/orders/:id/cancel',
+    admin: true,
+    handler: (req, { id }) => updateOrder(id, 'cancelled', (order) => {
+      const { reason, cancelledBy } = body<OrderCancellation>(req)
+      const transitionError = validateOrderTransition(order.order_status, 'cancelled', getActor(req))
+      if (transitionError) return transitionError
+      order.order_status = 'cancelled'
+      order.cancelled_at = new Date().toISOString()
+      order.cancelled_reason = reason || null
+      order.cancelled_by = cancelledBy || 'admin'
+    }),
+  },
+]
+
+// Stats ------------------------------------------------------------------
+
+// Combos count as the items they contain, since that is what the kitchen makes
+function topItems(orders: BackendOrder[]) {
+  const totals = new Map<string, number>()
+  const add = (name: string, quantity: number) => totals.set(name, (totals.get(name) ?? 0) + quantity)
+  orders.forEach((order) => order.items.forEach((item) => {
+    if (item.components?.length) item.components.forEach((component) => add(component.item_name, component.quantity))
+    else add(item.item_name, item.quantity)
+  }))
+  return [...totals.entries()]
+    .map(([item_name, total_quantity]) => ({ item_name, total_quantity }))
+    .sort((a, b) => b.total_quantity - a.total_quantity)
+    .slice(0, 5)
+}
+
+function dashboardStats() {
+  const active = getDemoState().orders.filter((order) => order.order_status !== 'cancelled')
+  const unpaid = active.filter((order) => order.payment_status === 'pending')
+  return {
+    pending_orders: active.filter((order) => order.order_status === 'pending').length,
+    unpaid_orders: unpaid.length,
+    unpaid_amount: unpaid.reduce((sum, order) => sum + order.total_amount, 0),
+    completed_orders: active.filter((order) => order.order_status === 'delivered').length,
+    fast_moving_items: topItems(active),
+  }
+}
+
+function revenueStats() {
+  const paid = getDemoState().orders.filter((order) => order.payment_status === 'paid')
+  const sum = (orders: BackendOrder[]) => orders.reduce((total, order) => total + order.total_amount, 0)
+  return {
+    daily_revenue: sum(paid.filter((order) => inRange(order.order_date, startOfDay(), new Date()))),
+    monthly_revenue: sum(paid.filter((order) => inRange(order.order_date, startOfMonth(), new Date()))),
+  }
+}
+
+function orderStats() {
+  const dashboard = dashboardStats()
+  return {
+    orders_today: getDemoState().orders.filter((order) => inRange(order.order_date, startOfDay(), new Date())).length,
+    ...revenueStats(),
+    pending_orders: dashboard.pending_orders,
+    unpaid_orders: dashboard.unpaid_orders,
+    unpaid_amount: dashboard.unpaid_amount,
+    fast_moving_items: dashboard.fast_moving_items[0]?.total_quantity ?? 0,
+    completed_orders: dashboard.completed_orders,
+  }
+}
+
+function insights(req: DemoRequest, include: (order: BackendOrder) => boolean) {
+  const { start, end } = dateRange(req.query)
+  const orders = getDemoState().orders.filter((order) => include(order) && inRange(order.order_date, start, end))
+  return {
+    start: toDateString(start),
+    end: toDateString(end),
+    completed_orders_count: orders.length,
+    completed_orders_amount: orders.reduce((sum, order) => sum + order.total_amount, 0),
+    total_items_sold: orders.reduce((sum, order) => sum + order.items.reduce((n, item) => n + item.quantity, 0), 0),
+    top_items: topItems(orders),
+  }
+}
+
+const statsRoutes: Route[] = [
+  { method: 'GET', pattern: '/stats/revenue', admin: true, handler: () => ok(revenueStats()) },
+  { method: 'GET', pattern: '/stats/dashboard', admin: true, handler: () => ok(dashboardStats()) },
+  // The dashboard's fast-moving items on their own, for ranking customer search
+  { method: 'GET', pattern: '/stats/popular-items', handler: () => ok(dashboardStats().fast_moving_items) },
+  {
+    method: 'GET',
+    pattern: '/stats/dashboard/export',
+    admin: true,
+    handler: () => ({
+      kind: 'csv',
+      fileName: `cafe-dashboard-export-${toDateString(new Date())}.csv`,
+      body: csv([
+        ['Order ID', 'Date', 'Type', 'Customer', 'Phone', 'Items', 'Total', 'Status', 'Payment Status', 'Payment Method'],
+        ...getDemoState().orders.map((order) => [
+          order.id,
+          order.order_date,
+          order.order_type ?? 'dine_in',
+          order.customer_name,
+          order.customer_phone,
+          order.items.map((item) => `${item.item_name} x${item.quantity}`).join('; '),
+          order.total_amount.toFixed(2),
+          order.order_status,
+          order.payment_status,
+          order.payment_method,
+        ]),
+      ]),
+    }),
+  },
+  {
+    method: 'GET',
+    pattern: '/stats/orders-insights',
+    admin: true,
+    handler: (req) => ok(insights(req, (order) => order.order_status === 'delivered')),
+  },
+  {
+    method: 'GET',
+    pattern: '/stats/sales',
+    admin: true,
+    handler: (req) => ok(insights(req, (order) => order.payment_status === 'paid')),
+  },
+]
+
+// Feedback ---------------------------------------------------------------
+
+function feedbackStats() {
+  const now = new Date()
+  const monthStart = startOfMonth(now)
+  const month = getDemoState().feedback.filter((item) => inRange(item.timestamp, monthStart, now))
+  const average = (items: BackendFeedbackItem[]) =>
+    items.length ? items.reduce((sum, item) => sum + item.rating, 0) / items.length : 0
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 86_400_000)
+  const currentWeek = month.filter((item) => inRange(item.timestamp, daysAgo(7), now))
+  const previousWeek = getDemoState().feedback.filter((item) => inRange(item.timestamp, daysAgo(14), daysAgo(7)))
+  const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0)
+
+  return {
+    totalFeedback: month.length,
+    averageRating: Math.round(average(month) * 10) / 10,
+    ratingDistribution: Object.fromEntries(
+      [1, 2, 3, 4, 5].map((rating) => [String(rating), month.filter((item) => item.rating === rating).length])
+    ),
+    recentFeedback: currentWeek.length,
+    trends: {
+      currentWeek: { total: currentWeek.length, averageRating: average(currentWeek).toFixed(1) },
+      previousWeek: { total: previousWeek.length, averageRating: average(previousWeek).toFixed(1) },
+    },
+    monthInfo: {
+      month: now.toLocaleString('en-US', { month: 'long', year: 'numeric' }),
+      startDate: toDateString(monthStart),
+      endDate: toDateString(monthEnd),
+    },
+  }
+}
+
+const feedbackRoutes: Route[] = [
+  {
+    method: 'POST',
+    pattern: '/feedback',
+    handler: (req) => {
+      const submission = body<FeedbackSubmission>(req)
+      const rating = Number(submission.rating)
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        return fail(422, 'Rating must be between 1 and 5', { errors: [{ path: 'rating', msg: 'Rating must be between 1 and 5' }] })
+      }
+      const timestamp = new Date().toISOString()
+      const item: BackendFeedbackItem = {
+        id: nextId('feedback'),
+        customer_name: submission.customerName?.trim() || 'Anonymous',
+        email: submission.email?.trim() || null,
+        rating,
+        feedback: submission.feedback?.trim() || null,
+        timestamp,
+        date: timestamp.split('T')[0],
+        created_at: timestamp,
+        updated_at: timestamp,
+      }
+      getDemoState().feedback.push(item)
+      return created(item, 'Thank you for your feedback!')
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/feedback',
+    admin: true,
+    handler: (req) => {
+      const rating = Number(req.query.get('rating'))
+      const search = req.query.get('search')?.toLowerCase()
+      const direction = req.query.get('order') === 'asc' ? 1 : -1
+      const sortBy = req.query.get('sortBy') === 'rating' ? 'rating' : 'timestamp'
+      const items = getDemoState().feedback
+        .filter((item) => !rating || item.rating === rating)
+        .filter((item) => !search || `${item.customer_name} ${item.feedback ?? ''} ${item.email ?? ''}`.toLowerCase().includes(search))
+        .sort((a, b) => (sortBy === 'rating' ? a.rating - b.rating : a.timestamp.localeCompare(b.timestamp)) * direction)
+      return ok(items, { count: items.length })
+    },
+  },
+  { method: 'GET', pattern: '/feedback/stats', admin: true, handler: () => ok(feedbackStats()) },
+]
+
+// Inventory --------------------------------------------------------------
+
+function inventoryInsights(req: DemoRequest) {
+  const { start, end } = dateRange(req.query)
+  const purchased = getDemoState().inventoryOrders.filter(
+    (order) => order.status === 'purchased' && inRange(order.purchased_at ?? order.ordered_at, start, end)
+  )
+  const lines = purchased.flatMap((order) => order.items)
+  const byItem = new Map<string, { quantity: number; amount: number }>()
+  lines.forEach((line) => {
+    const entry = byItem.get(line.itemName) ?? { quantity: 0, amount: 0 }
+    byItem.set(line.itemName, { quantity: entry.quantity + line.quantity, amount: entry.amount + line.lineAmount })
+  })
+  const bySpender = new Map<string, { amount: number; orders: number }>()
+  purchased.forEach((order) => {
+    const entry = bySpender.get(order.ordered_by) ?? { amount: 0, orders: 0 }
+    bySpender.set(order.ordered_by, { amount: entry.amount + order.total_amount, orders: entry.orders + 1 })
+  })
+  const total = purchased.reduce((sum, order) => sum + order.total_amount, 0)
+  const mostPurchased = [...byItem.entries()].sort((a, b) => b[1].quantity - a[1].quantity)[0]
+  const topSpender = [...bySpender.entries()].sort((a, b) => b[1].amount - a[1].amount)[0]
+
+  return {
+    purchased,
+    insights: {
+      total_items_purchased: lines.length,
+      total_quantity_purchased: lines.reduce((sum, line) => sum + line.quantity, 0),
+      total_amount_spent: total,
+      unique_items: byItem.size,
+      average_order_value: purchased.length ? total / purchased.length : 0,
+      purchase_count: purchased.length,
+      most_purchased_item: mostPurchased ? { name: mostPurchased[0], ...mostPurchased[1] } : null,
+      top_spender: topSpender ? { name: topSpender[0], ...topSpender[1] } : null,
+    },
+  }
+}
+
+const inventoryRoutes: Route[] = [
+  {
+    method: 'GET',
+    pattern: '/inventory/items',
+    admin: true,
+    handler: (req) => {
+      const status = req.query.get('status') || 'active'
+      const items = getDemoState().inventoryItems.filter((item) => status === 'all' || item.status === status)
+      return ok(items, { count: items.length })
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/inventory/items',
+    admin: true,
+    handler: (req) => {
+      const payload = body<InventoryItemDto>(req)
+      if (!payload.name?.trim()) return fail(422, 'Name is required', { errors: [{ path: 'name', msg: 'Name is required' }] })
+      const item: InventoryItemDto = {
+        id: nextId('inventoryItem'),
+        name: payload.name.trim(),
+        unit_label: payload.unit_label || 'unit',
+        rate: Number(payload.rate) || 0,
+        category: payload.category || 'General',
+        status: payload.status || 'active',
+      }
+      getDemoState().inventoryItems.push(item)
+      return created(item, 'Item created')
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/inventory/items/:id',
+    admin: true,
+    handler: (req, { id }) => {
+      const item = getDemoState().inventoryItems.find((entry) => entry.id === Number(id))
+      if (!item) return fail(404, `Item ${id} not found`)
+      Object.assign(item, body<Omit<InventoryItemDto, 'id'>>(req))
+      return ok(item, { message: 'Item updated' })
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/inventory/items/:id',
+    admin: true,
+    handler: (_req, { id }) => {
+      const state = getDemoState()
+      const before = state.inventoryItems.length
+      state.inventoryItems = state.inventoryItems.filter((entry) => entry.id !== Number(id))
+      return state.inventoryItems.length < before ? ok(null, { message: 'Item deleted' }) : fail(404, `Item ${id} not found`)
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/inventory/orders',
+    admin: true,
+    handler: (req) => {
+      const state = getDemoState()
+      const payload = body<{ ordered_by: string; notes?: string; items: { inventory_item_id: number; quantity: number }[] }>(req)
+      if (!Array.isArray(payload.items) || payload.items.length === 0) {
+        return fail(422, 'Order must contain at least one item', { errors: [{ path: 'items', msg: 'Order must contain at least one item' }] })
+      }
+      const lines = payload.items.map((line) => {
+        const item = state.inventoryItems.find((entry) => entry.id === Number(line.inventory_item_id))
+        return item
+          ? { itemName: item.name, unit: item.unit_label, rate: item.rate, quantity: line.quantity, lineAmount: item.rate * line.quantity }
+          : null
+      })
+      if (lines.some((line) => line === null)) return fail(400, 'Unknown inventory item')
+      const order: InventoryOrderDto & { notes?: string } = {
+        id: nextId('inventoryOrder'),
+        status: 'pending',
+        total_amount: lines.reduce((sum, line) => sum + line!.lineAmount, 0),
+        ordered_by: payload.ordered_by || 'admin',
+        ordered_at: new Date().toISOString(),
+        items: lines as InventoryOrderDto['items'],
+        notes: payload.notes,
+      }
+      state.inventoryOrders.push(order)
+      return created({ order_id: order.id }, 'Inventory order placed')
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/inventory/orders',
+    admin: true,
+    handler: (req) => {
+      const status = req.query.get('status') || 'all'
+      const user = req.query.get('user')
+      const orders = getDemoState().inventoryOrders
+        .filter((order) => status === 'all' || order.status === status)
+        .filter((order) => !user || order.ordered_by === user)
+        .sort((a, b) => b.ordered_at.localeCompare(a.ordered_at))
+      return ok(orders, { count: orders.length })
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/inventory/orders/:id/purchased',
+    admin: true,
+    handler: (req, { id }) => {
+      const order = getDemoState().inventoryOrders.find((entry) => entry.id === Number(id))
+      if (!order) return fail(404, `Inventory order ${id} not found`)
+      order.status = 'purchased'
+      order.purchased_at = new Date().toISOString()
+      order.purchased_by = body<{ purchased_by: string }>(req).purchased_by
+      return ok(order, { message: 'Order marked as purchased' })
+    },
+  },
+  { method: 'GET', pattern: '/inventory/insights', admin: true, handler: (req) => ok(inventoryInsights(req).insights) },
+  {
+    method: 'GET',
+    pattern: '/inventory/insights/export',
+    admin: true,
+    handler: (req) => ({
+      kind: 'csv',
+      fileName: `inventory-expenses-${toDateString(new Date())}.csv`,
+      body: csv([
+        ['Order ID', 'Ordered By', 'Purchased At', 'Item', 'Unit', 'Rate', 'Quantity', 'Amount'],
+        ...inventoryInsights(req).purchased.flatMap((order) => order.items.map((line) => [
+          order.id,
+          order.ordered_by,
+          order.purchased_at,
+          line.itemName,
+          line.unit,
+          line.rate,
+          line.quantity,
+          line.lineAmount.toFixed(2),
+        ])),
+      ]),
+    }),
+  },
+]
+
+// Settings ---------------------------------------------------------------
+
+function toLocationSettingsInput(payload: Partial<BackendLocationSettings>): LocationSettingsInput {
+  return {
+    orderingRadiusMeters: Number(payload.ordering_radius_m),
+    branches: (Array.isArray(payload.branches) ? payload.branches : []).map((branch) => ({
+      id: branch.id,
+      name: String(branch.name ?? ''),
+      address: branch.address?.trim() || undefined,
+      latitude: Number(branch.latitude),
+      longitude: Number(branch.longitude),
+      isActive: Boolean(branch.is_active),
+    })),
+  }
+}
+
+const settingsRoutes: Route[] = [
+  {
+    method: 'GET',
+    pattern: '/settings/location',
+    handler: () => ok(getDemoState().locationSettings),
+  },
+  {
+    method: 'PUT',
+    pattern: '/settings/location',
+    superAdmin: true,
+    handler: (req) => {
+      const state = getDemoState()
+      const input = toLocationSettingsInput(body<BackendLocationSettings>(req))
+      const errors = validateLocationSettingsInput(input).map((msg) => ({ path: 'location', msg }))
+      if (errors.length > 0) return fail(422, errors[0].msg, { errors })
+      const existingIds = new Set(state.locationSettings.branches.map((branch) => branch.id))
+      state.locationSettings = {
+        ordering_radius_m: Math.round(input.orderingRadiusMeters),
+        branches: input.branches.map((branch) => ({
+          id: branch.id !== undefined && existingIds.has(branch.id) ? branch.id : nextId('branch'),
+          name: branch.name.trim(),
+          address: branch.address ?? null,
+          latitude: branch.latitude,
+          longitude: branch.longitude,
+          is_active: branch.isActive,
+        })),
+        updated_at: new Date().toISOString(),
+      }
+      return ok(state.locationSettings, { message: 'Location settings updated' })
+    },
+  },
+]
+
+// Tables -----------------------------------------------------------------
+
+// Table tokens are "<payload>.<signature>", signed so a customer can't mint a
+// code for a table (or branch) they are not sitting at
+const TABLE_TOKEN_SECRET = process.env.DEMO_TABLE_SECRET || 'demo-table-secret'
+
+function signTablePayload(payload: string): string {
+  return createHmac('sha256', TABLE_TOKEN_SECRET).update(payload).digest('base64url')
+}
+
+function toTableCode(branchId: number, tableNumber: number): BackendTableCode | null {
+  const branch = getDemoState().locationSettings.branches.find((entry) => entry.id === branchId)
+  if (!branch) return null
+  const payload = Buffer.from(JSON.stringify({ b: branchId, t: tableNumber })).toString('base64url')
+  return { branch_id: branch.id, branch_name: branch.name, table_number: tableNumber, token: `${payload}.${signTablePayload(payload)}` }
+}
+
+// Constant-time comparison for secrets sent by customers
+function tokensMatch(expected: string, actual: string): boolean {
+  const expectedBytes = Buffer.from(expected)
+  const actualBytes = Buffer.from(actual)
+  return expectedBytes.length === actualBytes.length && timingSafeEqual(expectedBytes, actualBytes)
+}
+
+// The table behind a token, or null when it is forged or its branch is gone or paused
+function readTableToken(token: string): BackendTableCode | null {
+  const [payload, signature] = token.split('.')
+  if (!payload || !signature) return null
+  if (!tokensMatch(signTablePayload(payload), signature)) return null
+  try {
+    const { b, t } = JSON.parse(Buffer.from(payload, 'base64url').toString()) as { b: number; t: number }
+    const branch = getDemoState().locationSettings.branches.find((entry) => entry.id === b)
+    return branch?.is_active ? toTableCode(b, t) : null
+  } catch {
+    return null
+  }
+}
+
+const tableRoutes: Route[] = [
+  {
+    method: 'POST',
+    pattern: '/tables/codes',
+    admin: true,
+    handler: (req) => {
+      const { branch_id, table_numbers } = body<{ branch_id: number; table_numbers: number[] }>(req)
+      const tableNumbers = Array.isArray(table_numbers) ? table_numbers.map(Number) : []
+      if (tableNumbers.length === 0 || tableNumbers.length > MAX_TABLES_PER_SHEET) {
+        return fail(422, `Generate between 1 and ${MAX_TABLES_PER_SHEET} table codes at a time`)
+      }
+      if (tableNumbers.some((table) => !Number.isInteger(table) || table < 1 || table > MAX_TABLE_NUMBER)) {
+        return fail(422, `Table numbers must be between 1 and ${MAX_TABLE_NUMBER}`)
+      }
+      const codes = tableNumbers.map((table) => toTableCode(Number(branch_id), table))
+      if (codes.some((code) => !code)) return fail(404, `Branch ${branch_id} not found`)
+      return ok(codes, { count: codes.length })
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/tables/verify',
+    handler: (req) => {
+      const table = readTableToken(req.query.get('token') ?? '')
+      return table ? ok(table) : fail(400, 'This table code is no longer valid')
+    },
+  },
+]
+
+// Routing ----------------------------------------------------------------
+
+const routes: Route[] = [
+  ...menuRoutes,
+  ...categoryRoutes,
+  ...comboRoutes,
+  ...specialRoutes,
+  ...authRoutes,
+  ...orderRoutes,
+  ...statsRoutes,
+  ...feedbackRoutes,
+  ...inventoryRoutes,
+  ...settingsRoutes,
+  ...tableRoutes,
+]
+
+function matchRoute(pattern: string, path: string): Params | null {
+  const patternParts = pattern.split('/').filter(Boolean)
+  const pathParts = path.split('/').filter(Boolean)
+  if (patternParts.length !== pathParts.length) return null
+  const params: Params = {}
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) params[patternParts[i].slice(1)] = pathParts[i]
+    else if (patternParts[i] !== pathParts[i]) return null
+  }
+  return params
+}
+
+export function handleDemoRequest(req: DemoRequest): DemoResponse {
+  // First match wins, so static routes are listed before parameterised ones
+  for (const route of routes) {
+    if (route.method !== req.method) continue
+    const params = matchRoute(route.pattern, req.path)
+    if (!params) continue
+    if ((route.admin || route.superAdmin) && !req.token?.startsWith('demo-')) {
+      return fail(401, 'Authentication required')
+    }
+    if (route.superAdmin && req.token !== 'demo-super_admin') {
+      return fail(403, 'Super admin access required')
+    }
+    return route.handler(req, params)
+  }
+  return fail(404, `No demo route for ${req.method} ${req.path}`)
+}
@@ -0,0 +1,339 @@
+import type { BackendAvailabilityWindow, BackendCategory, BackendCombo, BackendFeedbackItem, BackendLocationSettings, BackendMenuItem, BackendSpecial } from '../types'
+import type { InventoryItemDto } from '../inventory-api'
+
+// Seed data for the demo backend. Menu ids match the production database so
+// carts and orders built against the demo look like the real thing.
+
+const SEED_TIMESTAMP = '2025-01-01T00:00:00.000Z'
+
+// [id, name, price, category_id, description, preparation_time_minutes]
+const MENU_ROWS: [number, string, number, number, string, number][] = [
+  [21, 'Normal Tea', 15, 1, 'Classic Indian tea', 5],
+  [28, 'Black Tea', 15, 1, 'Pure black tea', 5],
+  [23, 'Masala Tea', 22, 1, 'Traditional spiced tea', 5],
+  [4, 'Special Masala Tea', 25, 1, 'Premium spiced tea', 5],
+  [5, 'Elachi Tea', 22, 1, 'Cardamom flavored tea', 5],
+  [6, 'Ginger Tea', 22, 1, 'Fresh ginger tea', 5],
+  [7, 'Green Tea', 25, 1, 'Healthy green tea', 5],
+  [8, 'Green Tea with Honey', 29, 1, 'Green tea with natural honey', 5],
+  [9, 'Honey Lemon Tea', 25, 1, 'Refreshing honey lemon tea', 5],
+  [10, 'Chocolate Tea', 29, 1, 'Chocolate flavored tea', 5],
+  [11, 'Kashmiri Kahwa', 49, 1, 'Traditional Kashmiri tea', 5],
+  [12, 'Black Coffee', 20, 2, 'Pure black coffee', 5],
+  [13, 'Milk Coffee', 22, 2, 'Coffee with milk', 5],
+  [14, 'Special Filter Coffee', 22, 2, 'South Indian filter coffee', 5],
+  [15, 'Jaggery Coffee', 22, 2, 'Coffee sweetened with jaggery', 5],
+  [16, 'Chocolate Coffee', 29, 2, 'Coffee with chocolate', 5],
+  [17, 'Belgian Coffee', 90, 2, 'Premium Belgian coffee', 5],
+  [18, 'Coffee On The Rocks', 90, 2, 'Iced coffee', 5],
+  [19, 'Ferrero Coffee', 90, 2, 'Ferrero flavored coffee', 5],
+  [20, 'Hard Rock Coffee', 80, 2, 'Strong coffee blend', 5],
+  [21, 'Mud Coffee', 100, 2, 'Rich mud coffee', 5],
+  [22, 'Turkish Coffee', 90, 2, 'Traditional Turkish coffee', 5],
+  [23, 'Fresh Lime', 35, 5, 'Fresh lime juice', 5],
+  [24, 'Ginger Lime', 40, 5, 'Ginger lime juice', 5],
+  [25, 'Jaljeera', 35, 5, 'Cumin flavored drink', 5],
+  [26, 'Watermelon', 29, 5, 'Fresh watermelon juice', 5],
+  [27, 'Water Melon', 50, 5, 'Premium watermelon juice', 5],
+  [28, 'Pineapple', 50, 5, 'Fresh pineapple juice', 5],
+  [29, 'Mango', 49, 5, 'Fresh mango juice', 5],
+  [30, 'Mango Alphonso', 70, 5, 'Premium Alphonso mango', 5],
+  [31, 'Banana', 60, 5, 'Fresh banana shake', 5],
+  [32, 'Chickoo', 60, 5, 'Fresh chickoo shake', 5],
+  [33, 'Musk Melon', 60, 5, 'Fresh musk melon juice', 5],
+  [34, 'Avocado', 80, 5, 'Fresh avocado shake', 5],
+  [35, 'Badam Milk', 49, 4, 'Almond milk shake', 7],
+  [36, 'Boost Milk', 39, 4, 'Boost flavored milk', 7],
+  [37, 'Cold Boost', 29, 4, 'Cold boost drink', 7],
+  [38, 'Cold Bournvita', 29, 4, 'Cold Bournvita drink', 7],
+  [39, 'Horlicks Milk', 39, 4, 'Horlicks milk shake', 7],
+  [40, 'Hot Chocolate Milk', 49, 4, 'Hot chocolate milk', 7],
+  [41, 'Pilani Milk', 35, 4, 'Pilani special milk', 7],
+  [42, 'Butter Milk', 20, 4, 'Traditional buttermilk', 7],
+  [43, 'Nutella Shake', 100, 4, 'Nutella flavored shake', 7],
+  [44, 'Dry Fruit Shake', 100, 4, 'Mixed dry fruit shake', 7],
+  [45, 'Berry Blue Berry Shake', 90, 4, 'Blueberry shake', 7],
+  [46, 'Natural Protein', 90, 4, 'Natural protein shake', 7],
+  [47, 'Whey Protein', 100, 4, 'Whey protein shake', 7],
+  [48, 'Ice Cream Scoop', 20, 6, 'Single ice cream scoop', 3],
+  [49, 'Vanilla Shoo Shoo', 45, 6, 'Vanilla ice cream special', 3],
+  [50, 'Strawberry Shoo Shoo', 45, 6, 'Strawberry ice cream special', 3],
+  [51, 'Chocolate Ice Cream', 49, 6, 'Rich chocolate ice cream', 3],
+  [52, 'Madagascar Ice Cream', 49, 6, 'Madagascar vanilla ice cream', 3],
+  [53, 'Red Velvet Ice Cream', 49, 6, 'Red velvet flavored ice cream', 3],
+  [54, 'Butterscotch', 49, 6, 'Butterscotch ice cream', 3],
+  [55, 'Chocolate', 49, 6, 'Chocolate ice cream', 3],
+  [56, 'Malai Kulfi', 45, 6, 'Traditional malai kulfi', 3],
+  [57, 'Punjab Kulfi', 45, 6, 'Punjab style kulfi', 3],
+  [81, 'Veg Sandwich', 59, 8, 'Fresh vegetable sandwich', 15],
+  [95, 'Margherita Pizza', 120, 8, 'Classic margherita pizza', 15],
+  [118, 'Classic Fries', 79, 9, 'Classic french fries', 10],
+]
+
+type DietaryInfo = Pick<BackendMenuItem, 'dietary_tags' | 'allergens'>
+
+// Dietary defaults per category_id, refined per item name below
+const CATEGORY_DIETARY: Record<number, DietaryInfo> = {
+  1: { dietary_tags: ['vegetarian', 'egg_free', 'gluten_free'], allergens: ['dairy'] },
+  2: { dietary_tags: ['vegetarian', 'egg_free', 'gluten_free'], allergens: ['dairy'] },
+  4: { dietary_tags: ['vegetarian', 'egg_free'], allergens: ['dairy'] },
+  5: { dietary_tags: ['vegetarian', 'vegan', 'egg_free', 'gluten_free'], allergens: [] },
+  6: { dietary_tags: ['vegetarian', 'egg_free', 'gluten_free'], allergens: ['dairy'] },
+  8: { dietary_tags: ['vegetarian', 'egg_free'], allergens: ['gluten', 'dairy'] },
+  9: { dietary_tags: ['vegetarian', 'vegan', 'egg_free', 'gluten_free'], allergens: [] },
+}
+
+const ITEM_DIETARY: Record<string, DietaryInfo> = {
+  'Black Tea': { dietary_tags: ['vegetarian', 'vegan', 'egg_free', 'gluten_free'], allergens: [] },
+  'Green Tea': { dietary_tags: ['vegetarian', 'vegan', 'egg_free', 'gluten_free'], allergens: [] },
+  'Green Tea with Honey': { dietary_tags: ['vegetarian', 'egg_free', 'gluten_free'], allergens: [] },
+  'Honey Lemon Tea': { dietary_tags: ['vegetarian', 'egg_free', 'gluten_free'], allergens: [] },
+  'Kashmiri Kahwa': { dietary_tags: ['vegetarian', 'vegan', 'egg_free', 'gluten_free'], allergens: ['nuts'] },
+  'Black Coffee': { dietary_tags: ['vegetarian', 'vegan', 'egg_free', 'gluten_free'], allergens: [] },
+  'Banana': { dietary_tags: ['vegetarian', 'egg_free', 'gluten_free'], allergens: ['dairy'] },
+  'Chickoo': { dietary_tags: ['vegetarian', 'egg_free', 'gluten_free'], allergens: ['dairy'] },
+  'Avocado': { dietary_tags: ['vegetarian', 'egg_free', 'gluten_free'], allergens: ['dairy'] },
+  'Badam Milk': { dietary_tags: ['vegetarian', 'egg_free', 'gluten_free'], allergens: ['nuts', 'dairy'] },
+  'Boost Milk': { dietary_tags: ['vegetarian', 'egg_free'], allergens: ['dairy', 'gluten'] },
+  'Horlicks Milk': { dietary_tags: ['vegetarian', 'egg_free'], allergens: ['dairy', 'gluten'] },
+  'Butter Milk': { dietary_tags: ['vegetarian', 'egg_free', 'gluten_free'], allergens: ['dairy'] },
+  'Nutella Shake': { dietary_tags: ['vegetarian', 'egg_free'], allergens: ['nuts', 'dairy', 'soy'] },
+  'Dry Fruit Shake': { dietary_tags: ['vegetarian', 'egg_free', 'gluten_free'], allergens: ['nuts', 'dairy'] },
+  'Natural Protein': { dietary_tags: ['vegetarian', 'egg_free'], allergens: ['nuts', 'dairy', 'soy'] },
+  'Whey Protein': { dietary_tags: ['vegetarian', 'egg_free', 'gluten_free'], allergens: ['dairy'] },
+  'Red Velvet Ice Cream': { dietary_tags: ['vegetarian'], allergens: ['dairy', 'egg', 'gluten'] },
+  'Malai Kulfi': { dietary_tags: ['vegetarian', 'egg_free', 'gluten_free'], allergens: ['nuts', 'dairy'] },
+  'Punjab Kulfi': { dietary_tags: ['vegetarian', 'egg_free', 'gluten_free'], allergens: ['nuts', 'dairy'] },
+}
+
+// Sizes and add-ons for a few items so the option picker can be tried out.
+// Option ids share one sequence across variants, groups and options.
+const MENU_OPTIONS: Record<number, Pick<BackendMenuItem, 'variants' | 'modifier_groups'>> = {
+  18: {
+    variants: [
+      { id: 1, name: 'Regular', price_delta: 0, is_default: true },
+      { id: 2, name: 'Large', price_delta: 30, is_default: false },
+    ],
+    modifier_groups: [
+      {
+        id: 3, name: 'Extras', min_select: 0, max_select: 2,
+        options: [
+          { id: 4, name: 'Extra shot', price_delta: 20 },
+          { id: 5, name: 'Oat milk', price_delta: 25 },
+          { id: 6, name: 'Whipped cream', price_delta: 15 },
+        ],
+      },
+    ],
+  },
+  43: {
+    variants: [
+      { id: 7, name: 'Regular', price_delta: 0, is_default: true },
+      { id: 8, name: 'Large', price_delta: 40, is_default: false },
+    ],
+    modifier_groups: [
+      {
+        id: 9, name: 'Toppings', min_select: 0, max_select: 2,
+        options: [
+          { id: 10, name: 'Ice cream scoop', price_delta: 20 },
+          { id: 11, name: 'Brownie chunks', price_delta: 30 },
+        ],
+      },
+    ],
+  },
+  81: {
+    modifier_groups: [
+      {
+        id: 12, name: 'Add-ons', min_select: 0, max_select: 2,
+        options: [
+          { id: 13, name: 'Cheese slice', price_delta: 15 },
+          { id: 14, name: 'Grilled', price_delta: 10 },
+        ],
+      },
+    ],
+  },
+  95: {
+    variants: [
+      { id: 15, name: 'Regular', price_delta: 0, is_default: true },
+      { id: 16, name: 'Large', price_delta: 80, is_default: false },
+    ],
+    modifier_groups: [
+      {
+        id: 17, name: 'Crust', min_select: 1, max_select: 1,
+        options: [
+          { id: 18, name: 'Classic', price_delta: 0 },
+          { id: 19, name: 'Thin crust', price_delta: 0 },
+          { id: 20, name: 'Cheese burst', price_delta: 50 },
+        ],
+      },
+      {
+        id: 21, name: 'Toppings', min_select: 0, max_select: 3,
+        options: [
+          { id: 22, name: 'Extra cheese', price_delta: 30 },
+          { id: 23, name: 'Olives', price_delta: 20 },
+          { id: 24, name: 'Jalapeños', price_delta: 20 },
+        ],
+      },
+    ],
+  },
+}
+
+// Ordering windows in the cafe's timezone: a breakfast item, an evening snack and
+// an ice cream counter that opens late morning
+const ITEM_SCHEDULES: Record<number, BackendAvailabilityWindow[]> = {
+  81: [{ days: [], start_time: '07:00', end_time: '11:30' }],
+  118: [{ days: [], start_time: '16:00', end_time: '23:00' }],
+}
+
+const CATEGORY_SCHEDULES: Record<number, BackendAvailabilityWindow[]> = {
+  6: [
+    { days: [1, 2, 3, 4, 5], start_time: '12:00', end_time: '23:00' },
+    { days: [0, 6], start_time: '11:00', end_time: '23:30' },
+  ],
+}
+
+// [id, name, icon]; sort order follows this list
+const CATEGORY_ROWS: [number, string, string][] = [
+  [1, 'Tea', '🍵'],
+  [2, 'Coffee', '☕'],
+  [3, 'Cold Coffee', '🧋'],
+  [4, 'Milk Shake', '🥤'],
+  [5, 'Fresh Juice', '🧃'],
+  [6, 'Ice Cream', '🍨'],
+  [7, 'Pastry', '🍰'],
+  [8, 'Food', '🍕'],
+  [9, 'Snacks', '🥪'],
+  [10, 'Fries', '🍟'],
+]
+
+export function seedCategories(): BackendCategory[] {
+  return CATEGORY_ROWS.map(([id, name, icon], index) => ({
+    id,
+    name,
+    sort_order: (index + 1) * 10,
+    icon,
+    is_visible: true,
+    active_from: null,
+    active_until: null,
+    availability_windows: CATEGORY_SCHEDULES[id],
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  }))
+}
+
+export function seedMenuItems(): BackendMenuItem[] {
+  return MENU_ROWS.map(([id, name, price, category_id, description, preparation_time_minutes]) => ({
+    id,
+    name,
+    price,
+    category_id,
+    description,
+    // Empty so the client derives /images/menu/<name>.jpg
+    image_url: '',
+    is_available: true,
+    preparation_time_minutes,
+    ...(ITEM_DIETARY[name] ?? CATEGORY_DIETARY[category_id]),
+    ...MENU_OPTIONS[id],
+    availability_windows: ITEM_SCHEDULES[id],
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  }))
+}
+
+// Bundles of existing items; a slot with several items (or a category) is the customer's pick
+export function seedCombos(): BackendCombo[] {
+  const slot = (id: number, name: string, menu_item_ids: number[], category_id: number | null = null) =>
+    ({ id, name, menu_item_ids, category_id })
+  const rows: [number, string, string, number, BackendCombo['slots']][] = [
+    [1, 'Coffee + Sandwich', 'Any hot coffee with a fresh veg sandwich', 69, [
+      slot(1, 'Coffee', [12, 13, 14, 15]),
+      slot(2, 'Sandwich', [81]),
+    ]],
+    [2, 'Pizza + Fries + Shake', 'Margherita pizza, classic fries and a shake of your choice', 249, [
+      slot(3, 'Pizza', [95]),
+      slot(4, 'Fries', [118]),
+      slot(5, 'Shake', [], 4),
+    ]],
+  ]
+  return rows.map(([id, name, description, price, slots]) => ({
+    id,
+    name,
+    description,
+    price,
+    image_url: null,
+    is_available: true,
+    slots,
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  }))
+}
+
+// Specials relative to the cafe's current date ("YYYY-MM-DD") so the carousel always has something on
+export function seedSpecials(today: string): BackendSpecial[] {
+  const addDays = (date: string, days: number) =>
+    new Date(Date.parse(`${date}T00:00:00Z`) + days * 86_400_000).toISOString().split('T')[0]
+  const rows: [number, string | null, number | null, number | null, number][] = [
+    // [menu_item_id, title, special_price, discount_percent, days running]
+    [17, 'Belgian Coffee Hour', 75, null, 1],
+    [19, null, null, 20, 7],
+  ]
+  return rows.map(([menu_item_id, title, special_price, discount_percent, days], index) => ({
+    id: index + 1,
+    menu_item_id,
+    title,
+    description: null,
+    special_price,
+    discount_percent,
+    starts_on: today,
+    ends_on: addDays(today, days - 1),
+    is_active: true,
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  }))
+}
+
+// One branch at the cafe; superadmins add more from the dashboard
+export function seedLocationSettings(): BackendLocationSettings {
+  return {
+    ordering_radius_m: 150,
+    branches: [
+      { id: 1, name: 'Zish Cafe', address: '123 Cafe Street, Downtown', latitude: 13.025399, longitude: 77.625298, is_active: true },
+    ],
+    updated_at: SEED_TIMESTAMP,
+  }
+}
+
+export function seedInventoryItems(): InventoryItemDto[] {
+  return [
+    { id: 1, name: 'Milk', unit_label: 'litre', rate: 60, category: 'Dairy', status: 'active' },
+    { id: 2, name: 'Sugar', unit_label: 'kg', rate: 45, category: 'Dry Goods', status: 'active' },
+    { id: 3, name: 'Tea Leaves', unit_label: 'kg', rate: 420, category: 'Dry Goods', status: 'active' },
+    { id: 4, name: 'Coffee Powder', unit_label: 'kg', rate: 900, category: 'Dry Goods', status: 'active' },
+    { id: 5, name: 'Ice Cream Tub', unit_label: 'tub', rate: 350, category: 'Frozen', status: 'active' },
+    { id: 6, name: 'Potatoes', unit_label: 'kg', rate: 30, category: 'Produce', status: 'active' },
+    { id: 7, name: 'Paper Cups', unit_label: 'pack of 50', rate: 120, category: 'Packaging', status: 'active' },
+    { id: 8, name: 'Cold Drink Syrup', unit_label: 'bottle', rate: 250, category: 'Beverages', status: 'inactive' },
+  ]
+}
+
+export function seedFeedback(now: Date): BackendFeedbackItem[] {
+  const entries: [string, string | null, number, string | null, number][] = [
+    ['Aisha', 'aisha@example.com', 5, 'Best masala tea in town!', 1],
+    ['Rahul', null, 4, 'Cold coffee was great, a bit sweet.', 3],
+    ['Meera', 'meera@example.com', 5, null, 6],
+    ['Karan', null, 3, 'Had to wait a while during lunch.', 10],
+  ]
+  return entries.map(([customer_name, email, rating, feedback, daysAgo], index) => {
+    const timestamp = new Date(now.getTime() - daysAgo * 86_400_000).toISOString()
+    return {
+      id: index + 1,
+      customer_name,
+      email,
+      rating,
+      feedback,
+      timestamp,
+      date: timestamp.split('T')[0],
+      created_at: timestamp,
+      updated_at: timestamp,
+    }
+  })
+}
@@ -0,0 +1,100 @@
+import type { BackendCategory, BackendCombo, BackendFeedbackItem, BackendLocationSettings, BackendMenuItem, BackendOrder, BackendSpecial, OrderEventType } from '../types'
+import type { InventoryItemDto, InventoryOrderDto } from '../inventory-api'
+import { seedCategories, seedCombos, seedFeedback, seedInventoryItems, seedLocationSettings, seedMenuItems, seedSpecials } from './seed'
+import { getCafeDate } from '../menu-schedule'
+
+// In-memory state for the demo backend. Kept on globalThis so it survives
+// hot reloads in `next dev`; restarting the server resets it to the seed.
+
+export interface DemoOrderEvent {
+  type: OrderEventType
+  order: BackendOrder
+}
+
+type OrderEventListener = (event: DemoOrderEvent) => void
+
+export interface DemoState {
+  categories: BackendCategory[]
+  menuItems: BackendMenuItem[]
+  combos: BackendCombo[]
+  specials: BackendSpecial[]
+  orders: BackendOrder[]
+  // Order id -> secret handed to whoever placed it, required to track the order
+  trackingTokens: Record<number, string>
+  feedback: BackendFeedbackItem[]
+  inventoryItems: InventoryItemDto[]
+  inventoryOrders: (InventoryOrderDto & { purchased_by?: string; notes?: string })[]
+  locationSettings: BackendLocationSettings
+  nextIds: { category: number; menuItem: number; menuOption: number; combo: number; comboSlot: number; special: number; order: number; orderItem: number; feedback: number; inventoryItem: number; inventoryOrder: number; branch: number }
+  listeners: Set<OrderEventListener>
+}
+
+function createState(): DemoState {
+  const inventoryItems = seedInventoryItems()
+  const feedback = seedFeedback(new Date())
+  const categories = seedCategories()
+  const menuItems = seedMenuItems()
+  const combos = seedCombos()
+  const specials = seedSpecials(getCafeDate())
+  const locationSettings = seedLocationSettings()
+  return {
+    categories,
+    menuItems,
+    combos,
+    specials,
+    orders: [],
+    trackingTokens: {},
+    feedback,
+    inventoryItems,
+    inventoryOrders: [],
+    locationSettings,
+    nextIds: {
+      category: Math.max(0, ...categories.map((category) => category.id)) + 1,
+      menuItem: Math.max(0, ...menuItems.map((item) => item.id)) + 1,
+      menuOption: Math.max(0, ...menuItems.flatMap((item) => [
+        ...(item.variants ?? []).map((variant) => variant.id),
+        ...(item.modifier_groups ?? []).flatMap((group) => [group.id, ...group.options.map((option) => option.id)]),
+      ])) + 1,
+      combo: Math.max(0, ...combos.map((combo) => combo.id)) + 1,
+      comboSlot: Math.max(0, ...combos.flatMap((combo) => combo.slots.map((slot) => slot.id))) + 1,
+      special: specials.length + 1,
+      order: 1001,
+      orderItem: 1,
+      feedback: feedback.length + 1,
+      inventoryItem: inventoryItems.length + 1,
+      inventoryOrder: 1,
+      branch: Math.max(0, ...locationSettings.branches.map((branch) => branch.id)) + 1,
+    },
+    listeners: new Set(),
+  }
+}
+
+const globalForDemo = globalThis as typeof globalThis & { __cafeDemoState?: DemoState }
+
+export function getDemoState(): DemoState {
+  if (!globalForDemo.__cafeDemoState) {
+    globalForDemo.__cafeDemoState = createState()
+  }
+  return globalForDemo.__cafeDemoState
+}
+
+export function resetDemoState() {
+  globalForDemo.__cafeDemoState = createState()
+}
+
+export function nextId(key: keyof DemoState['nextIds']): number {
+  const state = getDemoState()
+  return state.nextIds[key]++
+}
+
+export function subscribeToDemoOrders(listener: OrderEventListener): () => void {
+  const { listeners } = getDemoState()
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function publishDemoOrderEvent(type: OrderEventType, order: BackendOrder) {
+  getDemoState().listeners.forEach((listener) => listener({ type, order }))
+}
@@ -1,6 +1,4 @@
-import type { ApiResponse } from './types'
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api/v1'
+import { apiBlob, apiData, apiRequest, saveBlob } from './api-client'
 
 export interface InventoryItemDto {
   id: number
@@ -12,11 +10,10 @@ export interface InventoryItemDto {
 }
 
 export async function fetchInventoryItems(status: 'active' | 'inactive' | 'all' = 'active'): Promise<InventoryItemDto[]> {
-  const res = await fetch(`${API_BASE_URL}/inventory/items?status=${status}`, { method: 'GET' })
-  if (!res.ok) throw new Error(`HTTP ${res.status}`)
-  const data: ApiResponse<InventoryItemDto[]> = await res.json()
-  if (!data.success) throw new Error(data.message || 'Failed to load items')
-  return data.data
+  return apiData<InventoryItemDto[]>('/inventory/items', {
+    query: { status },
+    errorMessage: 'Failed to load items',
+  })
 }
 
 export async function createInventoryItem(payload: {
@@ -27,32 +24,26 @@ export async function createInventoryItem(payload: {
   status?: 'active' | 'inactive'
   created_by?: string
 }): Promise<InventoryItemDto> {
-  const res = await fetch(`${API_BASE_URL}/inventory/items`, {
+  return apiData<InventoryItemDto>('/inventory/items', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(payload),
+    body: payload,
+    errorMessage: 'Failed to create item',
   })
-  if (!res.ok) throw new Error(`HTTP ${res.status}`)
-  const data: ApiResponse<InventoryItemDto> = await res.json()
-  if (!data.success) throw new Error(data.message || 'Failed to create item')
-  return data.data
 }
 
 export async function updateInventoryItem(id: number, payload: Partial<Omit<InventoryItemDto, 'id'>>): Promise<InventoryItemDto> {
-  const res = await fetch(`${API_BASE_URL}/inventory/items/${id}`, {
+  return apiData<InventoryItemDto>(`/inventory/items/${id}`, {
     method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(payload),
+    body: payload,
+    errorMessage: 'Failed to update item',
   })
-  if (!res.ok) throw new Error(`HTTP ${res.status}`)
-  const data: ApiResponse<InventoryItemDto> = await res.json()
-  if (!data.success) throw new Error(data.message || 'Failed to update item')
-  return data.data
 }
 
 export async function deleteInventoryItem(id: number): Promise<void> {
-  const res = await fetch(`${API_BASE_URL}/inventory/items/${id}`, { method: 'DELETE' })
-  if (!res.ok) throw new Error(`HTTP ${res.status}`)
+  await apiRequest(`/inventory/items/${id}`, {
+    method: 'DELETE',
+    errorMessage: 'Failed to delete item',
+  })
 }
 
 export async function placeInventoryOrder(payload: {
@@ -60,15 +51,11 @@ export async function placeInventoryOrder(payload: {
   notes?: string
   items: { inventory_item_id: number; quantity: number }[]
 }): Promise<{ order_id: number }> {
-  const res = await fetch(`${API_BASE_URL}/inventory/orders`, {
+  return apiData<{ order_id: number }>('/inventory/orders', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(payload),
+    body: payload,
+    errorMessage: 'Failed to place order',
   })
-  if (!res.ok) throw new Error(`HTTP ${res.status}`)
-  const data: ApiResponse<{ order_id: number }> = await res.json()
-  if (!data.success) throw new Error(data.message || 'Failed to place order')
-  return data.data
 }
 
 export interface InventoryOrderLineDto {
@@ -90,23 +77,18 @@ export interface InventoryOrderDto {
 }
 
 export async function listInventoryOrders(params?: { status?: 'pending' | 'purchased' | 'all'; user?: string }): Promise<InventoryOrderDto[]> {
-  const qs = new URLSearchParams()
-  if (params?.status) qs.set('status', params.status)
-  if (params?.user) qs.set('user', params.user)
-  const res = await fetch(`${API_BASE_URL}/inventory/orders${qs.toString() ? `?${qs.toString()}` : ''}`)
-  if (!res.ok) throw new Error(`HTTP ${res.status}`)
-  const data: ApiResponse<InventoryOrderDto[]> = await res.json()
-  if (!data.success) throw new Error(data.message || 'Failed to load orders')
-  return data.data
+  return apiData<InventoryOrderDto[]>('/inventory/orders', {
+    query: { status: params?.status, user: params?.user },
+    errorMessage: 'Failed to load orders',
+  })
 }
 
 export async function markInventoryOrderPurchased(id: number, purchased_by: string): Promise<void> {
-  const res = await fetch(`${API_BASE_URL}/inventory/orders/${id}/purchased`, {
+  await apiRequest(`/inventory/orders/${id}/purchased`, {
     method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ purchased_by }),
+    body: { purchased_by },
+    errorMessage: 'Failed to mark order as purchased',
   })
-  if (!res.ok) throw new Error(`HTTP ${res.status}`)
 }
 
 
@@ -122,24 +104,18 @@ export interface InventoryExpensesInsightsDto {
 }
 
 export async function fetchInventoryExpensesInsights(params?: { start?: string; end?: string }): Promise<InventoryExpensesInsightsDto> {
-  const qs = new URLSearchParams()
-  if (params?.start) qs.set('start', params.start)
-  if (params?.end) qs.set('end', params.end)
-  const res = await fetch(`${API_BASE_URL}/inventory/insights${qs.toString() ? `?${qs.toString()}` : ''}`)
-  if (!res.ok) throw new Error(`HTTP ${res.status}`)
-  const data: ApiResponse<InventoryExpensesInsightsDto> = await res.json()
-  if (!data.success) throw new Error(data.message || 'Failed to load inventory insights')
-  return data.data
+  return apiData<InventoryExpensesInsightsDto>('/inventory/insights', {
+    query: { start: params?.start, end: params?.end },
+    errorMessage: 'Failed to load inventory insights',
+  })
 }
 
 export async function downloadInventoryExpensesCsv(params?: { start?: string; end?: string }): Promise<void> {
-  const qs = new URLSearchParams()
-  if (params?.start) qs.set('start', params.start)
-  if (params?.end) qs.set('end', params.end)
-  const url = `${API_BASE_URL}/inventory/insights/export${qs.toString() ? `?${qs.toString()}` : ''}`
-  const a = document.createElement('a')
-  a.href = url
-  a.download = ''
-  a.click()
+  // Fetched through the client (not a plain link) so the export is authenticated
+  const blob = await apiBlob('/inventory/insights/export', {
+    query: { start: params?.start, end: params?.end },
+    errorMessage: 'Failed to export inventory expenses',
+  })
+  saveBlob(blob, `inventory-expenses-${new Date().toISOString().split('T')[0]}.csv`)
 }
 
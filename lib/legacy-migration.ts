@@ -0,0 +1,405 @@
+import type {
+  FeedbackSubmission,
+  MenuItem,
+  OrderStatusUpdate,
+  OrderSubmission,
+  PaymentStatusUpdate,
+  SpecialInput,
+} from './types'
+import { cancelOrder, placeOrder, updateOrderStatus, updatePaymentStatus } from './order-api'
+import { getOrderStatusPath } from './order-status'
+import { submitFeedback } from './feedback-api'
+import { createSpecial } from './specials-api'
+import { getCafeDate } from './menu-schedule'
+
+// One-time import of data the app used to keep in localStorage ("cafeOrders",
+// "todaysSpecials", "cafeFeedback") into the API. Planning is a pure dry run;
+// running submits the ready records one by one and logs what was imported so
+// a second run never creates duplicates.
+
+export const LEGACY_STORAGE_KEYS = {
+  orders: 'cafeOrders',
+  specials: 'todaysSpecials',
+  feedback: 'cafeFeedback',
+} as const
+
+const IMPORT_LOG_KEY = 'cafeLegacyImportLog'
+
+// Shapes as the old client wrote them
+export interface LegacyOrder {
+  id: string
+  items?: Array<{
+    name: string
+    price: number
+    quantity: number
+    specialInstructions?: string
+    subtotal: string
+  }>
+  total: string
+  customerName: string
+  phoneNumber?: string
+  generalInstructions?: string
+  status: string
+  paymentStatus: string
+  date: string
+  timestamp: string
+  // Single-item orders from the first version of the site
+  item?: string
+  quantity?: number
+}
+
+export interface LegacySpecial {
+  id: number
+  name: string
+  price: number
+  category: string
+  description: string
+  image?: string
+}
+
+export interface LegacyFeedback {
+  id: string
+  customerName: string
+  email?: string
+  rating: number
+  feedback?: string
+  timestamp: string
+  date: string
+}
+
+export interface LegacyData {
+  orders: LegacyOrder[]
+  specials: LegacySpecial[]
+  feedback: LegacyFeedback[]
+}
+
+export type MigrationRecordKind = 'order' | 'special' | 'feedback'
+
+// ready: will be submitted; duplicate: already imported or repeated in the legacy data;
+// invalid: cannot be converted; unsupported: no API to submit it to
+export type MigrationRecordStatus = 'ready' | 'duplicate' | 'invalid' | 'unsupported'
+
+export interface MigrationRecord {
+  kind: MigrationRecordKind
+  legacyId: string
+  // Dedupe key (phone + timestamp for orders)
+  key: string
+  label: string
+  status: MigrationRecordStatus
+  errors: string[]
+  warnings: string[]
+  order?: {
+    submission: OrderSubmission
+    status: OrderStatusUpdate['status']
+    payment?: PaymentStatusUpdate
+  }
+  feedback?: FeedbackSubmission
+  special?: SpecialInput
+}
+
+export interface MigrationPlan {
+  records: MigrationRecord[]
+  counts: Record<MigrationRecordStatus, number>
+}
+
+export interface MigrationOutcome {
+  record: MigrationRecord
+  ok: boolean
+  // Id of the created order/feedback/special
+  createdId?: string
+  error?: string
+}
+
+export interface MigrationReport {
+  imported: number
+  failed: number
+  outcomes: MigrationOutcome[]
+}
+
+function readArray<T>(storageKey: string): T[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(storageKey) || '[]')
+    return Array.isArray(parsed) ? parsed : []
+  } catch (error) {
+    console.warn(`Could not parse legacy "${storageKey}" data:`, error)
+    return []
+  }
+}
+
+export function readLegacyData(): LegacyData {
+  return {
+    orders: readArray<LegacyOrder>(LEGACY_STORAGE_KEYS.orders),
+    specials: readArray<LegacySpecial>(LEGACY_STORAGE_KEYS.specials),
+    feedback: readArray<LegacyFeedback>(LEGACY_STORAGE_KEYS.feedback),
+  }
+}
+
+export function readImportLog(): Set<string> {
+  return new Set(readArray<string>(IMPORT_LOG_KEY))
+}
+
+function appendImportLog(key: string) {
+  const log = readImportLog()
+  log.add(key)
+  localStorage.setItem(IMPORT_LOG_KEY, JSON.stringify([...log]))
+}
+
+function normalizePhone(phone: string | undefined): string {
+  return (phone || '').replace(/\D/g, '').slice(-10)
+}
+
+function normalizeTimestamp(value: string | undefined): string | null {
+  if (!value) return null
+  const time = new Date(value).getTime()
+  return Number.isNaN(time) ? null : new Date(time).toISOString()
+}
+
+const LEGACY_ORDER_STATUSES: Record<string, OrderStatusUpdate['status']> = {
+  pending: 'pending',
+  confirmed: 'confirmed',
+  preparing: 'preparing',
+  ready: 'ready',
+  completed: 'delivered',
+  delivered: 'delivered',
+  cancelled: 'cancelled',
+}
+
+// Legacy payment status was free text: "unpaid", "paid cash", "paid upi", ...
+function mapLegacyPayment(value: string | undefined): PaymentStatusUpdate | undefined {
+  const status = (value || 'unpaid').toLowerCase().trim()
+  if (!status.startsWith('paid')) return undefined
+  const method = status.replace('paid', '').trim()
+  return {
+    paymentStatus: 'paid',
+    paymentMethod: method === 'cash' || method === 'card' || method === 'upi' || method === 'online' ? method : undefined,
+    notes: 'Imported from legacy data',
+  }
+}
+
+function planOrder(order: LegacyOrder, menuByName: Map<string, MenuItem>): MigrationRecord {
+  const phone = normalizePhone(order.phoneNumber)
+  const timestamp = normalizeTimestamp(order.timestamp)
+  const record: MigrationRecord = {
+    kind: 'order',
+    legacyId: String(order.id ?? ''),
+    key: `order:${phone}:${timestamp ?? order.timestamp}`,
+    label: `Order #${String(order.id ?? '').slice(-6)} – ${order.customerName || 'Unknown customer'}`,
+    status: 'ready',
+    errors: [],
+    warnings: [],
+  }
+
+  if (!order.customerName?.trim()) record.errors.push('Missing customer name')
+  if (phone.length !== 10) record.errors.push('Missing or invalid phone number')
+  if (!timestamp) record.errors.push('Missing or invalid timestamp')
+
+  const lines = Array.isArray(order.items)
+    ? order.items
+    : order.item
+      ? [{ name: order.item, quantity: order.quantity || 1, specialInstructions: undefined }]
+      : []
+  if (lines.length === 0) record.errors.push('Order has no items')
+
+  const items: OrderSubmission['items'] = []
+  for (const line of lines) {
+    const menuItem = menuByName.get((line.name || '').trim().toLowerCase())
+    if (!menuItem) {
+      record.errors.push(`"${line.name}" is not on the current menu`)
+      continue
+    }
+    const quantity = Math.max(1, Math.floor(Number(line.quantity) || 1))
+    items.push({ menuItemId: menuItem.id, quantity, specialInstructions: line.specialInstructions || undefined })
+  }
+
+  const statusKey = (order.status || 'pending').toLowerCase().trim()
+  const status = LEGACY_ORDER_STATUSES[statusKey]
+  if (!status) record.warnings.push(`Unknown status "${order.status}", importing as pending`)
+
+  const orderedOn = timestamp ? new Date(timestamp).toLocaleString() : order.date
+  const legacyTotal = Number.parseFloat(order.total)
+  record.warnings.push(
+    `Will be created with today's date and current menu prices${
+      Number.isFinite(legacyTotal) ? ` (legacy total ₹${legacyTotal.toFixed(2)})` : ''
+    }`,
+  )
+
+  if (record.errors.length > 0) {
+    record.status = 'invalid'
+    return record
+  }
+
+  record.order = {
+    submission: {
+      customerName: order.customerName.trim(),
+      customerPhone: phone,
+      items,
+      // Legacy orders recorded no table or address; takeaway with no pickup time needs neither
+      orderType: 'takeaway',
+      specialInstructions: [
+        `Imported legacy order #${order.id} placed ${orderedOn}`,
+        order.generalInstructions?.trim(),
+      ].filter(Boolean).join(' – '),
+    },
+    status: status ?? 'pending',
+    payment: mapLegacyPayment(order.paymentStatus),
+  }
+  return record
+}
+
+function planFeedback(entry: LegacyFeedback): MigrationRecord {
+  const timestamp = normalizeTimestamp(entry.timestamp)
+  const record: MigrationRecord = {
+    kind: 'feedback',
+    legacyId: String(entry.id ?? ''),
+    key: `feedback:${(entry.email || entry.customerName || '').toLowerCase().trim()}:${timestamp ?? entry.timestamp}`,
+    label: `Feedback from ${entry.customerName || 'Anonymous'} (${entry.rating ?? '?'}★)`,
+    status: 'ready',
+    errors: [],
+    warnings: ['Will be dated today'],
+  }
+
+  const rating = Number(entry.rating)
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) record.errors.push('Rating must be 1-5')
+  if (!timestamp) record.errors.push('Missing or invalid timestamp')
+
+  if (record.errors.length > 0) {
+    record.status = 'invalid'
+    return record
+  }
+
+  record.feedback = {
+    customerName: entry.customerName?.trim() || undefined,
+    email: entry.email?.trim() || undefined,
+    rating,
+    feedback: entry.feedback?.trim() || undefined,
+  }
+  return record
+}
+
+// Legacy specials had no dates, so they come back as today's special for the matching menu item
+function planSpecial(special: LegacySpecial, menuByName: Map<string, MenuItem>, today: string): MigrationRecord {
+  const record: MigrationRecord = {
+    kind: 'special',
+    legacyId: String(special.id ?? ''),
+    key: `special:${(special.name || '').toLowerCase().trim()}`,
+    label: `Special "${special.name}"`,
+    status: 'ready',
+    errors: [],
+    warnings: [`Will run today (${today}) only`],
+  }
+
+  const menuItem = menuByName.get((special.name || '').trim().toLowerCase())
+  if (!menuItem) record.errors.push(`"${special.name}" is not on the current menu`)
+  const price = Number(special.price)
+  if (!Number.isFinite(price) || price < 0) record.errors.push('Missing or invalid price')
+
+  if (record.errors.length > 0) {
+    record.status = 'invalid'
+    return record
+  }
+
+  if (price !== menuItem!.price) record.warnings.push(`Special price ₹${price} (menu price ₹${menuItem!.price})`)
+  record.special = {
+    menuItemId: menuItem!.id,
+    description: special.description?.trim() || undefined,
+    specialPrice: price,
+    startsOn: today,
+    endsOn: today,
+    isActive: true,
+  }
+  return record
+}
+
+// Dry run: works out what would be submitted without touching the API
+export function planLegacyMigration(data: LegacyData, menuItems: MenuItem[], importLog: Set<string> = new Set()): MigrationPlan {
+  const menuByName = new Map(menuItems.map((item) => [item.name.trim().toLowerCase(), item]))
+  const today = getCafeDate()
+  const records = [
+    ...data.orders.map((order) => planOrder(order, menuByName)),
+    ...data.specials.map((special) => planSpecial(special, menuByName, today)),
+    ...data.feedback.map(planFeedback),
+  ]
+
+  const seen = new Set<string>()
+  for (const record of records) {
+    if (record.status !== 'ready') continue
+    if (importLog.has(record.key)) {
+      record.status = 'duplicate'
+      record.errors.push('Already imported')
+    } else if (seen.has(record.key)) {
+      record.status = 'duplicate'
+      record.errors.push('Duplicate of an earlier legacy record')
+    }
+    seen.add(record.key)
+  }
+
+  const counts: MigrationPlan['counts'] = { ready: 0, duplicate: 0, invalid: 0, unsupported: 0 }
+  records.forEach((record) => counts[record.status]++)
+  return { records, counts }
+}
+
+async function importRecord(record: MigrationRecord): Promise<string | undefined> {
+  if (record.order) {
+    const created = await placeOrder(record.order.submission)
+    // Logged before the follow-up updates so a retry never places the order twice
+    appendImportLog(record.key)
+    const notes = `Imported from legacy order #${record.legacyId}`
+    try {
+      if (record.order.status === 'cancelled') {
+        await cancelOrder(String(created.id), { reason: notes })
+      } else {
+        // Orders only move one allowed step at a time, e.g. pending → preparing → ready → delivered
+        const path = getOrderStatusPath(created.orderStatus, record.order.status, 'admin')
+        if (!path) throw new Error(`Orders cannot be moved to ${record.order.status}`)
+        for (const status of path) {
+          await updateOrderStatus(String(created.id), { status, notes })
+        }
+      }
+      if (record.order.payment) {
+        await updatePaymentStatus(String(created.id), record.order.payment)
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error'
+      throw new Error(`Order #${created.id} was created but its status could not be copied: ${reason}`)
+    }
+    return String(created.id)
+  }
+  if (record.feedback) {
+    const created = await submitFeedback(record.feedback)
+    appendImportLog(record.key)
+    return created.id
+  }
+  if (record.special) {
+    const created = await createSpecial(record.special)
+    appendImportLog(record.key)
+    return String(created.id)
+  }
+  return undefined
+}
+
+// Submits every ready record in order. A failure is recorded against that record
+// and the run carries on, so one bad entry never blocks the rest.
+export async function runLegacyMigration(
+  plan: MigrationPlan,
+  onProgress?: (done: number, total: number) => void,
+): Promise<MigrationReport> {
+  const ready = plan.records.filter((record) => record.status === 'ready')
+  const outcomes: MigrationOutcome[] = []
+
+  for (const record of ready) {
+    try {
+      const createdId = await importRecord(record)
+      outcomes.push({ record, ok: true, createdId })
+    } catch (error) {
+      console.error('Legacy import failed:', { record, error })
+      outcomes.push({ record, ok: false, error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+    onProgress?.(outcomes.length, ready.length)
+  }
+
+  return {
+    imported: outcomes.filter((outcome) => outcome.ok).length,
+    failed: outcomes.filter((outcome) => !outcome.ok).length,
+    outcomes,
+  }
+}
@@ -0,0 +1,73 @@
+import type { Branch, LocationSettingsInput } from './types'
+
+// Geofence for customer ordering: customers order from the nearest active
+// branch, and only while they are within the configured radius of it.
+
+export const MIN_ORDERING_RADIUS_M = 10
+export const MAX_ORDERING_RADIUS_M = 50_000
+
+export interface Coordinates {
+  latitude: number
+  longitude: number
+}
+
+export interface NearestBranch {
+  branch: Branch
+  // Metres from the customer
+  distance: number
+}
+
+const EARTH_RADIUS_M = 6371e3
+
+// Great-circle distance in metres (haversine formula)
+export function distanceInMeters(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const φ1 = toRadians(from.latitude)
+  const φ2 = toRadians(to.latitude)
+  const Δφ = toRadians(to.latitude - from.latitude)
+  const Δλ = toRadians(to.longitude - from.longitude)
+  const a = Math.sin(Δφ / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2
+  return EARTH_RADIUS_M * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+// Closest active branch, or null when no branch is taking orders
+export function findNearestBranch(position: Coordinates, branches: Branch[]): NearestBranch | null {
+  return branches
+    .filter((branch) => branch.isActive)
+    .reduce<NearestBranch | null>((nearest, branch) => {
+      const distance = distanceInMeters(position, branch)
+      return !nearest || distance < nearest.distance ? { branch, distance } : nearest
+    }, null)
+}
+
+// "50 m" / "1.5 km"
+export function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters)} m`
+  const kilometers = meters / 1000
+  return `${kilometers < 10 ? Math.round(kilometers * 10) / 10 : Math.round(kilometers)} km`
+}
+
+// Superadmin-side checks; the demo backend applies the same rules
+export function validateLocationSettingsInput(input: LocationSettingsInput): string[] {
+  const errors: string[] = []
+  const radius = input.orderingRadiusMeters
+  if (!Number.isFinite(radius) || radius < MIN_ORDERING_RADIUS_M || radius > MAX_ORDERING_RADIUS_M) {
+    errors.push(`Ordering radius must be between ${formatDistance(MIN_ORDERING_RADIUS_M)} and ${formatDistance(MAX_ORDERING_RADIUS_M)}`)
+  }
+  if (!input.branches.some((branch) => branch.isActive)) errors.push('Keep at least one branch active so customers can order')
+
+  const names = new Set<string>()
+  input.branches.forEach((branch, index) => {
+    const label = branch.name.trim() || `Branch ${index + 1}`
+    if (!branch.name.trim()) errors.push(`${label} needs a name`)
+    else if (names.has(branch.name.trim().toLowerCase())) errors.push(`${label} is listed twice`)
+    names.add(branch.name.trim().toLowerCase())
+    if (!Number.isFinite(branch.latitude) || Math.abs(branch.latitude) > 90) {
+      errors.push(`${label}: latitude must be between -90 and 90`)
+    }
+    if (!Number.isFinite(branch.longitude) || Math.abs(branch.longitude) > 180) {
+      errors.push(`${label}: longitude must be between -180 and 180`)
+    }
+  })
+  return errors
+}
@@ -0,0 +1,12 @@
+import type { MenuCategory } from './types'
+import { getActiveHoursSchedule, getCafeClock, isScheduledNow } from './menu-schedule'
+
+// Category chips and selects follow the admin-defined sort order, then name
+export function compareCategories(a: MenuCategory, b: MenuCategory): number {
+  return a.sortOrder - b.sortOrder || a.name.localeCompare(b.name)
+}
+
+// Whether the cafe's clock falls inside the category's daily active hours
+export function isWithinActiveHours(category: Pick<MenuCategory, 'activeFrom' | 'activeUntil'>, clock = getCafeClock()): boolean {
+  return isScheduledNow([getActiveHoursSchedule(category)], clock)
+}
@@ -0,0 +1,31 @@
+import type { Allergen, DietaryTag, MenuItem } from './types'
+
+export type DietaryFilterId = 'vegetarian' | 'vegan' | 'egg_free' | 'gluten_free' | 'nut_free' | 'dairy_free'
+
+interface DietaryFilter {
+  id: DietaryFilterId
+  label: string
+  matches: (item: Pick<MenuItem, 'dietaryTags' | 'allergens'>) => boolean
+}
+
+const hasTag = (item: Pick<MenuItem, 'dietaryTags'>, tag: DietaryTag) => item.dietaryTags?.includes(tag) ?? false
+
+// "Free from" only holds when allergens were recorded; an item with no allergen
+// data must not show up under Nut-free just because nothing was entered.
+const isFreeFrom = (item: Pick<MenuItem, 'allergens'>, allergen: Allergen) =>
+  item.allergens !== undefined && !item.allergens.includes(allergen)
+
+// Chips shown next to the menu search, in display order
+export const DIETARY_FILTERS: DietaryFilter[] = [
+  { id: 'vegetarian', label: 'Vegetarian', matches: (item) => hasTag(item, 'vegetarian') || hasTag(item, 'vegan') },
+  { id: 'vegan', label: 'Vegan', matches: (item) => hasTag(item, 'vegan') },
+  { id: 'egg_free', label: 'Egg-free', matches: (item) => hasTag(item, 'egg_free') || hasTag(item, 'vegan') || isFreeFrom(item, 'egg') },
+  { id: 'gluten_free', label: 'Gluten-free', matches: (item) => hasTag(item, 'gluten_free') || isFreeFrom(item, 'gluten') },
+  { id: 'nut_free', label: 'Nut-free', matches: (item) => isFreeFrom(item, 'nuts') },
+  { id: 'dairy_free', label: 'Dairy-free', matches: (item) => hasTag(item, 'vegan') || isFreeFrom(item, 'dairy') },
+]
+
+// Every active filter must match; no filters means everything matches
+export function matchesDietaryFilters(item: Pick<MenuItem, 'dietaryTags' | 'allergens'>, filters: DietaryFilterId[]): boolean {
+  return filters.every((id) => DIETARY_FILTERS.find((filter) => filter.id === id)?.matches(item) ?? true)
+}
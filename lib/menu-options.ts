@@ -0,0 +1,95 @@
+import type { MenuItem, MenuItemInput, MenuItemSelection, MenuVariant, ModifierGroup, OrderItem } from './types'
+
+type ItemOptions = Pick<MenuItem, 'variants' | 'modifierGroups'>
+
+// Items with a size or add-on choice go through the picker instead of a one-tap add
+export function hasOptions(item: ItemOptions): boolean {
+  return (item.variants?.length ?? 0) > 0 || (item.modifierGroups?.length ?? 0) > 0
+}
+
+export function getDefaultVariant(item: ItemOptions): MenuVariant | undefined {
+  return item.variants?.find((variant) => variant.isDefault) ?? item.variants?.[0]
+}
+
+// Preselects the default size and nothing else
+export function getDefaultSelection(item: ItemOptions): MenuItemSelection {
+  return { variantId: getDefaultVariant(item)?.id, modifierOptionIds: [] }
+}
+
+// Unit price for a selection: base price plus the variant and every chosen option
+export function getSelectionPrice(item: Pick<MenuItem, 'price' | 'variants' | 'modifierGroups'>, selection: MenuItemSelection): number {
+  const variant = item.variants?.find((candidate) => candidate.id === selection.variantId)
+  const modifiers = (item.modifierGroups ?? [])
+    .flatMap((group) => group.options)
+    .filter((option) => selection.modifierOptionIds.includes(option.id))
+  return item.price + (variant?.priceDelta ?? 0) + modifiers.reduce((sum, option) => sum + option.priceDelta, 0)
+}
+
+function countSelected(group: ModifierGroup, selection: MenuItemSelection): number {
+  return group.options.filter((option) => selection.modifierOptionIds.includes(option.id)).length
+}
+
+// Problems that block adding the selection to the cart, one message per rule broken.
+// The server applies the same rules, so this only saves a round trip.
+export function validateSelection(item: ItemOptions, selection: MenuItemSelection): string[] {
+  const errors: string[] = []
+  if (item.variants?.length && !item.variants.some((variant) => variant.id === selection.variantId)) {
+    errors.push('Choose a size')
+  }
+  const knownOptionIds = new Set((item.modifierGroups ?? []).flatMap((group) => group.options.map((option) => option.id)))
+  if (selection.modifierOptionIds.some((id) => !knownOptionIds.has(id))) {
+    errors.push('Some add-ons are no longer available')
+  }
+  for (const group of item.modifierGroups ?? []) {
+    const count = countSelected(group, selection)
+    if (count < group.minSelect) {
+      errors.push(group.minSelect === 1 ? `Choose an option for ${group.name}` : `Choose at least ${group.minSelect} for ${group.name}`)
+    } else if (count > group.maxSelect) {
+      errors.push(`Choose at most ${group.maxSelect} for ${group.name}`)
+    }
+  }
+  return errors
+}
+
+// Short description of the chosen size and add-ons for cart lines, e.g. "Large · Extra shot, Oat milk"
+export function describeSelection(item: ItemOptions, selection: MenuItemSelection): string {
+  const variant = item.variants?.find((candidate) => candidate.id === selection.variantId)
+  const modifiers = (item.modifierGroups ?? [])
+    .flatMap((group) => group.options)
+    .filter((option) => selection.modifierOptionIds.includes(option.id))
+    .map((option) => option.name)
+  return [variant?.name, modifiers.join(', ')].filter(Boolean).join(' · ')
+}
+
+// Cart lines merge only when the same item has the same options and note
+export function getSelectionKey(selection: MenuItemSelection): string {
+  return `${selection.variantId ?? ''}|${[...selection.modifierOptionIds].sort((a, b) => a - b).join(',')}`
+}
+
+// Same description for a placed order, as shown to staff, on the bill and to the customer
+export function describeOrderItemOptions(item: Pick<OrderItem, 'variantName' | 'modifiers'>): string {
+  const modifiers = (item.modifiers ?? []).map((modifier) => modifier.optionName)
+  return [item.variantName, modifiers.join(', ')].filter(Boolean).join(' · ')
+}
+
+// Admin-side checks on an item's option setup; the demo backend applies the same rules
+export function validateMenuItemOptions(input: Pick<MenuItemInput, 'variants' | 'modifierGroups'>): string[] {
+  const errors: string[] = []
+  const variants = input.variants ?? []
+  if (variants.some((variant) => !variant.name.trim())) errors.push('Every size needs a name')
+  if (variants.length > 0 && variants.filter((variant) => variant.isDefault).length !== 1) {
+    errors.push('Mark exactly one size as the default')
+  }
+  for (const group of input.modifierGroups ?? []) {
+    const label = group.name.trim() || 'Unnamed group'
+    if (!group.name.trim()) errors.push('Every add-on group needs a name')
+    if (group.options.length === 0) errors.push(`${label} has no options`)
+    if (group.options.some((option) => !option.name.trim())) errors.push(`Every option in ${label} needs a name`)
+    if (group.minSelect < 0 || group.maxSelect < 1 || group.minSelect > group.maxSelect) {
+      errors.push(`${label} needs 0 ≤ min ≤ max and max of at least 1`)
+    } else if (group.minSelect > group.options.length) {
+      errors.push(`${label} requires more choices than it offers`)
+    }
+  }
+  return errors
+}
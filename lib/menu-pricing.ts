@@ -0,0 +1,8 @@
+import type { BulkPriceChange } from './types'
+
+// Price after a bulk change, rounded to the rupee and never below zero.
+// Shared by the admin optimistic update and the demo backend so both agree.
+export function applyPriceChange(price: number, change: Pick<BulkPriceChange, 'mode' | 'value'>): number {
+  const next = change.mode === 'percent' ? price * (1 + change.value / 100) : price + change.value
+  return Math.max(0, Math.round(next))
+}
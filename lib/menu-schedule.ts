@@ -0,0 +1,152 @@
+import type { AvailabilityWindow, MenuCategory, MenuItem } from './types'
+
+// Schedules are written in the cafe's local time, whatever the customer's device says
+export const CAFE_TIME_ZONE = process.env.NEXT_PUBLIC_CAFE_TIMEZONE || 'Asia/Kolkata'
+
+const MINUTES_PER_DAY = 24 * 60
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// A point in the cafe's week: day 0 = Sunday, minutes since midnight
+export interface CafeClock {
+  day: number
+  minutes: number
+}
+
+export function toMinutes(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim())
+  if (!match) return null
+  const minutes = Number(match[1]) * 60 + Number(match[2])
+  return minutes < MINUTES_PER_DAY ? minutes : null
+}
+
+export function getCafeClock(now = new Date(), timeZone = CAFE_TIME_ZONE): CafeClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now)
+  const part = (type: string) => parts.find((entry) => entry.type === type)?.value ?? ''
+  return {
+    day: Math.max(0, WEEKDAYS.indexOf(part('weekday'))),
+    minutes: (Number(part('hour')) % 24) * 60 + Number(part('minute')),
+  }
+}
+
+// Today's date in the cafe as "YYYY-MM-DD" (en-CA formats dates that way)
+export function getCafeDate(now = new Date(), timeZone = CAFE_TIME_ZONE): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now)
+}
+
+// Today's "HH:MM" in the cafe as a timestamp
+export function cafeTimeToday(minutes: number, now = new Date()): Date {
+  const startOfMinute = Math.floor(now.getTime() / 60_000) * 60_000
+  return new Date(startOfMinute + (minutes - getCafeClock(now).minutes) * 60_000)
+}
+
+function addMinutes(clock: CafeClock, minutes: number): CafeClock {
+  const total = clock.day * MINUTES_PER_DAY + clock.minutes + minutes
+  const week = 7 * MINUTES_PER_DAY
+  const wrapped = ((total % week) + week) % week
+  return { day: Math.floor(wrapped / MINUTES_PER_DAY), minutes: wrapped % MINUTES_PER_DAY }
+}
+
+// Empty `days` means every day. Malformed or zero-length windows never match.
+function isInWindow(window: AvailabilityWindow, clock: CafeClock): boolean {
+  const from = toMinutes(window.from)
+  const until = toMinutes(window.until)
+  if (from === null || until === null || from === until) return false
+  const onDay = (day: number) => window.days.length === 0 || window.days.includes(day)
+  if (from < until) return onDay(clock.day) && clock.minutes >= from && clock.minutes < until
+  // Past midnight: the late part belongs to the previous day's window
+  return (onDay(clock.day) && clock.minutes >= from) || (onDay((clock.day + 6) % 7) && clock.minutes < until)
+}
+
+// A schedule is a list of windows, any of which opens it; no windows means always open
+export type Schedule = AvailabilityWindow[] | undefined
+
+function isScheduleOpen(schedule: Schedule, clock: CafeClock): boolean {
+  return !schedule?.length || schedule.some((window) => isInWindow(window, clock))
+}
+
+// Every schedule that applies to an item: its own, its category's windows and the
+// category's daily active hours. All of them must be open for it to be orderable.
+export function getItemSchedules(
+  item: Pick<MenuItem, 'availabilityWindows'>,
+  category?: Pick<MenuCategory, 'availabilityWindows' | 'activeFrom' | 'activeUntil'>,
+): Schedule[] {
+  return [item.availabilityWindows, category?.availabilityWindows, category && getActiveHoursSchedule(category)]
+}
+
+// A category's daily active hours as a schedule. Missing or malformed hours mean
+// all day; a window like 22:00-02:00 runs past midnight.
+export function getActiveHoursSchedule(category: Pick<MenuCategory, 'activeFrom' | 'activeUntil'>): Schedule {
+  const from = category.activeFrom ? toMinutes(category.activeFrom) : null
+  const until = category.activeUntil ? toMinutes(category.activeUntil) : null
+  if (from === null || until === null || from === until) return undefined
+  return [{ days: [], from: category.activeFrom!, until: category.activeUntil! }]
+}
+
+export function isScheduledNow(schedules: Schedule[], clock = getCafeClock()): boolean {
+  return schedules.every((schedule) => isScheduleOpen(schedule, clock))
+}
+
+// Minutes until every schedule is open at once, checking each window start over the
+// next week. Null when that never happens (e.g. item and category never overlap).
+export function minutesUntilOpen(schedules: Schedule[], clock = getCafeClock()): number | null {
+  if (isScheduledNow(schedules, clock)) return 0
+  const starts = new Set<number>()
+  for (const window of schedules.flatMap((schedule) => schedule ?? [])) {
+    const from = toMinutes(window.from)
+    if (from === null) continue
+    for (let dayOffset = 0; dayOffset <= 7; dayOffset++) {
+      const offset = dayOffset * MINUTES_PER_DAY + from - clock.minutes
+      if (offset > 0) starts.add(offset)
+    }
+  }
+  const candidates = [...starts].sort((a, b) => a - b)
+  return candidates.find((offset) => isScheduledNow(schedules, addMinutes(clock, offset))) ?? null
+}
+
+// "4 PM", "7:30 AM"
+export function formatClockTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const mins = minutes % 60
+  const suffix = hours < 12 ? 'AM' : 'PM'
+  const displayHours = hours % 12 || 12
+  return mins === 0 ? `${displayHours} ${suffix}` : `${displayHours}:${String(mins).padStart(2, '0')} ${suffix}`
+}
+
+// Customer-facing hint for a closed item: "Available from 4 PM", "Available tomorrow from 8 AM"
+export function describeNextOpening(schedules: Schedule[], clock = getCafeClock()): string {
+  const offset = minutesUntilOpen(schedules, clock)
+  if (offset === null) return 'Not available right now'
+  const opens = addMinutes(clock, offset)
+  const daysAhead = Math.floor((clock.minutes + offset) / MINUTES_PER_DAY)
+  const time = formatClockTime(opens.minutes)
+  if (daysAhead === 0) return `Available from ${time}`
+  if (daysAhead === 1) return `Available tomorrow from ${time}`
+  return `Available ${WEEKDAYS[opens.day]} from ${time}`
+}
+
+// Short summary for admin tables, e.g. "Mon, Tue 07:00–11:00" or "Daily 16:00–22:00"
+export function describeWindow(window: AvailabilityWindow): string {
+  const days = window.days.length === 0 || window.days.length === 7
+    ? 'Daily'
+    : [...window.days].sort((a, b) => a - b).map((day) => WEEKDAYS[day]).join(', ')
+  return `${days} ${window.from}–${window.until}`
+}
+
+// Admin-side checks; the demo backend applies the same rules
+export function validateAvailabilityWindows(windows: AvailabilityWindow[] | undefined): string[] {
+  const errors: string[] = []
+  for (const window of windows ?? []) {
+    const from = toMinutes(window.from)
+    const until = toMinutes(window.until)
+    if (from === null || until === null) errors.push('Availability times must be HH:MM')
+    else if (from === until) errors.push('Availability start and end must differ')
+    if (window.days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) errors.push('Unknown day of week')
+  }
+  return errors
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import { editDistance, getSearchSuggestion, searchMenu, type SearchableItem } from './menu-search'
+
+const MENU: SearchableItem[] = [
+  { id: 1, name: 'Cappuccino', description: 'Espresso with steamed milk and foam', category: 'Coffee' },
+  { id: 2, name: 'Latte', description: 'Espresso with plenty of steamed milk', category: 'Coffee' },
+  { id: 3, name: 'Cold Coffee', description: 'Chilled coffee blended with milk', category: 'Cold Drinks' },
+  { id: 4, name: 'Filter Coffee', description: 'South Indian style', category: 'Coffee' },
+  { id: 5, name: 'Masala Chai', description: 'Spiced milk tea', category: 'Tea' },
+  { id: 6, name: 'Iced Tea', description: 'Peach, served cold', category: 'Cold Drinks' },
+  { id: 7, name: 'French Fries', description: 'Salted and crispy', category: 'Snacks' },
+  { id: 8, name: 'Lime Soda', description: 'Fresh lime with a slice of lemon', category: 'Cold Drinks' },
+  { id: 9, name: 'Vanilla Ice Cream', description: 'Two scoops', category: 'Desserts' },
+  { id: 10, name: 'Hazelnut Caffelatte', description: 'Latte with hazelnut syrup', category: 'Coffee' },
+]
+
+const names = (query: string) => searchMenu(MENU, query).map((result) => result.item.name)
+
+describe('searchMenu', () => {
+  it('keeps every item in menu order for an empty query', () => {
+    expect(names('  ')).toEqual(MENU.map((item) => item.name))
+  })
+
+  it.each([
+    ['capuccino', 'Cappuccino'],
+    ['cold cofee', 'Cold Coffee'],
+    ['frys', 'French Fries'],
+    ['icecream', 'Vanilla Ice Cream'],
+    ['CAPPUCCINO', 'Cappuccino'],
+  ])('finds "%s" with %s first', (query, expected) => {
+    expect(names(query)[0]).toBe(expected)
+  })
+
+  it('finds items through synonyms, below direct matches', () => {
+    const coffee = names('coffee')
+    expect(coffee.slice(0, 2)).toEqual(['Cold Coffee', 'Filter Coffee'])
+    expect(coffee).toContain('Latte')
+    const latte = names('latte')
+    expect(latte[0]).toBe('Latte')
+    expect(latte).toContain('Cold Coffee')
+    expect(names('chai')).toEqual(expect.arrayContaining(['Masala Chai', 'Iced Tea']))
+  })
+
+  it('needs every word of the query to match', () => {
+    expect(names('cold coffee')).toEqual(['Cold Coffee'])
+    expect(names('coffee fries')).toEqual([])
+  })
+
+  it('does not match short words inside longer ones', () => {
+    // "tea" in "steamed", "ice" in "slice"
+    expect(names('tea')).not.toContain('Cappuccino')
+    expect(names('tea')).not.toContain('Latte')
+    expect(names('ice')).not.toContain('Lime Soda')
+    expect(names('ice')).toEqual(expect.arrayContaining(['Iced Tea', 'Vanilla Ice Cream']))
+  })
+
+  it('matches longer words inside names only', () => {
+    expect(names('latte')).toContain('Hazelnut Caffelatte')
+    expect(names('ream')).toEqual(['Vanilla Ice Cream'])
+    // "eamed" is inside "steamed", but only in descriptions
+    expect(names('eamed')).toEqual([])
+  })
+
+  it('ranks popular items higher among equal matches', () => {
+    expect(names('coffee')[0]).toBe('Cold Coffee')
+    const ranked = searchMenu(MENU, 'coffee', { 'Filter Coffee': 50, 'Cold Coffee': 5 })
+    expect(ranked[0].item.name).toBe('Filter Coffee')
+  })
+
+  it('highlights the matched part of the name', () => {
+    const [cold] = searchMenu(MENU, 'cold cof')
+    expect(cold.nameHighlights).toEqual([[0, 4], [5, 8]])
+  })
+})
+
+describe('getSearchSuggestion', () => {
+  it('suggests the closest menu words', () => {
+    expect(getSearchSuggestion(MENU, 'hazlenut')).toBe('hazelnut')
+    expect(getSearchSuggestion(MENU, 'masla chia')).toBe('masala chai')
+  })
+
+  it('keeps words that are already on the menu or synonyms', () => {
+    expect(getSearchSuggestion(MENU, 'latte')).toBeNull()
+    // Same stem as a menu word, so search already finds them
+    expect(getSearchSuggestion(MENU, 'capuccino')).toBeNull()
+    expect(getSearchSuggestion(MENU, 'frys')).toBeNull()
+  })
+
+  it('waits for at least three letters', () => {
+    expect(getSearchSuggestion(MENU, 'a')).toBeNull()
+    expect(getSearchSuggestion(MENU, 'te')).toBeNull()
+    expect(getSearchSuggestion(MENU, 'tae')).toBe('tea')
+  })
+
+  it('gives up when nothing is close', () => {
+    expect(getSearchSuggestion(MENU, 'pizza')).toBeNull()
+  })
+})
+
+describe('editDistance', () => {
+  it('counts a swap of neighbours as one edit', () => {
+    expect(editDistance('cofefe', 'coffee')).toBe(1)
+    expect(editDistance('latte', 'latte')).toBe(0)
+    expect(editDistance('tea', '')).toBe(3)
+  })
+})
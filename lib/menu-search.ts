@@ -0,0 +1,283 @@
+import type { OrdersTopItem } from './types'
+
+// Customer menu search: typo-tolerant, synonym-aware and ranked, shared by the
+// desktop grid and the mobile list so both find the same items.
+
+export interface SearchableItem {
+  id: number
+  name: string
+  description: string
+  category: string
+}
+
+// [start, end) character offsets into the item name
+export type HighlightRange = [number, number]
+
+export interface MenuSearchResult<T> {
+  item: T
+  score: number
+  nameHighlights: HighlightRange[]
+}
+
+// Words customers use interchangeably; a synonym hit ranks below a direct one
+const SYNONYM_GROUPS = [
+  ['coffee', 'latte', 'cappuccino', 'espresso', 'americano', 'mocha', 'kaapi'],
+  ['tea', 'chai'],
+  ['fries', 'chips', 'frenchfries'],
+  ['shake', 'milkshake', 'smoothie'],
+  ['icecream', 'gelato', 'kulfi'],
+  ['cold', 'iced', 'chilled'],
+  ['lime', 'lemon', 'nimbu'],
+  ['veg', 'vegetarian', 'veggie'],
+  ['sandwich', 'sub', 'toastie'],
+]
+
+const SYNONYM_WEIGHT = 0.8
+// Matches in the name count more than in the category or description
+const FIELD_WEIGHTS = { name: 1, category: 0.6, description: 0.4 }
+// The best-selling item ranks up to this much higher than an equally good match
+const POPULARITY_BOOST = 0.2
+// Matches inside a word ("latte" in "Caffelatte") only count in the name and for
+// terms this long; shorter ones hit too much ("tea" in "steamed", "ice" in "slice")
+const MIN_INFIX_LENGTH = 4
+// Shorter queries are still being typed, so no "did you mean"
+const MIN_SUGGESTION_LENGTH = 3
+
+interface Word {
+  text: string
+  stem: string
+  start: number
+  end: number
+}
+
+interface IndexedItem<T> {
+  item: T
+  name: Word[]
+  category: Word[]
+  description: Word[]
+  normalizedName: string
+}
+
+const WORD_PATTERN = /[a-z0-9\u00c0-\u024f]+/gi
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+}
+
+// Drops plurals and doubled letters so "frys", "fries" and "cofee", "coffee" meet
+function stem(word: string): string {
+  let base = word
+  if (base.length > 4 && base.endsWith('ies')) base = `${base.slice(0, -3)}y`
+  else if (base.length > 3 && base.endsWith('s') && !base.endsWith('ss')) base = base.slice(0, -1)
+  return base.replace(/(.)\1+/g, '$1')
+}
+
+function splitWords(text: string): Word[] {
+  return (text.match(WORD_PATTERN) ?? []).reduce<Word[]>((words, raw) => {
+    const start = text.indexOf(raw, words.length > 0 ? words[words.length - 1].end : 0)
+    const normalized = normalize(raw)
+    words.push({ text: normalized, stem: stem(normalized), start, end: start + raw.length })
+    return words
+  }, [])
+}
+
+// Words plus neighbouring pairs joined, so "icecream" finds "Ice Cream"
+function toWords(text: string): Word[] {
+  const words = splitWords(text)
+  const pairs = words.slice(1).map((word, index) => {
+    const joined = words[index].text + word.text
+    return { text: joined, stem: stem(joined), start: words[index].start, end: word.end }
+  })
+  return [...words, ...pairs]
+}
+
+function toTerms(query: string): string[] {
+  return splitWords(query).map((word) => word.text)
+}
+
+// Optimal string alignment distance: edits plus swapped neighbours ("cofefe")
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)])
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return rows[a.length][b.length]
+}
+
+// Longer words tolerate more typos; very short ones must be typed exactly
+function allowedTypos(term: string): number {
+  if (term.length <= 3) return 0
+  return term.length <= 5 ? 1 : 2
+}
+
+// 0 for no match, up to 1 for an exact word. Synonyms skip typo matching,
+// which would otherwise drift too far from what was typed.
+function scoreWord(term: string, word: Word, fuzzy: boolean, infix: boolean): number {
+  if (word.text === term) return 1
+  const termStem = stem(term)
+  if (word.stem === termStem) return 0.95
+  if (word.text.startsWith(term)) return term.length === 1 ? 0.5 : 0.9
+  if (term.length < 3) return 0
+  if (word.stem.startsWith(termStem)) return 0.85
+  if (infix && term.length >= MIN_INFIX_LENGTH && word.text.includes(term)) return 0.7
+
+  const typos = allowedTypos(termStem)
+  if (!fuzzy || typos === 0) return 0
+  const distance = editDistance(termStem, word.stem)
+  if (distance <= typos) return 0.8 - 0.1 * distance
+  // Half-typed words with a typo: "capuc" for "Cappuccino"
+  if (termStem.length >= 5 && word.stem.length > termStem.length) {
+    const prefixDistance = editDistance(termStem, word.stem.slice(0, termStem.length))
+    if (prefixDistance <= typos) return 0.6 - 0.1 * prefixDistance
+  }
+  return 0
+}
+
+function synonymsOf(term: string): string[] {
+  const termStem = stem(term)
+  const group = SYNONYM_GROUPS.find((words) => words.some((word) => stem(word) === termStem))
+  return group ? group.filter((word) => stem(word) !== termStem) : []
+}
+
+function bestInField(term: string, words: Word[], fuzzy: boolean, infix = false): { score: number; word?: Word } {
+  let best: { score: number; word?: Word } = { score: 0 }
+  words.forEach((word) => {
+    const score = scoreWord(term, word, fuzzy, infix)
+    if (score > best.score) best = { score, word }
+  })
+  return best
+}
+
+function scoreTerm<T>(term: string, entry: IndexedItem<T>, highlights: HighlightRange[]): number {
+  let best = 0
+  const candidates = [
+    { text: term, weight: 1 },
+    ...synonymsOf(term).map((text) => ({ text, weight: SYNONYM_WEIGHT })),
+  ]
+  candidates.forEach(({ text, weight }) => {
+    const fuzzy = weight === 1
+    const name = bestInField(text, entry.name, fuzzy, true)
+    if (name.word) {
+      const { start, end } = name.word
+      // Highlight just the typed part of a prefix match
+      highlights.push(fuzzy && name.word.text.startsWith(text) ? [start, start + text.length] : [start, end])
+    }
+    best = Math.max(
+      best,
+      name.score * FIELD_WEIGHTS.name * weight,
+      bestInField(text, entry.category, fuzzy).score * FIELD_WEIGHTS.category * weight,
+      bestInField(text, entry.description, fuzzy).score * FIELD_WEIGHTS.description * weight,
+    )
+  })
+  return best
+}
+
+function mergeRanges(ranges: HighlightRange[]): HighlightRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  return sorted.reduce<HighlightRange[]>((merged, range) => {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1])
+    else merged.push([range[0], range[1]])
+    return merged
+  }, [])
+}
+
+// Menu items keep their identity between renders, so each is split into words once
+const indexCache = new WeakMap<SearchableItem, IndexedItem<SearchableItem>>()
+
+function indexItem<T extends SearchableItem>(item: T): IndexedItem<T> {
+  const cached = indexCache.get(item)
+  if (cached) return cached as IndexedItem<T>
+  const entry = {
+    item,
+    name: toWords(item.name),
+    category: toWords(item.category),
+    description: toWords(item.description),
+    normalizedName: normalize(item.name).trim(),
+  }
+  indexCache.set(item, entry)
+  return entry
+}
+
+// Units sold per item name, from the dashboard's fast-moving items
+export function getPopularityByName(topItems: OrdersTopItem[]): Record<string, number> {
+  return Object.fromEntries(topItems.map((entry) => [entry.item_name, entry.total_quantity]))
+}
+
+// Items matching every word of the query, best first. An empty query keeps
+// every item in menu order.
+export function searchMenu<T extends SearchableItem>(
+  items: T[],
+  query: string,
+  popularity: Record<string, number> = {},
+): MenuSearchResult<T>[] {
+  const terms = toTerms(query)
+  if (terms.length === 0) return items.map((item) => ({ item, score: 0, nameHighlights: [] }))
+
+  const normalizedQuery = normalize(query).trim()
+  const maxSold = Math.max(1, ...Object.values(popularity))
+
+  const results: MenuSearchResult<T>[] = []
+  items.forEach((item) => {
+    const entry = indexItem(item)
+    const highlights: HighlightRange[] = []
+    const termScores = terms.map((term) => scoreTerm(term, entry, highlights))
+    if (termScores.some((score) => score === 0)) return
+
+    let score = termScores.reduce((sum, value) => sum + value, 0) / terms.length
+    if (entry.normalizedName === normalizedQuery) score += 0.5
+    else if (entry.normalizedName.startsWith(normalizedQuery)) score += 0.3
+    score *= 1 + POPULARITY_BOOST * ((popularity[item.name] ?? 0) / maxSold)
+
+    results.push({ item, score, nameHighlights: mergeRanges(highlights) })
+  })
+  // Array.prototype.sort is stable, so equal scores keep menu order
+  return results.sort((a, b) => b.score - a.score)
+}
+
+// "Did you mean" for a query with no hits: each misspelt word swapped for the
+// closest word on the menu. Null when nothing close enough finds any items.
+export function getSearchSuggestion<T extends SearchableItem>(items: T[], query: string): string | null {
+  const terms = toTerms(query)
+  if (terms.join('').length < MIN_SUGGESTION_LENGTH) return null
+
+  const vocabulary = new Map<string, number>()
+  items.forEach((item) => {
+    ;[...toWords(item.name), ...toWords(item.category)]
+      .filter((word) => word.text.length >= 3)
+      .forEach((word) => vocabulary.set(word.text, (vocabulary.get(word.text) ?? 0) + 1))
+  })
+
+  let changed = false
+  const suggested = terms.map((term) => {
+    // Words spelled as on the menu (or known synonyms) stay as typed, and so do
+    // words too short to guess from
+    if (
+      term.length < MIN_SUGGESTION_LENGTH ||
+      synonymsOf(term).length > 0 ||
+      [...vocabulary.keys()].some((word) => word.startsWith(term))
+    ) return term
+    let best: { word: string; distance: number; uses: number } | null = null
+    vocabulary.forEach((uses, word) => {
+      const distance = editDistance(term, word)
+      if (!best || distance < best.distance || (distance === best.distance && uses > best.uses)) {
+        best = { word, distance, uses }
+      }
+    })
+    const closest = best as { word: string; distance: number } | null
+    if (!closest || closest.distance > Math.max(2, Math.floor(term.length / 2))) return null
+    changed = true
+    return closest.word
+  })
+
+  if (!changed || suggested.some((term) => term === null)) return null
+  const suggestion = suggested.join(' ')
+  return searchMenu(items, suggestion).length > 0 ? suggestion : null
+}
@@ -0,0 +1,64 @@
+import type { MenuItem } from './types'
+
+// Last successful menu response, persisted in IndexedDB so the customer page can
+// still show a real (if dated) menu when the API is unreachable.
+
+export interface MenuSnapshot {
+  items: MenuItem[]
+  // When the menu was fetched (ms since epoch)
+  savedAt: number
+}
+
+const DB_NAME = 'cafe-offline'
+const DB_VERSION = 1
+const STORE_NAME = 'snapshots'
+const MENU_KEY = 'menu'
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'))
+      return
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function saveMenuSnapshot(items: MenuItem[]): Promise<void> {
+  try {
+    const snapshot: MenuSnapshot = { items, savedAt: Date.now() }
+    await withStore('readwrite', (store) => store.put(snapshot, MENU_KEY))
+  } catch (error) {
+    console.warn('Could not save offline menu:', error)
+  }
+}
+
+export async function loadMenuSnapshot(): Promise<MenuSnapshot | null> {
+  try {
+    const snapshot = await withStore<MenuSnapshot | undefined>('readonly', (store) => store.get(MENU_KEY))
+    return snapshot && Array.isArray(snapshot.items) ? snapshot : null
+  } catch (error) {
+    console.warn('Could not load offline menu:', error)
+    return null
+  }
+}
@@ -0,0 +1,26 @@
+// Short two-tone chime for new orders, generated with Web Audio so no sound asset is needed.
+// Browsers only allow audio after the page has had a user gesture (e.g. logging in).
+let audioContext: AudioContext | null = null
+
+export function playNewOrderChime() {
+  if (typeof window === 'undefined' || typeof window.AudioContext === 'undefined') return
+  try {
+    audioContext = audioContext || new window.AudioContext()
+    const now = audioContext.currentTime
+    ;[880, 1320].forEach((frequency, index) => {
+      const start = now + index * 0.18
+      const oscillator = audioContext!.createOscillator()
+      const gain = audioContext!.createGain()
+      oscillator.type = 'sine'
+      oscillator.frequency.value = frequency
+      gain.gain.setValueAtTime(0.0001, start)
+      gain.gain.exponentialRampToValueAtTime(0.3, start + 0.02)
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.16)
+      oscillator.connect(gain).connect(audioContext!.destination)
+      oscillator.start(start)
+      oscillator.stop(start + 0.18)
+    })
+  } catch (error) {
+    console.warn('Could not play new order chime:', error)
+  }
+}
@@ -1,9 +1,15 @@
+import { z } from 'zod'
 import type {
-  ApiResponse,
   BackendOrder,
+  BackendOrderItem,
+  BackendOrderTracking,
+  BackendPickupSlot,
   Order,
+  OrderItem,
+  OrderTracking,
   OrderStats,
   OrderSubmission,
+  OrderType,
   OrderStatusUpdate,
   PaymentStatusUpdate,
   OrderCancellation,
@@ -11,10 +17,39 @@ import type {
   RevenueStats,
   DashboardStats,
   OrdersInsights,
+  OrdersTopItem,
+  OrderEvent,
+  OrderEventType,
+  PickupSlot,
 } from './types'
-
-// API Configuration
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api/v1'
+import {
+  apiBlob,
+  apiData,
+  apiRequest,
+  openEventStream,
+  saveBlob,
+  type RequestOptions,
+  type StreamStatus,
+} from './api-client'
+import {
+  backendOrderSchema,
+  backendOrderTrackingSchema,
+  backendPickupSlotSchema,
+  orderStatsSchema,
+  revenueStatsSchema,
+  dashboardStatsSchema,
+  ordersInsightsSchema,
+  topItemSchema,
+} from './schemas'
+import { invalidateQueries } from './query-cache'
+
+const ordersSchema = z.array(backendOrderSchema)
+
+// Cached order lists and stats are stale after any order mutation or live event
+export function invalidateOrderQueries() {
+  invalidateQueries('/orders')
+  invalidateQueries('/stats')
+}
 
 // Helper function to transform backend order to frontend format
 function transformOrder(backendOrder: BackendOrder): Order {
@@ -35,90 +70,79 @@ function transformOrder(backendOrder: BackendOrder): Order {
     cancelledAt: backendOrder.cancelled_at || undefined,
     cancelledReason: backendOrder.cancelled_reason || undefined,
     cancelledBy: backendOrder.cancelled_by || undefined,
-    items: backendOrder.items.map(item => ({
-      id: item.id,
-      itemName: item.item_name,
-      itemPrice: item.item_price,
-      quantity: item.quantity,
-      specialInstructions: item.special_instructions || undefined,
-      subtotal: item.subtotal
-    })),
+    orderType: backendOrder.order_type ?? 'dine_in',
+    pickupTime: backendOrder.pickup_time || undefined,
+    deliveryFee: backendOrder.delivery_fee || undefined,
+    tableNumber: backendOrder.table_number ?? undefined,
+    branchName: backendOrder.branch_name || undefined,
+    items: backendOrder.items.map(transformOrderItem),
     createdAt: backendOrder.created_at,
-    updatedAt: backendOrder.updated_at
+    updatedAt: backendOrder.updated_at,
+    trackingToken: backendOrder.tracking_token
   }
 }
 
-export async function checkItemsAvailability(itemIds: number[]): Promise<boolean> {
-  try {
-    // Try GET first
-    console.log('Trying GET test...');
-    const getResponse = await fetch(`${API_BASE_URL}/menu/test`, {
-      method: 'GET',
-    });
-    console.log('GET response:', getResponse.status);
-    
-    // Then try POST
-    console.log('Trying POST test...');
-    const postResponse = await fetch(`${API_BASE_URL}/menu/test`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ itemIds }),
-    });
-    console.log('POST response:', postResponse.status);
-
-    if (!postResponse.ok) {
-      const errorData = await postResponse.json();
-      console.error('Error response:', errorData);
-      throw new Error(errorData.message || 'Failed to check item availability');
-    }
+function transformOrderItem(item: BackendOrderItem): OrderItem {
+  return {
+    id: item.id,
+    itemName: item.item_name,
+    itemPrice: item.item_price,
+    quantity: item.quantity,
+    specialInstructions: item.special_instructions || undefined,
+    subtotal: item.subtotal,
+    variantName: item.variant_name || undefined,
+    modifiers: item.modifiers?.map(modifier => ({
+      groupName: modifier.group_name,
+      optionName: modifier.option_name,
+      priceDelta: modifier.price_delta
+    })),
+    comboId: item.combo_id ?? undefined,
+    components: item.components?.map(component => ({
+      menuItemId: component.menu_item_id,
+      itemName: component.item_name,
+      quantity: component.quantity
+    }))
+  }
+}
 
-    const availabilityResponse = await postResponse.json();
-    console.log('Success response:', availabilityResponse);
-    return true; // For testing
-  } catch (error) {
-    console.error('Error checking item availability:', error);
-    throw error;
+function transformOrderTracking(tracking: BackendOrderTracking): OrderTracking {
+  return {
+    id: tracking.id,
+    orderStatus: tracking.order_status,
+    orderType: tracking.order_type,
+    orderDate: tracking.order_date,
+    pickupTime: tracking.pickup_time || undefined,
+    estimatedDeliveryTime: tracking.estimated_delivery_time || undefined,
+    cancelledReason: tracking.cancelled_reason || undefined,
+    items: tracking.items.map(transformOrderItem)
   }
 }
 
 export async function placeOrder(orderData: OrderSubmission): Promise<Order> {
-  try {
-    console.log('Placing order with data:', orderData);
-    
-    // Proceed with order placement
-    const response = await fetch(`${API_BASE_URL}/orders`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(orderData),
-    })
-
-    console.log('Order API response status:', response.status);
-
-    if (!response.ok) {
-      const errorData = await response.json()
-      console.error('Order API error:', errorData);
-      throw new Error(errorData.message || `HTTP error! status: ${response.status}`)
-    }
-
-    const apiResponse: ApiResponse<BackendOrder> = await response.json()
-    console.log('Order API success response:', apiResponse);
-
-    if (!apiResponse.success) {
-      throw new Error(apiResponse.message || 'Failed to place order')
-    }
+  const order = await apiData<BackendOrder>('/orders', {
+    method: 'POST',
+    body: orderData,
+    schema: backendOrderSchema,
+    errorMessage: 'Failed to place order',
+  })
+  invalidateOrderQueries()
+
+  return transformOrder(order)
+}
 
-    const transformedOrder = transformOrder(apiResponse.data);
-    console.log('Transformed order:', transformedOrder);
-    
-    return transformedOrder;
-  } catch (error) {
-    console.error('Error placing order:', error)
-    throw error
-  }
+// Pickup slots left today with how many orders each has taken (customer, no auth)
+export async function fetchPickupSlots(): Promise<PickupSlot[]> {
+  const slots = await apiData<BackendPickupSlot[]>('/orders/pickup-slots', {
+    auth: false,
+    schema: z.array(backendPickupSlotSchema),
+    errorMessage: 'Failed to fetch pickup slots',
+  })
+  return slots.map((slot) => ({
+    start: slot.start,
+    capacity: slot.capacity,
+    booked: slot.booked,
+    remaining: Math.max(0, slot.capacity - slot.booked),
+  }))
 }
 
 // Get all orders (admin)
@@ -128,6 +152,9 @@ export async function fetchAllOrders(params?: {
   status?: string
   paymentStatus?: string
   paymentMethod?: string
+  orderType?: OrderType
+  // 'scheduled': orders held until shortly before pickup; 'active': everything else
+  queue?: 'scheduled' | 'active'
   phone?: string
   customerName?: string
   sortBy?: string
@@ -136,302 +163,233 @@ export async function fetchAllOrders(params?: {
   orderId?: string | number
   orderNumber?: string | number
   item?: string
-}): Promise<{
+}, requestOptions?: Pick<RequestOptions, 'onRetry' | 'signal'>): Promise<{
   orders: Order[]
   totalCount: number
   totalPages: number
   currentPage: number
 }> {
-  try {
-    const queryParams = new URLSearchParams()
-    if (params?.page) queryParams.append('page', params.page.toString())
-    if (params?.limit) queryParams.append('limit', params.limit.toString())
-    if (params?.status) queryParams.append('status', params.status)
-    if (params?.paymentStatus) queryParams.append('paymentStatus', params.paymentStatus)
-    if (params?.phone) queryParams.append('phone', params.phone)
-    if (params?.customerName) queryParams.append('customerName', params.customerName)
-    if (params?.paymentMethod) queryParams.append('paymentMethod', params.paymentMethod)
-    if (params?.sortBy) queryParams.append('sortBy', params.sortBy)
-    if (params?.order) queryParams.append('order', params.order)
-    if (params?.includeCancelled !== undefined) queryParams.append('includeCancelled', params.includeCancelled.toString())
-    if (params?.orderId !== undefined) queryParams.append('orderId', String(params.orderId))
-    if (params?.orderNumber !== undefined) queryParams.append('orderNumber', String(params.orderNumber))
-    if (params?.item) queryParams.append('item', params.item)
-
-    const url = `${API_BASE_URL}/orders${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-
-    const apiResponse: OrdersListResponse = await response.json()
-
-    if (!apiResponse.success) {
-      throw new Error(apiResponse.message || 'Failed to fetch orders')
-    }
+  const apiResponse = await apiRequest<OrdersListResponse>('/orders', {
+    query: {
+      page: params?.page,
+      limit: params?.limit,
+      status: params?.status,
+      paymentStatus: params?.paymentStatus,
+      phone: params?.phone,
+      customerName: params?.customerName,
+      paymentMethod: params?.paymentMethod,
+      orderType: params?.orderType,
+      queue: params?.queue,
+      sortBy: params?.sortBy,
+      order: params?.order,
+      includeCancelled: params?.includeCancelled,
+      orderId: params?.orderId,
+      orderNumber: params?.orderNumber,
+      item: params?.item,
+    },
+    schema: ordersSchema,
+    errorMessage: 'Failed to fetch orders',
+    ...requestOptions,
+  })
 
-    return {
-      orders: apiResponse.data.map(transformOrder),
-      totalCount: apiResponse.totalCount,
-      totalPages: apiResponse.totalPages,
-      currentPage: apiResponse.currentPage
-    }
-  } catch (error) {
-    console.error('Error fetching orders:', error)
-    throw error
+  return {
+    orders: apiResponse.data.map(transformOrder),
+    totalCount: apiResponse.totalCount,
+    totalPages: apiResponse.totalPages,
+    currentPage: apiResponse.currentPage
   }
 }
 
 // Get orders by phone (customer)
 export async function fetchOrdersByPhone(phone: string, includeCancelled: boolean = false): Promise<Order[]> {
-  try {
-    const queryParams = new URLSearchParams()
-    if (includeCancelled) queryParams.append('includeCancelled', 'true')
-
-    const url = `${API_BASE_URL}/orders/customer/${phone}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-
-    const apiResponse: ApiResponse<BackendOrder[]> = await response.json()
-
-    if (!apiResponse.success) {
-      throw new Error(apiResponse.message || 'Failed to fetch orders')
-    }
-
-    return apiResponse.data.map(transformOrder)
-  } catch (error) {
-    console.error('Error fetching orders by phone:', error)
-    throw error
-  }
+  const orders = await apiData<BackendOrder[]>(`/orders/customer/${encodeURIComponent(phone)}`, {
+    query: { includeCancelled: includeCancelled || undefined },
+    schema: ordersSchema,
+    errorMessage: 'Failed to fetch orders',
+  })
+  return orders.map(transformOrder)
 }
 
 // Update order status
 export async function updateOrderStatus(orderId: string, statusUpdate: OrderStatusUpdate): Promise<void> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/orders/${orderId}/status`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        status: statusUpdate.status,
-        changedBy: statusUpdate.changedBy || 'admin',
-        notes: statusUpdate.notes
-      }),
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json()
-      throw new Error(errorData.message || `HTTP error! status: ${response.status}`)
-    }
-
-    const apiResponse: ApiResponse<any> = await response.json()
-
-    if (!apiResponse.success) {
-      throw new Error(apiResponse.message || 'Failed to update order status')
-    }
-  } catch (error) {
-    console.error('Error updating order status:', error)
-    throw error
-  }
+  await apiRequest(`/orders/${orderId}/status`, {
+    method: 'PUT',
+    body: {
+      status: statusUpdate.status,
+      changedBy: statusUpdate.changedBy || 'admin',
+      notes: statusUpdate.notes
+    },
+    errorMessage: 'Failed to update order status',
+  })
+  invalidateOrderQueries()
 }
 
 // Update payment status
 export async function updatePaymentStatus(orderId: string, paymentUpdate: PaymentStatusUpdate): Promise<void> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/orders/${orderId}/payment`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        paymentStatus: paymentUpdate.paymentStatus,
-        paymentMethod: paymentUpdate.paymentMethod,
-        notes: paymentUpdate.notes
-      }),
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json()
-      throw new Error(errorData.message || `HTTP error! status: ${response.status}`)
-    }
-
-    const apiResponse: ApiResponse<any> = await response.json()
-
-    if (!apiResponse.success) {
-      throw new Error(apiResponse.message || 'Failed to update payment status')
-    }
-  } catch (error) {
-    console.error('Error updating payment status:', error)
-    throw error
-  }
+  await apiRequest(`/orders/${orderId}/payment`, {
+    method: 'PUT',
+    body: {
+      paymentStatus: paymentUpdate.paymentStatus,
+      paymentMethod: paymentUpdate.paymentMethod,
+      notes: paymentUpdate.notes
+    },
+    errorMessage: 'Failed to update payment status',
+  })
+  invalidateOrderQueries()
 }
 
 export async function cancelOrder(orderId: string, cancellation: OrderCancellation): Promise<void> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/orders/${orderId}/cancel`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(cancellation),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.message || 'Failed to cancel order');
-    }
-
-    const apiResponse = await response.json();
-
-    if (!apiResponse.success) {
-      throw new Error(apiResponse.message || 'Failed to cancel order');
-    }
-  } catch (error) {
-    console.error('Error cancelling order:', error);
-    throw error;
-  }
-} 
+  await apiRequest(`/orders/${orderId}/cancel`, {
+    method: 'POST',
+    body: cancellation,
+    errorMessage: 'Failed to cancel order',
+  })
+  invalidateOrderQueries()
+}
 
 // Add this function to fetch order stats
 export async function fetchOrderStats(): Promise<OrderStats> {
-  try {
-    const token = localStorage.getItem("token") || sessionStorage.getItem("token");
-
-    // Correct path based on backend route: router.get('/stats/orders', ...)
-    // and orders router mounted at /api/v1/orders
-    const response = await fetch(`${API_BASE_URL}/orders/stats/orders`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(token && { Authorization: `Bearer ${token}` }),
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const apiResponse: ApiResponse<OrderStats> = await response.json();
-
-    if (!apiResponse.success) {
-      throw new Error(apiResponse.message || 'Failed to fetch order statistics');
-    }
-
-    return apiResponse.data;
-  } catch (error) {
-    console.error('Error fetching order statistics:', error);
-    throw error;
-  }
+  // Correct path based on backend route: router.get('/stats/orders', ...)
+  // and orders router mounted at /api/v1/orders
+  return apiData<OrderStats>('/orders/stats/orders', {
+    schema: orderStatsSchema,
+    errorMessage: 'Failed to fetch order statistics',
+  })
 }
 
 // Fetch paid-only revenue stats (daily and monthly)
 export async function fetchRevenueStats(): Promise<RevenueStats> {
-  try {
-    const token = localStorage.getItem("token") || sessionStorage.getItem("token");
-    const response = await fetch(`${API_BASE_URL}/stats/revenue`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(token && { Authorization: `Bearer ${token}` }),
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const apiResponse: ApiResponse<RevenueStats> = await response.json();
-    if (!apiResponse.success) {
-      throw new Error(apiResponse.message || 'Failed to fetch revenue statistics');
-    }
-    return apiResponse.data;
-  } catch (error) {
-    console.error('Error fetching revenue statistics:', error);
-    throw error;
-  }
+  return apiData<RevenueStats>('/stats/revenue', {
+    schema: revenueStatsSchema,
+    errorMessage: 'Failed to fetch revenue statistics',
+  })
 }
 
 // Fetch dashboard stats (pending, unpaid counts and amount, completed, fast-moving top 20)
 export async function fetchDashboardStats(): Promise<DashboardStats> {
-  try {
-    const token = localStorage.getItem('token') || sessionStorage.getItem('token');
-    const response = await fetch(`${API_BASE_URL}/stats/dashboard`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(token && { Authorization: `Bearer ${token}` }),
-      },
-    });
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    const apiResponse: ApiResponse<DashboardStats> = await response.json();
-    if (!apiResponse.success) {
-      throw new Error(apiResponse.message || 'Failed to fetch dashboard statistics');
-    }
-    return apiResponse.data;
-  } catch (error) {
-    console.error('Error fetching dashboard statistics:', error);
-    throw error;
-  }
+  return apiData<DashboardStats>('/stats/dashboard', {
+    schema: dashboardStatsSchema,
+    errorMessage: 'Failed to fetch dashboard statistics',
+  })
+}
+
+// Best sellers from the dashboard stats, public so customer search can rank by them
+export async function fetchPopularItems(): Promise<OrdersTopItem[]> {
+  return apiData<OrdersTopItem[]>('/stats/popular-items', {
+    auth: false,
+    schema: z.array(topItemSchema),
+    errorMessage: 'Failed to fetch popular items',
+  })
 }
 
 // Download dashboard CSV export
 export async function downloadDashboardExport(): Promise<void> {
-  const token = localStorage.getItem('token') || sessionStorage.getItem('token');
-  const response = await fetch(`${API_BASE_URL}/stats/dashboard/export`, {
-    method: 'GET',
-    headers: {
-      ...(token && { Authorization: `Bearer ${token}` }),
-    },
-  });
-  if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-  const blob = await response.blob();
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = `cafe-dashboard-export-${new Date().toISOString().split('T')[0]}.csv`;
-  a.click();
-  URL.revokeObjectURL(url);
+  const blob = await apiBlob('/stats/dashboard/export')
+  saveBlob(blob, `cafe-dashboard-export-${new Date().toISOString().split('T')[0]}.csv`)
 }
 
 // Fetch completed orders insights for a period (defaults to current month)
 export async function fetchOrdersInsights(params?: { start?: string; end?: string }): Promise<OrdersInsights> {
-  const qs = new URLSearchParams()
-  if (params?.start) qs.set('start', params.start)
-  if (params?.end) qs.set('end', params.end)
-  const response = await fetch(`${API_BASE_URL}/stats/orders-insights${qs.toString() ? `?${qs.toString()}` : ''}`)
-  if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`)
-  const apiResponse: ApiResponse<OrdersInsights> = await response.json()
-  if (!apiResponse.success) throw new Error(apiResponse.message || 'Failed to fetch orders insights')
-  return apiResponse.data
+  return apiData<OrdersInsights>('/stats/orders-insights', {
+    schema: ordersInsightsSchema,
+    query: { start: params?.start, end: params?.end },
+    errorMessage: 'Failed to fetch orders insights',
+  })
 }
 
 // Fetch paid sales insights (paid-only, regardless of order status)
 export async function fetchSalesInsights(params?: { start?: string; end?: string }): Promise<OrdersInsights> {
-  const qs = new URLSearchParams()
-  if (params?.start) qs.set('start', params.start)
-  if (params?.end) qs.set('end', params.end)
-  const response = await fetch(`${API_BASE_URL}/stats/sales${qs.toString() ? `?${qs.toString()}` : ''}`)
-  if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`)
-  const apiResponse: ApiResponse<OrdersInsights> = await response.json()
-  if (!apiResponse.success) throw new Error(apiResponse.message || 'Failed to fetch sales insights')
-  return apiResponse.data
-}
\ No newline at end of file
+  return apiData<OrdersInsights>('/stats/sales', {
+    schema: ordersInsightsSchema,
+    query: { start: params?.start, end: params?.end },
+    errorMessage: 'Failed to fetch sales insights',
+  })
+}
+
+// Public tracking view of a single order (customer, no auth). The token comes from placeOrder.
+export async function fetchOrderTracking(orderId: string | number, trackingToken: string): Promise<OrderTracking> {
+  const tracking = await apiData<BackendOrderTracking>(`/orders/${orderId}/track`, {
+    auth: false,
+    query: { trackingToken },
+    schema: backendOrderTrackingSchema,
+    errorMessage: 'Failed to fetch order status',
+  })
+  return transformOrderTracking(tracking)
+}
+
+// Live updates for one order (customer). Calls onOrder with the latest tracking view on every change.
+export function subscribeToOrderTracking(
+  orderId: string | number,
+  trackingToken: string,
+  onOrder: (order: OrderTracking) => void,
+  onStatusChange?: (status: StreamStatus) => void,
+): () => void {
+  return openEventStream(`/orders/${orderId}/track/stream`, {
+    auth: false,
+    query: { trackingToken },
+    events: ['status-changed', 'payment-changed', 'cancelled'],
+    onEvent: (type, data) => {
+      const result = backendOrderTrackingSchema.safeParse(data)
+      if (!result.success) {
+        console.error('Ignoring invalid order tracking event:', { type, issues: result.error.issues })
+        return
+      }
+      onOrder(transformOrderTracking(result.data))
+    },
+    onStatusChange,
+  })
+}
+
+// Live order feed (admin). One shared SSE connection stays open while anyone is subscribed.
+const ORDER_EVENT_TYPES: OrderEventType[] = ['order-created', 'status-changed', 'payment-changed', 'cancelled']
+
+type OrderEventListener = (event: OrderEvent) => void
+type OrderStreamStatusListener = (status: StreamStatus) => void
+
+const orderEventListeners = new Set<OrderEventListener>()
+const orderStreamStatusListeners = new Set<OrderStreamStatusListener>()
+let orderStreamStatus: StreamStatus = 'closed'
+let closeOrderStream: (() => void) | null = null
+
+function handleOrderStreamEvent(type: string, data: unknown) {
+  const result = backendOrderSchema.safeParse(data)
+  if (!result.success) {
+    console.error('Ignoring invalid order event:', { type, issues: result.error.issues })
+    return
+  }
+  const event: OrderEvent = { type: type as OrderEventType, order: transformOrder(result.data) }
+  orderEventListeners.forEach((listener) => listener(event))
+}
+
+function setOrderStreamStatus(status: StreamStatus) {
+  orderStreamStatus = status
+  orderStreamStatusListeners.forEach((listener) => listener(status))
+}
+
+export function subscribeToOrderEvents(
+  onEvent: OrderEventListener,
+  onStatusChange?: OrderStreamStatusListener,
+): () => void {
+  orderEventListeners.add(onEvent)
+  if (onStatusChange) {
+    orderStreamStatusListeners.add(onStatusChange)
+    onStatusChange(orderStreamStatus)
+  }
+  if (!closeOrderStream) {
+    closeOrderStream = openEventStream('/orders/stream', {
+      events: ORDER_EVENT_TYPES,
+      onEvent: handleOrderStreamEvent,
+      onStatusChange: setOrderStreamStatus,
+    })
+  }
+
+  return () => {
+    orderEventListeners.delete(onEvent)
+    if (onStatusChange) orderStreamStatusListeners.delete(onStatusChange)
+    if (orderEventListeners.size === 0 && closeOrderStream) {
+      const close = closeOrderStream
+      closeOrderStream = null
+      close()
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getNextOrderStatuses,
+  getNextPaymentStatuses,
+  getOrderStatusPath,
+  validateOrderTransition,
+  validatePaymentTransition,
+  type OrderActor,
+} from './order-status'
+import { ORDER_STATUSES, PAYMENT_STATUSES } from './types'
+import type { OrderStatus, PaymentStatus } from './types'
+
+const ACTORS: OrderActor[] = ['customer', 'admin', 'superadmin']
+
+// Written out independently of the tables in ./order-status so a change there has to be made here too
+const ALLOWED_ORDER_MOVES: [OrderStatus, OrderStatus, OrderActor[]][] = [
+  ['pending', 'confirmed', ['admin', 'superadmin']],
+  ['pending', 'preparing', ['admin', 'superadmin']],
+  ['pending', 'cancelled', ['customer', 'admin', 'superadmin']],
+  ['confirmed', 'preparing', ['admin', 'superadmin']],
+  ['confirmed', 'cancelled', ['customer', 'admin', 'superadmin']],
+  ['preparing', 'ready', ['admin', 'superadmin']],
+  ['preparing', 'cancelled', ['admin', 'superadmin']],
+  ['ready', 'delivered', ['admin', 'superadmin']],
+  ['ready', 'cancelled', ['superadmin']],
+]
+
+const ALLOWED_PAYMENT_MOVES: [PaymentStatus, PaymentStatus, OrderActor[]][] = [
+  ['pending', 'paid', ['admin', 'superadmin']],
+  ['pending', 'failed', ['admin', 'superadmin']],
+  ['failed', 'pending', ['admin', 'superadmin']],
+  ['failed', 'paid', ['admin', 'superadmin']],
+  ['paid', 'refunded', ['superadmin']],
+]
+
+function allMoves<S extends string>(statuses: readonly S[]): [S, S][] {
+  return statuses.flatMap((from) => statuses.filter((to) => to !== from).map((to): [S, S] => [from, to]))
+}
+
+function allowedActors<S extends string>(moves: [S, S, OrderActor[]][], from: S, to: S): OrderActor[] {
+  return moves.find(([moveFrom, moveTo]) => moveFrom === from && moveTo === to)?.[2] ?? []
+}
+
+const isMove = <S extends string>(moves: [S, S, OrderActor[]][]) => ([from, to]: [S, S]) =>
+  moves.some(([moveFrom, moveTo]) => moveFrom === from && moveTo === to)
+
+describe('validateOrderTransition', () => {
+  it.each(ALLOWED_ORDER_MOVES.flatMap(([from, to, actors]) => actors.map((actor) => [from, to, actor] as const)))(
+    'allows %s → %s by %s',
+    (from, to, actor) => {
+      expect(validateOrderTransition(from, to, actor)).toBeNull()
+    },
+  )
+
+  it.each(
+    ALLOWED_ORDER_MOVES.flatMap(([from, to, actors]) =>
+      ACTORS.filter((actor) => !actors.includes(actor)).map((actor) => [from, to, actor] as const)),
+  )('only lets the right role move %s → %s (not %s)', (from, to, actor) => {
+    expect(validateOrderTransition(from, to, actor)).toMatch(/^Only (staff|a super admin) can move the order/)
+  })
+
+  it.each(allMoves(ORDER_STATUSES).filter((move) => !isMove(ALLOWED_ORDER_MOVES)(move)))(
+    'rejects %s → %s for everyone',
+    (from, to) => {
+      for (const actor of ACTORS) {
+        expect(validateOrderTransition(from, to, actor)).toMatch(/^Order can't go from/)
+      }
+    },
+  )
+
+  it('names the role that may make a restricted move', () => {
+    expect(validateOrderTransition('ready', 'cancelled', 'admin')).toBe(
+      'Only a super admin can move the order from Ready for Pickup to Cancelled',
+    )
+    expect(validateOrderTransition('preparing', 'ready', 'customer')).toBe(
+      'Only staff can move the order from Preparing to Ready for Pickup',
+    )
+  })
+
+  it('rejects staying in the same status and unknown statuses', () => {
+    expect(validateOrderTransition('ready', 'ready', 'admin')).toBe('Order is already Ready for Pickup')
+    expect(validateOrderTransition('pending', 'completed' as OrderStatus, 'admin')).toBe('Unknown order status "completed"')
+  })
+
+  it('never lets an order leave delivered or cancelled', () => {
+    for (const from of ['delivered', 'cancelled'] as const) {
+      for (const to of ORDER_STATUSES.filter((status) => status !== from)) {
+        for (const actor of ACTORS) expect(validateOrderTransition(from, to, actor)).not.toBeNull()
+      }
+    }
+  })
+})
+
+describe('validatePaymentTransition', () => {
+  it.each(ALLOWED_PAYMENT_MOVES.flatMap(([from, to, actors]) => actors.map((actor) => [from, to, actor] as const)))(
+    'allows %s → %s by %s',
+    (from, to, actor) => {
+      expect(validatePaymentTransition(from, to, actor)).toBeNull()
+    },
+  )
+
+  it.each(
+    ALLOWED_PAYMENT_MOVES.flatMap(([from, to, actors]) =>
+      ACTORS.filter((actor) => !actors.includes(actor)).map((actor) => [from, to, actor] as const)),
+  )('only lets the right role move %s → %s (not %s)', (from, to, actor) => {
+    expect(validatePaymentTransition(from, to, actor)).toMatch(/^Only (staff|a super admin) can move the payment/)
+  })
+
+  it.each(allMoves(PAYMENT_STATUSES).filter((move) => !isMove(ALLOWED_PAYMENT_MOVES)(move)))(
+    'rejects %s → %s for everyone',
+    (from, to) => {
+      for (const actor of ACTORS) {
+        expect(validatePaymentTransition(from, to, actor)).toMatch(/^Payment can't go from/)
+      }
+    },
+  )
+
+  it('explains refunds and repeated updates', () => {
+    expect(validatePaymentTransition('paid', 'refunded', 'admin')).toBe(
+      'Only a super admin can move the payment from Paid to Refunded',
+    )
+    expect(validatePaymentTransition('paid', 'paid', 'admin')).toBe('Payment is already Paid')
+  })
+})
+
+describe('getNextOrderStatuses', () => {
+  it.each(ORDER_STATUSES.flatMap((from) => ACTORS.map((actor) => [from, actor] as const)))(
+    'lists the moves from %s for %s',
+    (from, actor) => {
+      const expected = ORDER_STATUSES.filter((to) => allowedActors(ALLOWED_ORDER_MOVES, from, to).includes(actor))
+      expect(getNextOrderStatuses(from, actor)).toEqual(expected)
+    },
+  )
+
+  it('keeps the forward step first so it can be the primary button', () => {
+    expect(getNextOrderStatuses('pending', 'admin')).toEqual(['confirmed', 'preparing', 'cancelled'])
+    expect(getNextOrderStatuses('ready', 'superadmin')).toEqual(['delivered', 'cancelled'])
+    expect(getNextOrderStatuses('pending', 'customer')).toEqual(['cancelled'])
+    expect(getNextOrderStatuses('delivered', 'superadmin')).toEqual([])
+  })
+})
+
+describe('getNextPaymentStatuses', () => {
+  it.each(PAYMENT_STATUSES.flatMap((from) => ACTORS.map((actor) => [from, actor] as const)))(
+    'lists the moves from %s for %s',
+    (from, actor) => {
+      const expected = PAYMENT_STATUSES.filter((to) => allowedActors(ALLOWED_PAYMENT_MOVES, from, to).includes(actor))
+      expect(getNextPaymentStatuses(from, actor)).toEqual(expected)
+    },
+  )
+})
+
+describe('getOrderStatusPath', () => {
+  // What the legacy importer replays after placing an order, which always starts as pending
+  it.each([
+    ['pending', []],
+    ['confirmed', ['confirmed']],
+    ['preparing', ['preparing']],
+    ['ready', ['preparing', 'ready']],
+    ['delivered', ['preparing', 'ready', 'delivered']],
+    ['cancelled', ['cancelled']],
+  ] as [OrderStatus, OrderStatus[]][])('replays a new order to %s as %j', (to, path) => {
+    expect(getOrderStatusPath('pending', to, 'admin')).toEqual(path)
+  })
+
+  it('only uses moves the actor is allowed to make', () => {
+    for (const to of ORDER_STATUSES) {
+      let from: OrderStatus = 'pending'
+      for (const step of getOrderStatusPath('pending', to, 'admin') ?? []) {
+        expect(validateOrderTransition(from, step, 'admin')).toBeNull()
+        from = step
+      }
+      expect(from).toBe(to)
+    }
+  })
+
+  it('returns null when the actor cannot get there', () => {
+    expect(getOrderStatusPath('delivered', 'pending', 'superadmin')).toBeNull()
+    expect(getOrderStatusPath('cancelled', 'delivered', 'admin')).toBeNull()
+    expect(getOrderStatusPath('pending', 'delivered', 'customer')).toBeNull()
+    expect(getOrderStatusPath('ready', 'cancelled', 'admin')).toBeNull()
+    expect(getOrderStatusPath('ready', 'cancelled', 'superadmin')).toEqual(['cancelled'])
+  })
+})
@@ -0,0 +1,119 @@
+import type { OrderStatus, PaymentStatus } from './types'
+import { ORDER_STATUS_LABELS, PAYMENT_STATUS_LABELS } from './types'
+
+// Which order and payment status changes are allowed, and who may make them.
+// OrderManagement only offers these moves and checks them before calling the
+// API; the demo backend rejects anything else.
+
+// Whoever asks for the change: a customer, cafe staff or a super admin
+export type OrderActor = 'customer' | 'admin' | 'superadmin'
+
+type TransitionTable<S extends string> = Record<S, Partial<Record<S, readonly OrderActor[]>>>
+
+const ANYONE: readonly OrderActor[] = ['customer', 'admin', 'superadmin']
+const STAFF: readonly OrderActor[] = ['admin', 'superadmin']
+const SUPER_ADMIN: readonly OrderActor[] = ['superadmin']
+
+// Orders only move forward. Customers can cancel until the kitchen starts, and
+// once the food is ready only a super admin can. Delivered and cancelled are final.
+export const ORDER_STATUS_TRANSITIONS: TransitionTable<OrderStatus> = {
+  pending: { confirmed: STAFF, preparing: STAFF, cancelled: ANYONE },
+  confirmed: { preparing: STAFF, cancelled: ANYONE },
+  preparing: { ready: STAFF, cancelled: STAFF },
+  ready: { delivered: STAFF, cancelled: SUPER_ADMIN },
+  delivered: {},
+  cancelled: {},
+}
+
+// A failed payment can be retried or settled at the counter; refunds need a super admin
+export const PAYMENT_STATUS_TRANSITIONS: TransitionTable<PaymentStatus> = {
+  pending: { paid: STAFF, failed: STAFF },
+  failed: { pending: STAFF, paid: STAFF },
+  paid: { refunded: SUPER_ADMIN },
+  refunded: {},
+}
+
+// Button text for moving an order or payment into each status
+export const ORDER_STATUS_ACTIONS: Record<OrderStatus, string> = {
+  pending: 'Mark Pending',
+  confirmed: 'Confirm',
+  preparing: 'Start Preparing',
+  ready: 'Mark Ready',
+  delivered: 'Complete',
+  cancelled: 'Cancel',
+}
+
+export const PAYMENT_STATUS_ACTIONS: Record<PaymentStatus, string> = {
+  pending: 'Retry Payment',
+  paid: 'Mark Paid',
+  failed: 'Mark Failed',
+  refunded: 'Refund',
+}
+
+const ACTOR_LABELS: Record<OrderActor, string> = {
+  customer: 'customers',
+  admin: 'staff',
+  superadmin: 'a super admin',
+}
+
+function getNextStatuses<S extends string>(table: TransitionTable<S>, from: S, actor: OrderActor): S[] {
+  const moves = table[from] ?? {}
+  return (Object.keys(moves) as S[]).filter((to) => moves[to]?.includes(actor))
+}
+
+// Breadth-first, so the chain is as short as possible
+function findPath<S extends string>(table: TransitionTable<S>, from: S, to: S, actor: OrderActor): S[] | null {
+  const paths = new Map<S, S[]>([[from, []]])
+  const queue: S[] = [from]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    if (current === to) return paths.get(current)!
+    for (const next of getNextStatuses(table, current, actor)) {
+      if (paths.has(next)) continue
+      paths.set(next, [...paths.get(current)!, next])
+      queue.push(next)
+    }
+  }
+  return null
+}
+
+function validateTransition<S extends string>(
+  table: TransitionTable<S>,
+  labels: Record<string, string>,
+  subject: string,
+  from: S,
+  to: S,
+  actor: OrderActor,
+): string | null {
+  if (!(to in table)) return `Unknown ${subject} status "${to}"`
+  const Subject = subject.charAt(0).toUpperCase() + subject.slice(1)
+  if (from === to) return `${Subject} is already ${labels[to]}`
+  const actors = table[from]?.[to]
+  if (!actors) return `${Subject} can't go from ${labels[from] ?? from} to ${labels[to]}`
+  if (!actors.includes(actor)) return `Only ${ACTOR_LABELS[actors[0]]} can move the ${subject} from ${labels[from]} to ${labels[to]}`
+  return null
+}
+
+// Statuses `actor` may move an order to from `from`, in lifecycle order
+export function getNextOrderStatuses(from: OrderStatus, actor: OrderActor): OrderStatus[] {
+  return getNextStatuses(ORDER_STATUS_TRANSITIONS, from, actor)
+}
+
+export function getNextPaymentStatuses(from: PaymentStatus, actor: OrderActor): PaymentStatus[] {
+  return getNextStatuses(PAYMENT_STATUS_TRANSITIONS, from, actor)
+}
+
+// Every status an order passes through to get from `from` to `to` (excluding `from`),
+// or null when `actor` cannot get it there. Lets imports replay an order's history.
+export function getOrderStatusPath(from: OrderStatus, to: OrderStatus, actor: OrderActor): OrderStatus[] | null {
+  return findPath(ORDER_STATUS_TRANSITIONS, from, to, actor)
+}
+
+// Null when the change is allowed, otherwise why not
+export function validateOrderTransition(from: OrderStatus, to: OrderStatus, actor: OrderActor): string | null {
+  return validateTransition(ORDER_STATUS_TRANSITIONS, ORDER_STATUS_LABELS, 'order', from, to, actor)
+}
+
+export function validatePaymentTransition(from: PaymentStatus, to: PaymentStatus, actor: OrderActor): string | null {
+  return validateTransition(PAYMENT_STATUS_TRANSITIONS, PAYMENT_STATUS_LABELS, 'payment', from, to, actor)
+}
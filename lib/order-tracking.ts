@@ -0,0 +1,27 @@
+import type { Order } from './types'
+
+// Customer-facing progress steps, in order. Labels come from ORDER_STATUS_LABELS.
+export const TRACKING_STEPS: Order['orderStatus'][] = ['pending', 'confirmed', 'preparing', 'ready']
+
+// Used when a menu item has no preparation time set
+const DEFAULT_PREPARATION_MINUTES = 10
+// Extra time per additional unit of the same item
+const MINUTES_PER_EXTRA_UNIT = 1
+
+// Items are prepared in parallel, so the slowest line decides the wait
+export function estimatePreparationMinutes(items: { preparationTime?: number; quantity: number }[]): number {
+  return items.reduce((longest, item) => {
+    const base = item.preparationTime && item.preparationTime > 0 ? item.preparationTime : DEFAULT_PREPARATION_MINUTES
+    return Math.max(longest, base + Math.max(0, item.quantity - 1) * MINUTES_PER_EXTRA_UNIT)
+  }, 0)
+}
+
+export function estimateReadyTime(orderDate: string, preparationMinutes: number): Date {
+  return new Date(new Date(orderDate).getTime() + preparationMinutes * 60_000)
+}
+
+// Index into TRACKING_STEPS; delivered counts as past the last step, cancelled as -1
+export function getTrackingStepIndex(status: Order['orderStatus']): number {
+  if (status === 'delivered') return TRACKING_STEPS.length
+  return TRACKING_STEPS.indexOf(status)
+}
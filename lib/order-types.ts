@@ -0,0 +1,62 @@
+import type { Order, OrderSubmission, OrderType } from './types'
+import { ORDER_TYPE_LABELS } from './types'
+import { CAFE_TIME_ZONE } from './menu-schedule'
+import { validatePickupTime } from './pickup-slots'
+import { MAX_TABLE_NUMBER, formatTableLabel } from './tables'
+
+// Dine-in, takeaway and delivery: what each needs from the customer and what it costs.
+// OrderModal and the demo backend share these rules.
+
+// Flat fee in rupees added to delivery orders
+export const DELIVERY_FEE = 40
+export const MIN_DELIVERY_ADDRESS_LENGTH = 10
+
+export type OrderFulfilment = Pick<OrderSubmission, 'orderType' | 'tableToken' | 'tableNumber' | 'pickupTime' | 'deliveryAddress'>
+
+export function getDeliveryFee(orderType: OrderType | undefined): number {
+  return orderType === 'delivery' ? DELIVERY_FEE : 0
+}
+
+// "1:30 PM" in the cafe's time zone
+export function formatPickupTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: CAFE_TIME_ZONE })
+}
+
+// Errors keyed by the OrderSubmission field they belong to; empty when the order can go ahead
+export function validateOrderFulfilment(order: OrderFulfilment, now = new Date()): Record<string, string> {
+  const errors: Record<string, string> = {}
+  switch (order.orderType ?? 'dine_in') {
+    case 'dine_in': {
+      if (order.tableToken) break
+      const table = order.tableNumber
+      if (table === undefined || !Number.isInteger(table) || table < 1 || table > MAX_TABLE_NUMBER) {
+        errors.tableNumber = 'Please enter your table number'
+      }
+      break
+    }
+    case 'takeaway': {
+      // No pickup time means as soon as possible
+      const pickupError = order.pickupTime ? validatePickupTime(order.pickupTime, now) : null
+      if (pickupError) errors.pickupTime = pickupError
+      break
+    }
+    case 'delivery':
+      if ((order.deliveryAddress ?? '').trim().length < MIN_DELIVERY_ADDRESS_LENGTH) {
+        errors.deliveryAddress = 'Please enter your full delivery address'
+      }
+      break
+    default:
+      errors.orderType = 'Please choose dine-in, takeaway or delivery'
+  }
+  return errors
+}
+
+// "Dine-in · Table 4", "Takeaway · pickup 1:30 PM", "Delivery"
+export function describeOrderType(order: Pick<Order, 'orderType' | 'tableNumber' | 'branchName' | 'pickupTime'>): string {
+  const label = ORDER_TYPE_LABELS[order.orderType]
+  if (order.orderType === 'dine_in' && order.tableNumber !== undefined) {
+    return `${label} · ${formatTableLabel(order.tableNumber, order.branchName)}`
+  }
+  if (order.orderType === 'takeaway' && order.pickupTime) return `${label} · pickup ${formatPickupTime(order.pickupTime)}`
+  return label
+}
@@ -1,5 +1,10 @@
 import { jsPDF } from 'jspdf'
-import type { Order } from './types'
+import type { Order, TableCode } from './types'
+import { describeOrderItemOptions } from './menu-options'
+import { describeOrderItemComponents } from './combos'
+import { createQrMatrix } from './qr-code'
+import { describeOrderType } from './order-types'
+import { getTableOrderUrl } from './tables'
 
 export class OrderPDFService {
   static generateBill(order: Order): jsPDF {
@@ -36,8 +41,19 @@ export class OrderPDFService {
       doc.setFont("helvetica", "normal")
       doc.text(item.itemName, 20, yPos)
       doc.text(item.quantity.toString(), 140, yPos)
-      doc.text(`₹${Number(item.itemPrice).toFixed(2)}`, 160, yPos)
-      doc.text(`₹${Number(item.subtotal).toFixed(2)}`, 180, yPos)
+      doc.text(`₹${item.itemPrice.toFixed(2)}`, 160, yPos)
+      doc.text(`₹${item.subtotal.toFixed(2)}`, 180, yPos)
+
+      const options = describeOrderItemOptions(item)
+      if (options) {
+        doc.setFontSize(9)
+        doc.text(options, 24, yPos + 6)
+      }
+      const components = describeOrderItemComponents(item)
+      if (components) {
+        doc.setFontSize(9)
+        doc.text(`Includes: ${components}`, 24, yPos + (options ? 12 : 6))
+      }
       
       yPos += 25
     }
@@ -85,6 +101,17 @@ export class OrderPDFService {
       doc.text(`Email: ${order.customerEmail}`, 20, yPos)
     }
 
+    yPos += 15
+    doc.text(`Order Type: ${describeOrderType(order)}`, 20, yPos)
+
+    if (order.orderType === "delivery" && order.deliveryAddress) {
+      const addressLines: string[] = doc.splitTextToSize(`Deliver to: ${order.deliveryAddress}`, 170)
+      addressLines.forEach((line) => {
+        yPos += 15
+        doc.text(line, 20, yPos)
+      })
+    }
+
     yPos += 20
     doc.line(20, yPos, 190, yPos)
 
@@ -109,11 +136,17 @@ export class OrderPDFService {
     // Line above total
     doc.line(20, yPos - 10, 190, yPos - 10)
 
+    if (order.deliveryFee) {
+      doc.setFontSize(11)
+      doc.setFont("helvetica", "normal")
+      doc.text(`Delivery Fee: ₹${order.deliveryFee.toFixed(2)}`, 105, yPos - 2, { align: "center" })
+      yPos += 12
+    }
+
     // Total amount
-    const total = typeof order.totalAmount === 'string' ? parseFloat(order.totalAmount) : order.totalAmount
     doc.setFontSize(12)
     doc.setFont("helvetica", "bold")
-    doc.text(`TOTAL AMOUNT: ₹${total.toFixed(2)}`, 105, yPos, { align: "center" })
+    doc.text(`TOTAL AMOUNT: ₹${order.totalAmount.toFixed(2)}`, 105, yPos, { align: "center" })
 
     yPos += 30
     doc.line(20, yPos, 190, yPos)
@@ -153,4 +186,59 @@ export class OrderPDFService {
     const url = URL.createObjectURL(pdfBlob)
     window.open(url)
   }
-}
\ No newline at end of file
+}
+// Printable A4 sheet of table QR codes, twelve to a page, for cutting out and sticking on tables
+export class TableQrPDFService {
+  static readonly COLUMNS = 3
+  static readonly ROWS = 4
+  static readonly CELL_WIDTH = 60
+  static readonly CELL_HEIGHT = 68
+  static readonly QR_SIZE = 44
+
+  static generateSheet(codes: TableCode[], origin: string): jsPDF {
+    const doc = new jsPDF()
+    const perPage = this.COLUMNS * this.ROWS
+
+    codes.forEach((code, index) => {
+      if (index > 0 && index % perPage === 0) doc.addPage()
+      const slot = index % perPage
+      const x = 15 + (slot % this.COLUMNS) * this.CELL_WIDTH
+      const y = 12 + Math.floor(slot / this.COLUMNS) * this.CELL_HEIGHT
+      this.addTableCard(doc, code, origin, x, y)
+    })
+
+    return doc
+  }
+
+  static addTableCard(doc: jsPDF, code: TableCode, origin: string, x: number, y: number) {
+    const centerX = x + this.CELL_WIDTH / 2
+
+    // Dashed cutting guide
+    doc.setLineDashPattern([1, 1], 0)
+    doc.rect(x, y, this.CELL_WIDTH, this.CELL_HEIGHT - 4)
+    doc.setLineDashPattern([], 0)
+
+    doc.setFontSize(14)
+    doc.setFont("helvetica", "bold")
+    doc.text(`Table ${code.tableNumber}`, centerX, y + 8, { align: "center" })
+
+    const modules = createQrMatrix(getTableOrderUrl(code.token, origin))
+    const moduleSize = this.QR_SIZE / modules.length
+    const qrX = centerX - this.QR_SIZE / 2
+    const qrY = y + 11
+    modules.forEach((row, rowIndex) => {
+      row.forEach((dark, columnIndex) => {
+        if (dark) doc.rect(qrX + columnIndex * moduleSize, qrY + rowIndex * moduleSize, moduleSize, moduleSize, "F")
+      })
+    })
+
+    doc.setFontSize(9)
+    doc.setFont("helvetica", "normal")
+    doc.text(`Scan to order · ${code.branchName}`, centerX, qrY + this.QR_SIZE + 5, { align: "center" })
+  }
+
+  static download(codes: TableCode[], origin: string) {
+    const pdf = this.generateSheet(codes, origin)
+    pdf.save(`zish-cafe-table-qr-codes.pdf`)
+  }
+}
@@ -0,0 +1,67 @@
+import type { AvailabilityWindow, Order } from './types'
+import { cafeTimeToday, getCafeClock, getCafeDate, isScheduledNow } from './menu-schedule'
+
+// Scheduled takeaway: customers pick "as soon as possible" or a slot later today
+// within opening hours. Slots take a limited number of orders so the kitchen is
+// not flooded at lunchtime, and scheduled orders are held back until shortly
+// before pickup.
+
+// Same hours as the "Opening Hours" card on the home page
+export const OPENING_HOURS: AvailabilityWindow[] = [
+  { days: [1, 2, 3, 4, 5], from: '06:00', until: '20:00' },
+  { days: [0, 6], from: '07:00', until: '21:00' },
+]
+
+export const PICKUP_SLOT_MINUTES = 15
+// Scheduled orders per slot
+export const PICKUP_SLOT_CAPACITY = 5
+// Takeaway orders need at least this long before pickup
+export const MIN_PICKUP_LEAD_MINUTES = 15
+// Scheduled orders reach the kitchen queue this long before pickup
+export const SCHEDULED_ORDER_RELEASE_MINUTES = 30
+
+const MINUTES_PER_DAY = 24 * 60
+
+export function isOpenAt(time: Date): boolean {
+  return isScheduledNow([OPENING_HOURS], getCafeClock(time))
+}
+
+// Slot starts left today that are far enough ahead and inside opening hours
+export function getPickupSlotTimes(now = new Date()): Date[] {
+  const earliest = now.getTime() + MIN_PICKUP_LEAD_MINUTES * 60_000
+  const today = getCafeDate(now)
+  const times: Date[] = []
+  for (let minutes = 0; minutes < MINUTES_PER_DAY; minutes += PICKUP_SLOT_MINUTES) {
+    const start = cafeTimeToday(minutes, now)
+    if (start.getTime() >= earliest && getCafeDate(start) === today && isOpenAt(start)) times.push(start)
+  }
+  return times
+}
+
+// Null when the time is a bookable slot. Capacity is only known to the server.
+export function validatePickupTime(pickupTime: string, now = new Date()): string | null {
+  const pickup = new Date(pickupTime)
+  if (Number.isNaN(pickup.getTime())) return 'Please choose a pickup time'
+  // A minute's grace for the time the order takes to reach the server
+  const earliest = now.getTime() + (MIN_PICKUP_LEAD_MINUTES - 1) * 60_000
+  if (pickup.getTime() < earliest) return `Pickup must be at least ${MIN_PICKUP_LEAD_MINUTES} minutes from now`
+  if (getCafeDate(pickup) !== getCafeDate(now)) return 'Pickup must be later today'
+  // Exactly on a slot start, to the millisecond: bookings are counted per exact start time
+  if (pickup.getTime() % (PICKUP_SLOT_MINUTES * 60_000) !== 0 || getCafeClock(pickup).minutes % PICKUP_SLOT_MINUTES !== 0) {
+    return 'Please choose one of the pickup slots'
+  }
+  if (!isOpenAt(pickup)) return "We're closed at that time. Please choose a slot within opening hours"
+  return null
+}
+
+export function getScheduledReleaseTime(pickupTime: string): Date {
+  return new Date(new Date(pickupTime).getTime() - SCHEDULED_ORDER_RELEASE_MINUTES * 60_000)
+}
+
+// Scheduled orders wait in their own queue until they are due, unless the
+// kitchen has already started on them
+export function isHeldScheduledOrder(order: Pick<Order, 'orderStatus' | 'pickupTime'>, now = new Date()): boolean {
+  if (!order.pickupTime) return false
+  if (order.orderStatus !== 'pending' && order.orderStatus !== 'confirmed') return false
+  return now.getTime() < getScheduledReleaseTime(order.pickupTime).getTime()
+}
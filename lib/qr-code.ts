@@ -0,0 +1,312 @@
+// Minimal QR code encoder for the printed table codes: byte mode, error
+// correction level M, versions 1-10 (up to 213 bytes, plenty for an order URL).
+// Follows ISO/IEC 18004; returns the module grid so it can be drawn as SVG.
+
+// Per version (index 0 unused): error correction codewords per block and block count at level M
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26]
+const ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5]
+const MAX_VERSION = ECC_CODEWORDS_PER_BLOCK.length - 1
+// Format info bits for level M
+const ECC_FORMAT_BITS = 0
+
+type Grid = boolean[][]
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0
+}
+
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2
+    result -= (25 * alignments - 10) * alignments - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+function dataCodewords(version: number): number {
+  return Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version]
+}
+
+// Reed-Solomon over GF(2^8) with the QR polynomial 0x11D
+function multiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = multiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = multiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = Array<number>(divisor.length).fill(0)
+  data.forEach((byte) => {
+    const factor = byte ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= multiply(coefficient, factor)
+    })
+  })
+  return result
+}
+
+function encodeData(bytes: number[], version: number): number[] {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+  append(0b0100, 4)
+  append(bytes.length, version <= 9 ? 8 : 16)
+  bytes.forEach((byte) => append(byte, 8))
+
+  const capacityBits = dataCodewords(version) * 8
+  append(0, Math.min(4, capacityBits - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) append(pad, 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  return codewords
+}
+
+// Splits the data into blocks, adds error correction to each and interleaves them
+function addErrorCorrection(data: number[], version: number): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[version]
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version]
+  const rawCodewords = Math.floor(rawDataModules(version) / 8)
+  const shortBlocks = blockCount - (rawCodewords % blockCount)
+  const shortBlockLength = Math.floor(rawCodewords / blockCount)
+  const divisor = reedSolomonDivisor(eccLength)
+
+  const blocks: number[][] = []
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1)
+    const block = data.slice(offset, offset + length)
+    offset += length
+    const ecc = reedSolomonRemainder(block, divisor)
+    // Short blocks get a placeholder so every block lines up for interleaving
+    if (i < shortBlocks) block.push(0)
+    blocks.push([...block, ...ecc])
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i])
+    })
+  }
+  return result
+}
+
+function alignmentPositions(version: number, size: number): number[] {
+  if (version === 1) return []
+  const count = Math.floor(version / 7) + 2
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2
+  const result = [6]
+  for (let position = size - 7; result.length < count; position -= step) result.splice(1, 0, position)
+  return result
+}
+
+class QrGrid {
+  readonly size: number
+  readonly modules: Grid
+  readonly isFunction: Grid
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => Array<boolean>(this.size).fill(false))
+    this.isFunction = Array.from({ length: this.size }, () => Array<boolean>(this.size).fill(false))
+  }
+
+  setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark
+    this.isFunction[y][x] = true
+  }
+
+  drawFunctionPatterns() {
+    const { size } = this
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0)
+      this.setFunction(i, 6, i % 2 === 0)
+    }
+    this.drawFinder(3, 3)
+    this.drawFinder(size - 4, 3)
+    this.drawFinder(3, size - 4)
+
+    const positions = alignmentPositions(this.version, size)
+    const last = positions.length - 1
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        // The three corners already hold finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+        }
+      })
+    })
+
+    // Reserve the format areas; the real bits are drawn once the mask is known
+    this.drawFormatBits(0)
+    this.drawVersion()
+  }
+
+  // Finder pattern plus its light separator
+  drawFinder(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy))
+        const xx = x + dx
+        const yy = y + dy
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) this.setFunction(xx, yy, distance !== 2 && distance !== 4)
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (ECC_FORMAT_BITS << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    const bits = ((data << 10) | remainder) ^ 0x5412
+    const { size } = this
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i))
+    this.setFunction(8, 7, getBit(bits, 6))
+    this.setFunction(8, 8, getBit(bits, 7))
+    this.setFunction(7, 8, getBit(bits, 8))
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i))
+
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, getBit(bits, i))
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, getBit(bits, i))
+    this.setFunction(8, size - 8, true)
+  }
+
+  drawVersion() {
+    if (this.version < 7) return
+    let remainder = this.version
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    const bits = (this.version << 12) | remainder
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      this.setFunction(a, b, getBit(bits, i))
+      this.setFunction(b, a, getBit(bits, i))
+    }
+  }
+
+  // Zigzags two columns at a time from the bottom-right corner, skipping the timing column
+  drawCodewords(codewords: number[]) {
+    const { size } = this
+    let i = 0
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      for (let vertical = 0; vertical < size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? size - 1 - vertical : vertical
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7))
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskApplies(mask, x, y)) this.modules[y][x] = !this.modules[y][x]
+      }
+    }
+  }
+}
+
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0
+    case 1: return y % 2 === 0
+    case 2: return x % 3 === 0
+    case 3: return (x + y) % 3 === 0
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+  }
+}
+
+const FINDER_LIKE = [/10111010000/g, /00001011101/g]
+
+// Standard penalty score; the mask with the lowest one reads most reliably
+function penalty(modules: Grid): number {
+  const size = modules.length
+  const lines: string[] = []
+  for (let i = 0; i < size; i++) {
+    lines.push(modules[i].map((dark) => (dark ? '1' : '0')).join(''))
+    lines.push(modules.map((row) => (row[i] ? '1' : '0')).join(''))
+  }
+
+  let score = 0
+  lines.forEach((line) => {
+    ;(line.match(/0{5,}|1{5,}/g) ?? []).forEach((run) => (score += run.length - 2))
+    FINDER_LIKE.forEach((pattern) => (score += (line.match(pattern) ?? []).length * 40))
+  })
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const dark = modules[y][x]
+      if (dark === modules[y][x + 1] && dark === modules[y + 1][x] && dark === modules[y + 1][x + 1]) score += 3
+    }
+  }
+  const darkCount = modules.reduce((total, row) => total + row.filter(Boolean).length, 0)
+  score += Math.floor(Math.abs(darkCount * 20 - size * size * 10) / (size * size)) * 10
+  return score
+}
+
+// Rows of modules, true for dark, without the quiet zone
+export function createQrMatrix(text: string): boolean[][] {
+  const bytes = Array.from(new TextEncoder().encode(text))
+  let version = 1
+  while (version <= MAX_VERSION && 4 + (version <= 9 ? 8 : 16) + bytes.length * 8 > dataCodewords(version) * 8) version++
+  if (version > MAX_VERSION) throw new Error('Text is too long for a QR code')
+
+  const codewords = addErrorCorrection(encodeData(bytes, version), version)
+  let best: { modules: Grid; score: number } | null = null
+  for (let mask = 0; mask < 8; mask++) {
+    const grid = new QrGrid(version)
+    grid.drawFunctionPatterns()
+    grid.drawCodewords(codewords)
+    grid.applyMask(mask)
+    grid.drawFormatBits(mask)
+    const score = penalty(grid.modules)
+    if (!best || score < best.score) best = { modules: grid.modules, score }
+  }
+  return (best as { modules: Grid }).modules
+}
+
+// SVG path drawing every dark module as a 1x1 square, offset by the quiet zone
+export function toQrSvgPath(modules: boolean[][], margin = 4): string {
+  const parts: string[] = []
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) parts.push(`M${x + margin},${y + margin}h1v1h-1z`)
+    })
+  })
+  return parts.join('')
+}
@@ -0,0 +1,166 @@
+// Small in-memory stale-while-revalidate cache shared by the customer and admin screens.
+// Entries are keyed by endpoint + params; stale entries are still served while a
+// background refetch runs, and mutations invalidate by key prefix.
+
+export type QueryKey = readonly [string, ...unknown[]]
+
+export interface QueryOptions {
+  // How long data counts as fresh; stale data is served but refetched
+  ttlMs?: number
+}
+
+export interface QueryState<T> {
+  data?: T
+  error?: unknown
+  updatedAt: number
+  isFetching: boolean
+}
+
+interface QueryEntry<T = unknown> extends QueryState<T> {
+  key: QueryKey
+  fetcher?: () => Promise<T>
+  ttlMs: number
+  stale: boolean
+  // Bumped on invalidation so a fetch that started earlier cannot mark the entry fresh
+  generation: number
+  promise?: Promise<T>
+  listeners: Set<() => void>
+}
+
+const DEFAULT_TTL_MS = 30_000
+
+// Shared keys so every screen hits the same cache entries
+export const queryKeys = {
+  menu: ['/menu'] as const,
+  categories: ['/menu/categories'] as const,
+  combos: ['/menu/combos'] as const,
+  specials: ['/specials'] as const,
+  activeSpecials: ['/specials/active'] as const,
+  orderStats: ['/orders/stats/orders'] as const,
+  pickupSlots: ['/orders/pickup-slots'] as const,
+  revenueStats: ['/stats/revenue'] as const,
+  dashboardStats: ['/stats/dashboard'] as const,
+  popularItems: ['/stats/popular-items'] as const,
+  locationSettings: ['/settings/location'] as const,
+}
+
+const cache = new Map<string, QueryEntry>()
+
+function hashKey(key: QueryKey): string {
+  return JSON.stringify(key)
+}
+
+function getEntry<T>(key: QueryKey): QueryEntry<T> {
+  const hash = hashKey(key)
+  let entry = cache.get(hash) as QueryEntry<T> | undefined
+  if (!entry) {
+    entry = { key, ttlMs: DEFAULT_TTL_MS, stale: true, generation: 0, updatedAt: 0, isFetching: false, listeners: new Set() }
+    cache.set(hash, entry as QueryEntry)
+  }
+  return entry
+}
+
+function notify(entry: QueryEntry<any>) {
+  entry.listeners.forEach((listener) => listener())
+}
+
+function isFresh(entry: QueryEntry<any>): boolean {
+  return !entry.stale && entry.updatedAt > 0 && Date.now() - entry.updatedAt < entry.ttlMs
+}
+
+function runFetch<T>(entry: QueryEntry<T>): Promise<T> {
+  if (entry.promise) return entry.promise
+  if (!entry.fetcher) return Promise.reject(new Error(`No fetcher registered for query ${hashKey(entry.key)}`))
+
+  const generation = entry.generation
+  entry.isFetching = true
+  notify(entry)
+  const promise = entry.fetcher()
+    .then((data) => {
+      entry.data = data
+      entry.error = undefined
+      entry.updatedAt = Date.now()
+      entry.stale = generation !== entry.generation
+      return data
+    })
+    .catch((error) => {
+      entry.error = error
+      throw error
+    })
+    .finally(() => {
+      entry.promise = undefined
+      entry.isFetching = false
+      notify(entry)
+      // Invalidated mid-flight: fetch again for whoever is still watching
+      if (entry.stale && generation !== entry.generation && entry.listeners.size > 0) {
+        runFetch(entry).catch(() => {})
+      }
+    })
+  entry.promise = promise
+  return promise
+}
+
+// Resolve from cache when fresh, otherwise fetch (sharing any request already in flight)
+export function fetchQuery<T>(key: QueryKey, fetcher: () => Promise<T>, options: QueryOptions = {}): Promise<T> {
+  const entry = getEntry<T>(key)
+  entry.fetcher = fetcher
+  entry.ttlMs = options.ttlMs ?? entry.ttlMs
+  if (isFresh(entry)) return Promise.resolve(entry.data as T)
+  return runFetch(entry)
+}
+
+// Current snapshot, possibly stale. Starts a background refetch when stale.
+export function readQuery<T>(key: QueryKey, fetcher: () => Promise<T>, options: QueryOptions = {}): QueryState<T> {
+  const entry = getEntry<T>(key)
+  entry.fetcher = fetcher
+  entry.ttlMs = options.ttlMs ?? entry.ttlMs
+  if (!isFresh(entry) && !entry.promise) {
+    runFetch(entry).catch(() => {})
+  }
+  return getQueryState(key)
+}
+
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  const entry = getEntry<T>(key)
+  return { data: entry.data, error: entry.error, updatedAt: entry.updatedAt, isFetching: entry.isFetching }
+}
+
+export function setQueryData<T>(key: QueryKey, data: T) {
+  const entry = getEntry<T>(key)
+  entry.data = data
+  entry.error = undefined
+  entry.updatedAt = Date.now()
+  entry.stale = false
+  notify(entry)
+}
+
+export function subscribeQuery(key: QueryKey, listener: () => void): () => void {
+  const entry = getEntry(key)
+  entry.listeners.add(listener)
+  return () => {
+    entry.listeners.delete(listener)
+  }
+}
+
+// Force a refetch of one entry, e.g. behind a manual "Refresh" button
+export function refetchQuery<T>(key: QueryKey): Promise<T> {
+  const entry = getEntry<T>(key)
+  entry.stale = true
+  entry.generation++
+  return runFetch(entry)
+}
+
+// Mark every entry whose key starts with `prefix` as stale; entries on screen refetch right away
+export function invalidateQueries(prefix: string) {
+  cache.forEach((entry) => {
+    if (!entry.key[0].startsWith(prefix)) return
+    entry.stale = true
+    entry.generation++
+    if (entry.promise) return
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      runFetch(entry).catch((error) => console.error('Background refetch failed:', { key: entry.key, error }))
+    } else {
+      notify(entry)
+    }
+  })
+}
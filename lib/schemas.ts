@@ -0,0 +1,292 @@
+import { z } from 'zod'
+import type {
+  BackendAvailabilityWindow,
+  BackendBranch,
+  BackendCategory,
+  BackendCombo,
+  BackendComboSlot,
+  BackendMenuItem,
+  BackendSpecial,
+  BackendMenuVariant,
+  BackendModifierGroup,
+  BackendOrderItemComponent,
+  BackendOrderItemModifier,
+  BackendOrderTracking,
+  BackendFeedbackItem,
+  BackendLocationSettings,
+  BackendOrderItem,
+  BackendOrder,
+  BackendPickupSlot,
+  BackendTableCode,
+  FeedbackStats,
+  OrderStats,
+  RevenueStats,
+  DashboardStats,
+  OrdersInsights,
+} from './types'
+import { ALLERGENS, DIETARY_TAGS, ORDER_STATUSES, ORDER_TYPES, PAYMENT_STATUSES } from './types'
+
+// Runtime schemas for backend payloads. Each one is annotated with the
+// matching interface from ./types so the two cannot drift apart silently.
+
+export const orderStatusSchema = z.enum(ORDER_STATUSES)
+export const paymentStatusSchema = z.enum(PAYMENT_STATUSES)
+export const paymentMethodSchema = z.enum(['cash', 'card', 'upi', 'online'])
+export const orderTypeSchema = z.enum(ORDER_TYPES)
+
+// Menu
+export const backendAvailabilityWindowSchema: z.ZodType<BackendAvailabilityWindow> = z.object({
+  days: z.array(z.number()),
+  start_time: z.string(),
+  end_time: z.string(),
+})
+
+export const backendMenuVariantSchema: z.ZodType<BackendMenuVariant> = z.object({
+  id: z.number(),
+  name: z.string(),
+  price_delta: z.number(),
+  is_default: z.boolean(),
+})
+
+export const backendModifierGroupSchema: z.ZodType<BackendModifierGroup> = z.object({
+  id: z.number(),
+  name: z.string(),
+  min_select: z.number(),
+  max_select: z.number(),
+  options: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    price_delta: z.number(),
+  })),
+})
+
+export const backendMenuItemSchema: z.ZodType<BackendMenuItem> = z.object({
+  id: z.number(),
+  name: z.string(),
+  price: z.number(),
+  category_id: z.number(),
+  description: z.string(),
+  image_url: z.string(),
+  is_available: z.boolean(),
+  preparation_time_minutes: z.number(),
+  variants: z.array(backendMenuVariantSchema).optional(),
+  modifier_groups: z.array(backendModifierGroupSchema).optional(),
+  availability_windows: z.array(backendAvailabilityWindowSchema).optional(),
+  dietary_tags: z.array(z.enum(DIETARY_TAGS)).optional(),
+  allergens: z.array(z.enum(ALLERGENS)).optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+export const backendCategorySchema: z.ZodType<BackendCategory> = z.object({
+  id: z.number(),
+  name: z.string(),
+  sort_order: z.number(),
+  icon: z.string().nullable(),
+  is_visible: z.boolean(),
+  active_from: z.string().nullable(),
+  active_until: z.string().nullable(),
+  availability_windows: z.array(backendAvailabilityWindowSchema).optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+export const backendSpecialSchema: z.ZodType<BackendSpecial> = z.object({
+  id: z.number(),
+  menu_item_id: z.number(),
+  title: z.string().nullable(),
+  description: z.string().nullable(),
+  special_price: z.number().nullable(),
+  discount_percent: z.number().nullable(),
+  starts_on: z.string(),
+  ends_on: z.string(),
+  is_active: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+export const backendComboSlotSchema: z.ZodType<BackendComboSlot> = z.object({
+  id: z.number(),
+  name: z.string(),
+  menu_item_ids: z.array(z.number()),
+  category_id: z.number().nullable(),
+})
+
+export const backendComboSchema: z.ZodType<BackendCombo> = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  price: z.number(),
+  image_url: z.string().nullable(),
+  is_available: z.boolean(),
+  slots: z.array(backendComboSlotSchema),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+// Location settings
+export const backendBranchSchema: z.ZodType<BackendBranch> = z.object({
+  id: z.number(),
+  name: z.string(),
+  address: z.string().nullable(),
+  latitude: z.number(),
+  longitude: z.number(),
+  is_active: z.boolean(),
+})
+
+export const backendLocationSettingsSchema: z.ZodType<BackendLocationSettings> = z.object({
+  ordering_radius_m: z.number(),
+  branches: z.array(backendBranchSchema),
+  updated_at: z.string(),
+})
+
+export const backendTableCodeSchema: z.ZodType<BackendTableCode> = z.object({
+  branch_id: z.number(),
+  branch_name: z.string(),
+  table_number: z.number(),
+  token: z.string(),
+})
+
+export const backendPickupSlotSchema: z.ZodType<BackendPickupSlot> = z.object({
+  start: z.string(),
+  capacity: z.number(),
+  booked: z.number(),
+})
+
+// Feedback
+export const backendFeedbackItemSchema: z.ZodType<BackendFeedbackItem> = z.object({
+  id: z.number(),
+  customer_name: z.string(),
+  email: z.string().nullable(),
+  rating: z.number(),
+  feedback: z.string().nullable(),
+  timestamp: z.string(),
+  date: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+const weekTrendSchema = z.object({
+  total: z.number(),
+  averageRating: z.string(),
+})
+
+export const feedbackStatsSchema: z.ZodType<FeedbackStats> = z.object({
+  totalFeedback: z.number(),
+  averageRating: z.number(),
+  ratingDistribution: z.record(z.string(), z.number()),
+  recentFeedback: z.number(),
+  trends: z.object({
+    currentWeek: weekTrendSchema,
+    previousWeek: weekTrendSchema,
+  }),
+  monthInfo: z.object({
+    month: z.string(),
+    startDate: z.string(),
+    endDate: z.string(),
+  }),
+})
+
+// Orders
+export const backendOrderItemModifierSchema: z.ZodType<BackendOrderItemModifier> = z.object({
+  group_name: z.string(),
+  option_name: z.string(),
+  price_delta: z.number(),
+})
+
+export const backendOrderItemComponentSchema: z.ZodType<BackendOrderItemComponent> = z.object({
+  menu_item_id: z.number(),
+  item_name: z.string(),
+  quantity: z.number(),
+})
+
+export const backendOrderItemSchema: z.ZodType<BackendOrderItem> = z.object({
+  id: z.number(),
+  item_name: z.string(),
+  item_price: z.number(),
+  quantity: z.number(),
+  special_instructions: z.string().nullable(),
+  subtotal: z.number(),
+  variant_name: z.string().nullable().optional(),
+  modifiers: z.array(backendOrderItemModifierSchema).optional(),
+  combo_id: z.number().nullable().optional(),
+  components: z.array(backendOrderItemComponentSchema).optional(),
+})
+
+export const backendOrderSchema: z.ZodType<BackendOrder> = z.object({
+  id: z.number(),
+  customer_name: z.string(),
+  customer_phone: z.string(),
+  customer_email: z.string().nullable(),
+  total_amount: z.number(),
+  order_status: orderStatusSchema,
+  payment_status: paymentStatusSchema,
+  payment_method: paymentMethodSchema.nullable(),
+  special_instructions: z.string().nullable(),
+  delivery_address: z.string().nullable(),
+  order_date: z.string(),
+  estimated_delivery_time: z.string().nullable(),
+  actual_delivery_time: z.string().nullable(),
+  cancelled_at: z.string().nullable(),
+  cancelled_reason: z.string().nullable(),
+  cancelled_by: z.string().nullable(),
+  order_type: orderTypeSchema.optional(),
+  pickup_time: z.string().nullable().optional(),
+  delivery_fee: z.number().optional(),
+  table_number: z.number().nullable().optional(),
+  branch_name: z.string().nullable().optional(),
+  items: z.array(backendOrderItemSchema),
+  created_at: z.string(),
+  updated_at: z.string(),
+  tracking_token: z.string().optional(),
+})
+
+export const backendOrderTrackingSchema: z.ZodType<BackendOrderTracking> = z.object({
+  id: z.number(),
+  order_status: orderStatusSchema,
+  order_type: orderTypeSchema,
+  order_date: z.string(),
+  pickup_time: z.string().nullable(),
+  estimated_delivery_time: z.string().nullable(),
+  cancelled_reason: z.string().nullable(),
+  items: z.array(backendOrderItemSchema),
+})
+
+// Stats
+export const orderStatsSchema: z.ZodType<OrderStats> = z.object({
+  orders_today: z.number(),
+  daily_revenue: z.number(),
+  monthly_revenue: z.number(),
+  pending_orders: z.number(),
+  unpaid_orders: z.number(),
+  unpaid_amount: z.number(),
+  fast_moving_items: z.number(),
+  completed_orders: z.number(),
+})
+
+export const revenueStatsSchema: z.ZodType<RevenueStats> = z.object({
+  daily_revenue: z.number(),
+  monthly_revenue: z.number(),
+})
+
+export const topItemSchema = z.object({
+  item_name: z.string(),
+  total_quantity: z.number(),
+})
+
+export const dashboardStatsSchema: z.ZodType<DashboardStats> = z.object({
+  pending_orders: z.number(),
+  unpaid_orders: z.number(),
+  unpaid_amount: z.number(),
+  completed_orders: z.number(),
+  fast_moving_items: z.array(topItemSchema),
+})
+
+export const ordersInsightsSchema: z.ZodType<OrdersInsights> = z.object({
+  start: z.string(),
+  end: z.string(),
+  completed_orders_count: z.number(),
+  completed_orders_amount: z.number(),
+  total_items_sold: z.number(),
+  top_items: z.array(topItemSchema),
+})
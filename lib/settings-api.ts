@@ -0,0 +1,54 @@
+import type { BackendBranch, BackendLocationSettings, LocationSettings, LocationSettingsInput } from './types'
+import { apiData } from './api-client'
+import { backendLocationSettingsSchema } from './schemas'
+import { invalidateQueries } from './query-cache'
+
+function transformLocationSettings(backendSettings: BackendLocationSettings): LocationSettings {
+  return {
+    orderingRadiusMeters: backendSettings.ordering_radius_m,
+    branches: backendSettings.branches.map((branch) => ({
+      id: branch.id,
+      name: branch.name,
+      address: branch.address || undefined,
+      latitude: branch.latitude,
+      longitude: branch.longitude,
+      isActive: branch.is_active,
+    })),
+  }
+}
+
+function toBackendLocationSettings(input: LocationSettingsInput) {
+  return {
+    ordering_radius_m: input.orderingRadiusMeters,
+    branches: input.branches.map((branch): Omit<BackendBranch, 'id'> & { id?: number } => ({
+      id: branch.id,
+      name: branch.name.trim(),
+      address: branch.address?.trim() || null,
+      latitude: branch.latitude,
+      longitude: branch.longitude,
+      is_active: branch.isActive,
+    })),
+  }
+}
+
+// Branches and ordering radius, for the customer location check
+export async function fetchLocationSettings(): Promise<LocationSettings> {
+  const settings = await apiData<BackendLocationSettings>('/settings/location', {
+    auth: false,
+    schema: backendLocationSettingsSchema,
+    errorMessage: 'Failed to fetch cafe locations',
+  })
+  return transformLocationSettings(settings)
+}
+
+// Replaces the whole branch list; branches left out are deleted (superadmin)
+export async function updateLocationSettings(input: LocationSettingsInput): Promise<LocationSettings> {
+  const settings = await apiData<BackendLocationSettings>('/settings/location', {
+    method: 'PUT',
+    body: toBackendLocationSettings(input),
+    schema: backendLocationSettingsSchema,
+    errorMessage: 'Failed to update location settings',
+  })
+  invalidateQueries('/settings')
+  return transformLocationSettings(settings)
+}
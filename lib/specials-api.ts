@@ -0,0 +1,86 @@
+import { z } from 'zod'
+import type { BackendSpecial, Special, SpecialInput } from './types'
+import { apiData, apiRequest } from './api-client'
+import { backendSpecialSchema } from './schemas'
+import { invalidateQueries } from './query-cache'
+
+const specialsSchema = z.array(backendSpecialSchema)
+
+function transformSpecial(backendSpecial: BackendSpecial): Special {
+  return {
+    id: backendSpecial.id,
+    menuItemId: backendSpecial.menu_item_id,
+    title: backendSpecial.title || undefined,
+    description: backendSpecial.description || undefined,
+    specialPrice: backendSpecial.special_price ?? undefined,
+    discountPercent: backendSpecial.discount_percent ?? undefined,
+    startsOn: backendSpecial.starts_on,
+    endsOn: backendSpecial.ends_on,
+    isActive: backendSpecial.is_active,
+  }
+}
+
+function toBackendSpecial(input: Partial<SpecialInput>): Partial<BackendSpecial> {
+  const body: Partial<BackendSpecial> = {}
+  if (input.menuItemId !== undefined) body.menu_item_id = input.menuItemId
+  if ('title' in input) body.title = input.title || null
+  if ('description' in input) body.description = input.description || null
+  // Price and discount are exclusive, so sending one always clears the other
+  if ('specialPrice' in input || 'discountPercent' in input) {
+    body.special_price = input.specialPrice ?? null
+    body.discount_percent = input.discountPercent ?? null
+  }
+  if (input.startsOn !== undefined) body.starts_on = input.startsOn
+  if (input.endsOn !== undefined) body.ends_on = input.endsOn
+  if (input.isActive !== undefined) body.is_active = input.isActive
+  return body
+}
+
+// Specials running today, for the customer menu
+export async function fetchActiveSpecials(): Promise<Special[]> {
+  const specials = await apiData<BackendSpecial[]>('/specials/active', {
+    auth: false,
+    schema: specialsSchema,
+    errorMessage: "Failed to fetch today's specials",
+  })
+  return specials.map(transformSpecial)
+}
+
+// Every special including past and upcoming ones (admin)
+export async function fetchSpecials(): Promise<Special[]> {
+  const specials = await apiData<BackendSpecial[]>('/specials', {
+    schema: specialsSchema,
+    errorMessage: 'Failed to fetch specials',
+  })
+  return specials.map(transformSpecial)
+}
+
+export async function createSpecial(input: SpecialInput): Promise<Special> {
+  const special = await apiData<BackendSpecial>('/specials', {
+    method: 'POST',
+    body: toBackendSpecial(input),
+    schema: backendSpecialSchema,
+    errorMessage: 'Failed to create special',
+  })
+  invalidateQueries('/specials')
+  return transformSpecial(special)
+}
+
+export async function updateSpecial(id: number, input: Partial<SpecialInput>): Promise<Special> {
+  const special = await apiData<BackendSpecial>(`/specials/${id}`, {
+    method: 'PUT',
+    body: toBackendSpecial(input),
+    schema: backendSpecialSchema,
+    errorMessage: 'Failed to update special',
+  })
+  invalidateQueries('/specials')
+  return transformSpecial(special)
+}
+
+export async function deleteSpecial(id: number): Promise<void> {
+  await apiRequest(`/specials/${id}`, {
+    method: 'DELETE',
+    errorMessage: 'Failed to delete special',
+  })
+  invalidateQueries('/specials')
+}
@@ -0,0 +1,67 @@
+import type { MenuItem, Special, SpecialInput } from './types'
+import { applyPriceChange } from './menu-pricing'
+
+// A menu item as sold through a special: `price` is the special price and
+// `originalPrice` the regular one, for the struck-through label.
+export type SpecialMenuItem = MenuItem & {
+  specialId: number
+  originalPrice: number
+  specialTitle?: string
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Fixed price wins over a discount; discounts round to the rupee like bulk repricing
+export function getSpecialPrice(basePrice: number, special: Pick<Special, 'specialPrice' | 'discountPercent'>): number {
+  if (special.specialPrice !== undefined) return Math.max(0, special.specialPrice)
+  if (special.discountPercent !== undefined) return applyPriceChange(basePrice, { mode: 'percent', value: -special.discountPercent })
+  return basePrice
+}
+
+// `today` is the cafe's date ("YYYY-MM-DD"); start and end dates are inclusive
+export function isSpecialRunning(special: Pick<Special, 'isActive' | 'startsOn' | 'endsOn'>, today: string): boolean {
+  return special.isActive && special.startsOn <= today && today <= special.endsOn
+}
+
+export function toSpecialMenuItem(special: Special, item: MenuItem): SpecialMenuItem {
+  return {
+    ...item,
+    description: special.description || item.description,
+    price: getSpecialPrice(item.price, special),
+    originalPrice: item.price,
+    specialId: special.id,
+    specialTitle: special.title,
+  }
+}
+
+// Running specials joined to their menu items, skipping ones whose item is not on the menu
+export function getRunningSpecialItems(specials: Special[], menuItems: MenuItem[], today: string): SpecialMenuItem[] {
+  const itemsById = new Map(menuItems.map((item) => [item.id, item]))
+  return specials.flatMap((special) => {
+    const item = itemsById.get(special.menuItemId)
+    return item && isSpecialRunning(special, today) ? [toSpecialMenuItem(special, item)] : []
+  })
+}
+
+// "20% off" / "₹99 special"
+export function describeSpecialDeal(special: Pick<Special, 'specialPrice' | 'discountPercent'>): string {
+  if (special.specialPrice !== undefined) return `₹${special.specialPrice} special`
+  if (special.discountPercent !== undefined) return `${special.discountPercent}% off`
+  return 'Regular price'
+}
+
+// Admin-side checks; the demo backend applies the same rules
+export function validateSpecialInput(input: SpecialInput): string[] {
+  const errors: string[] = []
+  if (!Number.isInteger(input.menuItemId) || input.menuItemId <= 0) errors.push('Pick the menu item this special is for')
+  const hasPrice = input.specialPrice !== undefined
+  const hasDiscount = input.discountPercent !== undefined
+  if (hasPrice === hasDiscount) errors.push('Set either a special price or a discount percentage')
+  if (hasPrice && (!Number.isFinite(input.specialPrice) || input.specialPrice! < 0)) errors.push('Special price must be zero or more')
+  if (hasDiscount && (!Number.isInteger(input.discountPercent) || input.discountPercent! < 1 || input.discountPercent! > 99)) {
+    errors.push('Discount must be a whole percentage between 1 and 99')
+  }
+  if (!DATE_PATTERN.test(input.startsOn) || !DATE_PATTERN.test(input.endsOn)) errors.push('Start and end dates are required')
+  else if (input.startsOn > input.endsOn) errors.push('The special must end on or after its start date')
+  return errors
+}
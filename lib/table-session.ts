@@ -0,0 +1,51 @@
+import { z } from 'zod'
+import type { TableCode } from './types'
+
+// The table the customer scanned, kept for the browser tab so a reload doesn't
+// ask for location again. The token is checked again when the order is placed.
+
+const STORAGE_KEY = 'cafe-table'
+// A sitting rarely lasts this long; after it the customer scans again
+const MAX_AGE_MS = 6 * 60 * 60_000
+
+const storedTableSchema = z.object({
+  savedAt: z.number(),
+  table: z.object({
+    branchId: z.number(),
+    branchName: z.string(),
+    tableNumber: z.number(),
+    token: z.string(),
+  }),
+})
+
+export function loadTableSession(): TableCode | null {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY)
+    if (!raw) return null
+    const stored = storedTableSchema.safeParse(JSON.parse(raw))
+    if (!stored.success || Date.now() - stored.data.savedAt > MAX_AGE_MS) {
+      sessionStorage.removeItem(STORAGE_KEY)
+      return null
+    }
+    return stored.data.table
+  } catch (error) {
+    console.warn('Could not load table session:', error)
+    return null
+  }
+}
+
+export function saveTableSession(table: TableCode) {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify({ savedAt: Date.now(), table }))
+  } catch (error) {
+    console.warn('Could not save table session:', error)
+  }
+}
+
+export function clearTableSession() {
+  try {
+    sessionStorage.removeItem(STORAGE_KEY)
+  } catch (error) {
+    console.warn('Could not clear table session:', error)
+  }
+}
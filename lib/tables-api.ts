@@ -0,0 +1,37 @@
+import { z } from 'zod'
+import type { BackendTableCode, TableCode } from './types'
+import { apiData } from './api-client'
+import { backendTableCodeSchema } from './schemas'
+
+const tableCodesSchema = z.array(backendTableCodeSchema)
+
+function transformTableCode(backendCode: BackendTableCode): TableCode {
+  return {
+    branchId: backendCode.branch_id,
+    branchName: backendCode.branch_name,
+    tableNumber: backendCode.table_number,
+    token: backendCode.token,
+  }
+}
+
+// Signed codes for printing on the tables of one branch (admin)
+export async function createTableCodes(branchId: number, tableNumbers: number[]): Promise<TableCode[]> {
+  const codes = await apiData<BackendTableCode[]>('/tables/codes', {
+    method: 'POST',
+    body: { branch_id: branchId, table_numbers: tableNumbers },
+    schema: tableCodesSchema,
+    errorMessage: 'Failed to generate table codes',
+  })
+  return codes.map(transformTableCode)
+}
+
+// Checks a scanned code; fails when it was tampered with or its branch is closed
+export async function verifyTableCode(token: string): Promise<TableCode> {
+  const code = await apiData<BackendTableCode>('/tables/verify', {
+    auth: false,
+    query: { token },
+    schema: backendTableCodeSchema,
+    errorMessage: 'This table code is not valid',
+  })
+  return transformTableCode(code)
+}
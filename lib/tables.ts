@@ -0,0 +1,34 @@
+// Table QR codes: each encodes the customer menu URL with a signed table token
+// in TABLE_QUERY_PARAM, so scanning it opens the menu ready to order at that table.
+
+export const TABLE_QUERY_PARAM = 'table'
+export const MAX_TABLE_NUMBER = 999
+// Most codes generated (and printed) in one go
+export const MAX_TABLES_PER_SHEET = 100
+
+export function getTableOrderUrl(token: string, origin: string): string {
+  return `${origin}/?${TABLE_QUERY_PARAM}=${encodeURIComponent(token)}`
+}
+
+// "1-12, 15, 20-22" → [1..12, 15, 20, 21, 22], or why the text can't be read
+export function parseTableNumbers(text: string): { tableNumbers: number[] } | { error: string } {
+  const numbers = new Set<number>()
+  for (const part of text.split(',').map((entry) => entry.trim()).filter(Boolean)) {
+    const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(part)
+    if (!match) return { error: `"${part}" is not a table number or range like 1-12` }
+    const start = Number(match[1])
+    const end = match[2] !== undefined ? Number(match[2]) : start
+    if (start < 1 || end > MAX_TABLE_NUMBER || end < start) {
+      return { error: `Table numbers must run upwards from 1 to ${MAX_TABLE_NUMBER}` }
+    }
+    for (let table = start; table <= end; table++) numbers.add(table)
+  }
+  if (numbers.size === 0) return { error: 'Enter the table numbers to print, e.g. 1-12' }
+  if (numbers.size > MAX_TABLES_PER_SHEET) return { error: `Generate at most ${MAX_TABLES_PER_SHEET} tables at a time` }
+  return { tableNumbers: [...numbers].sort((a, b) => a - b) }
+}
+
+// "Table 4 · Indiranagar" (the branch is left off when there is only one)
+export function formatTableLabel(tableNumber: number, branchName?: string): string {
+  return branchName ? `Table ${tableNumber} · ${branchName}` : `Table ${tableNumber}`
+}
@@ -17,10 +17,40 @@ export interface BackendMenuItem {
   image_url: string
   is_available: boolean
   preparation_time_minutes: number
+  // Sizes and add-ons; absent for items sold one way only
+  variants?: BackendMenuVariant[]
+  modifier_groups?: BackendModifierGroup[]
+  availability_windows?: BackendAvailabilityWindow[]
+  dietary_tags?: DietaryTag[]
+  // Absent when allergen information has not been recorded; [] means none
+  allergens?: Allergen[]
   created_at: string
   updated_at: string
 }
 
+// Priced relative to the item's base price
+export interface BackendMenuVariant {
+  id: number
+  name: string
+  price_delta: number
+  is_default: boolean
+}
+
+export interface BackendModifierOption {
+  id: number
+  name: string
+  price_delta: number
+}
+
+// e.g. "Milk" (pick 1) or "Extras" (pick up to 3)
+export interface BackendModifierGroup {
+  id: number
+  name: string
+  min_select: number
+  max_select: number
+  options: BackendModifierOption[]
+}
+
 // Frontend Menu Item (for UI)
 export interface MenuItem {
   id: number
@@ -31,6 +61,270 @@ export interface MenuItem {
   image: string
   isAvailable?: boolean
   preparationTime?: number
+  categoryId?: number
+  // Set when the admin supplied an image; otherwise `image` is derived from the name
+  imageUrl?: string
+  variants?: MenuVariant[]
+  modifierGroups?: ModifierGroup[]
+  dietaryTags?: DietaryTag[]
+  allergens?: Allergen[]
+  availabilityWindows?: AvailabilityWindow[]
+}
+
+export const DIETARY_TAGS = ['vegetarian', 'vegan', 'egg_free', 'gluten_free'] as const
+export type DietaryTag = typeof DIETARY_TAGS[number]
+
+export const ALLERGENS = ['nuts', 'dairy', 'gluten', 'egg', 'soy'] as const
+export type Allergen = typeof ALLERGENS[number]
+
+export interface MenuVariant {
+  id: number
+  name: string
+  priceDelta: number
+  isDefault: boolean
+}
+
+export interface ModifierOption {
+  id: number
+  name: string
+  priceDelta: number
+}
+
+export interface ModifierGroup {
+  id: number
+  name: string
+  minSelect: number
+  maxSelect: number
+  options: ModifierOption[]
+}
+
+// A customer's choice of size and add-ons for one cart line
+export interface MenuItemSelection {
+  variantId?: number
+  modifierOptionIds: number[]
+}
+
+// Backend Menu Category (from API)
+export interface BackendCategory {
+  id: number
+  name: string
+  sort_order: number
+  // Emoji shown on the customer category chips
+  icon: string | null
+  is_visible: boolean
+  // "HH:MM" local time; both null means all day
+  active_from: string | null
+  active_until: string | null
+  // Weekly schedule on top of the active hours; absent or empty means always
+  availability_windows?: BackendAvailabilityWindow[]
+  created_at: string
+  updated_at: string
+}
+
+// Orderable on `days` (0 = Sunday) between start and end, in the cafe's timezone.
+// An end before the start runs past midnight into the next day.
+export interface BackendAvailabilityWindow {
+  days: number[]
+  start_time: string
+  end_time: string
+}
+
+// Frontend Menu Category
+export interface MenuCategory {
+  id: number
+  name: string
+  sortOrder: number
+  icon?: string
+  isVisible: boolean
+  activeFrom?: string
+  activeUntil?: string
+  availabilityWindows?: AvailabilityWindow[]
+}
+
+export interface AvailabilityWindow {
+  days: number[]
+  // "HH:MM" in the cafe's timezone
+  from: string
+  until: string
+}
+
+// Create/update payload for a category (admin)
+export type MenuCategoryInput = Omit<MenuCategory, 'id'>
+
+// Create/update payload for a menu item (admin)
+export interface MenuItemInput {
+  name: string
+  price: number
+  categoryId: number
+  description: string
+  imageUrl?: string
+  isAvailable?: boolean
+  preparationTimeMinutes?: number
+  dietaryTags?: DietaryTag[]
+  allergens?: Allergen[]
+  availabilityWindows?: AvailabilityWindow[]
+  // Ids are omitted for new variants/groups/options; the server assigns them
+  variants?: (Omit<MenuVariant, 'id'> & { id?: number })[]
+  modifierGroups?: (Omit<ModifierGroup, 'id' | 'options'> & {
+    id?: number
+    options: (Omit<ModifierOption, 'id'> & { id?: number })[]
+  })[]
+}
+
+// Reprice every item in one category by a percentage or a fixed amount
+export interface BulkPriceChange {
+  categoryId: number
+  mode: 'percent' | 'amount'
+  value: number
+}
+
+// Backend Special (from API). A special promotes one menu item between two
+// dates (inclusive, cafe's timezone) at a fixed price or a percentage off.
+export interface BackendSpecial {
+  id: number
+  menu_item_id: number
+  // Optional marketing copy; the menu item's name/description are used otherwise
+  title: string | null
+  description: string | null
+  special_price: number | null
+  discount_percent: number | null
+  // "YYYY-MM-DD"
+  starts_on: string
+  ends_on: string
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// Frontend Special (for UI)
+export interface Special {
+  id: number
+  menuItemId: number
+  title?: string
+  description?: string
+  specialPrice?: number
+  discountPercent?: number
+  startsOn: string
+  endsOn: string
+  isActive: boolean
+}
+
+// Create/update payload for a special (admin)
+export type SpecialInput = Omit<Special, 'id'>
+
+// Backend Combo (from API). A combo is a bundle of menu items sold at one price;
+// each slot is filled with one item, chosen by the customer when it offers several.
+export interface BackendCombo {
+  id: number
+  name: string
+  description: string | null
+  price: number
+  image_url: string | null
+  is_available: boolean
+  slots: BackendComboSlot[]
+  created_at: string
+  updated_at: string
+}
+
+// Choices are the listed items, or any item in the category ("any Pastry")
+export interface BackendComboSlot {
+  id: number
+  name: string
+  menu_item_ids: number[]
+  category_id: number | null
+}
+
+// Frontend Combo (for UI)
+export interface Combo {
+  id: number
+  name: string
+  description: string
+  price: number
+  imageUrl?: string
+  isAvailable: boolean
+  slots: ComboSlot[]
+}
+
+export interface ComboSlot {
+  id: number
+  name: string
+  menuItemIds: number[]
+  categoryId?: number
+}
+
+// Create/update payload for a combo (admin); new slots have no id yet
+export type ComboInput = Omit<Combo, 'id' | 'slots'> & {
+  slots: (Omit<ComboSlot, 'id'> & { id?: number })[]
+}
+
+// Backend location settings (from API). Customers may order when they are within
+// the ordering radius of any active branch.
+export interface BackendLocationSettings {
+  ordering_radius_m: number
+  branches: BackendBranch[]
+  updated_at: string
+}
+
+export interface BackendBranch {
+  id: number
+  name: string
+  address: string | null
+  latitude: number
+  longitude: number
+  is_active: boolean
+}
+
+// Frontend location settings (for UI)
+export interface LocationSettings {
+  orderingRadiusMeters: number
+  branches: Branch[]
+}
+
+export interface Branch {
+  id: number
+  name: string
+  address?: string
+  latitude: number
+  longitude: number
+  isActive: boolean
+}
+
+// Update payload for the location settings (superadmin); new branches have no id yet
+export type LocationSettingsInput = Omit<LocationSettings, 'branches'> & {
+  branches: (Omit<Branch, 'id'> & { id?: number })[]
+}
+
+// Signed table code (from API) behind a table's QR sticker. Customers who scan
+// it can order without sharing their location, and orders note the table.
+export interface BackendTableCode {
+  branch_id: number
+  branch_name: string
+  table_number: number
+  token: string
+}
+
+// Frontend table code (for UI)
+export interface TableCode {
+  branchId: number
+  branchName: string
+  tableNumber: number
+  token: string
+}
+
+// Backend pickup slot (from API)
+export interface BackendPickupSlot {
+  start: string
+  capacity: number
+  booked: number
+}
+
+// Frontend pickup slot (for UI)
+export interface PickupSlot {
+  // ISO start of the slot; sent back as the order's pickupTime
+  start: string
+  capacity: number
+  booked: number
+  remaining: number
 }
 
 // Backend Feedback Item (from API)
@@ -93,12 +387,41 @@ export interface FeedbackStats {
 export interface BackendOrderItem {
   id: number
   item_name: string
+  // Unit price including the variant and modifiers
   item_price: number
   quantity: number
   special_instructions: string | null
   subtotal: number
+  variant_name?: string | null
+  modifiers?: BackendOrderItemModifier[]
+  // Combo lines: the items that go to the kitchen, billed at the combo price above
+  combo_id?: number | null
+  components?: BackendOrderItemComponent[]
 }
 
+export interface BackendOrderItemComponent {
+  menu_item_id: number
+  item_name: string
+  // Total for the line (combo quantity × items per combo)
+  quantity: number
+}
+
+export interface BackendOrderItemModifier {
+  group_name: string
+  option_name: string
+  price_delta: number
+}
+
+// How the customer gets their order
+export const ORDER_TYPES = ['dine_in', 'takeaway', 'delivery'] as const
+export type OrderType = typeof ORDER_TYPES[number]
+
+// Allowed moves between these live in ./order-status
+export const ORDER_STATUSES = ['pending', 'confirmed', 'preparing', 'ready', 'delivered', 'cancelled'] as const
+export type OrderStatus = typeof ORDER_STATUSES[number]
+export const PAYMENT_STATUSES = ['pending', 'paid', 'failed', 'refunded'] as const
+export type PaymentStatus = typeof PAYMENT_STATUSES[number]
+
 // Backend Order (from API)
 export interface BackendOrder {
   id: number
@@ -106,8 +429,8 @@ export interface BackendOrder {
   customer_phone: string
   customer_email: string | null
   total_amount: number
-  order_status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'delivered' | 'cancelled'
-  payment_status: 'pending' | 'paid' | 'failed' | 'refunded'
+  order_status: OrderStatus
+  payment_status: PaymentStatus
   payment_method: 'cash' | 'card' | 'upi' | 'online' | null
   special_instructions: string | null
   delivery_address: string | null
@@ -117,9 +440,31 @@ export interface BackendOrder {
   cancelled_at: string | null
   cancelled_reason: string | null
   cancelled_by: string | null
+  // Missing on orders placed before order types existed, which were all dine-in
+  order_type?: OrderType
+  // When a takeaway order will be collected
+  pickup_time?: string | null
+  delivery_fee?: number
+  // Set for dine-in orders, from the table's QR code or as entered
+  table_number?: number | null
+  branch_name?: string | null
   items: BackendOrderItem[]
   created_at: string
   updated_at: string
+  // Only in the response to placing the order; needed to track it
+  tracking_token?: string
+}
+
+// Public tracking view of an order: its progress, never the customer's contact details
+export interface BackendOrderTracking {
+  id: number
+  order_status: OrderStatus
+  order_type: OrderType
+  order_date: string
+  pickup_time: string | null
+  estimated_delivery_time: string | null
+  cancelled_reason: string | null
+  items: BackendOrderItem[]
 }
 
 // Frontend Order (for UI)
@@ -129,8 +474,8 @@ export interface Order {
   customerPhone: string
   customerEmail?: string
   totalAmount: number
-  orderStatus: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'delivered' | 'cancelled'
-  paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded'
+  orderStatus: OrderStatus
+  paymentStatus: PaymentStatus
   paymentMethod?: 'cash' | 'card' | 'upi' | 'online'
   specialInstructions?: string
   deliveryAddress?: string
@@ -140,11 +485,24 @@ export interface Order {
   cancelledAt?: string
   cancelledReason?: string
   cancelledBy?: string
+  orderType: OrderType
+  // Set on scheduled takeaway orders
+  pickupTime?: string
+  deliveryFee?: number
+  tableNumber?: number
+  branchName?: string
   items: OrderItem[]
   createdAt: string
   updatedAt: string
+  // Set on the order returned by placeOrder
+  trackingToken?: string
 }
 
+export type OrderTracking = Pick<
+  Order,
+  'id' | 'orderStatus' | 'orderType' | 'orderDate' | 'pickupTime' | 'estimatedDeliveryTime' | 'cancelledReason' | 'items'
+>
+
 // Frontend Order Item
 export interface OrderItem {
   id: number
@@ -153,6 +511,22 @@ export interface OrderItem {
   quantity: number
   specialInstructions?: string
   subtotal: number
+  variantName?: string
+  modifiers?: OrderItemModifier[]
+  comboId?: number
+  components?: OrderItemComponent[]
+}
+
+export interface OrderItemComponent {
+  menuItemId: number
+  itemName: string
+  quantity: number
+}
+
+export interface OrderItemModifier {
+  groupName: string
+  optionName: string
+  priceDelta: number
 }
 
 // Order submission data
@@ -164,22 +538,41 @@ export interface OrderSubmission {
     menuItemId: number
     quantity: number
     specialInstructions?: string
+    variantId?: number
+    modifierOptionIds?: number[]
+    // Priced at the special's rate when it is running today
+    specialId?: number
+  }[]
+  // Combos with the menu item picked for each slot, in slot order
+  combos?: {
+    comboId: number
+    quantity: number
+    selections: number[]
+    specialInstructions?: string
   }[]
   paymentMethod?: 'cash' | 'card' | 'upi' | 'online'
   specialInstructions?: string
+  // Defaults to dine-in. Dine-in needs a table (tableToken or tableNumber)
+  // and delivery a deliveryAddress; takeaway may be scheduled with a pickupTime.
+  orderType?: OrderType
+  // From the scanned table QR code; the server checks it and records the table
+  tableToken?: string
+  tableNumber?: number
+  // ISO start of a pickup slot; omitted for as soon as possible
+  pickupTime?: string
   deliveryAddress?: string
 }
 
 // Order status update
 export interface OrderStatusUpdate {
-  status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'delivered' | 'cancelled'
+  status: OrderStatus
   changedBy?: string
   notes?: string
 }
 
 // Payment status update
 export interface PaymentStatusUpdate {
-  paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded'
+  paymentStatus: PaymentStatus
   paymentMethod?: 'cash' | 'card' | 'upi' | 'online'
   notes?: string
 }
@@ -197,6 +590,14 @@ export interface OrdersListResponse extends ApiResponse<BackendOrder[]> {
   currentPage: number
 }
 
+// Live order feed (/orders/stream); every event carries the full order
+export type OrderEventType = 'order-created' | 'status-changed' | 'payment-changed' | 'cancelled'
+
+export interface OrderEvent {
+  type: OrderEventType
+  order: Order
+}
+
 // Order statistics from API
 export interface OrderStats {
   orders_today: number;
@@ -239,20 +640,6 @@ export interface OrdersInsights {
   top_items: OrdersTopItem[];
 }
 
-// Category mapping
-export const CATEGORY_MAP: Record<number, string> = {
-  1: "Tea",
-  2: "Coffee", 
-  3: "Cold Coffee",
-  4: "Milk Shake",
-  5: "Fresh Juice",
-  6: "Ice Cream",
-  7: "Pastry",
-  8: "Food",
-  9: "Snacks",
-  10: "Fries"
-}
-
 // Order status display mapping
 export const ORDER_STATUS_LABELS: Record<string, string> = {
   pending: "Order Placed",
@@ -263,6 +650,28 @@ export const ORDER_STATUS_LABELS: Record<string, string> = {
   cancelled: "Cancelled"
 }
 
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  dine_in: "Dine-in",
+  takeaway: "Takeaway",
+  delivery: "Delivery"
+}
+
+// Dietary tag and allergen display mapping
+export const DIETARY_TAG_LABELS: Record<DietaryTag, string> = {
+  vegetarian: "Vegetarian",
+  vegan: "Vegan",
+  egg_free: "Egg-free",
+  gluten_free: "Gluten-free"
+}
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  nuts: "Nuts",
+  dairy: "Dairy",
+  gluten: "Gluten",
+  egg: "Egg",
+  soy: "Soy"
+}
+
 // Payment status display mapping
 export const PAYMENT_STATUS_LABELS: Record<string, string> = {
   pending: "Payment Pending",